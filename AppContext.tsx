@@ -1,22 +1,66 @@
 // src/AppContext.tsx
 
 import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { ChecklistTemplate, Incident, InventoryPart, PartMovement, PurchaseOrder, Role, Ticket, TicketStatus } from './types';
+import { calculatePriority, folioOf, uniqueId } from './utils';
 import {
-  AuditEvent,
-  InventoryPart,
-  PartMovement,
-  POStatus,
-  PurchaseOrder,
-  Role,
-  Ticket,
-  TicketStatus,
-  Urgency,
-  Impact,
-} from './types';
-import { INITIAL_PARTS, INITIAL_POS, INITIAL_TICKETS } from './constants';
-import { calculatePriority } from './utils';
-
-type DemoScenario = 'GUEST_COMPLAINT' | 'CLEANING_REPORT' | 'BLOCK_PART' | 'BLOCK_VENDOR';
+  clearPersistedData,
+  loadPersistedData,
+  RecoveryReport,
+  reportNeedsAttention,
+  savePersistedCollection,
+  sanitizeCollection,
+  SCHEMA_VERSION,
+  stampSchemaVersion,
+} from './persistence';
+import { createStorageAdapter, StorageAdapter, StorageBackend, SyncStatus } from './storage';
+import { WorkflowRules } from './workflow';
+import { CostSettings, TicketCost, ticketCost } from './costs';
+import { SlaPolicy, SlaSettings, slaStatus } from './sla';
+import { EscalationFiring, EscalationRule } from './escalation';
+import { PriorityWeights } from './priority';
+import {
+  applyEvent,
+  compareEvents,
+  describeEvent,
+  DomainEvent,
+  DomainState,
+  EMPTY_STATE,
+  eventId,
+  needsSnapshot,
+  newOrigin,
+  replay,
+  sortEvents,
+  SNAPSHOTS_KEPT,
+  StateSnapshot,
+  stateAsOf as replayUntil,
+  takeSnapshot,
+} from './events';
+import { diffSnapshots, findCurrent, JOURNAL_LIMIT, JournalChange, JournalEntry, restoreChange } from './journal';
+import { mergeRemote, revMap, sameRecord, SyncBase, SyncNotice } from './sync';
+import { auditInventory, IntegrityReport } from './integrity';
+import { BackupArchive, backupFileName, createBackup, planRestore, RestoreMode, RestorePlan } from './backup';
+import * as domain from './domain';
+import {
+  ChecklistTemplateData,
+  CommandContext,
+  CommandResult,
+  createInitialLog,
+  DemoScenario,
+  execute,
+  IncidentUpdate,
+  NewAttachment,
+  NewIncidentData,
+  NewNoteData,
+  NewTicketData,
+  NewVendorCharge,
+  PendingEvent,
+  Permissions,
+  permissionsFor,
+  POForPartParams,
+  POParams,
+  StatusChangeOptions,
+} from './domain';
 
 interface AppContextType {
   role: Role;
@@ -24,8 +68,38 @@ interface AppContextType {
 
   // Tickets
   tickets: Ticket[];
-  addTicket: (ticket: Omit<Ticket, 'id' | 'createdAt' | 'history' | 'priorityScore' | 'status'>) => void;
+  // Un probable duplicado detiene la creación (`duplicates`) salvo con allowDuplicate
+  addTicket: (
+    ticket: NewTicketData,
+    opts?: { allowDuplicate?: boolean }
+  ) => { ok: boolean; message: string; ticketId?: string; duplicates?: Ticket[] };
+  addReport: (ticketId: string, description: string) => { ok: boolean; message: string };
+  likelyDuplicatesOf: (ticket: Ticket) => Ticket[];
+  mergeTickets: (survivorId: string, duplicateIds: string[]) => { ok: boolean; message: string };
   updateTicket: (id: string, updates: Partial<Ticket>, actionDescription: string) => void;
+  addTicketNote: (ticketId: string, note: NewNoteData) => { ok: boolean; message: string };
+  // Evidencia: el archivo ya quedó guardado en este dispositivo (attachments.ts); aquí entra el registro
+  addTicketAttachments: (ticketId: string, files: NewAttachment[]) => { ok: boolean; message: string };
+  removeTicketAttachment: (ticketId: string, attachmentId: string) => { ok: boolean; message: string };
+  // Costos (Gerencia): lo que cobró el proveedor en este ticket
+  addVendorCharge: (ticketId: string, charge: NewVendorCharge) => { ok: boolean; message: string };
+  removeVendorCharge: (ticketId: string, chargeId: string) => { ok: boolean; message: string };
+  // Cronómetros de mano de obra, por técnico
+  startWork: (ticketId: string, technician: string) => { ok: boolean; message: string };
+  pauseWork: (ticketId: string, technician: string) => { ok: boolean; message: string };
+  stopWork: (ticketId: string, technician: string) => { ok: boolean; message: string };
+  // Checklist de verificación: cada renglón se guarda con quién lo marcó y cuándo
+  markChecklistItem: (ticketId: string, itemId: string, checked: boolean) => { ok: boolean; message: string };
+  // Cambio de estado según el flujo (workflow.ts): rol, precondiciones y efectos
+  changeTicketStatus: (id: string, to: TicketStatus, opts?: StatusChangeOptions) => { ok: boolean; message: string };
+
+  // Fallas generales (un incidente agrupa los tickets de todas las habitaciones afectadas)
+  incidents: Incident[];
+  declareIncident: (data: NewIncidentData) => { ok: boolean; message: string; incidentId?: string };
+  linkToIncident: (incidentId: string, ticketIds: string[]) => { ok: boolean; message: string };
+  unlinkFromIncident: (ticketId: string) => { ok: boolean; message: string };
+  updateIncident: (incidentId: string, update: IncidentUpdate) => { ok: boolean; message: string };
+  notifyIncidentGuests: (incidentId: string) => { ok: boolean; message: string };
 
   // Inventario
   parts: InventoryPart[];
@@ -36,31 +110,89 @@ interface AppContextType {
   reservePartForTicket: (ticketId: string, partId: string, qty: number) => { ok: boolean; message: string };
   releaseReservationForTicket: (ticketId: string, note?: string) => { ok: boolean; message: string };
   issueReservedPartForTicket: (ticketId: string, note?: string) => { ok: boolean; message: string };
+  consumePart: (params: { partId: string; qty: number; ticketId?: string; note?: string }) => {
+    ok: boolean;
+    message: string;
+  };
 
-  createPOForPart: (params: {
-    partId: string;
-    qty: number;
-    vendor?: string;
-    etaDays?: number;
-    ticketId?: string;
-  }) => { ok: boolean; message: string; poId?: string };
+  createPO: (params: POParams) => { ok: boolean; message: string; poId?: string };
+  createPOForPart: (params: POForPartParams) => { ok: boolean; message: string; poId?: string };
+  sendPO: (poId: string) => { ok: boolean; message: string };
   receivePO: (poId: string) => { ok: boolean; message: string };
+  cancelPO: (poId: string) => { ok: boolean; message: string };
   adjustStock: (params: { partId: string; delta: number; note?: string }) => { ok: boolean; message: string };
 
+  // Integridad de inventario: registro vs libro de movimientos vs reservas de tickets
+  inventoryAudit: IntegrityReport;
+  reconcileInventory: () => { ok: boolean; message: string };
+
+  // Registro de eventos (fuente de verdad) y consulta histórica
+  events: DomainEvent[];
+  stateAsOf: (date: string) => DomainState;
+
+  // Persistencia: reporte de migración/recuperación de la última carga
+  recoveryReport: RecoveryReport | null;
+  dismissRecoveryReport: () => void;
+  storageBackend: StorageBackend;
+  syncStatus: SyncStatus | null; // solo con backend 'server'
+  outbox: DomainEvent[]; // acciones propias aún sin confirmar por el servidor
+  dismissRejected: () => void; // olvida los rechazos del servidor ya vistos
+
+  // Sincronización entre pestañas / dispositivos
+  syncNotices: SyncNotice[];
+  dismissSyncNotice: (id: string) => void;
+  resolveConflict: (
+    ticketId: string,
+    conflictId: string,
+    keep: Partial<Record<keyof Ticket, 'current' | 'incoming'>>
+  ) => { ok: boolean; message: string };
+
+  // Deshacer / rehacer (por sesión)
+  undo: () => { ok: boolean; message: string };
+  redo: () => { ok: boolean; message: string };
+  undoLabel?: string;
+  redoLabel?: string;
+
   // Utilidades
   resetDemoData: () => void;
   exportCSV: () => void;
 
+  // Respaldo completo (JSON versionado)
+  exportBackup: () => void;
+  previewRestore: (archive: BackupArchive, mode: RestoreMode) => RestorePlan;
+  restoreBackup: (archive: BackupArchive, mode: RestoreMode, applySettings: boolean) => { ok: boolean; message: string };
+
   // Escenarios demo
   runScenario: (scenario: DemoScenario) => string | null;
 
   // Permisos para UI
-  permissions: {
-    canViewInventory: boolean; // Marc + Mantenimiento
-    canReserve: boolean; // Marc + Mantenimiento
-    canCreatePO: boolean; // solo Marc
-    canAdjustStock: boolean; // solo Marc
+  permissions: Permissions; // inventario/consumo: Marc + Mantenimiento; OC y ajustes: solo Marc
+
+  // Reglas opcionales del flujo (Gerencia); no entran a deshacer/rehacer
+  rules: WorkflowRules;
+  setWorkflowRules: (changes: Partial<WorkflowRules>) => { ok: boolean; message: string };
+  // Niveles de servicio: políticas que sellan los vencimientos de cada ticket nuevo (Gerencia); no entran a deshacer/rehacer
+  sla: SlaSettings;
+  setSlaPolicies: (policies: SlaPolicy[]) => { ok: boolean; message: string };
+  // Listas de verificación por activo / tipo de falla (Gerencia); tampoco entran a deshacer/rehacer
+  checklists: ChecklistTemplate[];
+  saveChecklistTemplate: (data: ChecklistTemplateData) => { ok: boolean; message: string };
+  removeChecklistTemplate: (templateId: string) => { ok: boolean; message: string };
+  // Escalamiento automático (Gerencia define las reglas; la app las evalúa sola) y su bitácora
+  escalations: EscalationRule[];
+  escalationLog: EscalationFiring[];
+  setEscalationRules: (rules: EscalationRule[]) => { ok: boolean; message: string };
+  // Pesos del puntaje de prioridad (Gerencia); no entran a deshacer/rehacer
+  priority: PriorityWeights;
+  setPriorityWeights: (weights: PriorityWeights) => { ok: boolean; message: string };
+
+  // Tarifas de mano de obra y costo unitario de refacciones (Gerencia); las tarifas no entran a deshacer/rehacer
+  costs: CostSettings;
+  setCostSettings: (changes: { laborRate?: number; technicianRates?: Record<string, number | null> }) => {
+    ok: boolean;
+    message: string;
   };
+  setPartUnitCost: (partId: string, unitCost: number) => { ok: boolean; message: string };
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -69,49 +201,19 @@ const AppContext = createContext<AppContextType | undefined>(undefined);
 // Helpers
 // =========================
 
-const nextId = (prefix: string, existingIds: string[], start: number) => {
-  const max = existingIds.reduce((m, id) => {
-    const n = parseInt(String(id).replace(/\D/g, ''), 10);
-    return Number.isFinite(n) ? Math.max(m, n) : m;
-  }, start);
-  return `${prefix}${max + 1}`;
-};
-
-const nextTicketId = (tickets: Ticket[]) => nextId('T-', tickets.map(t => t.id), 1000);
-const nextMovementId = (movs: PartMovement[]) => nextId('M-', movs.map(m => m.id), 0);
-const nextPOId = (pos: PurchaseOrder[]) => nextId('OC-', pos.map(p => p.id), 0);
+const logStorageError = (err: unknown) => console.error('[storage]', err);
 
-const createAudit = (user: Role, action: string): AuditEvent => ({
-  date: new Date().toISOString(),
-  action,
-  user,
-});
+// Columnas de costo del CSV: refacciones, mano de obra, proveedor y total (MXN, 2 decimales)
+const costColumns = (c: TicketCost) => [c.totals.parts, c.totals.labor, c.totals.vendor, c.total].map(v => v.toFixed(2));
 
-const clampNonNeg = (n: number) => (Number.isFinite(n) ? Math.max(0, n) : 0);
-
-// Helper to resolve part by name (para migración DEMO)
-const findPartIdByName = (parts: InventoryPart[], name?: string) => {
-  if (!name) return undefined;
-  const match = parts.find(p => p.name.toLowerCase().trim() === name.toLowerCase().trim());
-  return match?.id;
-};
+// El registro y el estado que resulta de reproducirlo viajan siempre juntos
+interface Core {
+  state: DomainState;
+  events: DomainEvent[];
+  snapshots: StateSnapshot[];
+}
 
-const buildTicket = (
-  tickets: Ticket[],
-  data: Omit<Ticket, 'id' | 'createdAt' | 'history' | 'priorityScore'>,
-  auditUser: Role,
-  auditAction: string
-): Ticket => {
-  const t: Ticket = {
-    ...data,
-    id: nextTicketId(tickets),
-    createdAt: new Date().toISOString(),
-    history: [createAudit(auditUser, auditAction)],
-    priorityScore: 0,
-  };
-  t.priorityScore = calculatePriority(t);
-  return t;
-};
+const initialCore = (note: string): Core => ({ ...createInitialLog(note), snapshots: [] });
 
 // =========================
 // Provider
@@ -120,413 +222,399 @@ const buildTicket = (
 export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [role, setRole] = useState<Role>(Role.MANAGEMENT);
 
-  const [tickets, setTickets] = useState<Ticket[]>([]);
-  const [parts, setParts] = useState<InventoryPart[]>([]);
-  const [pos, setPos] = useState<PurchaseOrder[]>([]);
-  const [movements, setMovements] = useState<PartMovement[]>([]);
+  const [core, setCore] = useState<Core>({ state: EMPTY_STATE, events: [], snapshots: [] });
+  const { tickets, parts, pos, movements, incidents } = core.state;
+
+  // Copia síncrona: acciones encadenadas en el mismo clic ven el resultado de las anteriores
+  const coreRef = useRef(core);
+  const commit = (next: Core) => {
+    coreRef.current = next;
+    setCore(next);
+  };
+
+  const [storage] = useState<StorageAdapter>(() => createStorageAdapter());
+  const origin = useRef(newOrigin());
+  const seq = useRef(0);
+
+  const [recoveryReport, setRecoveryReport] = useState<RecoveryReport | null>(null);
+  const [syncNotices, setSyncNotices] = useState<SyncNotice[]>([]);
+  const [undoStack, setUndoStack] = useState<JournalEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<JournalEntry[]>([]);
+
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  useEffect(() => storage.subscribeStatus?.(setSyncStatus), [storage]);
+  // El servidor revisa lo que se sube con el rol activo (antes de cargar y de guardar: va primero)
+  useEffect(() => storage.setActor?.(role), [storage, role]);
 
   const [hydrated, setHydrated] = useState(false);
   const didHydrate = useRef(false);
 
-  const permissions = useMemo(() => {
-    const canViewInventory = role === Role.MANAGEMENT || role === Role.MAINTENANCE;
-    const canReserve = role === Role.MANAGEMENT || role === Role.MAINTENANCE;
-    const canCreatePO = role === Role.MANAGEMENT;
-    const canAdjustStock = role === Role.MANAGEMENT;
-    return { canViewInventory, canReserve, canCreatePO, canAdjustStock };
-  }, [role]);
-
-  // Load from local storage or init
-  useEffect(() => {
-    const storedTickets = localStorage.getItem('metodiko_demo_tickets');
-    const storedParts = localStorage.getItem('metodiko_demo_parts');
-    const storedPOs = localStorage.getItem('metodiko_demo_pos');
-    const storedMovs = localStorage.getItem('metodiko_demo_movements');
-
-    // Parts
-    let loadedParts: InventoryPart[] = INITIAL_PARTS;
-    if (storedParts) {
-      try {
-        loadedParts = JSON.parse(storedParts);
-      } catch {
-        loadedParts = INITIAL_PARTS;
-      }
-    }
+  const permissions = useMemo(() => permissionsFor(role), [role]);
 
-    // Tickets
-    let loadedTickets: Ticket[] = INITIAL_TICKETS;
-    if (storedTickets) {
-      try {
-        loadedTickets = JSON.parse(storedTickets);
-      } catch {
-        loadedTickets = INITIAL_TICKETS;
-      }
-    }
+  // =========================
+  // Registro de eventos
+  // =========================
 
-    // Migración suave (DEMO): mapear partName -> partId si falta
-    loadedTickets = loadedTickets.map(t => {
-      const patched: Ticket = { ...t };
-      if (patched.needsPart && !patched.partId && patched.partName) {
-        const pid = findPartIdByName(loadedParts, patched.partName);
-        if (pid) patched.partId = pid;
-      }
-      return { ...patched, priorityScore: calculatePriority(patched) };
+  // Toda mutación pasa por aquí: se sellan los eventos, se agregan al registro y se aplican al estado
+  const dispatch = (pending: PendingEvent[]) => {
+    if (pending.length === 0) return;
+    const prev = coreRef.current;
+    const { state, events: stamped } = execute(prev.state, pending, {
+      user: role,
+      date: new Date().toISOString(),
+      origin: origin.current,
+      nextEventId: () => eventId(origin.current, ++seq.current),
     });
+    const events = [...prev.events, ...stamped];
+    const snapshots = needsSnapshot(events, prev.snapshots)
+      ? [...prev.snapshots, takeSnapshot(events, state)].slice(-SNAPSHOTS_KEPT)
+      : prev.snapshots;
+    commit({ state, events, snapshots });
+  };
 
-    // POs
-    let loadedPOs: PurchaseOrder[] = INITIAL_POS;
-    if (storedPOs) {
-      try {
-        loadedPOs = JSON.parse(storedPOs);
-      } catch {
-        loadedPOs = INITIAL_POS;
-      }
-    }
+  const stateAsOf = (date: string) => replayUntil(core.events, core.snapshots, date);
 
-    // Movements
-    let loadedMovs: PartMovement[] = [];
-    if (storedMovs) {
-      try {
-        loadedMovs = JSON.parse(storedMovs);
-      } catch {
-        loadedMovs = [];
-      }
-    }
+  // Load from storage or init (migraciones + validación en persistence.ts; el estado sale del registro)
+  useEffect(() => {
+    let cancelled = false;
+    const fallback = initialCore('Datos iniciales DEMO');
+    loadPersistedData(storage, { ...fallback.state, events: fallback.events, snapshots: [] })
+      .then(({ data, report }) => {
+        if (cancelled) return;
+        const events = sortEvents(data.events.length ? data.events : fallback.events);
+        const state = replay(events, data.snapshots);
+        // La prioridad se recalcula con los pesos vigentes (la antigüedad siguió sumando mientras la app estuvo cerrada)
+        const ticketsNow = state.tickets.map(t => ({ ...t, priorityScore: calculatePriority(t, state.priority) }));
+        commit({ state: { ...state, tickets: ticketsNow }, events, snapshots: data.snapshots });
+        setRecoveryReport(reportNeedsAttention(report) ? report : null);
+        if (report.toVersion === SCHEMA_VERSION) stampSchemaVersion(storage).catch(logStorageError);
+
+        didHydrate.current = true;
+        setHydrated(true);
+      })
+      .catch(err => {
+        // Backend inaccesible (ej. IndexedDB bloqueado): arrancar con datos iniciales sin guardar encima
+        logStorageError(err);
+        if (cancelled) return;
+        commit(fallback);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [storage]);
 
-    setParts(loadedParts);
-    setTickets(loadedTickets);
-    setPos(loadedPOs);
-    setMovements(loadedMovs);
+  // Ids de eventos conocidos (última vez que se guardó o se recibió de otra pestaña)
+  const syncBase = useRef<SyncBase>(new Map());
 
-    didHydrate.current = true;
-    setHydrated(true);
-  }, []);
+  // Save on change (solo después de hidratar; el adaptador decide si escribe todo o solo lo que cambió)
+  useEffect(() => {
+    if (!hydrated || !didHydrate.current) return;
+    syncBase.current = revMap(core.events);
+    savePersistedCollection(storage, 'events', core.events).catch(logStorageError);
+  }, [core.events, hydrated, storage]);
 
-  // Save to local storage on change (solo después de hidratar)
   useEffect(() => {
     if (!hydrated || !didHydrate.current) return;
-    localStorage.setItem('metodiko_demo_tickets', JSON.stringify(tickets));
-  }, [tickets, hydrated]);
+    savePersistedCollection(storage, 'snapshots', core.snapshots).catch(logStorageError);
+  }, [core.snapshots, hydrated, storage]);
 
+  // Vista materializada: la leen la exportación y versiones anteriores de la app
   useEffect(() => {
     if (!hydrated || !didHydrate.current) return;
-    localStorage.setItem('metodiko_demo_parts', JSON.stringify(parts));
-  }, [parts, hydrated]);
+    savePersistedCollection(storage, 'tickets', tickets).catch(logStorageError);
+  }, [tickets, hydrated, storage]);
 
   useEffect(() => {
     if (!hydrated || !didHydrate.current) return;
-    localStorage.setItem('metodiko_demo_pos', JSON.stringify(pos));
-  }, [pos, hydrated]);
+    savePersistedCollection(storage, 'parts', parts).catch(logStorageError);
+  }, [parts, hydrated, storage]);
 
   useEffect(() => {
     if (!hydrated || !didHydrate.current) return;
-    localStorage.setItem('metodiko_demo_movements', JSON.stringify(movements));
-  }, [movements, hydrated]);
+    savePersistedCollection(storage, 'pos', pos).catch(logStorageError);
+  }, [pos, hydrated, storage]);
+
+  useEffect(() => {
+    if (!hydrated || !didHydrate.current) return;
+    savePersistedCollection(storage, 'movements', movements).catch(logStorageError);
+  }, [movements, hydrated, storage]);
+
+  useEffect(() => {
+    if (!hydrated || !didHydrate.current) return;
+    savePersistedCollection(storage, 'incidents', incidents).catch(logStorageError);
+  }, [incidents, hydrated, storage]);
+
+  const dismissRecoveryReport = () => setRecoveryReport(null);
 
   // =========================
-  // Tickets
+  // Sincronización entre pestañas
   // =========================
 
-  const addTicket = (data: Omit<Ticket, 'id' | 'createdAt' | 'history' | 'priorityScore' | 'status'>) => {
-    const newTicket: Ticket = {
-      ...data,
-      id: nextTicketId(tickets),
-      createdAt: new Date().toISOString(),
-      status: TicketStatus.OPEN,
-      priorityScore: 0,
-      history: [createAudit(role, 'Ticket Creado')],
-    };
-    newTicket.priorityScore = calculatePriority(newTicket);
-    setTickets(prev => [newTicket, ...prev]);
+  const pushNotice = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const date = new Date().toISOString();
+    setSyncNotices(prev => [{ id: `sync-${date}`, date, lines }, ...prev].slice(0, 5));
   };
 
-  const updateTicket = (id: string, updates: Partial<Ticket>, actionDescription: string) => {
-    setTickets(prev =>
-      prev.map(t => {
-        if (t.id !== id) return t;
-        const updated = { ...t, ...updates };
-        updated.history = [...updated.history, createAudit(role, actionDescription)];
-        updated.priorityScore = calculatePriority(updated);
-        return updated;
-      })
-    );
-  };
+  // Une el registro de otra pestaña con el propio y reconstruye solo lo necesario
+  const applyRemoteEvents = (incomingRaw: unknown[]) => {
+    const incoming = sortEvents(sanitizeCollection('events', incomingRaw) as DomainEvent[]);
+    const prev = coreRef.current;
+    const res = mergeRemote(prev.events, incoming, syncBase.current);
+    syncBase.current = revMap(incoming);
+
+    // La otra pestaña reinició los datos: su registro reemplaza al nuestro
+    if (res.removed.length > 0) {
+      commit({ state: replay(incoming), events: incoming, snapshots: [] });
+      setUndoStack([]);
+      setRedoStack([]);
+      pushNotice(['Datos reiniciados en otra pestaña o dispositivo.']);
+      return;
+    }
 
-  const updateTicketAs = (user: Role, id: string, updates: Partial<Ticket>, action: string) => {
-    setTickets(prev =>
-      prev.map(t => {
-        if (t.id !== id) return t;
-        const updated = { ...t, ...updates };
-        updated.history = [...updated.history, createAudit(user, action)];
-        updated.priorityScore = calculatePriority(updated);
-        return updated;
-      })
-    );
-  };
+    const arrived = res.changed.filter(c => !c.before).map(c => c.after);
+    if (arrived.length === 0) {
+      // La otra pestaña guardó sin nuestros últimos eventos: volver a escribir la unión
+      if (res.keptLocal) savePersistedCollection(storage, 'events', prev.events).catch(logStorageError);
+      return;
+    }
 
-  // =========================
-  // Inventario
-  // =========================
+    const events = sortEvents(res.merged);
+    const last = prev.events[prev.events.length - 1];
+    // Lo normal: lo nuevo va después de lo propio y basta con aplicarlo; si se intercala, se reconstruye
+    const appendOnly = !last || arrived.every(e => compareEvents(e, last) > 0);
+    const state = appendOnly ? arrived.reduce(applyEvent, prev.state) : replay(events, prev.snapshots);
+    commit({ state, events, snapshots: prev.snapshots });
 
-  const addMovement = (m: Omit<PartMovement, 'id' | 'date' | 'user'>) => {
-    setMovements(prev => [
-      {
-        ...m,
-        id: nextMovementId(prev),
-        date: new Date().toISOString(),
-        user: role,
-      },
-      ...prev,
-    ]);
+    // Los conflictos por campo los deja el reductor en el ticket (visibles en todas las pestañas)
+    const opened = state.tickets.filter(t => (t.conflicts?.length ?? 0) > (prev.state.tickets.find(p => p.id === t.id)?.conflicts?.length ?? 0));
+    pushNotice([...arrived.map(e => describeEvent(e, state)), ...opened.map(t => `${folioOf(t)}: cambios en conflicto por resolver`)]);
   };
 
-  const reservePartForTicket = (ticketId: string, partId: string, qty: number) => {
-    if (!permissions.canReserve) return { ok: false, message: 'Permiso insuficiente para reservar refacciones.' };
-    const q = Math.max(1, Math.floor(qty || 1));
+  useEffect(() => {
+    if (!hydrated) return;
+    return storage.subscribe('events', applyRemoteEvents);
+  }, [hydrated, storage]);
 
-    const ticket = tickets.find(t => t.id === ticketId);
-    if (!ticket) return { ok: false, message: 'Ticket no encontrado.' };
+  const dismissSyncNotice = (id: string) => setSyncNotices(prev => prev.filter(n => n.id !== id));
 
-    const part = parts.find(p => p.id === partId);
-    if (!part) return { ok: false, message: 'Refacción no encontrada.' };
+  // Bandeja de salida: lo propio que el servidor aún no confirma, en el orden en que se hizo
+  const outbox = useMemo(() => {
+    const pending = new Set(syncStatus?.pending ?? []);
+    return pending.size ? core.events.filter(e => pending.has(e.id)) : [];
+  }, [core.events, syncStatus]);
 
-    const available = clampNonNeg(part.stockOnHand - part.stockReserved);
-    if (available < q) {
-      return {
-        ok: false,
-        message: `Stock insuficiente. Disponible: ${available}. Requerido: ${q}.`,
-      };
-    }
+  // Lo que el servidor rechazó sale del registro propio: la copia vuelve a ser la del servidor
+  useEffect(() => {
+    const rejected = syncStatus?.rejected ?? [];
+    const prev = coreRef.current;
+    const dropped = prev.events.filter(e => rejected.some(r => r.id === e.id));
+    if (!hydrated || dropped.length === 0) return;
+    const events = prev.events.filter(e => !dropped.includes(e));
+    commit({ state: replay(events), events, snapshots: [] });
+    setUndoStack([]);
+    setRedoStack([]);
+    pushNotice(dropped.map(e => `Rechazado por el servidor: ${describeEvent(e, prev.state)} (${rejected.find(r => r.id === e.id)?.reason})`));
+  }, [syncStatus, hydrated]);
+
+  const dismissRejected = () => storage.dismissRejected?.();
 
-    // Si ya tenía una refacción reservada, liberarla primero (para evitar dobles reservas)
-    if (ticket.partId && ticket.partQty && ticket.partQty > 0) {
-      // Liberar reserva anterior (si existe)
-      setParts(prev =>
-        prev.map(p => {
-          if (p.id !== ticket.partId) return p;
-          return { ...p, stockReserved: clampNonNeg(p.stockReserved - ticket.partQty!) };
-        })
-      );
-      addMovement({
-        partId: ticket.partId,
-        type: 'RELEASE',
-        qty: ticket.partQty,
-        note: 'Cambio de refacción / ajuste de reserva (DEMO)',
-        ticketId,
-      });
-    }
+  // =========================
+  // Tickets
+  // =========================
 
-    // Reservar
-    setParts(prev =>
-      prev.map(p => (p.id === partId ? { ...p, stockReserved: p.stockReserved + q } : p))
-    );
+  // Las reglas viven en domain.ts; aquí solo se ejecuta el comando sobre el estado vigente
+  const run = <X,>(cmd: (state: DomainState, ctx: CommandContext) => CommandResult<X>) => {
+    const { events, ...result } = cmd(coreRef.current.state, { user: role, now: new Date(), newId: uniqueId });
+    if (result.ok) dispatch(events);
+    return result;
+  };
 
-    updateTicket(
-      ticketId,
-      {
-        needsPart: true,
-        status: TicketStatus.WAITING_PART,
-        partId,
-        partName: part.name,
-        partQty: q,
-      },
-      `Reservada refacción: ${part.name} (x${q})`
-    );
-
-    addMovement({
-      partId,
-      type: 'RESERVE',
-      qty: q,
-      note: `Reserva para ticket ${ticketId}`,
-      ticketId,
-    });
+  const addTicket = (data: NewTicketData, opts?: { allowDuplicate?: boolean }) =>
+    run((s, ctx) => domain.createTicket(s, ctx, data, opts));
+
+  const addReport = (ticketId: string, description: string) => run((s, ctx) => domain.addReport(s, ctx, ticketId, description));
+  const addTicketNote = (ticketId: string, note: NewNoteData) => run((s, ctx) => domain.addNote(s, ctx, ticketId, note));
+  const addTicketAttachments = (ticketId: string, files: NewAttachment[]) =>
+    run((s, ctx) => domain.addAttachments(s, ctx, ticketId, files));
+  const removeTicketAttachment = (ticketId: string, attachmentId: string) =>
+    run((s, ctx) => domain.removeAttachment(s, ctx, ticketId, attachmentId));
+  const startWork = (ticketId: string, technician: string) => run((s, ctx) => domain.startWork(s, ctx, ticketId, technician));
+  const pauseWork = (ticketId: string, technician: string) => run((s, ctx) => domain.pauseWork(s, ctx, ticketId, technician));
+  const stopWork = (ticketId: string, technician: string) => run((s, ctx) => domain.stopWork(s, ctx, ticketId, technician));
+  const markChecklistItem = (ticketId: string, itemId: string, checked: boolean) =>
+    run((s, ctx) => domain.markChecklistItem(s, ctx, ticketId, itemId, checked));
+  const setWorkflowRules = (changes: Partial<WorkflowRules>) => run((s, ctx) => domain.setWorkflowRules(s, ctx, changes));
+  const setSlaPolicies = (policies: SlaPolicy[]) => run((s, ctx) => domain.setSlaPolicies(s, ctx, policies));
+  const saveChecklistTemplate = (data: ChecklistTemplateData) => run((s, ctx) => domain.saveChecklistTemplate(s, ctx, data));
+  const removeChecklistTemplate = (templateId: string) => run((s, ctx) => domain.removeChecklistTemplate(s, ctx, templateId));
+  const setEscalationRules = (rules: EscalationRule[]) => run((s, ctx) => domain.setEscalationRules(s, ctx, rules));
+  const setPriorityWeights = (weights: PriorityWeights) => run((s, ctx) => domain.setPriorityWeights(s, ctx, weights));
+
+  // Escalamiento: después de cada cambio (propio o de otra pestaña) y cada minuto, para lo que vence con solo esperar.
+  // Lo disparado no entra a deshacer/rehacer; si dos pestañas lo evalúan a la vez, el reductor ignora el repetido.
+  // Con servidor escala él (no acepta eventos de 'Sistema' de los clientes) y aquí llegan con lo demás
+  const escalates = storage.backend !== 'server';
+  const escalate = () => run((s, ctx) => domain.runEscalations(s, ctx));
+  useEffect(() => {
+    if (hydrated && escalates) escalate();
+  }, [core.state, hydrated]);
+  useEffect(() => {
+    if (!hydrated || !escalates) return;
+    const timer = setInterval(escalate, 60000);
+    return () => clearInterval(timer);
+  }, [hydrated]);
+  const setCostSettings = (changes: { laborRate?: number; technicianRates?: Record<string, number | null> }) =>
+    run((s, ctx) => domain.setCostSettings(s, ctx, changes));
+  const setPartUnitCost = (partId: string, unitCost: number) => run((s, ctx) => domain.setPartUnitCost(s, ctx, partId, unitCost));
+  const addVendorCharge = (ticketId: string, charge: NewVendorCharge) => run((s, ctx) => domain.addVendorCharge(s, ctx, ticketId, charge));
+  const removeVendorCharge = (ticketId: string, chargeId: string) =>
+    run((s, ctx) => domain.removeVendorCharge(s, ctx, ticketId, chargeId));
+
+  const likelyDuplicatesOf = (ticket: Ticket) =>
+    domain.findLikelyDuplicates(coreRef.current.state.tickets, ticket, new Date(), ticket.id);
+
+  const mergeTickets = (survivorId: string, duplicateIds: string[]) =>
+    run((s, ctx) => domain.mergeTickets(s, ctx, survivorId, duplicateIds));
 
-    return { ok: true, message: 'Refacción reservada correctamente.' };
+  const updateTicket = (id: string, updates: Partial<Ticket>, actionDescription: string) => {
+    run((s, ctx) => domain.updateTicket(s, ctx, id, updates, actionDescription));
   };
 
-  const releaseReservationForTicket = (ticketId: string, note?: string) => {
-    if (!permissions.canReserve) return { ok: false, message: 'Permiso insuficiente para liberar reservas.' };
+  const changeTicketStatus = (id: string, to: TicketStatus, opts?: StatusChangeOptions) =>
+    run((s, ctx) => domain.changeStatus(s, ctx, id, to, opts));
 
-    const ticket = tickets.find(t => t.id === ticketId);
-    if (!ticket) return { ok: false, message: 'Ticket no encontrado.' };
-
-    if (!ticket.partId || !ticket.partQty) {
-      return { ok: false, message: 'Este ticket no tiene refacción reservada.' };
-    }
+  const resolveConflict = (ticketId: string, conflictId: string, keep: Partial<Record<keyof Ticket, 'current' | 'incoming'>>) =>
+    run((s, ctx) => domain.resolveConflict(s, ctx, ticketId, conflictId, keep));
 
-    setParts(prev =>
-      prev.map(p => {
-        if (p.id !== ticket.partId) return p;
-        return { ...p, stockReserved: clampNonNeg(p.stockReserved - ticket.partQty!) };
-      })
-    );
-
-    addMovement({
-      partId: ticket.partId,
-      type: 'RELEASE',
-      qty: ticket.partQty,
-      note: note || 'Liberación de reserva (DEMO)',
-      ticketId,
-    });
+  // =========================
+  // Fallas generales
+  // =========================
 
-    // Mantener trazabilidad: no borramos partName/id, solo quitamos needsPart
-    updateTicket(ticketId, { needsPart: false }, 'Reserva liberada');
+  const declareIncident = (data: NewIncidentData) => run((s, ctx) => domain.declareIncident(s, ctx, data));
 
-    return { ok: true, message: 'Reserva liberada correctamente.' };
-  };
+  const linkToIncident = (incidentId: string, ticketIds: string[]) =>
+    run((s, ctx) => domain.linkToIncident(s, ctx, incidentId, ticketIds));
 
-  const issueReservedPartForTicket = (ticketId: string, note?: string) => {
-    if (!permissions.canReserve) return { ok: false, message: 'Permiso insuficiente para consumir refacciones.' };
+  const unlinkFromIncident = (ticketId: string) => run((s, ctx) => domain.unlinkFromIncident(s, ctx, ticketId));
 
-    const ticket = tickets.find(t => t.id === ticketId);
-    if (!ticket) return { ok: false, message: 'Ticket no encontrado.' };
+  const updateIncident = (incidentId: string, update: IncidentUpdate) =>
+    run((s, ctx) => domain.updateIncident(s, ctx, incidentId, update));
 
-    if (!ticket.partId || !ticket.partQty) {
-      return { ok: false, message: 'Este ticket no tiene refacción vinculada.' };
-    }
+  const notifyIncidentGuests = (incidentId: string) => run((s, ctx) => domain.notifyIncidentGuests(s, ctx, incidentId));
 
-    const part = parts.find(p => p.id === ticket.partId);
-    if (!part) return { ok: false, message: 'Refacción no encontrada.' };
+  // =========================
+  // Inventario
+  // =========================
 
-    const q = Math.max(1, Math.floor(ticket.partQty || 1));
+  const reservePartForTicket = (ticketId: string, partId: string, qty: number) =>
+    run((s, ctx) => domain.reservePartForTicket(s, ctx, ticketId, partId, qty));
 
-    // Consumo: baja reservado y baja onHand
-    setParts(prev =>
-      prev.map(p => {
-        if (p.id !== ticket.partId) return p;
-        return {
-          ...p,
-          stockReserved: clampNonNeg(p.stockReserved - q),
-          stockOnHand: clampNonNeg(p.stockOnHand - q),
-        };
-      })
-    );
-
-    addMovement({
-      partId: ticket.partId,
-      type: 'ISSUE',
-      qty: q,
-      note: note || 'Salida a mantenimiento (DEMO)',
-      ticketId,
-    });
+  const releaseReservationForTicket = (ticketId: string, note?: string) =>
+    run((s, ctx) => domain.releaseReservationForTicket(s, ctx, ticketId, note));
 
-    updateTicket(ticketId, { needsPart: false }, `Refacción utilizada: ${part.name} (x${q})`);
+  const issueReservedPartForTicket = (ticketId: string, note?: string) =>
+    run((s, ctx) => domain.issueReservedPartForTicket(s, ctx, ticketId, note));
 
-    return { ok: true, message: 'Refacción marcada como consumida.' };
-  };
+  const consumePart = (params: { partId: string; qty: number; ticketId?: string; note?: string }) =>
+    run((s, ctx) => domain.consumePart(s, ctx, params));
 
-  const createPOForPart = (params: {
-    partId: string;
-    qty: number;
-    vendor?: string;
-    etaDays?: number;
-    ticketId?: string;
-  }) => {
-    if (!permissions.canCreatePO) return { ok: false, message: 'Solo Gerencia puede generar OC (DEMO).' };
-
-    const part = parts.find(p => p.id === params.partId);
-    if (!part) return { ok: false, message: 'Refacción no encontrada.' };
-
-    const q = Math.max(1, Math.floor(params.qty || 1));
-    const vendor = params.vendor || part.preferredVendor || 'Proveedor (DEMO)';
-
-    const now = new Date();
-    const eta = new Date(now);
-    eta.setDate(eta.getDate() + (params.etaDays ?? part.leadTimeDays ?? 3));
-
-    const newPO: PurchaseOrder = {
-      id: nextPOId(pos),
-      status: POStatus.ORDERED,
-      createdAt: now.toISOString(),
-      createdBy: role,
-      vendor,
-      etaDate: eta.toISOString(),
-      items: [{ partId: part.id, partName: part.name, qty: q, unit: part.unit }],
-      notes: 'OC generada en DEMO (no implica compra real).',
-    };
+  const createPO = (params: POParams) => run((s, ctx) => domain.createPO(s, ctx, params));
 
-    setPos(prev => [newPO, ...prev]);
+  const createPOForPart = (params: POForPartParams) => run((s, ctx) => domain.createPOForPart(s, ctx, params));
 
-    addMovement({
-      partId: part.id,
-      type: 'PO_CREATED',
-      qty: q,
-      note: `OC ${newPO.id} creada (DEMO)`,
-      poId: newPO.id,
-      ticketId: params.ticketId,
-    });
+  const sendPO = (poId: string) => run((s, ctx) => domain.sendPO(s, ctx, poId));
 
-    if (params.ticketId) {
-      updateTicket(params.ticketId, { poId: newPO.id }, `OC vinculada: ${newPO.id}`);
-    }
+  const receivePO = (poId: string) => run((s, ctx) => domain.receivePO(s, ctx, poId));
 
-    return { ok: true, message: `OC generada: ${newPO.id}`, poId: newPO.id };
-  };
+  const cancelPO = (poId: string) => run((s, ctx) => domain.cancelPO(s, ctx, poId));
 
-  const receivePO = (poId: string) => {
-    if (!permissions.canCreatePO) return { ok: false, message: 'Solo Gerencia puede recibir OC (DEMO).' };
+  const adjustStock = (params: { partId: string; delta: number; note?: string }) =>
+    run((s, ctx) => domain.adjustStock(s, ctx, params));
 
-    const po = pos.find(p => p.id === poId);
-    if (!po) return { ok: false, message: 'OC no encontrada.' };
-    if (po.status === POStatus.RECEIVED) return { ok: false, message: 'Esta OC ya fue recibida.' };
+  const inventoryAudit = useMemo(() => auditInventory(core.state, core.events), [core]);
 
-    // Sumar al stockOnHand
-    setParts(prev =>
-      prev.map(p => {
-        const item = po.items.find(i => i.partId === p.id);
-        if (!item) return p;
-        return { ...p, stockOnHand: p.stockOnHand + item.qty };
-      })
-    );
-
-    // Movimientos por item
-    po.items.forEach(item => {
-      addMovement({
-        partId: item.partId,
-        type: 'RECEIVE',
-        qty: item.qty,
-        note: `Recepción OC ${po.id} (DEMO)`,
-        poId: po.id,
-      });
-    });
+  const reconcileInventory = () => run((s, ctx) => domain.reconcileInventory(s, ctx, coreRef.current.events));
 
-    setPos(prev => prev.map(p => (p.id === poId ? { ...p, status: POStatus.RECEIVED } : p)));
+  // =========================
+  // Deshacer / Rehacer
+  // =========================
 
-    addMovement({
-      partId: po.items[0]?.partId || 'P-000',
-      type: 'PO_RECEIVED',
-      qty: po.items.reduce((s, i) => s + i.qty, 0),
-      note: `OC ${po.id} marcada como Recibida (DEMO)`,
-      poId: po.id,
-    });
+  // Las etiquetas nombran tickets y OC por su folio (el id interno no le dice nada a quien deshace)
+  const ticketFolio = (id: string) => folioOf(coreRef.current.state.tickets.find(t => t.id === id) ?? { id });
+  const poFolio = (id: string) => folioOf(coreRef.current.state.pos.find(p => p.id === id) ?? { id });
+  const incidentFolio = (id: string) => folioOf(coreRef.current.state.incidents.find(i => i.id === id) ?? { id });
+
+  // Envuelve una acción pública: los eventos se aplican al momento, así que el diff es inmediato
+  const journaled =
+    <A extends unknown[], R>(label: (...args: A) => string, fn: (...args: A) => R) =>
+    (...args: A): R => {
+      const before = coreRef.current.state;
+      const result = fn(...args);
+      const changes = diffSnapshots(before, coreRef.current.state);
+      if (changes.length > 0) {
+        const entry: JournalEntry = {
+          id: `J-${Date.now()}`,
+          label: label(...args),
+          date: new Date().toISOString(),
+          user: role,
+          changes,
+        };
+        setUndoStack(prev => [...prev, entry].slice(-JOURNAL_LIMIT));
+        setRedoStack([]);
+      }
+      return result;
+    };
 
-    return { ok: true, message: `OC ${po.id} recibida y stock actualizado.` };
-  };
+  const applyJournal = (entry: JournalEntry, direction: 'undo' | 'redo') => {
+    const verb = direction === 'undo' ? 'Deshacer' : 'Rehacer';
+    const snapshot = coreRef.current.state;
 
-  const adjustStock = (params: { partId: string; delta: number; note?: string }) => {
-    if (!permissions.canAdjustStock) return { ok: false, message: 'Solo Gerencia puede ajustar stock (DEMO).' };
+    // Solo si nada de lo tocado cambió después (otra acción u otra pestaña)
+    const stale = entry.changes.find(c => !sameRecord(findCurrent(snapshot, c), c.current));
+    if (stale) {
+      return { ok: false, message: `No se puede ${verb.toLowerCase()} "${entry.label}": ${folioOf(stale.current ?? stale.before ?? stale)} cambió después.` };
+    }
 
-    const part = parts.find(p => p.id === params.partId);
-    if (!part) return { ok: false, message: 'Refacción no encontrada.' };
+    const action = `${verb}: ${entry.label}`;
+    const audit = { date: new Date().toISOString(), action, user: role };
+    const next = entry.changes.map(c => restoreChange(c, direction, audit)) as JournalChange[];
+    const restored = <R,>(collection: JournalChange['collection']) =>
+      next.filter(c => c.collection === collection).map(c => ({ id: c.id, record: c.current as R | undefined }));
 
-    const delta = Math.trunc(params.delta || 0);
-    if (delta === 0) return { ok: false, message: 'Delta inválido.' };
+    // El reductor agrega los movimientos compensatorios del stock que cambie
+    dispatch([
+      {
+        type: 'RecordsRestored',
+        action,
+        tickets: restored<Ticket>('tickets'),
+        parts: restored<InventoryPart>('parts'),
+        pos: restored<PurchaseOrder>('pos'),
+        incidents: restored<Incident>('incidents'),
+      },
+    ]);
 
-    setParts(prev =>
-      prev.map(p => {
-        if (p.id !== params.partId) return p;
-        return { ...p, stockOnHand: clampNonNeg(p.stockOnHand + delta) };
-      })
-    );
+    return { ok: true, message: `${action}.`, entry: { ...entry, changes: next } };
+  };
 
-    addMovement({
-      partId: params.partId,
-      type: 'ADJUST',
-      qty: Math.abs(delta),
-      note: params.note || `Ajuste de stock ${delta > 0 ? '+' : ''}${delta} (DEMO)`,
-    });
+  const undo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return { ok: false, message: 'Nada que deshacer.' };
+    const res = applyJournal(entry, 'undo');
+    if (!('entry' in res)) return res;
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, res.entry]);
+    return { ok: true, message: res.message };
+  };
 
-    return { ok: true, message: 'Stock ajustado (DEMO).' };
+  const redo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return { ok: false, message: 'Nada que rehacer.' };
+    const res = applyJournal(entry, 'redo');
+    if (!('entry' in res)) return res;
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, res.entry]);
+    return { ok: true, message: res.message };
   };
 
   // =========================
@@ -534,18 +622,15 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   // =========================
 
   const resetDemoData = () => {
-    const calculatedTickets = INITIAL_TICKETS.map(t => ({ ...t, priorityScore: calculatePriority(t) }));
-
-    localStorage.removeItem('metodiko_demo_tickets');
-    localStorage.removeItem('metodiko_demo_parts');
-    localStorage.removeItem('metodiko_demo_pos');
-    localStorage.removeItem('metodiko_demo_movements');
+    clearPersistedData(storage)
+      .then(() => stampSchemaVersion(storage))
+      .catch(logStorageError);
 
     setRole(Role.MANAGEMENT);
-    setTickets(calculatedTickets);
-    setParts(INITIAL_PARTS);
-    setPos(INITIAL_POS);
-    setMovements([]);
+    commit(initialCore('Reinicio de datos DEMO'));
+    setRecoveryReport(null);
+    setUndoStack([]);
+    setRedoStack([]);
   };
 
   const exportCSV = () => {
@@ -562,11 +647,22 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       'Refaccion',
       'CantidadRefaccion',
       'OC',
+      'FallaGeneral',
+      'Adjuntos',
+      'ManoDeObraMin',
+      'Tecnicos',
+      'CostoRefacciones',
+      'CostoManoDeObra',
+      'CostoProveedor',
+      'CostoTotal',
+      'SLA',
+      'SLAVencido',
       'Creado',
     ];
 
+    const costData = { parts, movements, costs: core.state.costs };
     const rows = tickets.map(t => [
-      t.id,
+      folioOf(t),
       t.roomNumber,
       t.isOccupied ? 'SI' : 'NO',
       t.asset,
@@ -577,7 +673,14 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       String(t.priorityScore),
       t.partName || '',
       t.partQty ? String(t.partQty) : '',
-      t.poId || '',
+      t.poId ? folioOf(pos.find(p => p.id === t.poId) ?? { id: t.poId }) : '',
+      t.incidentId ? folioOf(incidents.find(i => i.id === t.incidentId) ?? { id: t.incidentId }) : '',
+      String(t.attachments?.length ?? 0),
+      String(Math.round(domain.laborMinutes(t))),
+      domain.sessionTechnicians(t).join(' / '),
+      ...costColumns(ticketCost(t, costData)),
+      t.sla?.policyName ?? '',
+      t.sla ? (slaStatus(t.sla).breached ? 'SI' : 'NO') : '',
       t.createdAt,
     ]);
 
@@ -598,191 +701,131 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   // =========================
-  // DEMO Scenarios
+  // Respaldo / Restauración
   // =========================
 
-  const runScenario = (scenario: DemoScenario): string | null => {
-    const actionable = [...tickets]
-      .filter(t => t.status !== TicketStatus.VERIFIED)
-      .sort((a, b) => b.priorityScore - a.priorityScore);
-
-    const pickForBlock = actionable.find(t => [TicketStatus.OPEN, TicketStatus.IN_PROGRESS].includes(t.status));
-
-    if (scenario === 'GUEST_COMPLAINT') {
-      const t = buildTicket(
-        tickets,
-        {
-          roomNumber: '105',
-          isOccupied: true,
-          asset: 'Aire Acondicionado',
-          issueType: 'No enciende',
-          description: 'Simulación DEMO: Huésped reporta que el aire no responde y no puede descansar.',
-          urgency: Urgency.HIGH,
-          impact: Impact.BLOCKING,
-          status: TicketStatus.OPEN,
-          createdBy: Role.RECEPTION,
-          notes: [],
-          needsPart: false,
-          needsVendor: false,
-        },
-        Role.RECEPTION,
-        'Ticket creado por Recepción (DEMO)'
-      );
-
-      setTickets(prev => [t, ...prev]);
-      return t.id;
-    }
-
-    if (scenario === 'CLEANING_REPORT') {
-      const t = buildTicket(
-        tickets,
-        {
-          roomNumber: '112',
-          isOccupied: false,
-          asset: 'Plomería',
-          issueType: 'Gotea',
-          description: 'Simulación DEMO: Limpieza detecta goteo en lavabo durante preparación de habitación.',
-          urgency: Urgency.MEDIUM,
-          impact: Impact.ANNOYING,
-          status: TicketStatus.OPEN,
-          createdBy: Role.CLEANING,
-          notes: [],
-          needsPart: false,
-          needsVendor: false,
-        },
-        Role.CLEANING,
-        'Ticket creado por Limpieza (DEMO)'
-      );
-
-      setTickets(prev => [t, ...prev]);
-      return t.id;
-    }
-
-    if (scenario === 'BLOCK_PART') {
-      const id = pickForBlock?.id;
-      const lowStockPart = parts.find(p => (p.stockOnHand - p.stockReserved) <= 0) || parts[0];
-
-      if (id && lowStockPart) {
-        updateTicketAs(
-          Role.MAINTENANCE,
-          id,
-          {
-            status: TicketStatus.WAITING_PART,
-            needsPart: true,
-            partId: lowStockPart.id,
-            partName: lowStockPart.name,
-            partQty: 1,
-          },
-          `Marcado espera refacción: ${lowStockPart.name} (DEMO)`
-        );
-        return id;
-      }
-
-      const t = buildTicket(
-        tickets,
-        {
-          roomNumber: '101',
-          isOccupied: true,
-          asset: 'Eléctrico',
-          issueType: 'Roto/Dañado',
-          description: 'Simulación DEMO: Se requiere refacción para completar la reparación.',
-          urgency: Urgency.HIGH,
-          impact: Impact.BLOCKING,
-          status: TicketStatus.WAITING_PART,
-          createdBy: Role.MAINTENANCE,
-          notes: ['Simulación DEMO: identificado componente a reemplazar.'],
-          needsPart: true,
-          partId: parts[0]?.id,
-          partName: parts[0]?.name,
-          partQty: 1,
-          needsVendor: false,
-        },
-        Role.MAINTENANCE,
-        'Ticket creado y marcado espera refacción (DEMO)'
-      );
-
-      setTickets(prev => [t, ...prev]);
-      return t.id;
-    }
+  const exportBackup = () => {
+    const archive = createBackup(coreRef.current.state, { role, storageBackend: storage.backend }, role);
+    const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = backupFileName();
+    link.click();
+  };
 
-    if (scenario === 'BLOCK_VENDOR') {
-      const id = pickForBlock?.id;
-      if (id) {
-        updateTicketAs(
-          Role.MAINTENANCE,
-          id,
-          {
-            status: TicketStatus.VENDOR,
-            needsVendor: true,
-            vendorType: 'Proveedor DEMO (IT / HVAC / Cerrajería)',
-          },
-          'Marcado para proveedor (DEMO)'
-        );
-        return id;
-      }
+  const previewRestore = (archive: BackupArchive, mode: RestoreMode) => planRestore(coreRef.current.state, archive, mode);
+
+  // Entra al registro como un evento (queda en la bitácora de cada ticket tocado). Deshacer/rehacer no
+  // cruza una restauración: las pilas se vacían como en el reinicio
+  const restoreBackup = (archive: BackupArchive, mode: RestoreMode, applySettings: boolean) => {
+    const result = run((s, ctx) => domain.restoreBackup(s, ctx, archive, planRestore(s, archive, mode)));
+    if (!result.ok) return result;
+    setUndoStack([]);
+    setRedoStack([]);
+    // El backend no se cambia: los datos viven en el actual y el otro arrancaría vacío
+    if (applySettings) setRole(archive.settings.role);
+    return result;
+  };
 
-      const t = buildTicket(
-        tickets,
-        {
-          roomNumber: '120',
-          isOccupied: false,
-          asset: 'TV/WiFi',
-          issueType: 'Sin señal',
-          description: 'Simulación DEMO: caso escalado a proveedor externo.',
-          urgency: Urgency.LOW,
-          impact: Impact.ANNOYING,
-          status: TicketStatus.VENDOR,
-          createdBy: Role.MAINTENANCE,
-          notes: ['Simulación DEMO: reinicio no resuelve, se agenda visita.'],
-          needsPart: false,
-          needsVendor: true,
-          vendorType: 'Proveedor DEMO',
-        },
-        Role.MAINTENANCE,
-        'Ticket creado y escalado a proveedor (DEMO)'
-      );
-
-      setTickets(prev => [t, ...prev]);
-      return t.id;
-    }
+  // =========================
+  // DEMO Scenarios
+  // =========================
 
-    return null;
-  };
+  const runScenario = (scenario: DemoScenario): string | null => run((s, ctx) => domain.runScenario(s, ctx, scenario)).ticketId;
 
   const value = useMemo(
     () => ({
       role,
       setRole,
       tickets,
-      addTicket,
-      updateTicket,
+      addTicket: journaled(d => `Crear ticket (Hab. ${d.roomNumber})`, addTicket),
+      updateTicket: journaled((id, _u, action) => `${ticketFolio(id)}: ${action}`, updateTicket),
+      addTicketNote: journaled(id => `${ticketFolio(id)}: nota`, addTicketNote),
+      addTicketAttachments: journaled(id => `${ticketFolio(id)}: adjuntar`, addTicketAttachments),
+      removeTicketAttachment: journaled(id => `${ticketFolio(id)}: quitar adjunto`, removeTicketAttachment),
+      addVendorCharge: journaled(id => `${ticketFolio(id)}: cargo de proveedor`, addVendorCharge),
+      removeVendorCharge: journaled(id => `${ticketFolio(id)}: quitar cargo`, removeVendorCharge),
+      startWork: journaled(id => `${ticketFolio(id)}: iniciar cronómetro`, startWork),
+      pauseWork: journaled(id => `${ticketFolio(id)}: pausar cronómetro`, pauseWork),
+      stopWork: journaled(id => `${ticketFolio(id)}: terminar trabajo`, stopWork),
+      markChecklistItem: journaled(id => `${ticketFolio(id)}: checklist`, markChecklistItem),
+      changeTicketStatus: journaled((id, to) => `${ticketFolio(id)}: ${to}`, changeTicketStatus),
+      addReport: journaled(id => `${ticketFolio(id)}: sumar reporte`, addReport),
+      likelyDuplicatesOf,
+      mergeTickets: journaled(id => `${ticketFolio(id)}: fusionar duplicados`, mergeTickets),
+
+      incidents,
+      declareIncident: journaled(d => `Declarar falla general: ${d.title}`, declareIncident),
+      linkToIncident: journaled((id, ids) => `${incidentFolio(id)}: agrupar ${ids.length} ticket(s)`, linkToIncident),
+      unlinkFromIncident: journaled(id => `${ticketFolio(id)}: separar de la falla general`, unlinkFromIncident),
+      updateIncident: journaled((id, u) => `${incidentFolio(id)}: ${u.status ?? 'aviso'}`, updateIncident),
+      notifyIncidentGuests: journaled(id => `${incidentFolio(id)}: avisar a huéspedes`, notifyIncidentGuests),
 
       parts,
       pos,
       movements,
 
-      reservePartForTicket,
-      releaseReservationForTicket,
-      issueReservedPartForTicket,
+      reservePartForTicket: journaled(id => `${ticketFolio(id)}: reservar refacción`, reservePartForTicket),
+      releaseReservationForTicket: journaled(id => `${ticketFolio(id)}: liberar reserva`, releaseReservationForTicket),
+      issueReservedPartForTicket: journaled(id => `${ticketFolio(id)}: surtir refacción`, issueReservedPartForTicket),
+      consumePart: journaled(p => `Consumo ${p.partId} x${p.qty}`, consumePart),
+
+      createPO: journaled(p => `Generar OC (${p.items.length} partida(s))`, createPO),
+      createPOForPart: journaled(p => `Generar OC para ${p.partId}`, createPOForPart),
+      sendPO: journaled(id => `Enviar ${poFolio(id)}`, sendPO),
+      receivePO: journaled(id => `Recibir ${poFolio(id)}`, receivePO),
+      cancelPO: journaled(id => `Cancelar ${poFolio(id)}`, cancelPO),
+      adjustStock: journaled(p => `Ajuste ${p.partId} ${p.delta > 0 ? '+' : ''}${p.delta}`, adjustStock),
+
+      inventoryAudit,
+      reconcileInventory: journaled(() => 'Conciliar inventario', reconcileInventory),
+
+      events: core.events,
+      stateAsOf,
+
+      undo,
+      redo,
+      undoLabel: undoStack[undoStack.length - 1]?.label,
+      redoLabel: redoStack[redoStack.length - 1]?.label,
 
-      createPOForPart,
-      receivePO,
-      adjustStock,
+      recoveryReport,
+      dismissRecoveryReport,
+      storageBackend: storage.backend,
+      syncStatus,
+      outbox,
+      dismissRejected,
+
+      syncNotices,
+      dismissSyncNotice,
+      resolveConflict: journaled(id => `${ticketFolio(id)}: resolver conflicto`, resolveConflict),
 
       resetDemoData,
       exportCSV,
-      runScenario,
+      exportBackup,
+      previewRestore,
+      restoreBackup,
+      runScenario: journaled(sc => `Escenario ${sc}`, runScenario),
 
       permissions,
+
+      rules: core.state.rules,
+      setWorkflowRules,
+      sla: core.state.sla,
+      setSlaPolicies,
+      checklists: core.state.checklists,
+      saveChecklistTemplate,
+      removeChecklistTemplate,
+      escalations: core.state.escalations,
+      escalationLog: core.state.escalationLog,
+      setEscalationRules,
+      priority: core.state.priority,
+      setPriorityWeights,
+
+      costs: core.state.costs,
+      setCostSettings,
+      setPartUnitCost: journaled(id => `Costo de ${id}`, setPartUnitCost),
     }),
-    [
-      role,
-      tickets,
-      parts,
-      pos,
-      movements,
-      permissions,
-    ]
+    [role, core, recoveryReport, syncNotices, undoStack, redoStack, permissions, syncStatus, outbox]
   );
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
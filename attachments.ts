@@ -0,0 +1,116 @@
+// src/attachments.ts
+
+import { EvidenceStage } from './types';
+import type { NewAttachment } from './domain';
+import { promisify, txDone } from './storage';
+import { uniqueId } from './utils';
+
+// =========================
+// Adjuntos (fotos de evidencia y archivos)
+// =========================
+// Las fotos se reducen y recomprimen en el navegador. El ticket lleva solo una miniatura (viaja en el
+// registro de eventos y se sincroniza); el archivo queda en IndexedDB del dispositivo que lo subió.
+
+export const MAX_FILE_MB = 5;
+const IMAGE_MAX_SIDE = 1600;
+const IMAGE_QUALITY = 0.8;
+const THUMB_SIDE = 160;
+const THUMB_QUALITY = 0.6;
+
+export interface PreparedFile {
+  attachment: NewAttachment;
+  blob: Blob;
+}
+
+const drawScaled = (img: ImageBitmap, max: number) => {
+  const k = Math.min(1, max / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * k);
+  canvas.height = Math.round(img.height * k);
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const toJpeg = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+
+// Foto: se reduce a IMAGE_MAX_SIDE y pasa a JPEG (si así pesa menos). Otro archivo (o una foto que el
+// navegador no sabe abrir, ej. HEIC): se guarda tal cual, sin miniatura
+export const prepareFile = async (
+  file: File,
+  stage: EvidenceStage
+): Promise<{ ok: boolean; message: string; prepared?: PreparedFile }> => {
+  let blob: Blob = file;
+  let name = file.name || 'archivo';
+  let thumbnail: string | undefined;
+
+  if (file.type.startsWith('image/')) {
+    try {
+      const img = await createImageBitmap(file);
+      const compressed = await toJpeg(drawScaled(img, IMAGE_MAX_SIDE), IMAGE_QUALITY);
+      thumbnail = drawScaled(img, THUMB_SIDE).toDataURL('image/jpeg', THUMB_QUALITY);
+      img.close();
+      if (compressed && compressed.size < file.size) {
+        blob = compressed;
+        name = name.replace(/\.[^.]+$/, '') + '.jpg';
+      }
+    } catch {
+      // El navegador no sabe abrirla: se guarda como archivo
+    }
+  }
+
+  if (blob.size > MAX_FILE_MB * 1024 * 1024) return { ok: false, message: `${name}: pesa más de ${MAX_FILE_MB} MB.` };
+  return {
+    ok: true,
+    message: name,
+    prepared: {
+      attachment: { id: uniqueId('A-'), name, mimeType: blob.type || 'application/octet-stream', size: blob.size, stage, thumbnail },
+      blob,
+    },
+  };
+};
+
+// =========================
+// Archivos en este dispositivo
+// =========================
+
+const FILES_DB = 'metodiko_demo_files';
+const FILES_STORE = 'files';
+
+let filesDB: Promise<IDBDatabase> | null = null;
+const db = () =>
+  (filesDB ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(FILES_DB, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(FILES_STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }));
+
+export const saveFiles = async (files: PreparedFile[]) => {
+  const tx = (await db()).transaction(FILES_STORE, 'readwrite');
+  files.forEach(f => tx.objectStore(FILES_STORE).put(f.blob, f.attachment.id));
+  await txDone(tx);
+};
+
+export const deleteFiles = async (ids: string[]) => {
+  const tx = (await db()).transaction(FILES_STORE, 'readwrite');
+  ids.forEach(id => tx.objectStore(FILES_STORE).delete(id));
+  await txDone(tx);
+};
+
+export const loadFile = async (id: string) =>
+  promisify((await db()).transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE).get(id) as IDBRequest<Blob | undefined>);
+
+// Abre el archivo completo en otra pestaña; si se subió en otro dispositivo, aquí solo está la miniatura
+export const openAttachment = async (id: string): Promise<{ ok: boolean; message: string }> => {
+  try {
+    const blob = await loadFile(id);
+    if (!blob) return { ok: false, message: 'El archivo se subió en otro dispositivo: aquí solo está la miniatura.' };
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    return { ok: true, message: '' };
+  } catch {
+    return { ok: false, message: 'No se pudo leer el archivo en este dispositivo.' };
+  }
+};
@@ -0,0 +1,225 @@
+// src/backup.ts
+
+import { Incident, InventoryPart, PartMovement, PurchaseOrder, Role, Ticket } from './types';
+import { DomainState } from './events';
+import { normalizeImportedPayload, RecoveryIssue, SCHEMA_VERSION } from './persistence';
+import { StorageBackend } from './storage';
+import { sameRecord } from './sync';
+
+// =========================
+// Respaldo completo en un solo archivo JSON
+// =========================
+// Lleva la vista materializada (tickets, refacciones, OC, movimientos, fallas generales) y la configuración de la sesión.
+// Al importar pasa por las mismas migraciones y validaciones que los datos guardados (persistence.ts);
+// el registro de eventos no viaja: la restauración entra al registro local como un evento más.
+
+export const BACKUP_FORMAT = 'metodiko-demo-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupSettings {
+  role: Role;
+  storageBackend: StorageBackend;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number; // formato del archivo
+  schemaVersion: number; // esquema de los registros (SCHEMA_VERSION al exportar)
+  exportedAt: string; // ISO
+  exportedBy: Role | string;
+  settings: BackupSettings;
+  data: {
+    tickets: Ticket[];
+    parts: InventoryPart[];
+    pos: PurchaseOrder[];
+    movements: PartMovement[];
+    incidents: Incident[];
+  };
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+type BackupCollection = keyof BackupArchive['data'];
+
+const BACKUP_COLLECTIONS: BackupCollection[] = ['tickets', 'parts', 'pos', 'movements', 'incidents'];
+
+// Respaldos exportados antes de que existieran no las traen: su ausencia no es un error
+const OPTIONAL_COLLECTIONS: BackupCollection[] = ['incidents'];
+
+const ROLES = Object.values(Role) as string[];
+const BACKENDS: StorageBackend[] = ['localStorage', 'indexedDB', 'server'];
+
+export const createBackup = (state: DomainState, settings: BackupSettings, user: Role | string): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  exportedBy: user,
+  settings,
+  data: { tickets: state.tickets, parts: state.parts, pos: state.pos, movements: state.movements, incidents: state.incidents },
+});
+
+export const backupFileName = (date = new Date()) => `metodiko_respaldo_${date.toISOString().slice(0, 10)}.json`;
+
+// =========================
+// Lectura y validación
+// =========================
+
+export interface ParsedBackup {
+  ok: boolean;
+  message: string;
+  archive?: BackupArchive; // ya migrado y con registros válidos
+  issues: RecoveryIssue[]; // reparados / descartados al validar
+  migrationsApplied: string[];
+}
+
+const asRecord = (x: unknown): Record<string, unknown> =>
+  x && typeof x === 'object' && !Array.isArray(x) ? (x as Record<string, unknown>) : {};
+
+export const parseBackup = (text: string): ParsedBackup => {
+  const fail = (message: string): ParsedBackup => ({ ok: false, message, issues: [], migrationsApplied: [] });
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return fail('El archivo no es JSON válido.');
+  }
+
+  const root = asRecord(raw);
+  if (root.format !== BACKUP_FORMAT) return fail('El archivo no es un respaldo de Metodiko DEMO.');
+  if (typeof root.version !== 'number' || root.version > BACKUP_VERSION) {
+    return fail(`Formato de respaldo v${String(root.version)} no soportado (máximo v${BACKUP_VERSION}).`);
+  }
+  const schemaVersion = typeof root.schemaVersion === 'number' ? root.schemaVersion : 0;
+  if (schemaVersion > SCHEMA_VERSION) {
+    return fail(`El respaldo es de una versión más nueva de la app (esquema v${schemaVersion}).`);
+  }
+
+  const data = asRecord(root.data);
+  const missing = BACKUP_COLLECTIONS.filter(c => !Array.isArray(data[c]) && !OPTIONAL_COLLECTIONS.includes(c));
+  if (BACKUP_COLLECTIONS.every(c => !Array.isArray(data[c]))) return fail('El respaldo no trae datos.');
+
+  const { data: clean, issues, migrationsApplied } = normalizeImportedPayload(
+    Object.fromEntries(BACKUP_COLLECTIONS.map(c => [c, Array.isArray(data[c]) ? (data[c] as unknown[]) : []])),
+    schemaVersion
+  );
+  missing.forEach(c => issues.push({ collection: c, severity: 'unreadable', message: 'Colección ausente en el archivo' }));
+
+  const settings = asRecord(root.settings);
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: root.version,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: typeof root.exportedAt === 'string' ? root.exportedAt : '',
+    exportedBy: typeof root.exportedBy === 'string' ? root.exportedBy : '—',
+    settings: {
+      role: ROLES.includes(String(settings.role)) ? (settings.role as Role) : Role.MANAGEMENT,
+      storageBackend: BACKENDS.includes(settings.storageBackend as StorageBackend)
+        ? (settings.storageBackend as StorageBackend)
+        : 'indexedDB',
+    },
+    data: { tickets: clean.tickets, parts: clean.parts, pos: clean.pos, movements: clean.movements, incidents: clean.incidents },
+  };
+
+  const total = BACKUP_COLLECTIONS.reduce((sum, c) => sum + archive.data[c].length, 0);
+  const discarded = issues.filter(i => i.severity !== 'repaired').length;
+  return {
+    ok: true,
+    message: `Respaldo válido: ${total} registro(s)${discarded ? `, ${discarded} descartado(s)` : ''}.`,
+    archive,
+    issues,
+    migrationsApplied,
+  };
+};
+
+// =========================
+// Vista previa / plan de restauración
+// =========================
+
+export interface RestoreCounts {
+  added: number; // no existen aquí
+  updated: number; // el respaldo es más reciente
+  unchanged: number;
+  keptLocal: number; // merge: lo local es más reciente y se conserva
+  removed: number; // replace: existen aquí y no en el respaldo
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  counts: Record<BackupCollection, RestoreCounts>;
+  // Registros que entran al estado (replace: todos; merge: solo nuevos/actualizados)
+  tickets: Ticket[];
+  parts: InventoryPart[];
+  pos: PurchaseOrder[];
+  movements: PartMovement[];
+  incidents: Incident[];
+}
+
+type Versioned = { id: string; rev?: number; updatedAt?: string };
+
+// El respaldo gana si su revisión es mayor; a igual revisión, la fecha de actualización más reciente
+const isNewer = (theirs: Versioned, mine: Versioned) =>
+  (theirs.rev ?? 0) !== (mine.rev ?? 0)
+    ? (theirs.rev ?? 0) > (mine.rev ?? 0)
+    : (theirs.updatedAt ?? '') > (mine.updatedAt ?? '');
+
+const planRecords = <T extends Versioned>(local: T[], incoming: T[], mode: RestoreMode) => {
+  const byId = new Map(local.map(r => [r.id, r]));
+  const incomingIds = new Set(incoming.map(r => r.id));
+  const counts: RestoreCounts = { added: 0, updated: 0, unchanged: 0, keptLocal: 0, removed: 0 };
+  const take: T[] = [];
+  incoming.forEach(r => {
+    const mine = byId.get(r.id);
+    if (!mine) {
+      counts.added++;
+      take.push(r);
+    } else if (sameRecord(mine, r)) {
+      counts.unchanged++;
+      if (mode === 'replace') take.push(r);
+    } else if (mode === 'replace' || isNewer(r, mine)) {
+      counts.updated++;
+      take.push(r);
+    } else {
+      counts.keptLocal++;
+    }
+  });
+  if (mode === 'replace') counts.removed = local.filter(r => !incomingIds.has(r.id)).length;
+  return { counts, take };
+};
+
+// Un movimiento es el mismo si coincide en todo menos el id (los consecutivos son de cada instalación)
+const movementKey = (m: PartMovement) =>
+  [m.date, m.partId, m.type, m.qty, m.delta ?? '', m.ticketId ?? '', m.poId ?? '', m.note ?? ''].join('|');
+
+const planMovements = (local: PartMovement[], incoming: PartMovement[], mode: RestoreMode) => {
+  const counts: RestoreCounts = { added: 0, updated: 0, unchanged: 0, keptLocal: 0, removed: 0 };
+  const known = new Set(local.map(movementKey));
+  const incomingKeys = new Set(incoming.map(movementKey));
+  const fresh = incoming.filter(m => !known.has(movementKey(m)));
+  counts.added = fresh.length;
+  counts.unchanged = incoming.length - fresh.length;
+  if (mode === 'replace') counts.removed = local.filter(m => !incomingKeys.has(movementKey(m))).length;
+  return { counts, take: mode === 'replace' ? incoming : fresh };
+};
+
+export const planRestore = (current: DomainState, archive: BackupArchive, mode: RestoreMode): RestorePlan => {
+  const tickets = planRecords(current.tickets, archive.data.tickets, mode);
+  const parts = planRecords(current.parts, archive.data.parts, mode);
+  const pos = planRecords(current.pos, archive.data.pos, mode);
+  const movements = planMovements(current.movements, archive.data.movements, mode);
+  const incidents = planRecords(current.incidents, archive.data.incidents, mode);
+  return {
+    mode,
+    counts: { tickets: tickets.counts, parts: parts.counts, pos: pos.counts, movements: movements.counts, incidents: incidents.counts },
+    tickets: tickets.take,
+    parts: parts.take,
+    pos: pos.take,
+    movements: movements.take,
+    incidents: incidents.take,
+  };
+};
+
+export const planIsEmpty = (plan: RestorePlan) =>
+  plan.mode === 'merge' &&
+  plan.tickets.length + plan.parts.length + plan.pos.length + plan.movements.length + plan.incidents.length === 0;
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { useApp } from '../AppContext';
+import { deleteFiles, openAttachment, prepareFile, PreparedFile, saveFiles } from '../attachments';
+import { Attachment, EvidenceStage, Ticket, TicketStatus } from '../types';
+import { hasAfterPhoto } from '../workflow';
+import { Button } from './Button';
+import { Camera, FileText, Paperclip, X } from 'lucide-react';
+
+// Tomar foto (en el móvil abre la cámara) o elegir archivos; entrega los archivos ya comprimidos
+export const AttachmentInput: React.FC<{
+  stage: EvidenceStage;
+  onPrepared: (files: PreparedFile[]) => void;
+  onError: (message: string) => void;
+}> = ({ stage, onPrepared, onError }) => {
+  const camera = useRef<HTMLInputElement>(null);
+  const picker = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setBusy(true);
+    const results = await Promise.all(files.map(f => prepareFile(f, stage)));
+    setBusy(false);
+    const failed = results.filter(r => !r.ok);
+    if (failed.length) onError(failed.map(r => r.message).join(' '));
+    const prepared = results.flatMap(r => (r.prepared ? [r.prepared] : []));
+    if (prepared.length) onPrepared(prepared);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <input ref={camera} type="file" accept="image/*" capture="environment" className="hidden" onChange={handle} />
+      <input ref={picker} type="file" accept="image/*,application/pdf" multiple className="hidden" onChange={handle} />
+      <Button type="button" size="sm" variant="secondary" onClick={() => camera.current?.click()} disabled={busy}>
+        <Camera className="w-4 h-4 mr-1" /> Foto
+      </Button>
+      <Button type="button" size="sm" variant="secondary" onClick={() => picker.current?.click()} disabled={busy}>
+        <Paperclip className="w-4 h-4 mr-1" /> {busy ? 'Procesando…' : 'Archivo'}
+      </Button>
+    </div>
+  );
+};
+
+export const AttachmentThumb: React.FC<{
+  attachment: Pick<Attachment, 'id' | 'name' | 'thumbnail'>;
+  onOpen?: () => void;
+  onRemove?: () => void;
+}> = ({ attachment, onOpen, onRemove }) => (
+  <div className="relative w-16 h-16 shrink-0">
+    <button
+      type="button"
+      onClick={onOpen}
+      disabled={!onOpen}
+      title={attachment.name}
+      className="w-16 h-16 rounded-md border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center"
+    >
+      {attachment.thumbnail ? (
+        <img src={attachment.thumbnail} alt={attachment.name} className="w-full h-full object-cover" />
+      ) : (
+        <span className="flex flex-col items-center text-[9px] text-slate-500 px-1">
+          <FileText className="w-5 h-5 mb-0.5" />
+          <span className="truncate w-14">{attachment.name}</span>
+        </span>
+      )}
+    </button>
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        title="Quitar"
+        className="absolute -top-1.5 -right-1.5 bg-white border border-slate-200 rounded-full p-0.5 text-slate-400 hover:text-rose-600"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    )}
+  </div>
+);
+
+// En los formularios de reporte: las fotos esperan en memoria y se guardan al crear el ticket
+export const PendingAttachments: React.FC<{ files: PreparedFile[]; onChange: (files: PreparedFile[]) => void }> = ({
+  files,
+  onChange,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">Fotos / archivos (opcional)</label>
+      <div className="flex flex-wrap items-center gap-3">
+        {files.map(f => (
+          <AttachmentThumb
+            key={f.attachment.id}
+            attachment={f.attachment}
+            onRemove={() => onChange(files.filter(x => x.attachment.id !== f.attachment.id))}
+          />
+        ))}
+        <AttachmentInput
+          stage={EvidenceStage.BEFORE}
+          onPrepared={added => {
+            setError(null);
+            onChange([...files, ...added]);
+          }}
+          onError={setError}
+        />
+      </div>
+      {error && <div className="text-xs text-rose-600 mt-1">{error}</div>}
+    </div>
+  );
+};
+
+const STAGES = [EvidenceStage.BEFORE, EvidenceStage.AFTER, EvidenceStage.OTHER];
+
+// Evidencia del ticket: antes / después. Con la regla activa, avisa que falta la foto del después para resolver
+export const AttachmentsPanel: React.FC<{ ticket: Ticket }> = ({ ticket: shown }) => {
+  const { tickets, rules, addTicketAttachments, removeTicketAttachment } = useApp();
+  const ticket = tickets.find(t => t.id === shown.id) ?? shown;
+  const [stage, setStage] = useState(ticket.status === TicketStatus.OPEN ? EvidenceStage.BEFORE : EvidenceStage.AFTER);
+  const [error, setError] = useState<string | null>(null);
+
+  const attachments = ticket.attachments ?? [];
+  const closed = ticket.status === TicketStatus.RESOLVED || ticket.status === TicketStatus.VERIFIED;
+  const missingAfter = rules.requireAfterPhoto && !closed && !hasAfterPhoto(ticket);
+
+  const add = async (files: PreparedFile[]) => {
+    try {
+      await saveFiles(files);
+    } catch {
+      return setError('No se pudo guardar el archivo en este dispositivo.');
+    }
+    const res = addTicketAttachments(ticket.id, files.map(f => f.attachment));
+    if (!res.ok) {
+      deleteFiles(files.map(f => f.attachment.id)).catch(() => undefined);
+      return setError(res.message);
+    }
+    setError(null);
+  };
+
+  const open = async (id: string) => {
+    const res = await openAttachment(id);
+    if (!res.ok) setError(res.message);
+  };
+
+  // El archivo se queda en el dispositivo: deshacer la baja vuelve a mostrarlo completo
+  const remove = (id: string) => {
+    const res = removeTicketAttachment(ticket.id, id);
+    setError(res.ok ? null : res.message);
+  };
+
+  return (
+    <div>
+      <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">Evidencia</h4>
+      {missingAfter && (
+        <div className="text-xs bg-amber-50 border border-amber-200 text-amber-800 rounded-md px-3 py-2 mb-2">
+          Para resolver este ticket se requiere una foto del "después".
+        </div>
+      )}
+
+      {attachments.length === 0 && <p className="text-xs text-slate-400 italic mb-2">Sin fotos ni archivos.</p>}
+      {STAGES.map(s => {
+        const list = attachments.filter(a => a.stage === s);
+        if (list.length === 0) return null;
+        return (
+          <div key={s} className="mb-2">
+            <div className="text-[11px] font-semibold text-slate-500 mb-1">{s}</div>
+            <div className="flex flex-wrap gap-3">
+              {list.map(a => (
+                <AttachmentThumb key={a.id} attachment={a} onOpen={() => open(a.id)} onRemove={() => remove(a.id)} />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2 mt-2">
+        <select
+          value={stage}
+          onChange={e => setStage(e.target.value as EvidenceStage)}
+          className="border border-slate-300 rounded px-1 py-1 text-xs focus:outline-none focus:border-slate-500"
+        >
+          {STAGES.map(s => (
+            <option key={s}>{s}</option>
+          ))}
+        </select>
+        <AttachmentInput stage={stage} onPrepared={add} onError={setError} />
+      </div>
+      {error && <div className="text-xs text-rose-600 mt-1">{error}</div>}
+    </div>
+  );
+};
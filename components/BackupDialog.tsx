@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../AppContext';
+import { ParsedBackup, parseBackup, RestoreMode } from '../backup';
+import { BACKEND_LABEL } from '../storage';
+import { Button } from './Button';
+import { DatabaseBackup, Upload, X } from 'lucide-react';
+
+const COLLECTION_LABEL = {
+  tickets: 'Tickets',
+  parts: 'Refacciones',
+  pos: 'Órdenes de compra',
+  movements: 'Movimientos',
+  incidents: 'Fallas generales',
+} as const;
+
+const MODE_HELP: Record<RestoreMode, string> = {
+  replace: 'Todo lo actual se sustituye por el contenido del respaldo.',
+  merge: 'Se agregan los registros nuevos y se actualizan los que en el respaldo son más recientes.',
+};
+
+export const BackupDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { previewRestore, restoreBackup, permissions, storageBackend } = useApp();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [applySettings, setApplySettings] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const archive = parsed?.archive;
+  const plan = useMemo(() => (archive ? previewRestore(archive, mode) : null), [archive, mode, previewRestore]);
+
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setResult(null);
+    file
+      .text()
+      .then(text => setParsed(parseBackup(text)))
+      .catch(() => setParsed({ ok: false, message: 'No se pudo leer el archivo.', issues: [], migrationsApplied: [] }));
+  };
+
+  const confirm = () => {
+    if (!archive) return;
+    setResult(restoreBackup(archive, mode, applySettings));
+    setParsed(null);
+    setFileName(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <DatabaseBackup className="w-5 h-5 text-slate-500" />
+              Restaurar respaldo
+            </h3>
+            <div className="text-sm text-slate-500 mt-1">Archivo JSON exportado desde este DEMO</div>
+          </div>
+          <button onClick={onClose} title="Cerrar" className="text-slate-400 hover:text-slate-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!permissions.canAdjustStock && (
+            <div className="text-xs bg-amber-50 border border-amber-200 text-amber-800 rounded-md px-3 py-2">
+              Solo Gerencia puede restaurar respaldos (DEMO). Puedes revisar la vista previa.
+            </div>
+          )}
+
+          <label className="flex items-center gap-3 border border-dashed border-slate-300 rounded-lg px-4 py-3 cursor-pointer hover:bg-slate-50">
+            <Upload className="w-4 h-4 text-slate-500" />
+            <span className="text-sm text-slate-700">{fileName ?? 'Seleccionar archivo de respaldo…'}</span>
+            <input type="file" accept="application/json,.json" className="hidden" onChange={onFile} />
+          </label>
+
+          {result && (
+            <div className={`text-sm rounded-md px-3 py-2 ${result.ok ? 'bg-emerald-50 text-emerald-800' : 'bg-rose-50 text-rose-700'}`}>
+              {result.message}
+            </div>
+          )}
+
+          {parsed && !parsed.ok && <div className="text-sm rounded-md px-3 py-2 bg-rose-50 text-rose-700">{parsed.message}</div>}
+
+          {archive && plan && (
+            <>
+              <div className="text-xs text-slate-600 space-y-0.5">
+                <div>{parsed.message}</div>
+                <div>
+                  Exportado {archive.exportedAt ? new Date(archive.exportedAt).toLocaleString() : '—'} por {archive.exportedBy}
+                </div>
+                {parsed.migrationsApplied.map(m => (
+                  <div key={m}>• Migración {m}</div>
+                ))}
+              </div>
+
+              {parsed.issues.length > 0 && (
+                <div className="space-y-1 text-xs max-h-32 overflow-y-auto">
+                  {parsed.issues.map((i, idx) => (
+                    <div key={idx} className="border border-amber-200 bg-amber-50 text-amber-800 rounded-md px-2 py-1">
+                      <span className="opacity-70">{i.collection}{i.recordId ? ` / ${i.recordId}` : ''}</span> {i.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                {(['merge', 'replace'] as RestoreMode[]).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`flex-1 text-left border rounded-lg px-3 py-2 ${
+                      mode === m ? 'border-slate-900 bg-slate-50' : 'border-slate-200 hover:bg-slate-50'
+                    }`}
+                  >
+                    <div className="text-sm font-semibold text-slate-900">{m === 'merge' ? 'Combinar' : 'Reemplazar todo'}</div>
+                    <div className="text-[11px] text-slate-500">{MODE_HELP[m]}</div>
+                  </button>
+                ))}
+              </div>
+
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-400 text-left">
+                    <th className="py-1 font-medium">Colección</th>
+                    <th className="py-1 font-medium text-right">Nuevos</th>
+                    <th className="py-1 font-medium text-right">Actualizados</th>
+                    <th className="py-1 font-medium text-right">Sin cambio</th>
+                    <th className="py-1 font-medium text-right">{mode === 'merge' ? 'Se conserva local' : 'Se eliminan'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(COLLECTION_LABEL) as (keyof typeof COLLECTION_LABEL)[]).map(c => {
+                    const n = plan.counts[c];
+                    return (
+                      <tr key={c} className="border-t border-slate-100 text-slate-700">
+                        <td className="py-1.5">{COLLECTION_LABEL[c]}</td>
+                        <td className="py-1.5 text-right">{n.added}</td>
+                        <td className="py-1.5 text-right">{n.updated}</td>
+                        <td className="py-1.5 text-right">{n.unchanged}</td>
+                        <td className={`py-1.5 text-right ${mode === 'replace' && n.removed ? 'text-rose-600 font-semibold' : ''}`}>
+                          {mode === 'merge' ? n.keptLocal : n.removed}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <label className="flex items-start gap-2 text-xs text-slate-600">
+                <input type="checkbox" checked={applySettings} onChange={e => setApplySettings(e.target.checked)} className="mt-0.5" />
+                <span>
+                  Aplicar configuración del respaldo (rol: {archive.settings.role}). El almacenamiento se mantiene en{' '}
+                  {BACKEND_LABEL[storageBackend]}
+                  {archive.settings.storageBackend !== storageBackend
+                    ? ` (el respaldo venía de ${BACKEND_LABEL[archive.settings.storageBackend]})`
+                    : ''}
+                  .
+                </span>
+              </label>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>
+            Cerrar
+          </Button>
+          <Button
+            variant={mode === 'replace' ? 'danger' : 'primary'}
+            disabled={!archive || !permissions.canAdjustStock}
+            onClick={confirm}
+          >
+            {mode === 'replace' ? 'Reemplazar datos' : 'Combinar datos'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
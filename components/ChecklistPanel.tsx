@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { useApp } from '../AppContext';
+import { Ticket, TicketStatus } from '../types';
+import { checklistFor, checklistName, checklistResponse, checkTransition } from '../workflow';
+import { Button } from './Button';
+
+// Checklist de verificación del ticket: cada punto se guarda al marcarlo (quién y cuándo). Con los
+// obligatorios marcados se puede confirmar el cierre
+export const VerificationChecklist: React.FC<{ ticket: Ticket; onVerified: () => void }> = ({ ticket: shown, onVerified }) => {
+  const { tickets, role, rules, checklists, markChecklistItem, changeTicketStatus } = useApp();
+  const ticket = tickets.find(t => t.id === shown.id) ?? shown;
+  const [error, setError] = useState<string | null>(null);
+
+  const template = checklistFor(checklists, ticket);
+  const verifyCheck = checkTransition(ticket, TicketStatus.VERIFIED, role, { rules, checklists });
+
+  const mark = (itemId: string, checked: boolean) => {
+    const res = markChecklistItem(ticket.id, itemId, checked);
+    setError(res.ok ? null : res.message);
+  };
+
+  const verify = () => {
+    const res = changeTicketStatus(ticket.id, TicketStatus.VERIFIED);
+    if (res.ok) onVerified();
+    else setError(res.message);
+  };
+
+  return (
+    <div className="bg-emerald-50 border border-emerald-100 p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-emerald-800 font-bold text-sm">Checklist de Verificación</h4>
+        <span className="text-[11px] text-emerald-700">{checklistName(template)}</span>
+      </div>
+      <div className="space-y-2 mb-3">
+        {template.items.map(item => {
+          const response = checklistResponse(ticket, item.id);
+          return (
+            <label key={item.id} className="flex items-start gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                className="rounded text-emerald-600 mt-1"
+                checked={!!response?.checked}
+                onChange={e => mark(item.id, e.target.checked)}
+              />
+              <span>
+                {item.label}
+                {!item.required && <span className="text-xs text-slate-400"> (opcional)</span>}
+                {response?.checked && (
+                  <span className="block text-[11px] text-slate-500">
+                    {response.user} · {new Date(response.date).toLocaleString()}
+                  </span>
+                )}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+      <Button onClick={verify} disabled={!verifyCheck.ok} size="sm" className="w-full">
+        Confirmar y Cerrar
+      </Button>
+      {!verifyCheck.ok && <div className="text-xs text-emerald-800 mt-2">{verifyCheck.message}</div>}
+      {error && <div className="text-xs text-rose-600 mt-1">{error}</div>}
+    </div>
+  );
+};
+
+// Ticket ya cerrado: lo que se revisó, para consulta
+export const ChecklistSummary: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
+  const checked = (ticket.checklist ?? []).filter(r => r.checked);
+  if (checked.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">Verificación</h4>
+      <ul className="space-y-1 text-xs text-slate-700">
+        {checked.map(r => (
+          <li key={r.itemId}>
+            ✓ {r.label}
+            <span className="text-slate-400">
+              {' '}
+              · {r.user} · {new Date(r.date).toLocaleString()}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
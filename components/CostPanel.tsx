@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { useApp } from '../AppContext';
+import { ticketCost } from '../costs';
+import { Ticket } from '../types';
+import { formatMinutes, formatMoney } from '../utils';
+import { Button } from './Button';
+import { Receipt, X } from 'lucide-react';
+
+// Desglose del costo de un ticket: refacciones surtidas, mano de obra y cargos de proveedor
+export const CostBreakdown: React.FC<{ ticket: Ticket }> = ({ ticket: shown }) => {
+  const { tickets, parts, movements, costs, permissions, addVendorCharge, removeVendorCharge } = useApp();
+  const ticket = tickets.find(t => t.id === shown.id) ?? shown;
+  const [vendor, setVendor] = useState(ticket.vendorType ?? '');
+  const [amount, setAmount] = useState('');
+  const [invoice, setInvoice] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const cost = ticketCost(ticket, { parts, movements, costs });
+  const canEdit = permissions.canManageCosts;
+
+  const submit = () => {
+    const res = addVendorCharge(ticket.id, { vendor, amount: Number(amount), invoice });
+    if (!res.ok) return setError(res.message);
+    setAmount('');
+    setInvoice('');
+    setError(null);
+  };
+
+  const remove = (chargeId: string) => {
+    const res = removeVendorCharge(ticket.id, chargeId);
+    setError(res.ok ? null : res.message);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase">Costo</h4>
+        <span className="text-sm font-black text-slate-900">{formatMoney(cost.total)}</span>
+      </div>
+
+      <table className="w-full text-xs">
+        <tbody>
+          {cost.parts.map(l => (
+            <tr key={l.movementId} className="border-t border-slate-100 text-slate-700">
+              <td className="py-1.5">
+                {l.name} x{l.qty}
+                <span className="text-slate-400"> · {l.unitCost === undefined ? 'sin costo' : `${formatMoney(l.unitCost)} c/u`}</span>
+              </td>
+              <td className="py-1.5 text-slate-400">Refacción</td>
+              <td className="py-1.5 text-right">{formatMoney(l.amount)}</td>
+            </tr>
+          ))}
+          {cost.labor.map(l => (
+            <tr key={l.technician} className="border-t border-slate-100 text-slate-700">
+              <td className="py-1.5">
+                {l.technician}
+                <span className="text-slate-400">
+                  {' '}
+                  · {formatMinutes(l.minutes)} a {formatMoney(l.rate)}/h
+                </span>
+              </td>
+              <td className="py-1.5 text-slate-400">Mano de obra</td>
+              <td className="py-1.5 text-right">{formatMoney(l.amount)}</td>
+            </tr>
+          ))}
+          {cost.vendor.map(c => (
+            <tr key={c.id} className="border-t border-slate-100 text-slate-700">
+              <td className="py-1.5">
+                {c.vendor}
+                <span className="text-slate-400">
+                  {c.invoice ? ` · factura ${c.invoice}` : ''} · {new Date(c.date).toLocaleDateString()}
+                </span>
+              </td>
+              <td className="py-1.5 text-slate-400">Proveedor</td>
+              <td className="py-1.5 text-right">
+                {formatMoney(c.amount)}
+                {canEdit && (
+                  <button onClick={() => remove(c.id)} title="Quitar cargo" className="ml-1 align-middle text-slate-300 hover:text-rose-600">
+                    <X className="w-3 h-3 inline" />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+          {cost.parts.length + cost.labor.length + cost.vendor.length === 0 && (
+            <tr>
+              <td colSpan={3} className="py-2 text-slate-400 italic">
+                Sin refacciones surtidas, tiempo ni cargos de proveedor.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {cost.missingPartCosts.length > 0 && (
+        <div className="text-[11px] text-amber-700 mt-1">Sin costo unitario en inventario: {cost.missingPartCosts.join(', ')}.</div>
+      )}
+
+      {canEdit && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <input
+            value={vendor}
+            onChange={e => setVendor(e.target.value)}
+            className="flex-1 min-w-[8rem] border border-slate-300 rounded px-2 py-1 text-sm focus:outline-none focus:border-slate-500"
+            placeholder="Proveedor"
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            className="w-28 border border-slate-300 rounded px-2 py-1 text-sm focus:outline-none focus:border-slate-500"
+            placeholder="Importe"
+          />
+          <input
+            value={invoice}
+            onChange={e => setInvoice(e.target.value)}
+            className="w-28 border border-slate-300 rounded px-2 py-1 text-sm focus:outline-none focus:border-slate-500"
+            placeholder="Factura (opc.)"
+          />
+          <Button size="sm" variant="secondary" onClick={submit} disabled={!amount}>
+            <Receipt className="w-3 h-3 mr-1" /> Cargo
+          </Button>
+        </div>
+      )}
+      {error && <div className="text-xs text-rose-600 mt-1">{error}</div>}
+    </div>
+  );
+};
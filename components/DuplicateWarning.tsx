@@ -0,0 +1,56 @@
+import React from 'react';
+import { Ticket } from '../types';
+import { folioOf, getStatusColor } from '../utils';
+import { Button } from './Button';
+import { Copy } from 'lucide-react';
+
+// Aviso antes de crear un reporte que parece repetido: sumarse al existente o crear uno nuevo de todos modos
+export const DuplicateWarning: React.FC<{
+  duplicates: Ticket[];
+  onJoin: (ticket: Ticket) => void;
+  onCreateAnyway: () => void;
+  onCancel: () => void;
+}> = ({ duplicates, onJoin, onCreateAnyway, onCancel }) => (
+  <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+    <div className="flex items-center gap-2 text-sm font-bold text-amber-800">
+      <Copy className="w-4 h-4" />
+      Parece que ya está reportado
+    </div>
+    <div className="text-xs text-amber-700 mt-1">
+      Mismo cuarto y activo, sin cerrar. Si es la misma falla, suma tu reporte al ticket existente.
+    </div>
+
+    <div className="mt-3 space-y-2">
+      {duplicates.map(t => (
+        <div key={t.id} className="bg-white border border-amber-100 rounded-md px-3 py-2 flex items-start justify-between gap-3">
+          <div className="text-xs text-slate-700 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-slate-400">{folioOf(t)}</span>
+              <span className={`px-2 py-0.5 rounded-full border text-[10px] ${getStatusColor(t.status)}`}>{t.status}</span>
+            </div>
+            <div className="mt-1 font-semibold">
+              {t.asset} — {t.issueType}
+            </div>
+            <div className="text-slate-500 truncate">{t.description}</div>
+            <div className="text-[11px] text-slate-400 mt-0.5">
+              {t.createdBy} · {new Date(t.createdAt).toLocaleString()}
+              {t.reporters?.length ? ` · +${t.reporters.length} reporte(s)` : ''}
+            </div>
+          </div>
+          <Button size="sm" type="button" onClick={() => onJoin(t)}>
+            Es lo mismo
+          </Button>
+        </div>
+      ))}
+    </div>
+
+    <div className="flex justify-end gap-2 mt-3">
+      <Button size="sm" type="button" variant="ghost" onClick={onCancel}>
+        Cancelar
+      </Button>
+      <Button size="sm" type="button" variant="secondary" onClick={onCreateAnyway}>
+        Es otra falla: crear de todos modos
+      </Button>
+    </div>
+  </div>
+);
@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../AppContext';
+import { ASSETS } from '../constants';
+import { incidentCandidates, incidentTickets, occupiedIncidentRooms } from '../domain';
+import { Incident, Ticket, TicketStatus } from '../types';
+import { folioOf, getStatusColor } from '../utils';
+import { checklistItems, nextIncidentTransitions } from '../workflow';
+import { Button } from './Button';
+import { Siren, X } from 'lucide-react';
+
+// Una falla general en una sola tarjeta: habitaciones afectadas, último aviso y acciones que alcanzan a todos los hijos
+export const IncidentCard: React.FC<{ incident: Incident; onOpenTicket?: (t: Ticket) => void }> = ({ incident, onOpenTicket }) => {
+  const { tickets, role, permissions, checklists, updateIncident, linkToIncident, unlinkFromIncident } = useApp();
+  const [to, setTo] = useState<TicketStatus | null>(null);
+  const [message, setMessage] = useState('');
+  const [vendorType, setVendorType] = useState('');
+  const [checklist, setChecklist] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const children = incidentTickets(tickets, incident.id);
+  const open = children.filter(t => t.status !== TicketStatus.VERIFIED);
+  const occupied = occupiedIncidentRooms(tickets, incident.id);
+  const candidates = incident.status === TicketStatus.VERIFIED ? [] : incidentCandidates(tickets, incident.asset);
+  const maxPriority = Math.max(0, ...open.map(t => t.priorityScore));
+  const last = incident.updates[incident.updates.length - 1];
+  const transitions = permissions.canUpdateIncidents ? nextIncidentTransitions(incident.status, role) : [];
+
+  const done = (res: { ok: boolean; message: string }) => {
+    if (!res.ok) return setError(res.message);
+    setTo(null);
+    setMessage('');
+    setVendorType('');
+    setChecklist({});
+    setError(null);
+  };
+
+  const confirm = () => done(updateIncident(incident.id, { status: to ?? undefined, message, vendorType, checklist }));
+
+  return (
+    <div className="bg-violet-50 border border-violet-200 rounded-xl p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <Siren className="w-4 h-4 text-violet-700" />
+            <span className="text-xs font-mono text-violet-500">{folioOf(incident)}</span>
+            <span className={`px-2 py-0.5 rounded-full border text-[10px] ${getStatusColor(incident.status)}`}>{incident.status}</span>
+          </div>
+          <div className="font-bold text-slate-900 mt-1">
+            {incident.title} <span className="font-normal text-slate-500">· {incident.asset}</span>
+          </div>
+          {incident.description && <div className="text-sm text-slate-600 mt-0.5">{incident.description}</div>}
+        </div>
+        <div className="text-right shrink-0">
+          <div className="text-[11px] text-slate-400">Prioridad máx.</div>
+          <div className="text-2xl font-black text-slate-900">{maxPriority}</div>
+        </div>
+      </div>
+
+      <div className="text-xs text-slate-600 mt-2">
+        {open.length} habitación(es) afectada(s) · {occupied.length} ocupada(s)
+        {children.length > open.length ? ` · ${children.length - open.length} cerrada(s)` : ''}
+      </div>
+      {last && (
+        <div className="text-xs text-slate-500 mt-1">
+          Último aviso ({new Date(last.date).toLocaleString()}, {last.user}): {last.action}
+        </div>
+      )}
+
+      {children.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1.5">
+          {children.map(t => (
+            <span
+              key={t.id}
+              className={`inline-flex items-center gap-1 text-[11px] border rounded-full px-2 py-0.5 bg-white ${
+                t.isOccupied && t.status !== TicketStatus.VERIFIED ? 'border-rose-200 text-rose-700' : 'border-violet-100 text-slate-700'
+              }`}
+            >
+              <button onClick={() => onOpenTicket?.(t)} disabled={!onOpenTicket} title={`${folioOf(t)} — ${t.status}`}>
+                Hab {t.roomNumber}
+              </button>
+              {permissions.canManageIncidents && incident.status !== TicketStatus.VERIFIED && (
+                <button onClick={() => done(unlinkFromIncident(t.id))} title="Es otra falla: separar" className="text-slate-400 hover:text-rose-600">
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {permissions.canManageIncidents && candidates.length > 0 && (
+        <div className="mt-3 flex items-center justify-between gap-2 text-xs bg-white border border-violet-100 rounded-md px-3 py-2">
+          <span className="text-slate-600">
+            {candidates.length} ticket(s) de {incident.asset} sin agrupar (Hab. {candidates.map(t => t.roomNumber).join(', ')})
+          </span>
+          <Button size="sm" variant="secondary" onClick={() => done(linkToIncident(incident.id, candidates.map(t => t.id)))}>
+            Agrupar aquí
+          </Button>
+        </div>
+      )}
+
+      {permissions.canUpdateIncidents && incident.status !== TicketStatus.VERIFIED && (
+        <div className="mt-3 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {transitions.map(tr => (
+              <Button key={tr.to} size="sm" variant={to === tr.to ? 'primary' : 'secondary'} onClick={() => setTo(to === tr.to ? null : tr.to)}>
+                {tr.label}
+              </Button>
+            ))}
+          </div>
+
+          {to === TicketStatus.VENDOR && (
+            <input
+              value={vendorType}
+              onChange={e => setVendorType(e.target.value)}
+              className="w-full border border-violet-200 rounded px-3 py-2 text-sm"
+              placeholder="Tipo de proveedor (ej. Técnico de calderas)"
+            />
+          )}
+          {/* Los puntos de las listas de todos los hijos abiertos; cada ticket guarda los suyos */}
+          {to === TicketStatus.VERIFIED && (
+            <div className="flex flex-wrap gap-3 text-xs text-slate-700">
+              {checklistItems(checklists, open).map(i => (
+                <label key={i.id} className="inline-flex items-center gap-1.5">
+                  <input type="checkbox" checked={!!checklist[i.id]} onChange={e => setChecklist({ ...checklist, [i.id]: e.target.checked })} />
+                  {i.label}
+                  {!i.required && <span className="text-slate-400">(opcional)</span>}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              value={message}
+              onChange={e => setMessage(e.target.value)}
+              className="flex-1 border border-violet-200 rounded px-3 py-2 text-sm focus:outline-none focus:border-violet-400"
+              placeholder={to ? `Aviso para ${to} (opcional)…` : 'Aviso para todos los tickets (ej. "Técnico en camino, ETA 14:00")…'}
+            />
+            <Button size="sm" onClick={confirm} disabled={!to && !message.trim()}>
+              {to ? `Pasar a ${to}` : 'Publicar aviso'}
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <div className="text-xs text-rose-600 mt-2">{error}</div>}
+    </div>
+  );
+};
+
+// Gerencia declara la falla y elige qué tickets abiertos agrupa (por omisión, todos los del mismo activo)
+export const DeclareIncidentForm: React.FC<{ onDone: (message: string) => void; onCancel: () => void }> = ({ onDone, onCancel }) => {
+  const { tickets, declareIncident } = useApp();
+  const [title, setTitle] = useState('');
+  const [asset, setAsset] = useState(ASSETS[1]);
+  const [description, setDescription] = useState('');
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = useMemo(
+    () => incidentCandidates(tickets, asset).sort((a, b) => a.roomNumber.localeCompare(b.roomNumber)),
+    [tickets, asset]
+  );
+
+  const toggle = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const submit = () => {
+    const res = declareIncident({ title, asset, description, ticketIds: candidates.filter(t => !excluded.has(t.id)).map(t => t.id) });
+    if (!res.ok) return setError(res.message);
+    onDone(res.message);
+  };
+
+  return (
+    <div className="bg-white border border-violet-200 rounded-xl p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          className="border border-slate-300 rounded px-3 py-2 text-sm"
+          placeholder="¿Qué falló? (ej. Caldera sin agua caliente)"
+        />
+        <select value={asset} onChange={e => setAsset(e.target.value)} className="border border-slate-300 rounded px-3 py-2 text-sm">
+          {ASSETS.map(a => (
+            <option key={a}>{a}</option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        value={description}
+        onChange={e => setDescription(e.target.value)}
+        rows={2}
+        className="w-full border border-slate-300 rounded px-3 py-2 text-sm"
+        placeholder="Detalle para el equipo (opcional)"
+      />
+
+      <div>
+        <div className="text-xs font-bold text-slate-500 uppercase mb-1">Tickets abiertos de {asset} ({candidates.length})</div>
+        {candidates.length === 0 ? (
+          <div className="text-xs text-slate-400">Ninguno por ahora; los que lleguen se pueden agrupar después.</div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {candidates.map(t => (
+              <label key={t.id} className="inline-flex items-center gap-1.5 text-xs border border-slate-200 rounded-full px-2 py-1">
+                <input type="checkbox" checked={!excluded.has(t.id)} onChange={() => toggle(t.id)} />
+                Hab {t.roomNumber} <span className="font-mono text-slate-400">{folioOf(t)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-rose-600">{error}</div>}
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          Cancelar
+        </Button>
+        <Button size="sm" onClick={submit} disabled={!title.trim()}>
+          Declarar falla general
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Dentro del detalle de un ticket hijo: a qué falla general pertenece y su último aviso
+export const IncidentNotice: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
+  const { incidents } = useApp();
+  const incident = incidents.find(i => i.id === ticket.incidentId);
+  if (!incident) return null;
+  const last = incident.updates[incident.updates.length - 1];
+
+  return (
+    <div className="bg-violet-50 border border-violet-200 text-violet-900 rounded-lg px-4 py-3 text-sm">
+      <div className="flex items-center gap-2 font-semibold">
+        <Siren className="w-4 h-4" />
+        Parte de la falla general {folioOf(incident)}: {incident.title}
+        <span className={`px-2 py-0.5 rounded-full border text-[10px] font-normal ${getStatusColor(incident.status)}`}>{incident.status}</span>
+      </div>
+      {last && <div className="text-xs text-violet-700 mt-1">Último aviso: {last.action}</div>}
+      <div className="text-[11px] text-violet-600 mt-1">El estado y los avisos se dan una sola vez, desde la tarjeta de la falla general.</div>
+    </div>
+  );
+};
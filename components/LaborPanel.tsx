@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { useApp } from '../AppContext';
+import { DEMO_TECHNICIAN } from '../constants';
+import { laborMinutes, runningSession, sessionTechnicians } from '../domain';
+import { Ticket, TicketStatus } from '../types';
+import { formatMinutes } from '../utils';
+import { Button } from './Button';
+import { useNow } from './useNow';
+import { Pause, Play, Square, Timer } from 'lucide-react';
+
+const CLOSED = [TicketStatus.RESOLVED, TicketStatus.VERIFIED];
+
+// ¿Qué puede hacer el técnico con su cronómetro? Terminar vale también estando en pausa
+const timerState = (t: Ticket, technician: string) => {
+  const mine = (t.workSessions ?? []).filter(w => w.technician === technician);
+  const running = !!runningSession(t, technician);
+  const last = mine[mine.length - 1];
+  return { running, canStop: running || (!!last && !last.stopped), started: mine.length > 0 };
+};
+
+// En la tarjeta: total de mano de obra y el cronómetro del técnico asignado
+export const LaborTimer: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
+  const { permissions, startWork, pauseWork, stopWork } = useApp();
+  const [error, setError] = useState<string | null>(null);
+  const live = !!runningSession(ticket);
+  const now = useNow(live);
+  const technician = ticket.assignedTo || DEMO_TECHNICIAN;
+  const total = laborMinutes(ticket, now);
+  const { running, canStop } = timerState(ticket, technician);
+  const controls = permissions.canTrackTime && !CLOSED.includes(ticket.status);
+  if (!controls && total === 0) return null;
+
+  const act = (e: React.MouseEvent, fn: (id: string, technician: string) => { ok: boolean; message: string }) => {
+    e.stopPropagation();
+    const res = fn(ticket.id, technician);
+    setError(res.ok ? null : res.message);
+  };
+
+  return (
+    <div className="mt-3 flex items-center justify-between gap-2 text-xs">
+      <span className={`inline-flex items-center gap-1 ${live ? 'text-emerald-700 font-semibold' : 'text-slate-500'}`}>
+        <Timer className="w-3.5 h-3.5" />
+        {formatMinutes(total)}
+        {live && <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></span>}
+      </span>
+      {controls && (
+        <span className="flex items-center gap-1">
+          {running ? (
+            <button onClick={e => act(e, pauseWork)} title={`Pausar (${technician})`} className="p-1 rounded hover:bg-slate-100 text-slate-600">
+              <Pause className="w-3.5 h-3.5" />
+            </button>
+          ) : (
+            <button onClick={e => act(e, startWork)} title={`Iniciar (${technician})`} className="p-1 rounded hover:bg-slate-100 text-slate-600">
+              <Play className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {canStop && (
+            <button onClick={e => act(e, stopWork)} title={`Terminar (${technician})`} className="p-1 rounded hover:bg-slate-100 text-slate-600">
+              <Square className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </span>
+      )}
+      {error && <span className="text-rose-600 truncate">{error}</span>}
+    </div>
+  );
+};
+
+// En el detalle: tiempo por técnico y cronómetros de quien esté trabajando
+export const LaborPanel: React.FC<{ ticket: Ticket }> = ({ ticket: shown }) => {
+  const { tickets, permissions, startWork, pauseWork, stopWork } = useApp();
+  const ticket = tickets.find(t => t.id === shown.id) ?? shown;
+  const now = useNow(!!runningSession(ticket));
+  const [technician, setTechnician] = useState(ticket.assignedTo || DEMO_TECHNICIAN);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const known = [...new Set([...tickets.flatMap(sessionTechnicians), ...tickets.flatMap(t => (t.assignedTo ? [t.assignedTo] : []))])];
+  const technicians = sessionTechnicians(ticket);
+  const controls = permissions.canTrackTime && !CLOSED.includes(ticket.status);
+
+  const act = (fn: (id: string, technician: string) => { ok: boolean; message: string }, who: string) => {
+    const res = fn(ticket.id, who);
+    setMessage({ ok: res.ok, text: res.message });
+  };
+
+  const controlsFor = (who: string) => {
+    const { running, canStop, started } = timerState(ticket, who);
+    return (
+      <span className="flex gap-1">
+        {running ? (
+          <Button size="sm" variant="secondary" onClick={() => act(pauseWork, who)}>
+            <Pause className="w-3 h-3 mr-1" /> Pausar
+          </Button>
+        ) : (
+          <Button size="sm" variant="secondary" onClick={() => act(startWork, who)}>
+            <Play className="w-3 h-3 mr-1" /> {started ? 'Reanudar' : 'Iniciar'}
+          </Button>
+        )}
+        {canStop && (
+          <Button size="sm" variant="ghost" onClick={() => act(stopWork, who)}>
+            <Square className="w-3 h-3 mr-1" /> Terminar
+          </Button>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase">Mano de obra</h4>
+        <span className="text-xs font-semibold text-slate-700">{formatMinutes(laborMinutes(ticket, now))} en total</span>
+      </div>
+
+      {technicians.length === 0 && <p className="text-xs text-slate-400 italic mb-2">Sin tiempo registrado.</p>}
+      <div className="space-y-1 mb-2">
+        {technicians.map(who => {
+          const { running, canStop } = timerState(ticket, who);
+          return (
+            <div key={who} className="flex items-center justify-between gap-2 text-sm bg-slate-50 border border-slate-200 rounded px-3 py-1.5">
+              <span className="flex items-center gap-2">
+                <span className={`w-1.5 h-1.5 rounded-full ${running ? 'bg-emerald-500 animate-pulse' : canStop ? 'bg-amber-400' : 'bg-slate-300'}`}></span>
+                <span className="font-medium text-slate-800">{who}</span>
+                <span className="text-xs text-slate-500">
+                  {formatMinutes(laborMinutes(ticket, now, who))} · {running ? 'trabajando' : canStop ? 'en pausa' : 'terminado'}
+                </span>
+              </span>
+              {controls && controlsFor(who)}
+            </div>
+          );
+        })}
+      </div>
+
+      {controls && !technicians.includes(technician.trim()) && (
+        <div className="flex gap-2">
+          <input
+            list="labor-technicians"
+            value={technician}
+            onChange={e => setTechnician(e.target.value)}
+            className="flex-1 min-w-0 border border-slate-300 rounded px-2 py-1 text-sm focus:outline-none focus:border-slate-500"
+            placeholder="Técnico"
+          />
+          <datalist id="labor-technicians">
+            {known.map(k => (
+              <option key={k} value={k} />
+            ))}
+          </datalist>
+          <Button size="sm" variant="secondary" onClick={() => act(startWork, technician)} disabled={!technician.trim()}>
+            <Play className="w-3 h-3 mr-1" /> Iniciar
+          </Button>
+        </div>
+      )}
+      {controls && technicians.includes(technician.trim()) && (
+        <button onClick={() => setTechnician('')} className="text-[11px] text-slate-500 hover:text-slate-800">
+          + Otro técnico
+        </button>
+      )}
+      {message && <div className={`text-xs mt-1 ${message.ok ? 'text-slate-500' : 'text-rose-600'}`}>{message.text}</div>}
+    </div>
+  );
+};
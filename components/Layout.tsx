@@ -1,10 +1,59 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useApp } from '../AppContext';
 import { Role } from '../types';
-import { Building2, UserCircle, RefreshCcw } from 'lucide-react';
+import { Building2, UserCircle, RefreshCcw, Undo2, Redo2, Download, Upload, Cloud, CloudOff } from 'lucide-react';
+import { RecoveryBanner } from './RecoveryBanner';
+import { SyncNotices } from './SyncNotices';
+import { BackupDialog } from './BackupDialog';
+import { BACKEND_LABEL } from '../storage';
+import { describeEvent } from '../events';
 
 export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { role, setRole, resetDemoData } = useApp();
+  const {
+    role,
+    setRole,
+    resetDemoData,
+    storageBackend,
+    syncStatus,
+    outbox,
+    dismissRejected,
+    tickets,
+    pos,
+    undo,
+    redo,
+    undoLabel,
+    redoLabel,
+    exportBackup,
+  } = useApp();
+  const [journalMsg, setJournalMsg] = useState<string | null>(null);
+  const [backupOpen, setBackupOpen] = useState(false);
+  const [outboxOpen, setOutboxOpen] = useState(false);
+  const online = !!syncStatus?.online;
+  const rejected = syncStatus?.rejected ?? [];
+
+  const runJournal = (fn: () => { ok: boolean; message: string }) => {
+    setJournalMsg(fn().message);
+    window.setTimeout(() => setJournalMsg(null), 3000);
+  };
+
+  // Ctrl/Cmd+Z deshace, Ctrl/Cmd+Shift+Z o Ctrl+Y rehace (en campos de texto se respeta el deshacer nativo)
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        runJournal(undo);
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        runJournal(redo);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [undo, redo]);
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
@@ -38,7 +87,88 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                 ))}
             </div>
             
+            {storageBackend === 'server' && (
+                <div className="relative">
+                    <button
+                        onClick={() => setOutboxOpen(v => !v)}
+                        title={online ? 'Conectado al servidor' : 'Sin conexión: las acciones se guardan y se envían al volver'}
+                        className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-[11px] font-medium border ${
+                            rejected.length > 0
+                                ? 'text-rose-700 bg-rose-50 border-rose-200'
+                                : online
+                                  ? 'text-emerald-700 bg-emerald-50 border-emerald-200'
+                                  : 'text-amber-800 bg-amber-50 border-amber-200'
+                        }`}
+                    >
+                        {online ? <Cloud className="w-3.5 h-3.5" /> : <CloudOff className="w-3.5 h-3.5" />}
+                        {outbox.length > 0 ? `${outbox.length} sin enviar` : online ? 'Sincronizado' : 'Sin conexión'}
+                        {rejected.length > 0 && ` · ${rejected.length} rechazado${rejected.length === 1 ? '' : 's'}`}
+                    </button>
+                    {outboxOpen && (
+                        <div className="absolute right-0 mt-2 w-80 bg-white border border-slate-200 rounded-xl shadow-lg p-3 text-xs z-50">
+                            <div className="font-semibold text-slate-700 mb-1">Bandeja de salida</div>
+                            {outbox.length === 0 ? (
+                                <p className="text-slate-500">Todo está en el servidor.</p>
+                            ) : (
+                                <ul className="space-y-1 max-h-64 overflow-y-auto">
+                                    {outbox.map(e => (
+                                        <li key={e.id} className="flex justify-between gap-2">
+                                            <span className="text-slate-700">{describeEvent(e, { tickets, pos })}</span>
+                                            <span className="text-slate-400 shrink-0">{new Date(e.date).toLocaleTimeString()}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {rejected.length > 0 && (
+                                <div className="mt-3 pt-2 border-t border-slate-100">
+                                    <div className="flex justify-between items-center mb-1">
+                                        <span className="font-semibold text-rose-700">Rechazado por el servidor</span>
+                                        <button onClick={dismissRejected} className="text-slate-400 hover:text-slate-700">
+                                            Descartar
+                                        </button>
+                                    </div>
+                                    <p className="text-slate-500 mb-1">No se aplicó; la copia local volvió a la del servidor.</p>
+                                    <ul className="space-y-1 max-h-40 overflow-y-auto">
+                                        {rejected.map((r, i) => (
+                                            <li key={`${r.id}-${i}`} className="text-rose-700">
+                                                {r.reason}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                            <p className="text-slate-400 mt-2">
+                                {syncStatus?.lastSyncAt ? `Último contacto: ${new Date(syncStatus.lastSyncAt).toLocaleTimeString()}` : 'Sin contacto con el servidor'}
+                            </p>
+                        </div>
+                    )}
+                </div>
+            )}
+
             <div className="flex items-center gap-2 border-l border-slate-200 pl-4">
+                {journalMsg && <span className="text-[11px] text-slate-500 max-w-[200px] truncate hidden md:block">{journalMsg}</span>}
+                <button
+                    onClick={() => runJournal(undo)}
+                    disabled={!undoLabel}
+                    title={undoLabel ? `Deshacer: ${undoLabel} (Ctrl+Z)` : 'Nada que deshacer'}
+                    className="text-slate-400 hover:text-slate-700 disabled:opacity-30 transition-colors"
+                >
+                    <Undo2 className="w-4 h-4" />
+                </button>
+                <button
+                    onClick={() => runJournal(redo)}
+                    disabled={!redoLabel}
+                    title={redoLabel ? `Rehacer: ${redoLabel} (Ctrl+Shift+Z)` : 'Nada que rehacer'}
+                    className="text-slate-400 hover:text-slate-700 disabled:opacity-30 transition-colors"
+                >
+                    <Redo2 className="w-4 h-4" />
+                </button>
+                <button onClick={exportBackup} title="Descargar respaldo (JSON)" className="text-slate-400 hover:text-slate-700 transition-colors">
+                    <Download className="w-4 h-4" />
+                </button>
+                <button onClick={() => setBackupOpen(true)} title="Restaurar respaldo" className="text-slate-400 hover:text-slate-700 transition-colors">
+                    <Upload className="w-4 h-4" />
+                </button>
                 <button onClick={resetDemoData} title="Reiniciar Demo" className="text-slate-400 hover:text-rose-600 transition-colors">
                     <RefreshCcw className="w-4 h-4" />
                 </button>
@@ -53,13 +183,18 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
 
       {/* Main Content */}
       <main className="flex-1 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 w-full">
+        <RecoveryBanner />
         {children}
       </main>
+      <SyncNotices />
+      {backupOpen && <BackupDialog onClose={() => setBackupOpen(false)} />}
       
       <footer className="bg-slate-50 border-t border-slate-200 py-6 mt-auto">
         <div className="max-w-7xl mx-auto px-4 text-center">
             <p className="text-xs text-slate-400">
-                METODIKO DEMO VERSION 1.0 — Datos simulados localmente.
+                {storageBackend === 'server'
+                  ? `METODIKO DEMO VERSION 1.0 — Datos compartidos vía servidor (${online ? 'conectado' : 'sin conexión: se usa la copia local y se sincroniza al volver'}).`
+                  : `METODIKO DEMO VERSION 1.0 — Datos simulados localmente (${BACKEND_LABEL[storageBackend]}).`}
             </p>
         </div>
       </footer>
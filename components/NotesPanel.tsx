@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { useApp } from '../AppContext';
+import { noteThreads, visibleNotes } from '../domain';
+import { NoteKind, Role, Ticket, TicketNote } from '../types';
+import { Button } from './Button';
+import { Eye, PenTool, Reply, X } from 'lucide-react';
+
+const KIND_STYLE: Record<NoteKind, string> = {
+  [NoteKind.DIAGNOSIS]: 'bg-yellow-50 border-yellow-100',
+  [NoteKind.GUEST]: 'bg-sky-50 border-sky-100',
+  [NoteKind.INTERNAL]: 'bg-slate-50 border-slate-200',
+  [NoteKind.SYSTEM]: 'bg-white border-dashed border-slate-200 text-slate-500',
+};
+
+const BADGE_STYLE: Record<NoteKind, string> = {
+  [NoteKind.DIAGNOSIS]: 'bg-yellow-100 text-yellow-800',
+  [NoteKind.GUEST]: 'bg-sky-100 text-sky-800',
+  [NoteKind.INTERNAL]: 'bg-slate-200 text-slate-700',
+  [NoteKind.SYSTEM]: 'bg-slate-100 text-slate-500',
+};
+
+// Las de sistema las escribe la app; Recepción escribe notas de huésped o internas (siempre visibles para ella)
+const WRITABLE: NoteKind[] = [NoteKind.DIAGNOSIS, NoteKind.GUEST, NoteKind.INTERNAL];
+
+const NoteItem: React.FC<{ note: TicketNote; onReply?: () => void }> = ({ note, onReply }) => (
+  <div className={`p-2 rounded border text-xs text-slate-700 ${KIND_STYLE[note.kind]}`}>
+    <div className="flex items-center gap-2 text-[11px] text-slate-500 mb-0.5">
+      <span className={`px-1.5 rounded font-semibold ${BADGE_STYLE[note.kind]}`}>{note.kind}</span>
+      <span className="font-semibold text-slate-600">{note.user}</span>
+      <span>{new Date(note.date).toLocaleString()}</span>
+      {note.visibleToReception && <Eye className="w-3 h-3" aria-label="Visible para Recepción" />}
+      {onReply && (
+        <button onClick={onReply} className="ml-auto inline-flex items-center gap-0.5 hover:text-slate-800">
+          <Reply className="w-3 h-3" /> Responder
+        </button>
+      )}
+    </div>
+    <div className="whitespace-pre-wrap">{note.text}</div>
+  </div>
+);
+
+// Notas del ticket como línea de tiempo con hilos; cada rol ve lo que le toca (visibleNotes)
+export const NotesPanel: React.FC<{ ticket: Ticket }> = ({ ticket: shown }) => {
+  const { tickets, role, addTicketNote } = useApp();
+  const ticket = tickets.find(t => t.id === shown.id) ?? shown;
+  const isReception = role === Role.RECEPTION;
+
+  const [text, setText] = useState('');
+  const [kind, setKind] = useState<NoteKind>(isReception ? NoteKind.GUEST : NoteKind.DIAGNOSIS);
+  const [visible, setVisible] = useState(false);
+  const [replyTo, setReplyTo] = useState<TicketNote | null>(null);
+  const [showSystem, setShowSystem] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const notes = visibleNotes(ticket, role);
+  const systemCount = notes.filter(n => n.kind === NoteKind.SYSTEM).length;
+  const threads = noteThreads(showSystem ? notes : notes.filter(n => n.kind !== NoteKind.SYSTEM));
+
+  const pickKind = (k: NoteKind) => {
+    setKind(k);
+    if (k === NoteKind.GUEST) setVisible(true);
+  };
+
+  const submit = () => {
+    const res = addTicketNote(ticket.id, { text, kind, visibleToReception: visible, replyTo: replyTo?.id });
+    if (!res.ok) return setError(res.message);
+    setText('');
+    setReplyTo(null);
+    setError(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase">Notas</h4>
+        {systemCount > 0 && (
+          <label className="inline-flex items-center gap-1 text-[11px] text-slate-500">
+            <input type="checkbox" checked={showSystem} onChange={e => setShowSystem(e.target.checked)} />
+            Sistema ({systemCount})
+          </label>
+        )}
+      </div>
+
+      <div className="border-l-2 border-slate-200 pl-4 space-y-3 mb-3 max-h-60 overflow-y-auto">
+        {threads.length === 0 && <p className="text-xs text-slate-400 italic">Sin notas.</p>}
+        {threads.map(({ root, replies }) => (
+          <div key={root.id} className="relative">
+            <div className="absolute -left-[21px] top-2 w-2.5 h-2.5 rounded-full bg-slate-300 border-2 border-white"></div>
+            <NoteItem note={root} onReply={() => setReplyTo(root)} />
+            {replies.length > 0 && (
+              <div className="ml-4 mt-1 pl-3 border-l border-slate-200 space-y-1">
+                {replies.map(r => (
+                  <NoteItem key={r.id} note={r} />
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {replyTo && (
+        <div className="flex items-center justify-between gap-2 text-[11px] text-slate-500 mb-1">
+          <span className="truncate">
+            Respondiendo a {replyTo.user}: {replyTo.text}
+          </span>
+          <button onClick={() => setReplyTo(null)} className="hover:text-slate-800">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <select
+          value={kind}
+          onChange={e => pickKind(e.target.value as NoteKind)}
+          className="border border-slate-300 rounded px-1 py-1 text-xs focus:outline-none focus:border-slate-500"
+        >
+          {WRITABLE.filter(k => !isReception || k !== NoteKind.DIAGNOSIS).map(k => (
+            <option key={k}>{k}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          className="flex-1 min-w-0 border border-slate-300 rounded px-2 py-1 text-sm focus:outline-none focus:border-slate-500"
+          placeholder={replyTo ? 'Escribe la respuesta...' : 'Agregar nota...'}
+        />
+        <Button onClick={submit} size="sm" variant="secondary" disabled={!text.trim()}>
+          <PenTool className="w-3 h-3" />
+        </Button>
+      </div>
+      {!isReception && (
+        <label className="inline-flex items-center gap-1.5 text-[11px] text-slate-500 mt-1">
+          <input type="checkbox" checked={visible} onChange={e => setVisible(e.target.checked)} />
+          Visible para Recepción
+        </label>
+      )}
+      {error && <div className="text-xs text-rose-600 mt-1">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { useApp } from '../AppContext';
+import { Ticket } from '../types';
+import { priorityBreakdown } from '../priority';
+
+// Por qué el ticket tiene su puntaje: un renglón por factor con los pesos vigentes
+export const PriorityBreakdown: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
+  const { priority } = useApp();
+  const factors = priorityBreakdown(ticket, priority);
+  if (factors.length === 0) return null;
+  const total = Math.round(factors.reduce((sum, f) => sum + f.points, 0));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase">Prioridad</h4>
+        <span className="text-xs font-semibold text-slate-700">{total} pts</span>
+      </div>
+      <div className="space-y-1 text-xs bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+        {factors.map(f => (
+          <div key={f.label} className="flex items-center justify-between gap-2">
+            <span className="text-slate-600">{f.label}</span>
+            <span className="font-mono text-slate-700">+{Math.round(f.points)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
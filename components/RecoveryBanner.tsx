@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { useApp } from '../AppContext';
+import { readRecoveryBackup } from '../persistence';
+import { Button } from './Button';
+import { DatabaseBackup, X } from 'lucide-react';
+
+const SEVERITY_LABEL = {
+  repaired: 'Reparado',
+  discarded: 'Descartado',
+  unreadable: 'Ilegible',
+} as const;
+
+const SEVERITY_CLASS = {
+  repaired: 'bg-sky-50 text-sky-700 border-sky-200',
+  discarded: 'bg-amber-50 text-amber-800 border-amber-200',
+  unreadable: 'bg-rose-50 text-rose-700 border-rose-200',
+} as const;
+
+export const RecoveryBanner: React.FC = () => {
+  const { recoveryReport, dismissRecoveryReport } = useApp();
+  const [expanded, setExpanded] = useState(false);
+
+  if (!recoveryReport) return null;
+
+  const { fromVersion, toVersion, migrationsApplied, issues, backupKey } = recoveryReport;
+  const lost = issues.filter(i => i.severity !== 'repaired').length;
+
+  const downloadBackup = () => {
+    const blob = new Blob([JSON.stringify(readRecoveryBackup(), null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `metodiko_respaldo_recuperacion_${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+  };
+
+  return (
+    <div className={`rounded-xl border p-4 mb-6 ${lost ? 'bg-amber-50 border-amber-200' : 'bg-sky-50 border-sky-200'}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <DatabaseBackup className={`w-5 h-5 mt-0.5 ${lost ? 'text-amber-600' : 'text-sky-600'}`} />
+          <div>
+            <p className="text-sm font-semibold text-slate-900">
+              {fromVersion < toVersion ? `Datos actualizados de v${fromVersion} a v${toVersion}` : 'Revisión de datos guardados'}
+            </p>
+            <p className="text-xs text-slate-600 mt-0.5">
+              {migrationsApplied.length} migración(es) • {issues.length - lost} registro(s) reparados • {lost} descartado(s)
+              {backupKey && <> • copia en <span className="font-mono">{backupKey}</span></>}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button size="sm" variant="ghost" onClick={() => setExpanded(v => !v)}>
+            {expanded ? 'Ocultar' : 'Detalles'}
+          </Button>
+          {backupKey && (
+            <Button size="sm" variant="secondary" onClick={downloadBackup}>
+              Descargar respaldo
+            </Button>
+          )}
+          <button onClick={dismissRecoveryReport} title="Cerrar" className="text-slate-400 hover:text-slate-700">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-2 text-xs">
+          {migrationsApplied.map(m => (
+            <div key={m} className="text-slate-600">• {m}</div>
+          ))}
+          {issues.map((i, idx) => (
+            <div key={idx} className={`flex items-center gap-2 border rounded-md px-2 py-1 ${SEVERITY_CLASS[i.severity]}`}>
+              <span className="font-semibold">{SEVERITY_LABEL[i.severity]}</span>
+              <span className="opacity-70">{i.collection}{i.recordId ? ` / ${i.recordId}` : ''}</span>
+              <span>{i.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
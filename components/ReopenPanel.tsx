@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useApp } from '../AppContext';
+import { Ticket, TicketStatus } from '../types';
+import { nextTransitions } from '../workflow';
+import { Button } from './Button';
+import { RotateCcw } from 'lucide-react';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Días entre el cierre que se deshizo y la reapertura (null si el cierre no tenía fecha)
+export const daysToReopen = (r: { date: string; closedAt?: string }) =>
+  r.closedAt ? Math.max(0, Math.floor((new Date(r.date).getTime() - new Date(r.closedAt).getTime()) / DAY_MS)) : null;
+
+// Historial de reaperturas (cada una enlaza el cierre original) y, si el rol puede, el formulario para reabrir
+export const ReopenPanel: React.FC<{ ticket: Ticket; onReopened?: () => void }> = ({ ticket, onReopened }) => {
+  const { changeTicketStatus, role } = useApp();
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const canReopen = nextTransitions(ticket, role).some(tr => tr.to === TicketStatus.OPEN);
+  const reopenings = ticket.reopenings ?? [];
+  if (!canReopen && reopenings.length === 0) return null;
+
+  const reopen = () => {
+    const res = changeTicketStatus(ticket.id, TicketStatus.OPEN, { reason });
+    if (!res.ok) return setError(res.message);
+    setReason('');
+    setError(null);
+    onReopened?.();
+  };
+
+  return (
+    <div className="bg-orange-50 border border-orange-100 rounded-lg p-4">
+      <div className="flex items-center gap-2 text-sm font-bold text-orange-800">
+        <RotateCcw className="w-4 h-4" />
+        Reaperturas{ticket.reopenCount ? ` (${ticket.reopenCount})` : ''}
+      </div>
+
+      {reopenings.length > 0 && (
+        <div className="mt-2 space-y-2">
+          {reopenings.map((r, i) => {
+            const days = daysToReopen(r);
+            return (
+              <div key={i} className="text-xs bg-white/70 border border-orange-100 rounded-md px-3 py-2 text-slate-700">
+                <div>
+                  <span className="font-semibold">{new Date(r.date).toLocaleString()}</span> · {r.user}: {r.reason}
+                </div>
+                <div className="text-[11px] text-slate-500 mt-0.5">
+                  Cierre original: {r.closedAt ? new Date(r.closedAt).toLocaleString() : 'sin fecha'}
+                  {r.verifiedBy ? ` · verificó ${r.verifiedBy}` : ''}
+                  {r.technician ? ` · técnico ${r.technician}` : ''}
+                  {days !== null ? ` · reabierto a los ${days} día(s)` : ''}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canReopen && (
+        <div className="mt-3">
+          <div className="text-xs text-orange-700 mb-2">¿Volvió a fallar? Reabre este ticket en lugar de crear uno nuevo.</div>
+          <div className="flex gap-2">
+            <input
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              className="flex-1 border border-orange-200 rounded px-3 py-2 text-sm focus:outline-none focus:border-orange-400"
+              placeholder="Motivo de la reapertura (obligatorio)…"
+            />
+            <Button size="sm" onClick={reopen} disabled={!reason.trim()}>
+              Reabrir
+            </Button>
+          </div>
+          {error && <div className="text-xs text-rose-600 mt-1">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
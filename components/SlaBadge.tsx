@@ -0,0 +1,66 @@
+import React from 'react';
+import { Ticket } from '../types';
+import { pausedMs, resolutionDueAt, SLA_CLOCK_LABELS, slaAtRisk, slaStatus } from '../sla';
+import { formatMinutes } from '../utils';
+import { useNow } from './useNow';
+import { Hourglass } from 'lucide-react';
+
+const time = (ms: number) => new Date(ms).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+// En la tarjeta: cuenta regresiva del reloj que corre (respuesta o solución), en ámbar si va en riesgo
+export const SlaBadge: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
+  const now = useNow(!!ticket.sla && !ticket.sla.resolvedAt);
+  if (!ticket.sla) return null;
+  const { clock, breached } = slaStatus(ticket.sla, now);
+  if (!clock) {
+    return breached ? <span className="text-[11px] font-semibold text-rose-600">SLA vencido</span> : null;
+  }
+
+  const label = SLA_CLOCK_LABELS[clock.kind];
+  const late = clock.remainingMs <= 0;
+  const color = late ? 'text-rose-600 font-semibold' : clock.paused ? 'text-slate-400' : slaAtRisk(ticket.sla, now) ? 'text-amber-600 font-semibold' : 'text-slate-500';
+  const minutes = Math.abs(clock.remainingMs) / 60000;
+  const text = late
+    ? `${label} vencida hace ${formatMinutes(minutes)}`
+    : clock.paused
+      ? `${label}: en pausa (quedan ${formatMinutes(minutes)})`
+      : `${label}: ${formatMinutes(minutes)}`;
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-[11px] ${color}`} title={`${ticket.sla.policyName} · vence ${time(clock.due)}`}>
+      <Hourglass className="w-3 h-3" />
+      {text}
+    </span>
+  );
+};
+
+// En el detalle: política aplicada, vencimientos y si se cumplieron
+export const SlaDetails: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
+  const now = useNow(!!ticket.sla && !ticket.sla.resolvedAt);
+  const sla = ticket.sla;
+  if (!sla) return null;
+  const { responseBreached, resolutionBreached } = slaStatus(sla, now);
+  const row = (label: string, due: number, doneAt: string | undefined, breached: boolean) => (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-slate-600">{label}</span>
+      <span className={breached ? 'text-rose-600 font-semibold' : doneAt ? 'text-emerald-700' : 'text-slate-700'}>
+        {doneAt ? `${breached ? 'Fuera de tiempo' : 'A tiempo'} (${time(Date.parse(doneAt))})` : `${breached ? 'Vencida' : 'Vence'} ${time(due)}`}
+      </span>
+    </div>
+  );
+  const paused = pausedMs(sla, now.getTime()) / 60000;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase">Nivel de servicio</h4>
+        <span className="text-xs font-semibold text-slate-700">{sla.policyName}</span>
+      </div>
+      <div className="space-y-1 text-xs bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+        {row('Respuesta', Date.parse(sla.responseDue), sla.respondedAt, responseBreached)}
+        {row('Solución', resolutionDueAt(sla, now), sla.resolvedAt, resolutionBreached)}
+        {paused > 0 && <div className="text-[11px] text-slate-400">En pausa (refacción / proveedor): {formatMinutes(paused)}</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { useApp } from '../AppContext';
+import { FieldConflict, Ticket } from '../types';
+import { folioOf } from '../utils';
+import { Button } from './Button';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+
+const FIELD_LABEL: Partial<Record<keyof Ticket, string>> = {
+  status: 'Estado',
+  assignedTo: 'Asignado a',
+  urgency: 'Urgencia',
+  impact: 'Impacto',
+  guestVip: 'Huésped VIP',
+  description: 'Descripción',
+  needsPart: 'Espera refacción',
+  needsVendor: 'Requiere proveedor',
+  verifiedBy: 'Verificado por',
+  closedAt: 'Cerrado',
+  reopenCount: 'Reaperturas',
+};
+
+const show = (v: unknown) =>
+  v === undefined || v === null || v === ''
+    ? '—'
+    : typeof v === 'boolean'
+      ? v
+        ? 'Sí'
+        : 'No'
+      : Array.isArray(v)
+        ? `${v.length} registro(s)`
+        : String(v);
+
+// Un cambio que llegó tarde: por cada campo se elige el valor vigente o el propuesto
+const ConflictCard: React.FC<{ ticket: Ticket; conflict: FieldConflict }> = ({ ticket, conflict }) => {
+  const { resolveConflict } = useApp();
+  const fields = Object.keys(conflict.incoming) as (keyof Ticket)[];
+  const [keep, setKeep] = useState<Partial<Record<keyof Ticket, 'current' | 'incoming'>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = (all?: 'current' | 'incoming') => {
+    const choice = all ? Object.fromEntries(fields.map(f => [f, all])) : keep;
+    const res = resolveConflict(ticket.id, conflict.id, choice);
+    if (!res.ok) setError(res.message);
+  };
+
+  return (
+    <div className="bg-white border border-amber-300 rounded-xl shadow-lg p-4">
+      <div className="flex items-center gap-2 text-sm font-semibold text-amber-800">
+        <AlertTriangle className="w-4 h-4" />
+        Conflicto en {folioOf(ticket)} (Hab. {ticket.roomNumber})
+      </div>
+      <p className="text-xs text-slate-600 mt-1">
+        {conflict.user} hizo «{conflict.action}» ({new Date(conflict.date).toLocaleString()}), pero estos campos ya habían cambiado.
+        Lo demás se combinó solo.
+      </p>
+      <div className="mt-2 space-y-1 text-xs">
+        {fields.map(f => (
+          <div key={f} className="grid grid-cols-[90px_1fr_1fr] gap-1 items-center">
+            <span className="font-semibold text-slate-700">{FIELD_LABEL[f] ?? f}</span>
+            {(['current', 'incoming'] as const).map(side => (
+              <button
+                key={side}
+                onClick={() => setKeep(k => ({ ...k, [f]: side }))}
+                className={`rounded-md px-2 py-1 text-left border ${
+                  (keep[f] ?? 'current') === side ? 'border-slate-900 bg-slate-50' : 'border-slate-200 text-slate-500'
+                }`}
+              >
+                <span className="block text-[10px] uppercase text-slate-400">{side === 'current' ? 'Vigente' : 'Propuesto'}</span>
+                {show(conflict[side][f])}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-xs text-rose-600 mt-2">{error}</p>}
+      <div className="flex justify-end gap-2 mt-3">
+        <Button size="sm" variant="ghost" onClick={() => apply('current')}>
+          Descartar propuesto
+        </Button>
+        <Button size="sm" onClick={() => apply()}>
+          Aplicar selección
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const SyncNotices: React.FC = () => {
+  const { syncNotices, dismissSyncNotice, tickets } = useApp();
+  const conflicted = tickets.filter(t => t.conflicts?.length);
+
+  if (syncNotices.length === 0 && conflicted.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-96 max-w-[calc(100vw-2rem)] space-y-2 max-h-[calc(100vh-2rem)] overflow-y-auto">
+      {conflicted.flatMap(t => t.conflicts!.map(c => <ConflictCard key={c.id} ticket={t} conflict={c} />))}
+
+      {syncNotices.map(n => (
+        <div key={n.id} className="bg-white border border-slate-200 rounded-xl shadow-lg p-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-xs font-semibold text-slate-700">
+              <RefreshCw className="w-3.5 h-3.5 text-sky-600" />
+              Cambios de otra pestaña
+            </div>
+            <button onClick={() => dismissSyncNotice(n.id)} title="Cerrar" className="text-slate-400 hover:text-slate-700">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+            {n.lines.slice(0, 4).map((l, idx) => (
+              <li key={idx}>• {l}</li>
+            ))}
+            {n.lines.length > 4 && <li className="text-slate-400">+{n.lines.length - 4} más</li>}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Hora actual para cronómetros y cuentas regresivas: con `ticking`, se refresca cada 30 s
+export const useNow = (ticking: boolean) => {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    setNow(new Date());
+    if (!ticking) return;
+    const h = window.setInterval(() => setNow(new Date()), 30_000);
+    return () => window.clearInterval(h);
+  }, [ticking]);
+  return now;
+};
@@ -6,7 +6,10 @@ import {
   TicketStatus,
   Urgency,
   Impact,
+  NoteKind,
   Role,
+  TicketNote,
+  WorkSession,
   InventoryPart,
   PurchaseOrder,
   POStatus,
@@ -45,6 +48,28 @@ const daysAgo = (days: number) => {
   return d.toISOString();
 };
 
+// Nota de diagnóstico del técnico en los tickets DEMO
+const techNote = (id: string, days: number, text: string): TicketNote => ({
+  id,
+  date: daysAgo(days),
+  user: Role.MAINTENANCE,
+  kind: NoteKind.DIAGNOSIS,
+  text,
+});
+
+// Tramo de trabajo cerrado en los tickets DEMO: `minutes` a partir de hace `days` días
+const workSession = (id: string, technician: string, days: number, minutes: number, stopped = false): WorkSession => ({
+  id,
+  technician,
+  start: daysAgo(days),
+  end: new Date(Date.parse(daysAgo(days)) + minutes * 60000).toISOString(),
+  ...(stopped ? { stopped } : {}),
+  user: Role.MAINTENANCE,
+});
+
+// Nombre que usa la DEMO al tomar un ticket (no hay cuentas por persona, solo roles)
+export const DEMO_TECHNICIAN = 'Técnico Demo';
+
 // =========================
 // DEMO: Inventario Refacciones
 // =========================
@@ -62,6 +87,8 @@ export const INITIAL_PARTS: InventoryPart[] = [
     leadTimeDays: 2,
     location: 'Bodega • Anaquel E-2',
     sku: 'ELE-OUT-UNI-WHT',
+    reorderTo: 6,
+    unitCost: 145,
   },
   {
     id: 'P-002',
@@ -75,6 +102,8 @@ export const INITIAL_PARTS: InventoryPart[] = [
     leadTimeDays: 1,
     location: 'Bodega • Anaquel P-1',
     sku: 'PLO-EMP-12-KIT',
+    reorderTo: 10,
+    unitCost: 35,
   },
   {
     id: 'P-003',
@@ -88,6 +117,8 @@ export const INITIAL_PARTS: InventoryPart[] = [
     leadTimeDays: 1,
     location: 'Almacén • Gabinete C-1',
     sku: 'CON-AA-4PK',
+    reorderTo: 10,
+    unitCost: 48,
   },
   {
     id: 'P-004',
@@ -101,6 +132,8 @@ export const INITIAL_PARTS: InventoryPart[] = [
     leadTimeDays: 3,
     location: 'Bodega • Anaquel H-3',
     sku: 'HVAC-CTRL-UNI',
+    reorderTo: 4,
+    unitCost: 220,
   },
   {
     id: 'P-005',
@@ -114,6 +147,8 @@ export const INITIAL_PARTS: InventoryPart[] = [
     leadTimeDays: 3,
     location: 'Bodega • Anaquel H-2',
     sku: 'HVAC-DRN-2M',
+    reorderTo: 4,
+    unitCost: 95,
   },
   {
     id: 'P-006',
@@ -127,6 +162,8 @@ export const INITIAL_PARTS: InventoryPart[] = [
     leadTimeDays: 1,
     location: 'Bodega • Anaquel E-1',
     sku: 'ELE-FOC-E27-9W',
+    reorderTo: 12,
+    unitCost: 38,
   },
   {
     id: 'P-007',
@@ -140,6 +177,8 @@ export const INITIAL_PARTS: InventoryPart[] = [
     leadTimeDays: 4,
     location: 'Almacén • Gabinete S-2',
     sku: 'CER-LOCK-BATT-KIT',
+    reorderTo: 4,
+    unitCost: 180,
   },
   {
     id: 'P-008',
@@ -153,6 +192,68 @@ export const INITIAL_PARTS: InventoryPart[] = [
     leadTimeDays: 1,
     location: 'Bodega • Anaquel M-1',
     sku: 'MOB-PEG-IND',
+    reorderTo: 3,
+    unitCost: 65,
+  },
+  {
+    id: 'P-009',
+    name: 'Capacitor Aire Acondicionado 35uF',
+    category: 'HVAC',
+    unit: 'pza',
+    stockOnHand: 1,
+    stockReserved: 0,
+    minStock: 2,
+    preferredVendor: 'Proveedor HVAC (DEMO)',
+    leadTimeDays: 3,
+    location: 'Bodega • Anaquel H-1',
+    sku: 'HVAC-CAP-035',
+    reorderTo: 6,
+    unitCost: 320,
+  },
+  {
+    id: 'P-010',
+    name: 'Filtro AC (standard)',
+    category: 'HVAC',
+    unit: 'pza',
+    stockOnHand: 0,
+    stockReserved: 0,
+    minStock: 4,
+    preferredVendor: 'Proveedor HVAC (DEMO)',
+    leadTimeDays: 3,
+    location: 'Bodega • Anaquel H-4',
+    sku: 'HVAC-FIL-STD',
+    reorderTo: 12,
+    unitCost: 85,
+  },
+  {
+    id: 'P-011',
+    name: 'Cable HDMI 2m',
+    category: 'TV/WiFi',
+    unit: 'pza',
+    stockOnHand: 5,
+    stockReserved: 0,
+    minStock: 2,
+    preferredVendor: 'Soporte IT Externo (DEMO)',
+    leadTimeDays: 2,
+    location: 'Almacén • Gabinete T-1',
+    sku: 'TV-HDMI-2M',
+    reorderTo: 10,
+    unitCost: 120,
+  },
+  {
+    id: 'P-012',
+    name: 'Silicón sanitario',
+    category: 'Plomería',
+    unit: 'tubo',
+    stockOnHand: 1,
+    stockReserved: 0,
+    minStock: 2,
+    preferredVendor: 'Plomería Express (DEMO)',
+    leadTimeDays: 1,
+    location: 'Bodega • Anaquel P-2',
+    sku: 'PLO-SIL-SAN',
+    reorderTo: 6,
+    unitCost: 90,
   },
 ];
 
@@ -193,7 +294,8 @@ export const INITIAL_TICKETS: Ticket[] = [
     createdAt: daysAgo(2),
     createdBy: Role.CLEANING,
     assignedTo: 'Carlos M.',
-    notes: ['Se requiere cambiar empaque.'],
+    notes: [techNote('N-1002-1', 1, 'Se requiere cambiar empaque.')],
+    workSessions: [workSession('W-1002-1', 'Carlos M.', 1, 40)],
     history: [
       { date: daysAgo(2), action: 'Ticket creado', user: Role.CLEANING },
       { date: daysAgo(1), action: 'Asignado a Carlos M.', user: Role.MAINTENANCE },
@@ -212,13 +314,14 @@ export const INITIAL_TICKETS: Ticket[] = [
     status: TicketStatus.WAITING_PART,
     createdAt: daysAgo(1),
     createdBy: Role.RECEPTION,
-    notes: ['Desconectado circuito por seguridad.', 'Solicitado reemplazo.'],
+    notes: [techNote('N-1003-1', 1, 'Desconectado circuito por seguridad.'), techNote('N-1003-2', 0, 'Solicitado reemplazo.')],
 
     // Inventario DEMO (vínculo real)
     needsPart: true,
     partId: 'P-001',
     partName: 'Outlet Universal Premium Blanco',
     partQty: 1,
+    reservedQty: 1,
 
     history: [
       { date: daysAgo(1), action: 'Ticket creado', user: Role.RECEPTION },
@@ -238,7 +341,8 @@ export const INITIAL_TICKETS: Ticket[] = [
     status: TicketStatus.RESOLVED,
     createdAt: daysAgo(5),
     createdBy: Role.CLEANING,
-    notes: ['Reparado con pegamento industrial.'],
+    notes: [techNote('N-1004-1', 2, 'Reparado con pegamento industrial.')],
+    workSessions: [workSession('W-1004-1', 'Carlos M.', 2, 55, true)],
     history: [
       { date: daysAgo(5), action: 'Ticket creado', user: Role.CLEANING },
       { date: daysAgo(2), action: 'Resuelto', user: Role.MAINTENANCE },
@@ -275,7 +379,7 @@ export const INITIAL_TICKETS: Ticket[] = [
     vendorType: 'Soporte IT Externo',
     createdAt: daysAgo(3),
     createdBy: Role.MAINTENANCE,
-    notes: ['Reinicio no funciona. Escalado a proveedor.'],
+    notes: [techNote('N-1006-1', 3, 'Reinicio no funciona. Escalado a proveedor.')],
     history: [{ date: daysAgo(3), action: 'Ticket creado y escalado', user: Role.MAINTENANCE }],
     priorityScore: 0,
   },
@@ -309,7 +413,7 @@ export const INITIAL_TICKETS: Ticket[] = [
     createdBy: Role.CLEANING,
     verifiedBy: 'Gerente Nocturno',
     closedAt: daysAgo(1),
-    notes: ['Baterías cambiadas.'],
+    notes: [techNote('N-1008-1', 2, 'Baterías cambiadas.')],
     history: [
       { date: daysAgo(6), action: 'Ticket creado', user: Role.CLEANING },
       { date: daysAgo(2), action: 'Resuelto', user: Role.MAINTENANCE },
@@ -0,0 +1,165 @@
+// src/costs.ts
+
+import { PartMovement, Ticket, VendorCharge, WorkSession } from './types';
+import type { DomainState } from './events';
+
+// =========================
+// Costos por ticket
+// =========================
+// Tres fuentes: refacciones surtidas (movimientos ISSUE, al costo unitario del momento), mano de obra
+// (tramos del cronómetro × tarifa por hora) y cargos de proveedor. Cada importe conserva su propia fecha,
+// así los totales por mes o por trimestre caen en el periodo en que se gastó.
+
+export interface CostSettings {
+  laborRate: number; // tarifa por hora de omisión (MXN)
+  technicianRates: Record<string, number>; // tarifa propia de un técnico
+}
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+  laborRate: 150,
+  technicianRates: {},
+};
+
+export const rateFor = (costs: CostSettings, technician: string) => costs.technicianRates[technician] ?? costs.laborRate;
+
+export type CostKind = 'parts' | 'labor' | 'vendor';
+
+export const COST_KIND_LABELS: Record<CostKind, string> = {
+  parts: 'Refacciones',
+  labor: 'Mano de obra',
+  vendor: 'Proveedor',
+};
+
+type CostData = Pick<DomainState, 'parts' | 'movements' | 'costs'>;
+
+export interface PartCostLine {
+  movementId: string;
+  partId: string;
+  name: string;
+  qty: number;
+  unitCost?: number; // ausente = la refacción no tiene costo capturado
+  amount: number;
+  date: string;
+}
+
+export interface LaborCostLine {
+  technician: string;
+  minutes: number;
+  rate: number; // por hora; promedio si la tarifa cambió entre tramos
+  amount: number;
+}
+
+export interface TicketCost {
+  parts: PartCostLine[];
+  labor: LaborCostLine[];
+  vendor: VendorCharge[];
+  totals: Record<CostKind, number>;
+  total: number;
+  missingPartCosts: string[]; // refacciones surtidas sin costo unitario
+}
+
+const sessionMinutes = (w: WorkSession, now: Date) =>
+  Math.max(0, (w.end ? Date.parse(w.end) : now.getTime()) - Date.parse(w.start)) / 60000;
+
+const sessionCost = (w: WorkSession, costs: CostSettings, now: Date) =>
+  (sessionMinutes(w, now) / 60) * (w.rate ?? rateFor(costs, w.technician));
+
+const issuesOf = (movements: PartMovement[], ticketId: string) =>
+  movements.filter(m => m.type === 'ISSUE' && m.ticketId === ticketId);
+
+const partLine = (m: PartMovement, data: CostData): PartCostLine => {
+  const part = data.parts.find(p => p.id === m.partId);
+  const unitCost = m.unitCost ?? part?.unitCost;
+  return {
+    movementId: m.id,
+    partId: m.partId,
+    name: part?.name ?? m.partId,
+    qty: m.qty,
+    unitCost,
+    amount: m.qty * (unitCost ?? 0),
+    date: m.date,
+  };
+};
+
+export const ticketCost = (t: Ticket, data: CostData, now = new Date()): TicketCost => {
+  const parts = issuesOf(data.movements, t.id).map(m => partLine(m, data));
+
+  const byTechnician = new Map<string, LaborCostLine>();
+  (t.workSessions ?? []).forEach(w => {
+    const line = byTechnician.get(w.technician) ?? { technician: w.technician, minutes: 0, rate: 0, amount: 0 };
+    line.minutes += sessionMinutes(w, now);
+    line.amount += sessionCost(w, data.costs, now);
+    byTechnician.set(w.technician, line);
+  });
+  const labor = [...byTechnician.values()].map(l => ({
+    ...l,
+    rate: l.minutes ? (l.amount / l.minutes) * 60 : rateFor(data.costs, l.technician),
+  }));
+  const vendor = t.vendorCharges ?? [];
+
+  const totals: Record<CostKind, number> = {
+    parts: parts.reduce((sum, l) => sum + l.amount, 0),
+    labor: labor.reduce((sum, l) => sum + l.amount, 0),
+    vendor: vendor.reduce((sum, c) => sum + c.amount, 0),
+  };
+  return {
+    parts,
+    labor,
+    vendor,
+    totals,
+    total: totals.parts + totals.labor + totals.vendor,
+    missingPartCosts: [...new Set(parts.filter(l => l.unitCost === undefined).map(l => l.name))],
+  };
+};
+
+// =========================
+// Totales por habitación, activo o mes
+// =========================
+
+export interface CostLine {
+  ticketId: string;
+  roomNumber: string;
+  asset: string;
+  kind: CostKind;
+  amount: number;
+  date: string; // ISO, cuándo se gastó
+}
+
+// Todos los importes de todos los tickets, cada uno con su fecha (refacción: surtido; mano de obra: inicio del tramo)
+export const costLines = (data: CostData & Pick<DomainState, 'tickets'>, now = new Date()): CostLine[] =>
+  data.tickets.flatMap(t => {
+    const base = { ticketId: t.id, roomNumber: t.roomNumber, asset: t.asset };
+    return [
+      ...issuesOf(data.movements, t.id).map(m => ({ ...base, kind: 'parts' as const, amount: partLine(m, data).amount, date: m.date })),
+      ...(t.workSessions ?? []).map(w => ({ ...base, kind: 'labor' as const, amount: sessionCost(w, data.costs, now), date: w.start })),
+      ...(t.vendorCharges ?? []).map(c => ({ ...base, kind: 'vendor' as const, amount: c.amount, date: c.date })),
+    ];
+  });
+
+export type CostGrouping = 'room' | 'asset' | 'month';
+
+export interface CostTotalRow extends Record<CostKind, number> {
+  key: string;
+  total: number;
+  tickets: number;
+}
+
+const keyOf = (l: CostLine, by: CostGrouping) => (by === 'room' ? l.roomNumber : by === 'asset' ? l.asset : l.date.slice(0, 7));
+
+export const costTotals = (lines: CostLine[], by: CostGrouping): CostTotalRow[] => {
+  const rows = new Map<string, CostTotalRow & { ids: Set<string> }>();
+  lines.forEach(l => {
+    const key = keyOf(l, by);
+    const row = rows.get(key) ?? { key, parts: 0, labor: 0, vendor: 0, total: 0, tickets: 0, ids: new Set<string>() };
+    row[l.kind] += l.amount;
+    row.total += l.amount;
+    row.ids.add(l.ticketId);
+    rows.set(key, row);
+  });
+  const sorted = [...rows.values()].sort((a, b) => (by === 'month' ? b.key.localeCompare(a.key) : b.total - a.total));
+  return sorted.map(({ ids, ...row }) => ({ ...row, tickets: ids.size }));
+};
+
+// Inicio del trimestre / año en curso (filtros de periodo)
+export const periodStart = (period: 'quarter' | 'year', now = new Date()) =>
+  new Date(now.getFullYear(), period === 'year' ? 0 : Math.floor(now.getMonth() / 3) * 3, 1).toISOString();
@@ -0,0 +1,1889 @@
+// src/domain.ts
+
+import {
+  Attachment,
+  ChecklistItem,
+  ChecklistTemplate,
+  EvidenceStage,
+  Impact,
+  Incident,
+  InventoryPart,
+  NoteKind,
+  POStatus,
+  PurchaseOrder,
+  Reopening,
+  Role,
+  Ticket,
+  TicketNote,
+  TicketStatus,
+  Urgency,
+  VendorCharge,
+  WorkSession,
+} from './types';
+import { INITIAL_PARTS, INITIAL_POS, INITIAL_TICKETS } from './constants';
+import { calculatePriority, clampNonNeg, folioOf, formatMinutes } from './utils';
+import {
+  applyEvent,
+  createGenesis,
+  DomainEvent,
+  DomainEventBody,
+  DomainState,
+  INCIDENT_FOLIO,
+  nextFolio,
+  PO_FOLIO,
+  TICKET_FOLIO,
+} from './events';
+import { auditInventory, needsRepair } from './integrity';
+import { BackupArchive, planIsEmpty, RestorePlan } from './backup';
+import {
+  checklistFor,
+  checklistName,
+  checklistResponse,
+  checkTransition,
+  DEFAULT_CHECKLISTS,
+  DEFAULT_WORKFLOW_RULES,
+  nextIncidentTransitions,
+  RULE_LABELS,
+  TransitionEffect,
+  TransitionInput,
+  TRANSITIONS,
+  WorkflowRules,
+} from './workflow';
+import { DEFAULT_COST_SETTINGS, rateFor } from './costs';
+import { backfillSla, DEFAULT_SLA_SETTINGS, ROOM_TYPES, SlaPolicy } from './sla';
+import { DEFAULT_PRIORITY_WEIGHTS, PriorityWeights } from './priority';
+import { DEFAULT_ESCALATION_RULES, dueEscalations, ESCALATION_ACTION_LABELS, EscalationRule } from './escalation';
+
+// =========================
+// Reglas de negocio (sin React)
+// =========================
+// Cada comando recibe el estado vigente y devuelve { ok, message, events }: valida, decide qué
+// eventos emitir y nada más. `execute` los sella y los aplica con el reductor de events.ts.
+// AppProvider solo envuelve esto; un script, un servidor o un worker pueden usarlo igual.
+
+export { calculatePriority };
+
+export type DemoScenario = 'GUEST_COMPLAINT' | 'CLEANING_REPORT' | 'BLOCK_PART' | 'BLOCK_VENDOR';
+
+// Quién ejecuta, cuándo y cómo se generan ids (se inyecta para que el resultado sea reproducible)
+export interface CommandContext {
+  user: Role;
+  now: Date;
+  newId: (prefix: string) => string; // único entre dispositivos (ej. uniqueId de utils)
+}
+
+// Evento antes de sellar: id/fecha/origen los pone `execute`; `user` solo si no es quien ejecuta (ej. 'Sistema')
+export type PendingEvent = DomainEventBody & { user?: Role | string };
+
+export type CommandResult<X = {}> = { ok: boolean; message: string; events: PendingEvent[] } & X;
+
+// Adjuntos sin sello: fecha y autor los pone el comando
+export type NewAttachment = Omit<Attachment, 'date' | 'user'>;
+
+// Quién reporta es quien ejecuta el comando (ctx.user)
+export type NewTicketData = Omit<
+  Ticket,
+  'id' | 'folio' | 'createdAt' | 'history' | 'priorityScore' | 'status' | 'attachments' | 'createdBy'
+> & {
+  attachments?: NewAttachment[];
+};
+
+export interface POParams {
+  items: { partId: string; qty: number }[];
+  vendor?: string;
+  etaDays?: number;
+  status?: POStatus.DRAFT | POStatus.ORDERED;
+  notes?: string;
+  ticketId?: string;
+}
+
+export interface POForPartParams {
+  partId: string;
+  qty: number;
+  vendor?: string;
+  etaDays?: number;
+  ticketId?: string;
+}
+
+const fail = (message: string): CommandResult => ({ ok: false, message, events: [] });
+
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '';
+const optionalText = (v: unknown) => v === undefined || typeof v === 'string';
+
+// =========================
+// Permisos
+// =========================
+
+export const permissionsFor = (role: Role) => {
+  const canViewInventory = role === Role.MANAGEMENT || role === Role.MAINTENANCE;
+  const canReserve = role === Role.MANAGEMENT || role === Role.MAINTENANCE;
+  const canConsume = role === Role.MANAGEMENT || role === Role.MAINTENANCE;
+  const canCreatePO = role === Role.MANAGEMENT;
+  const canAdjustStock = role === Role.MANAGEMENT;
+  const canMergeTickets = role === Role.MANAGEMENT;
+  const canManageIncidents = role === Role.MANAGEMENT; // declarar, agrupar, separar
+  const canUpdateIncidents = role === Role.MANAGEMENT || role === Role.MAINTENANCE; // avisos y estado
+  const canNotifyGuests = role === Role.MANAGEMENT || role === Role.RECEPTION;
+  const canConfigureWorkflow = role === Role.MANAGEMENT; // reglas opcionales (WorkflowRules)
+  const canTrackTime = role === Role.MANAGEMENT || role === Role.MAINTENANCE; // cronómetros de mano de obra
+  const canManageCosts = role === Role.MANAGEMENT; // costos de refacciones, tarifas y cargos de proveedor
+  const canVerify = role === Role.MANAGEMENT || role === Role.MAINTENANCE; // marcar el checklist de verificación
+  const canAssignTickets = role === Role.MANAGEMENT || role === Role.MAINTENANCE; // técnico, activo y tipo de falla
+  return {
+    canViewInventory,
+    canReserve,
+    canConsume,
+    canCreatePO,
+    canAdjustStock,
+    canMergeTickets,
+    canManageIncidents,
+    canUpdateIncidents,
+    canNotifyGuests,
+    canConfigureWorkflow,
+    canTrackTime,
+    canManageCosts,
+    canVerify,
+    canAssignTickets,
+  };
+};
+
+export type Permissions = ReturnType<typeof permissionsFor>;
+
+// =========================
+// Estado inicial y ejecución
+// =========================
+
+export const createInitialState = (): DomainState => ({
+  tickets: INITIAL_TICKETS.map(t => backfillSla(DEFAULT_SLA_SETTINGS, { ...t, folio: t.id, priorityScore: calculatePriority(t) })),
+  parts: INITIAL_PARTS,
+  pos: INITIAL_POS.map(p => ({ ...p, folio: p.id })),
+  movements: [],
+  incidents: [],
+  rules: DEFAULT_WORKFLOW_RULES,
+  costs: DEFAULT_COST_SETTINGS,
+  checklists: DEFAULT_CHECKLISTS,
+  sla: DEFAULT_SLA_SETTINGS,
+  escalations: DEFAULT_ESCALATION_RULES,
+  escalationLog: [],
+  priority: DEFAULT_PRIORITY_WEIGHTS,
+});
+
+// Registro nuevo: un Genesis con los datos iniciales DEMO
+export const createInitialLog = (note: string): { state: DomainState; events: DomainEvent[] } => {
+  const state = createInitialState();
+  return { state, events: [createGenesis(state, note)] };
+};
+
+export interface Stamp {
+  user: Role;
+  date: string; // ISO
+  origin: string;
+  nextEventId: () => string;
+}
+
+/** Sella los eventos pendientes y los aplica: estado nuevo + eventos listos para el registro. */
+export const execute = (state: DomainState, pending: PendingEvent[], stamp: Stamp) => {
+  const events = pending.map(
+    b =>
+      ({
+        ...b,
+        id: stamp.nextEventId(),
+        date: stamp.date,
+        user: b.user ?? stamp.user,
+        origin: stamp.origin,
+      }) as DomainEvent
+  );
+  return { state: events.reduce(applyEvent, state), events };
+};
+
+// =========================
+// Eventos de otros dispositivos
+// =========================
+// Lo que sube un cliente al servidor ya viene sellado (no pasa por los comandos): antes de unirlo se revisa
+// con las mismas reglas — quién puede hacerlo, que la transición exista y solo los datos que cada acción toca.
+// El rol es el de la cabecera de quien sube, no el que dice el evento.
+
+const EVENT_PERMISSION: Partial<Record<DomainEvent['type'], keyof Permissions>> = {
+  TicketsMerged: 'canMergeTickets',
+  IncidentDeclared: 'canManageIncidents',
+  IncidentLinked: 'canManageIncidents',
+  RulesChanged: 'canConfigureWorkflow',
+  SlaPoliciesChanged: 'canConfigureWorkflow',
+  EscalationRulesChanged: 'canConfigureWorkflow',
+  PriorityWeightsChanged: 'canConfigureWorkflow',
+  ChecklistTemplateSaved: 'canConfigureWorkflow',
+  ChecklistTemplateRemoved: 'canConfigureWorkflow',
+  CostSettingsChanged: 'canManageCosts',
+  PartCostChanged: 'canManageCosts',
+  VendorChargeAdded: 'canManageCosts',
+  VendorChargeRemoved: 'canManageCosts',
+  ChecklistMarked: 'canVerify',
+  WorkStarted: 'canTrackTime',
+  WorkEnded: 'canTrackTime',
+  PartReserved: 'canReserve',
+  ReservationReleased: 'canReserve',
+  PartIssued: 'canConsume',
+  PartConsumed: 'canConsume',
+  StockAdjusted: 'canAdjustStock',
+  InventoryReconciled: 'canAdjustStock',
+  BackupRestored: 'canAdjustStock',
+  RecordsRestored: 'canAdjustStock', // deshacer/rehacer reescribe registros completos, stock incluido
+  POCreated: 'canCreatePO',
+  POSent: 'canCreatePO',
+  POReceived: 'canCreatePO',
+  POCanceled: 'canCreatePO',
+};
+
+// Lo que escriben los efectos de la transición, además de los datos capturados
+const EFFECT_FIELDS: Partial<Record<TransitionEffect, (keyof Ticket)[]>> = {
+  stampVerification: ['verifiedBy', 'closedAt'],
+  recordReopening: ['reopenings', 'reopenCount', 'closedAt', 'verifiedBy', 'checklist'],
+};
+
+const checkStatusEvent = (state: DomainState, e: Extract<DomainEvent, { type: 'StatusChanged' }>, role: Role) => {
+  const t = state.tickets.find(x => x.id === e.ticketId);
+  if (!t) return 'Ticket no encontrado.';
+  const transition = TRANSITIONS.find(tr => tr.to === e.to && tr.from.includes(t.status));
+  if (!transition) return `No se puede pasar de ${t.status} a ${e.to}.`;
+  const { status: _ignored, ...changes } = e.changes;
+  const effectFields = transition.effects.flatMap(fx => EFFECT_FIELDS[fx] ?? []);
+  const extra = Object.keys(changes).find(k => !transition.fields.includes(k as keyof Ticket) && !effectFields.includes(k as keyof Ticket));
+  if (extra) return `El dato "${extra}" no se cambia al marcar ${e.to}.`;
+  const captured = Object.fromEntries(Object.entries(changes).filter(([k]) => transition.fields.includes(k as keyof Ticket)));
+  const check = checkTransition(t, e.to, role, {
+    changes: captured,
+    reason: changes.reopenings?.[changes.reopenings.length - 1]?.reason,
+    rules: state.rules,
+    checklists: state.checklists,
+  });
+  return check.ok ? invalidChanges(state, captured) : check.message;
+};
+
+/** ¿Puede `role` unir este evento de otro dispositivo sobre `state`? Devuelve el motivo si no. */
+export const checkEvent = (state: DomainState, e: DomainEvent, role: Role): string | undefined => {
+  // Lo de 'Sistema' (escalamientos, Genesis) solo lo escribe el servidor
+  if (e.user !== role) return `El evento viene firmado por ${e.user}, no por ${role}.`;
+  const perms = permissionsFor(role);
+  const needed = EVENT_PERMISSION[e.type];
+  if (needed && !perms[needed]) return `${role} no puede registrar "${e.type}".`;
+
+  switch (e.type) {
+    case 'Genesis':
+    case 'EscalationFired':
+      return `"${e.type}" no se recibe de otro dispositivo.`;
+    case 'TicketCreated': {
+      const invalid = invalidReport({ ...e.ticket, attachments: undefined });
+      if (invalid) return invalid;
+      if (!Object.values(Role).includes(e.ticket.createdBy)) return 'Rol desconocido.';
+      const closed = e.ticket.status === TicketStatus.RESOLVED || e.ticket.status === TicketStatus.VERIFIED;
+      if (e.ticket.reservedQty || e.ticket.closedAt || closed) {
+        return 'Un ticket nuevo no llega reservado ni cerrado.';
+      }
+      return undefined;
+    }
+    case 'TicketUpdated': {
+      const t = state.tickets.find(x => x.id === e.ticketId);
+      if (!t) return 'Ticket no encontrado.';
+      // Las ediciones directas, más lo que escriben las notas, los reportes sumados y las correcciones de refacción/proveedor
+      // (la refacción del catálogo no: va con reservar / surtir / liberar)
+      const fields = ([...EDITABLE_FIELDS, 'notes', 'reporters', ...TRANSITIONS.flatMap(tr => tr.fields)] as (keyof Ticket)[]).filter(
+        k => !PART_LINK_FIELDS.includes(k)
+      );
+      const keys = Object.keys(e.changes) as (keyof Ticket)[];
+      const locked = keys.find(k => !fields.includes(k));
+      if (locked) return `El dato "${locked}" no se edita directo.`;
+      if (keys.some(k => ASSIGNMENT_FIELDS.includes(k)) && !perms.canAssignTickets) {
+        return `${role} no puede asignar técnico, activo o tipo de falla.`;
+      }
+      return invalidChanges(state, e.changes);
+    }
+    case 'StatusChanged':
+      return checkStatusEvent(state, e, role);
+    case 'ConflictResolved': {
+      // Solo se toma lo propuesto en el conflicto, tal cual
+      const conflict = state.tickets.find(x => x.id === e.ticketId)?.conflicts?.find(c => c.id === e.conflictId);
+      if (!conflict) return 'El conflicto ya fue resuelto.';
+      const keys = Object.keys(e.changes) as (keyof Ticket)[];
+      const foreign = keys.find(k => !(k in conflict.incoming) || JSON.stringify(e.changes[k]) !== JSON.stringify(conflict.incoming[k]));
+      if (foreign) return `El dato "${foreign}" no viene del conflicto.`;
+      if (keys.some(k => ASSIGNMENT_FIELDS.includes(k)) && !perms.canAssignTickets) {
+        return `${role} no puede asignar técnico, activo o tipo de falla.`;
+      }
+      return undefined;
+    }
+    case 'AttachmentAdded': {
+      const t = state.tickets.find(x => x.id === e.ticketId);
+      if (!t) return 'Ticket no encontrado.';
+      if (e.attachment.user !== role) return 'El adjunto viene a nombre de otro rol.';
+      if ((t.attachments?.length ?? 0) >= MAX_ATTACHMENTS) return `Máximo ${MAX_ATTACHMENTS} adjuntos por ticket.`;
+      return undefined;
+    }
+    case 'AttachmentRemoved': {
+      const a = state.tickets.find(x => x.id === e.ticketId)?.attachments?.find(x => x.id === e.attachmentId);
+      if (!a) return 'Adjunto no encontrado.';
+      return a.user === role || role === Role.MANAGEMENT ? undefined : 'Solo quien lo subió o Gerencia puede quitarlo.';
+    }
+    case 'IncidentUpdated':
+      // Un aviso sin cambio de estado también lo registra quien avisa a los huéspedes
+      return perms.canUpdateIncidents || (!e.status && perms.canNotifyGuests) ? undefined : `${role} no puede actualizar la falla general.`;
+    default:
+      return undefined;
+  }
+};
+
+// =========================
+// Tickets
+// =========================
+
+const ticketCreated = (
+  state: DomainState,
+  ctx: CommandContext,
+  data: Omit<Ticket, 'id' | 'folio' | 'createdAt' | 'history' | 'priorityScore'>,
+  action: string
+): Extract<PendingEvent, { type: 'TicketCreated' }> => ({
+  type: 'TicketCreated',
+  // El folio es una propuesta: si otro dispositivo lo tomó antes, el reductor asigna el siguiente
+  ticket: { ...data, id: ctx.newId('T-'), folio: nextFolio(state.tickets, TICKET_FOLIO), createdAt: ctx.now.toISOString() },
+  action,
+});
+
+// =========================
+// Notas
+// =========================
+// Bitácora libre del ticket, con autor, fecha y tipo. Las de sistema (consumo de inventario, fusiones)
+// las escribe el reductor; Recepción solo ve las marcadas como visibles para ella.
+
+export interface NewNoteData {
+  text: string;
+  kind: NoteKind;
+  visibleToReception?: boolean;
+  replyTo?: string; // id de la nota que se responde
+}
+
+const noteBy = (ctx: CommandContext, kind: NoteKind, text: string, extra: Partial<TicketNote> = {}, user?: Role): TicketNote => ({
+  id: ctx.newId('N-'),
+  date: ctx.now.toISOString(),
+  user: user ?? ctx.user,
+  kind,
+  text,
+  ...extra,
+});
+
+export const visibleNotes = (t: Ticket, role: Role) =>
+  role === Role.RECEPTION ? t.notes.filter(n => n.visibleToReception) : t.notes;
+
+// Hilos: las respuestas cuelgan de la nota raíz, en orden de llegada
+export const noteThreads = (notes: TicketNote[]) => {
+  const ids = new Set(notes.map(n => n.id));
+  return notes
+    .filter(n => !n.replyTo || !ids.has(n.replyTo))
+    .map(root => ({ root, replies: notes.filter(n => n.replyTo === root.id) }));
+};
+
+export const addNote = (state: DomainState, ctx: CommandContext, ticketId: string, data: NewNoteData): CommandResult => {
+  const t = state.tickets.find(x => x.id === ticketId);
+  if (!t) return fail('Ticket no encontrado.');
+  const text = data.text.trim();
+  if (!text) return fail('Escribe la nota.');
+  if (!Object.values(NoteKind).includes(data.kind)) return fail('Tipo de nota desconocido.');
+  if (data.kind === NoteKind.SYSTEM) return fail('Las notas de sistema las registra la app.');
+
+  // Una respuesta a otra respuesta se cuelga de la raíz del hilo
+  const parent = data.replyTo ? t.notes.find(n => n.id === data.replyTo) : undefined;
+  if (data.replyTo && !parent) return fail('La nota que respondes ya no existe.');
+  const visible = ctx.user === Role.RECEPTION || !!data.visibleToReception;
+  const note = noteBy(ctx, data.kind, text, {
+    ...(visible ? { visibleToReception: true } : {}),
+    ...(parent ? { replyTo: parent.replyTo ?? parent.id } : {}),
+  });
+  const res = ticketUpdated(t, { notes: [...t.notes, note] }, `Nota agregada (${data.kind}): ${text.slice(0, 28)}${text.length > 28 ? '…' : ''}`);
+  return res.ok ? { ...res, message: 'Nota agregada.' } : res;
+};
+
+// =========================
+// Evidencia (fotos y archivos)
+// =========================
+// El archivo ya comprimido se guarda en el dispositivo (attachments.ts) con el id del adjunto;
+// aquí solo viaja el registro con la miniatura.
+
+export const MAX_ATTACHMENTS = 12;
+
+const stampAttachments = (ctx: CommandContext, files: NewAttachment[]): Attachment[] =>
+  files.map(a => ({ ...a, date: ctx.now.toISOString(), user: ctx.user }));
+
+export const addAttachments = (state: DomainState, ctx: CommandContext, ticketId: string, files: NewAttachment[]): CommandResult => {
+  const t = state.tickets.find(x => x.id === ticketId);
+  if (!t) return fail('Ticket no encontrado.');
+  if (files.length === 0) return fail('Elige una foto o archivo.');
+  if (files.some(a => !a.id || !a.name || !Object.values(EvidenceStage).includes(a.stage))) return fail('Adjunto inválido.');
+  if ((t.attachments?.length ?? 0) + files.length > MAX_ATTACHMENTS) return fail(`Máximo ${MAX_ATTACHMENTS} adjuntos por ticket.`);
+  return {
+    ok: true,
+    message: `${files.length} adjunto(s) agregado(s) a ${folioOf(t)}.`,
+    events: stampAttachments(ctx, files).map(attachment => ({ type: 'AttachmentAdded', ticketId, attachment })),
+  };
+};
+
+export const removeAttachment = (state: DomainState, ctx: CommandContext, ticketId: string, attachmentId: string): CommandResult => {
+  const t = state.tickets.find(x => x.id === ticketId);
+  const a = t?.attachments?.find(x => x.id === attachmentId);
+  if (!t || !a) return fail('Adjunto no encontrado.');
+  if (a.user !== ctx.user && ctx.user !== Role.MANAGEMENT) return fail('Solo quien lo subió o Gerencia puede quitarlo.');
+  return { ok: true, message: `Adjunto quitado de ${folioOf(t)}.`, events: [{ type: 'AttachmentRemoved', ticketId, attachmentId }] };
+};
+
+// =========================
+// Tiempo de trabajo (mano de obra)
+// =========================
+// Cada técnico lleva su propio cronómetro en el ticket. Un técnico trabaja en un ticket a la vez: al
+// iniciar en otro, el que tenía corriendo se pausa. Pasar a espera (refacción / proveedor) pausa y
+// resolver termina los cronómetros abiertos (efectos de la transición, workflow.ts).
+
+export const runningSession = (t: Ticket, technician?: string) =>
+  t.workSessions?.find(w => !w.end && (technician === undefined || w.technician === technician));
+
+// Minutos trabajados (de un técnico o de todos); los cronómetros que corren cuentan hasta `now`
+export const laborMinutes = (t: Ticket, now = new Date(), technician?: string) =>
+  (t.workSessions ?? [])
+    .filter(w => technician === undefined || w.technician === technician)
+    .reduce((sum, w) => sum + Math.max(0, (w.end ? Date.parse(w.end) : now.getTime()) - Date.parse(w.start)) / 60000, 0);
+
+export const sessionTechnicians = (t: Ticket) => [...new Set((t.workSessions ?? []).map(w => w.technician))];
+
+const TIMER_CLOSED = [TicketStatus.RESOLVED, TicketStatus.VERIFIED];
+
+export const startWork = (state: DomainState, ctx: CommandContext, ticketId: string, technician: string): CommandResult => {
+  const t = state.tickets.find(x => x.id === ticketId);
+  if (!t) return fail('Ticket no encontrado.');
+  if (!permissionsFor(ctx.user).canTrackTime) return fail('Solo Mantenimiento o Gerencia registran tiempo de trabajo.');
+  const name = technician.trim();
+  if (!name) return fail('Indica el técnico.');
+  if (TIMER_CLOSED.includes(t.status)) return fail(`El ticket está ${t.status}: ya no se registra tiempo.`);
+  if (runningSession(t, name)) return fail(`${name} ya tiene el cronómetro corriendo en este ticket.`);
+
+  const now = ctx.now.toISOString();
+  const elsewhere = state.tickets.flatMap(x => {
+    const w = x.id === ticketId ? undefined : runningSession(x, name);
+    return w ? [{ ticket: x, session: w }] : [];
+  });
+  const events: PendingEvent[] = elsewhere.map(({ ticket, session }) => ({
+    type: 'WorkEnded',
+    ticketId: ticket.id,
+    sessionId: session.id,
+    end: now,
+    stopped: false,
+  }));
+
+  // Empezar a trabajar pone el ticket En proceso (si el flujo lo permite desde su estado)
+  if (t.status !== TicketStatus.IN_PROGRESS && checkTransition(t, TicketStatus.IN_PROGRESS, ctx.user).ok) {
+    const moved = changeStatus(state, ctx, ticketId, TicketStatus.IN_PROGRESS, { action: `En proceso: ${name} inició el trabajo` });
+    if (moved.ok) events.push(...moved.events);
+  }
+  const session: WorkSession = { id: ctx.newId('W-'), technician: name, start: now, rate: rateFor(state.costs, name), user: ctx.user };
+  events.push({ type: 'WorkStarted', ticketId, session });
+
+  const paused = elsewhere.length ? ` Se pausó en ${elsewhere.map(x => folioOf(x.ticket)).join(', ')}.` : '';
+  return { ok: true, message: `Cronómetro de ${name} en marcha.${paused}`, events };
+};
+
+const endWork = (state: DomainState, ctx: CommandContext, ticketId: string, technician: string, stopped: boolean): CommandResult => {
+  const t = state.tickets.find(x => x.id === ticketId);
+  if (!t) return fail('Ticket no encontrado.');
+  if (!permissionsFor(ctx.user).canTrackTime) return fail('Solo Mantenimiento o Gerencia registran tiempo de trabajo.');
+  const name = technician.trim();
+  const running = runningSession(t, name);
+  // Terminar también vale sobre un tramo en pausa (lo marca como terminado)
+  const last = running ?? [...(t.workSessions ?? [])].reverse().find(w => w.technician === name);
+  if (!running && (!stopped || !last || last.stopped)) return fail(`${name || 'El técnico'} no tiene el cronómetro corriendo en este ticket.`);
+
+  const total = formatMinutes(laborMinutes(t, ctx.now, name));
+  return {
+    ok: true,
+    message: stopped ? `Trabajo de ${name} terminado: ${total} en total.` : `Cronómetro de ${name} en pausa (${total}).`,
+    events: [{ type: 'WorkEnded', ticketId, sessionId: last!.id, end: ctx.now.toISOString(), stopped }],
+  };
+};
+
+export const pauseWork = (state: DomainState, ctx: CommandContext, ticketId: string, technician: string) =>
+  endWork(state, ctx, ticketId, technician, false);
+
+export const stopWork = (state: DomainState, ctx: CommandContext, ticketId: string, technician: string) =>
+  endWork(state, ctx, ticketId, technician, true);
+
+// =========================
+// Costos
+// =========================
+// Los importes se calculan en costs.ts; aquí se capturan los datos: costo unitario de cada refacción,
+// tarifas por hora y lo que cobra el proveedor. Solo Gerencia.
+
+const validAmount = (n: number) => Number.isFinite(n) && n >= 0;
+
+export const setPartUnitCost = (state: DomainState, ctx: CommandContext, partId: string, unitCost: number): CommandResult => {
+  if (!permissionsFor(ctx.user).canManageCosts) return fail('Solo Gerencia captura costos (DEMO).');
+  const part = state.parts.find(p => p.id === partId);
+  if (!part) return fail('Refacción no encontrada.');
+  if (!validAmount(unitCost)) return fail('El costo debe ser un número mayor o igual a 0.');
+  if (part.unitCost === unitCost) return { ok: true, message: 'Sin cambios.', events: [] };
+  return { ok: true, message: `Costo de ${part.name}: $${unitCost}.`, events: [{ type: 'PartCostChanged', partId, unitCost }] };
+};
+
+// `technicianRates`: null quita la tarifa propia (vuelve a la de omisión)
+export const setCostSettings = (
+  state: DomainState,
+  ctx: CommandContext,
+  changes: { laborRate?: number; technicianRates?: Record<string, number | null> }
+): CommandResult => {
+  if (!permissionsFor(ctx.user).canManageCosts) return fail('Solo Gerencia cambia las tarifas (DEMO).');
+  const { laborRate } = changes;
+  if (laborRate !== undefined && !validAmount(laborRate)) return fail('La tarifa debe ser un número mayor o igual a 0.');
+  const rates = Object.entries(changes.technicianRates ?? {})
+    .map(([who, rate]) => [who.trim(), rate] as const)
+    .filter(([who, rate]) => who && (rate === null ? who in state.costs.technicianRates : state.costs.technicianRates[who] !== rate));
+  if (rates.some(([, rate]) => rate !== null && !validAmount(rate))) return fail('La tarifa debe ser un número mayor o igual a 0.');
+
+  const baseChanged = laborRate !== undefined && laborRate !== state.costs.laborRate;
+  if (!baseChanged && rates.length === 0) return { ok: true, message: 'Sin cambios.', events: [] };
+  const action = [
+    ...(baseChanged ? [`Tarifa base: $${laborRate}/h`] : []),
+    ...rates.map(([who, rate]) => (rate === null ? `${who}: tarifa base` : `${who}: $${rate}/h`)),
+  ].join(' · ');
+  return {
+    ok: true,
+    message: 'Tarifas actualizadas.',
+    events: [
+      {
+        type: 'CostSettingsChanged',
+        ...(baseChanged ? { laborRate } : {}),
+        ...(rates.length ? { technicianRates: Object.fromEntries(rates) } : {}),
+        action,
+      },
+    ],
+  };
+};
+
+export type NewVendorCharge = Pick<VendorCharge, 'vendor' | 'amount' | 'invoice'>;
+
+export const addVendorCharge = (state: DomainState, ctx: CommandContext, ticketId: string, data: NewVendorCharge): CommandResult => {
+  if (!permissionsFor(ctx.user).canManageCosts) return fail('Solo Gerencia registra cargos de proveedor (DEMO).');
+  const t = state.tickets.find(x => x.id === ticketId);
+  if (!t) return fail('Ticket no encontrado.');
+  const amount = Number(data.amount);
+  if (!Number.isFinite(amount) || amount <= 0) return fail('Indica el importe del cargo.');
+  const vendor = (data.vendor ?? '').trim() || t.vendorType || '';
+  if (!vendor) return fail('Indica el proveedor.');
+  const invoice = data.invoice?.trim();
+  const charge: VendorCharge = {
+    id: ctx.newId('VC-'),
+    vendor,
+    amount,
+    ...(invoice ? { invoice } : {}),
+    date: ctx.now.toISOString(),
+    user: ctx.user,
+  };
+  return { ok: true, message: `Cargo de ${vendor} registrado en ${folioOf(t)}.`, events: [{ type: 'VendorChargeAdded', ticketId, charge }] };
+};
+
+export const removeVendorCharge = (state: DomainState, ctx: CommandContext, ticketId: string, chargeId: string): CommandResult => {
+  if (!permissionsFor(ctx.user).canManageCosts) return fail('Solo Gerencia registra cargos de proveedor (DEMO).');
+  const t = state.tickets.find(x => x.id === ticketId);
+  if (!t?.vendorCharges?.some(c => c.id === chargeId)) return fail('Cargo no encontrado.');
+  return { ok: true, message: `Cargo quitado de ${folioOf(t)}.`, events: [{ type: 'VendorChargeRemoved', ticketId, chargeId }] };
+};
+
+// =========================
+// Reglas del flujo
+// =========================
+
+// Las reglas son de sí o no; por la API llegan tal cual
+export const invalidWorkflowRules = (changes: Partial<WorkflowRules>): string | undefined => {
+  if (!changes || typeof changes !== 'object') return 'Indica las reglas.';
+  const keys = Object.keys(RULE_LABELS) as (keyof WorkflowRules)[];
+  return keys.some(k => k in changes && typeof changes[k] !== 'boolean') ? 'Cada regla se activa con sí o no.' : undefined;
+};
+
+export const setWorkflowRules = (state: DomainState, ctx: CommandContext, changes: Partial<WorkflowRules>): CommandResult => {
+  if (!permissionsFor(ctx.user).canConfigureWorkflow) return fail('Solo Gerencia puede cambiar las reglas (DEMO).');
+  const invalid = invalidWorkflowRules(changes);
+  if (invalid) return fail(invalid);
+  const keys = (Object.keys(changes) as (keyof WorkflowRules)[]).filter(k => k in RULE_LABELS && changes[k] !== state.rules[k]);
+  if (keys.length === 0) return { ok: true, message: 'Sin cambios.', events: [] };
+  const rules = Object.fromEntries(keys.map(k => [k, changes[k]])) as Partial<WorkflowRules>;
+  const action = keys.map(k => `${RULE_LABELS[k]}: ${rules[k] ? 'sí' : 'no'}`).join(' · ');
+  return { ok: true, message: 'Regla actualizada.', events: [{ type: 'RulesChanged', rules, action }] };
+};
+
+// =========================
+// Niveles de servicio (SLA)
+// =========================
+// Las políticas se guardan completas y en orden (gana la primera que coincida). Solo cuentan para los
+// tickets que se creen después: los ya sellados conservan sus vencimientos.
+
+export const setSlaPolicies = (state: DomainState, ctx: CommandContext, policies: SlaPolicy[]): CommandResult => {
+  if (!permissionsFor(ctx.user).canConfigureWorkflow) return fail('Solo Gerencia define los niveles de servicio (DEMO).');
+  // Solo condiciones conocidas: una desconocida (API) se descarta en vez de no coincidir nunca
+  const cleaned = policies.map(p => {
+    const policy: SlaPolicy = {
+      id: p.id || ctx.newId('SLA-'),
+      name: String(p.name ?? '').trim(),
+      responseMinutes: Number(p.responseMinutes),
+      resolutionMinutes: Number(p.resolutionMinutes),
+    };
+    if (p.urgency && Object.values(Urgency).includes(p.urgency)) policy.urgency = p.urgency;
+    if (p.impact && Object.values(Impact).includes(p.impact)) policy.impact = p.impact;
+    if (typeof p.occupied === 'boolean') policy.occupied = p.occupied;
+    if (p.roomType && ROOM_TYPES.includes(p.roomType)) policy.roomType = p.roomType;
+    return policy;
+  });
+  if (cleaned.length === 0) return fail('Define al menos una política.');
+  if (cleaned.some(p => !p.name)) return fail('Cada política necesita un nombre.');
+  const valid = (n: number) => Number.isFinite(n) && n > 0;
+  if (cleaned.some(p => !valid(p.responseMinutes) || !valid(p.resolutionMinutes))) return fail('Los plazos deben ser mayores a 0.');
+  if (cleaned.some(p => p.resolutionMinutes < p.responseMinutes)) return fail('La solución no puede vencer antes que la respuesta.');
+  const last = cleaned[cleaned.length - 1];
+  const catchAll = [last.urgency, last.impact, last.occupied, last.roomType].every(c => c === undefined);
+  if (!catchAll) return fail('La última política debe aplicar a todo (sin condiciones).');
+  if (JSON.stringify(cleaned) === JSON.stringify(state.sla.policies)) return { ok: true, message: 'Sin cambios.', events: [] };
+  return {
+    ok: true,
+    message: 'Niveles de servicio actualizados.',
+    events: [{ type: 'SlaPoliciesChanged', policies: cleaned, action: `SLA: ${cleaned.map(p => p.name).join(', ')}` }],
+  };
+};
+
+// =========================
+// Escalamiento automático
+// =========================
+// Gerencia guarda la lista completa de reglas; `runEscalations` lo llama la app cada minuto y tras cada
+// cambio. Lo que dispara queda a nombre de 'Sistema' en la bitácora del ticket y en la de escalamientos.
+
+// Tipo de cada dato de la regla (ausente o null = sin condición); por la API llegan tal cual
+const ESCALATION_RULE_TYPES: Record<keyof EscalationRule, 'string' | 'number' | 'boolean'> = {
+  id: 'string',
+  name: 'string',
+  enabled: 'boolean',
+  status: 'string',
+  minAgeMinutes: 'number',
+  urgency: 'string',
+  occupied: 'boolean',
+  asset: 'string',
+  roomNumber: 'string',
+  action: 'string',
+  assignTo: 'string',
+  note: 'string',
+};
+
+export const invalidEscalationRules = (rules: EscalationRule[]): string | undefined => {
+  if (!Array.isArray(rules)) return 'Indica las reglas de escalamiento.';
+  if (rules.some(r => !r || typeof r !== 'object')) return 'Regla de escalamiento inválida.';
+  for (const r of rules) {
+    const bad = (Object.keys(ESCALATION_RULE_TYPES) as (keyof EscalationRule)[]).find(
+      k => r[k] !== undefined && r[k] !== null && typeof r[k] !== ESCALATION_RULE_TYPES[k]
+    );
+    if (bad) return `Regla de escalamiento inválida: "${bad}".`;
+  }
+  return undefined;
+};
+
+export const setEscalationRules = (state: DomainState, ctx: CommandContext, rules: EscalationRule[]): CommandResult => {
+  if (!permissionsFor(ctx.user).canConfigureWorkflow) return fail('Solo Gerencia define las reglas de escalamiento (DEMO).');
+  const invalid = invalidEscalationRules(rules);
+  if (invalid) return fail(invalid);
+  const cleaned = rules.map(r => {
+    const rule: EscalationRule = {
+      id: r.id || ctx.newId('ESC-'),
+      name: String(r.name ?? '').trim(),
+      enabled: r.enabled !== false,
+      action: r.action,
+    };
+    if (r.status && Object.values(TicketStatus).includes(r.status)) rule.status = r.status;
+    if (r.minAgeMinutes !== undefined && r.minAgeMinutes !== null) rule.minAgeMinutes = Number(r.minAgeMinutes);
+    if (r.urgency && Object.values(Urgency).includes(r.urgency)) rule.urgency = r.urgency;
+    if (typeof r.occupied === 'boolean') rule.occupied = r.occupied;
+    if (r.asset?.trim()) rule.asset = r.asset.trim();
+    if (r.roomNumber?.trim()) rule.roomNumber = r.roomNumber.trim();
+    if (r.assignTo?.trim()) rule.assignTo = r.assignTo.trim();
+    if (r.note?.trim()) rule.note = r.note.trim();
+    return rule;
+  });
+  if (cleaned.some(r => !r.name)) return fail('Cada regla necesita un nombre.');
+  if (cleaned.some(r => !(r.action in ESCALATION_ACTION_LABELS))) return fail('Acción de escalamiento desconocida.');
+  if (cleaned.some(r => r.minAgeMinutes !== undefined && !(Number.isFinite(r.minAgeMinutes) && r.minAgeMinutes >= 0))) {
+    return fail('La antigüedad debe ser 0 o más minutos.');
+  }
+  const missing = cleaned.find(r => (r.action === 'REASSIGN' && !r.assignTo) || (r.action === 'NOTE' && !r.note));
+  if (missing) return fail(`"${missing.name}": ${missing.action === 'REASSIGN' ? 'indica a quién reasignar' : 'escribe la nota'}.`);
+  if (new Set(cleaned.map(r => r.id)).size !== cleaned.length) return fail('Hay reglas repetidas.');
+  if (JSON.stringify(cleaned) === JSON.stringify(state.escalations)) return { ok: true, message: 'Sin cambios.', events: [] };
+  const active = cleaned.filter(r => r.enabled).length;
+  return {
+    ok: true,
+    message: 'Reglas de escalamiento actualizadas.',
+    events: [{ type: 'EscalationRulesChanged', rules: cleaned, action: `Escalamiento: ${cleaned.length} regla(s), ${active} activa(s)` }],
+  };
+};
+
+const raiseUrgency = (u: Urgency) => (u === Urgency.LOW ? Urgency.MEDIUM : Urgency.HIGH);
+
+// Cada regla dispara una vez por ticket. Subir urgencia o reasignar sin efecto (ya en Alta, ya asignado) no dispara
+export const runEscalations = (state: DomainState, ctx: CommandContext): CommandResult<{ fired: number }> => {
+  const current = new Map<string, Ticket>(); // el ticket ya con lo que dispararon reglas anteriores en esta pasada
+  const events: PendingEvent[] = [];
+  dueEscalations(state.escalations, state.escalationLog, state.tickets, ctx.now).forEach(({ rule, ticket }) => {
+    const t = current.get(ticket.id) ?? ticket;
+    let changes: Partial<Ticket> = {};
+    let detail: string;
+    let note: string | undefined;
+    switch (rule.action) {
+      case 'RAISE_URGENCY':
+        if (t.urgency === Urgency.HIGH) return;
+        changes = { urgency: raiseUrgency(t.urgency) };
+        detail = `urgencia ${t.urgency} → ${changes.urgency}`;
+        break;
+      case 'REASSIGN':
+        if (!rule.assignTo || t.assignedTo === rule.assignTo) return;
+        changes = { assignedTo: rule.assignTo };
+        detail = `reasignado a ${rule.assignTo}`;
+        break;
+      case 'NOTIFY':
+        detail = rule.note ? `aviso a Gerencia: ${rule.note}` : 'aviso a Gerencia';
+        break;
+      case 'NOTE':
+        note = rule.note ?? rule.name;
+        detail = 'nota agregada';
+        break;
+    }
+    current.set(t.id, { ...t, ...changes });
+    events.push({
+      type: 'EscalationFired',
+      ruleId: rule.id,
+      ruleName: rule.name,
+      ticketId: t.id,
+      escalation: rule.action,
+      changes,
+      ...(note ? { note } : {}),
+      detail,
+      user: 'Sistema',
+    });
+  });
+  return { ok: true, message: events.length ? `${events.length} escalamiento(s) aplicados.` : 'Nada que escalar.', events, fired: events.length };
+};
+
+// =========================
+// Pesos de prioridad
+// =========================
+// Gerencia ajusta cuánto suma cada factor (priority.ts); el puntaje de todos los tickets abiertos se recalcula
+// al guardar. La vista previa de la cola reordenada la arma la UI con `rerank` antes de llamar aquí.
+
+export const setPriorityWeights = (state: DomainState, ctx: CommandContext, weights: PriorityWeights): CommandResult => {
+  if (!permissionsFor(ctx.user).canConfigureWorkflow) return fail('Solo Gerencia ajusta los pesos de prioridad (DEMO).');
+  const num = (v: unknown, fallback: number) => (v === undefined || v === null || v === '' ? fallback : Number(v));
+  const table = <K extends string>(values: Partial<Record<K, unknown>> | undefined, base: Record<K, number>) =>
+    Object.fromEntries((Object.keys(base) as K[]).map(k => [k, num(values?.[k], base[k])])) as Record<K, number>;
+  // Lo que no venga (API) conserva el peso vigente
+  const cur = state.priority;
+  const cleaned: PriorityWeights = {
+    urgency: table(weights.urgency, cur.urgency),
+    impact: table(weights.impact, cur.impact),
+    occupied: num(weights.occupied, cur.occupied),
+    agePerDay: num(weights.agePerDay, cur.agePerDay),
+    ageMax: num(weights.ageMax, cur.ageMax),
+    roomType: table(weights.roomType, cur.roomType),
+    vip: num(weights.vip, cur.vip),
+    perReopening: num(weights.perReopening, cur.perReopening),
+    reopeningMax: num(weights.reopeningMax, cur.reopeningMax),
+  };
+  const values = [
+    ...Object.values(cleaned.urgency),
+    ...Object.values(cleaned.impact),
+    ...Object.values(cleaned.roomType),
+    cleaned.occupied,
+    cleaned.agePerDay,
+    cleaned.ageMax,
+    cleaned.vip,
+    cleaned.perReopening,
+    cleaned.reopeningMax,
+  ];
+  if (values.some(v => !Number.isFinite(v) || v < 0)) return fail('Los pesos deben ser números de 0 en adelante.');
+  if (JSON.stringify(cleaned) === JSON.stringify(cur)) return { ok: true, message: 'Sin cambios.', events: [] };
+  return {
+    ok: true,
+    message: 'Pesos de prioridad actualizados.',
+    events: [{ type: 'PriorityWeightsChanged', weights: cleaned, action: 'Pesos de prioridad actualizados' }],
+  };
+};
+
+// =========================
+// Checklist de verificación
+// =========================
+// Las listas por activo las define Gerencia (workflow.ts trae las de omisión). Cada renglón se marca en el
+// ticket por separado y queda con autor y fecha; el cierre (VERIFIED) exige los obligatorios.
+
+export interface ChecklistTemplateData {
+  id?: string; // sin id = lista nueva
+  asset?: string;
+  issueType?: string;
+  items: { id?: string; label: string; required: boolean }[];
+}
+
+export const invalidChecklistTemplate = (data: ChecklistTemplateData): string | undefined => {
+  if (!data || typeof data !== 'object' || !optionalText(data.id) || !optionalText(data.asset) || !optionalText(data.issueType)) {
+    return 'Lista de verificación inválida.';
+  }
+  if (!Array.isArray(data.items)) return 'La lista necesita al menos un punto.';
+  const item = (i: ChecklistTemplateData['items'][number]) =>
+    !!i &&
+    typeof i === 'object' &&
+    typeof i.label === 'string' &&
+    optionalText(i.id) &&
+    (i.required === undefined || typeof i.required === 'boolean');
+  return data.items.every(item) ? undefined : 'Cada punto necesita un texto (y obligatorio sí o no).';
+};
+
+export const saveChecklistTemplate = (state: DomainState, ctx: CommandContext, data: ChecklistTemplateData): CommandResult => {
+  if (!permissionsFor(ctx.user).canConfigureWorkflow) return fail('Solo Gerencia define las listas de verificación (DEMO).');
+  const invalid = invalidChecklistTemplate(data);
+  if (invalid) return fail(invalid);
+  const existing = data.id ? state.checklists.find(c => c.id === data.id) : undefined;
+  if (data.id && !existing) return fail('Lista de verificación no encontrada.');
+  const asset = existing ? existing.asset : data.asset?.trim() || undefined;
+  const issueType = existing ? existing.issueType : data.issueType?.trim() || undefined;
+  if (issueType && !asset) return fail('Indica el activo de la lista.');
+  if (!existing && state.checklists.some(c => c.asset === asset && c.issueType === issueType)) {
+    return fail(`Ya existe una lista para ${checklistName({ asset, issueType })}.`);
+  }
+
+  const items: ChecklistItem[] = data.items
+    .map(i => ({ id: i.id || ctx.newId('CI-'), label: i.label.trim(), required: !!i.required }))
+    .filter(i => i.label);
+  if (items.length === 0) return fail('La lista necesita al menos un punto.');
+  if (new Set(items.map(i => i.id)).size !== items.length) return fail('Hay puntos repetidos en la lista.');
+
+  const template: ChecklistTemplate = {
+    id: existing?.id ?? ctx.newId('CL-'),
+    ...(asset ? { asset } : {}),
+    ...(issueType ? { issueType } : {}),
+    items,
+  };
+  const name = checklistName(template);
+  const required = items.filter(i => i.required).length;
+  return {
+    ok: true,
+    message: `Lista "${name}" guardada.`,
+    events: [
+      { type: 'ChecklistTemplateSaved', template, action: `Checklist ${name}: ${items.length} punto(s), ${required} obligatorio(s)` },
+    ],
+  };
+};
+
+// La general no se quita (es la que aplica cuando ninguna otra coincide)
+export const removeChecklistTemplate = (state: DomainState, ctx: CommandContext, templateId: string): CommandResult => {
+  if (!permissionsFor(ctx.user).canConfigureWorkflow) return fail('Solo Gerencia define las listas de verificación (DEMO).');
+  const template = state.checklists.find(c => c.id === templateId);
+  if (!template) return fail('Lista de verificación no encontrada.');
+  if (!template.asset) return fail('La lista general no se puede quitar; edítala.');
+  const name = checklistName(template);
+  return {
+    ok: true,
+    message: `Lista "${name}" quitada.`,
+    events: [{ type: 'ChecklistTemplateRemoved', templateId, action: `Checklist ${name} quitado` }],
+  };
+};
+
+export const markChecklistItem = (
+  state: DomainState,
+  ctx: CommandContext,
+  ticketId: string,
+  itemId: string,
+  checked: boolean
+): CommandResult => {
+  if (!permissionsFor(ctx.user).canVerify) return fail(`${ctx.user} no puede marcar el checklist de verificación.`);
+  const t = state.tickets.find(x => x.id === ticketId);
+  if (!t) return fail('Ticket no encontrado.');
+  if (t.status === TicketStatus.VERIFIED) return fail('El ticket ya está cerrado: reábrelo para volver a verificar.');
+  const listed = checklistFor(state.checklists, t).items.find(i => i.id === itemId);
+  if (!listed) return fail('Ese punto no está en el checklist de este ticket.');
+  if ((checklistResponse(t, itemId)?.checked ?? false) === checked) return { ok: true, message: 'Sin cambios.', events: [] };
+  return {
+    ok: true,
+    message: `${listed.label}: ${checked ? 'revisado' : 'pendiente'}.`,
+    events: [{ type: 'ChecklistMarked', ticketId, itemId, label: listed.label, checked }],
+  };
+};
+
+// =========================
+// Duplicados
+// =========================
+// Varias áreas reportan la misma falla por separado. Probable duplicado: misma habitación y activo,
+// sin cerrar, reciente y con el mismo tipo de problema o una descripción parecida.
+
+export const DUPLICATE_WINDOW_DAYS = 7;
+
+const words = (s: string) =>
+  new Set(
+    s
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(w => w.length > 2)
+  );
+
+// Palabras en común / palabras totales (0…1)
+const similarity = (a: string, b: string) => {
+  const wa = words(a);
+  const wb = words(b);
+  const union = new Set([...wa, ...wb]).size;
+  return union ? [...wa].filter(w => wb.has(w)).length / union : 0;
+};
+
+export const findLikelyDuplicates = (
+  tickets: Ticket[],
+  data: Pick<Ticket, 'roomNumber' | 'asset' | 'issueType' | 'description'>,
+  now: Date,
+  excludeId?: string
+) =>
+  tickets
+    .filter(
+      t =>
+        t.id !== excludeId &&
+        t.roomNumber === data.roomNumber &&
+        t.asset === data.asset &&
+        t.status !== TicketStatus.VERIFIED &&
+        now.getTime() - new Date(t.createdAt).getTime() <= DUPLICATE_WINDOW_DAYS * 24 * 3600 * 1000 &&
+        (t.issueType === data.issueType || similarity(t.description, data.description) >= 0.3)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// Sin `allowDuplicate`, un probable duplicado detiene la creación y se devuelve para avisar a quien reporta
+// El reporte llega también por la API tal cual: datos obligatorios y valores conocidos
+export const invalidReport = (data: NewTicketData): string | undefined => {
+  if (!isText(data.roomNumber)) return 'Indica la habitación.';
+  if (!isText(data.asset)) return 'Indica el activo.';
+  if (!isText(data.issueType)) return 'Indica el tipo de falla.';
+  if (typeof data.description !== 'string') return 'Describe la falla.';
+  if (!Object.values(Urgency).includes(data.urgency)) return 'Urgencia desconocida.';
+  if (!Object.values(Impact).includes(data.impact)) return 'Impacto desconocido.';
+  if (typeof data.isOccupied !== 'boolean') return 'Indica si la habitación está ocupada.';
+  if (data.guestVip !== undefined && typeof data.guestVip !== 'boolean') return 'VIP debe ser sí o no.';
+  if (data.attachments !== undefined && !Array.isArray(data.attachments)) return 'Adjuntos inválidos.';
+  return undefined;
+};
+
+export const createTicket = (
+  state: DomainState,
+  ctx: CommandContext,
+  data: NewTicketData,
+  opts: { allowDuplicate?: boolean } = {}
+): CommandResult<{ ticketId: string; duplicates?: Ticket[] }> => {
+  const invalid = invalidReport(data);
+  if (invalid) return { ...fail(invalid), ticketId: '' };
+  const duplicates = opts.allowDuplicate ? [] : findLikelyDuplicates(state.tickets, data, ctx.now);
+  if (duplicates.length > 0) {
+    return {
+      ok: false,
+      message: `Posible duplicado de ${duplicates.map(folioOf).join(', ')} (Hab. ${data.roomNumber}, ${data.asset}).`,
+      events: [],
+      ticketId: '',
+      duplicates,
+    };
+  }
+  // Solo los datos del reporte: refacción, reservas, notas o cierre los ponen los comandos del flujo
+  const { roomNumber, isOccupied, guestVip, asset, issueType, description, urgency, impact, attachments } = data;
+  const report = { roomNumber, isOccupied, ...(guestVip ? { guestVip } : {}), asset, issueType, description, urgency, impact };
+  const fields = { ...report, createdBy: ctx.user };
+  const e = ticketCreated(
+    state,
+    ctx,
+    {
+      ...fields,
+      notes: [],
+      ...(attachments?.length ? { attachments: stampAttachments(ctx, attachments) } : {}),
+      needsPart: false,
+      needsVendor: false,
+      status: TicketStatus.OPEN,
+    },
+    'Ticket Creado'
+  );
+  return { ok: true, message: `Ticket ${e.ticket.folio} creado.`, events: [e], ticketId: e.ticket.id };
+};
+
+// "Es lo mismo": el reporte nuevo se suma como nota y quien lo hizo queda entre los reportantes
+export const addReport = (state: DomainState, ctx: CommandContext, ticketId: string, description: string): CommandResult => {
+  const t = state.tickets.find(x => x.id === ticketId);
+  if (!t) return fail('Ticket no encontrado.');
+  const note = noteBy(ctx, NoteKind.INTERNAL, `Reportado también por ${ctx.user}${description.trim() ? `: ${description.trim()}` : ''}`, {
+    visibleToReception: true,
+  });
+  const reporters = t.createdBy === ctx.user || t.reporters?.includes(ctx.user) ? t.reporters : [...(t.reporters ?? []), ctx.user];
+  const res = ticketUpdated(t, { notes: [...t.notes, note], reporters }, `Reporte adicional de ${ctx.user}`);
+  return res.ok ? { ...res, message: `Reporte sumado a ${folioOf(t)}.` } : res;
+};
+
+// Gerencia fusiona duplicados en uno: notas, historial y reportantes pasan al que sobrevive
+export const mergeTickets = (state: DomainState, ctx: CommandContext, survivorId: string, duplicateIds: string[]): CommandResult => {
+  if (!permissionsFor(ctx.user).canMergeTickets) return fail('Solo Gerencia puede fusionar tickets (DEMO).');
+  const survivor = state.tickets.find(t => t.id === survivorId);
+  if (!survivor) return fail('Ticket no encontrado.');
+  if (survivor.status === TicketStatus.VERIFIED) return fail('El ticket que se conserva no puede estar cerrado.');
+
+  const merged = state.tickets.filter(t => t.id !== survivorId && duplicateIds.includes(t.id));
+  if (merged.length === 0) return fail('Elige al menos un ticket para fusionar.');
+  const held = merged.find(t => t.reservedQty);
+  if (held) return fail(`${folioOf(held)} tiene refacción reservada: súrtela o libérala antes de fusionar.`);
+  const pos = new Set([survivor, ...merged].map(t => t.poId).filter(Boolean));
+  if (pos.size > 1) return fail('Los tickets tienen OC distintas; no se pueden fusionar (DEMO).');
+
+  const folios = merged.map(folioOf).join(', ');
+  return {
+    ok: true,
+    message: `${folios} fusionado(s) en ${folioOf(survivor)}.`,
+    events: [{ type: 'TicketsMerged', survivorId, mergedIds: merged.map(t => t.id), action: `Fusionado con ${folios}` }],
+  };
+};
+
+const prevOf = (t: Ticket, updates: Partial<Ticket>) =>
+  Object.fromEntries(Object.keys(updates).map(k => [k, t[k as keyof Ticket]])) as Partial<Ticket>;
+
+const ticketUpdated = (t: Ticket, changes: Partial<Ticket>, action: string): CommandResult => ({
+  ok: true,
+  message: 'Ticket actualizado.',
+  events: [{ type: 'TicketUpdated', ticketId: t.id, changes, prev: prevOf(t, changes), action, baseRev: t.rev ?? 0 }],
+});
+
+// Datos que se editan directo. Estado, refacción y reserva, checklist, costos, notas y cierre van por su comando
+const EDITABLE_FIELDS: (keyof Ticket)[] = ['description', 'urgency', 'impact', 'isOccupied', 'guestVip', 'assignedTo', 'asset', 'issueType'];
+// La refacción del catálogo ligada al ticket: solo cambia al reservar, surtir o liberar (y al marcar la espera)
+const PART_LINK_FIELDS: (keyof Ticket)[] = ['partId', 'partQty', 'reservedQty'];
+const ASSIGNMENT_FIELDS: (keyof Ticket)[] = ['assignedTo', 'asset', 'issueType'];
+
+// Tipo y valores de lo que se edita (los datos llegan también por la API)
+const invalidChange = (key: string, value: unknown): string | undefined => {
+  switch (key) {
+    case 'urgency':
+      return Object.values(Urgency).includes(value as Urgency) ? undefined : 'Urgencia desconocida.';
+    case 'impact':
+      return Object.values(Impact).includes(value as Impact) ? undefined : 'Impacto desconocido.';
+    case 'isOccupied':
+    case 'guestVip':
+    case 'needsPart':
+    case 'needsVendor':
+      return typeof value === 'boolean' ? undefined : `"${key}" debe ser sí o no.`;
+    case 'assignedTo':
+      return value === undefined || typeof value === 'string' ? undefined : 'Técnico inválido.';
+    case 'partId':
+      return value === undefined || typeof value === 'string' ? undefined : 'Refacción inválida.';
+    case 'partQty':
+      return value === undefined || (Number.isInteger(value) && (value as number) > 0) ? undefined : 'La cantidad debe ser un entero mayor a 0.';
+    case 'description':
+    case 'asset':
+    case 'issueType':
+    case 'partName':
+    case 'vendorType':
+      return isText(value) ? undefined : `Falta "${key}".`;
+    default:
+      return undefined;
+  }
+};
+
+const invalidChanges = (state: DomainState, changes: Partial<Ticket>) =>
+  Object.entries(changes)
+    .map(([k, v]) => invalidChange(k, v))
+    .find(Boolean) ?? (changes.partId && !state.parts.some(p => p.id === changes.partId) ? 'Refacción no encontrada.' : undefined);
+
+// Edición de datos del ticket; el estado solo cambia con changeStatus (flujo de workflow.ts)
+export const updateTicket = (
+  state: DomainState,
+  ctx: CommandContext,
+  id: string,
+  updates: Partial<Ticket>,
+  action: string
+): CommandResult => {
+  const t = state.tickets.find(x => x.id === id);
+  if (!t) return fail('Ticket no encontrado.');
+  if (updates.status && updates.status !== t.status) return fail('El estado se cambia con las acciones del flujo del ticket.');
+  const { status: _ignored, ...changes } = updates;
+  const keys = Object.keys(changes) as (keyof Ticket)[];
+  if (keys.length === 0) return fail('No hay cambios.');
+  const locked = keys.find(k => !EDITABLE_FIELDS.includes(k));
+  if (locked) return fail(`El dato "${locked}" no se edita directo: usa la acción correspondiente.`);
+  if (keys.some(k => ASSIGNMENT_FIELDS.includes(k)) && !permissionsFor(ctx.user).canAssignTickets) {
+    return fail('Solo Mantenimiento o Gerencia asignan técnico, activo o tipo de falla.');
+  }
+  const invalid = invalidChanges(state, changes);
+  if (invalid) return fail(invalid);
+  return ticketUpdated(t, changes, action);
+};
+
+export interface StatusChangeOptions extends TransitionInput {
+  action?: string; // bitácora; por defecto la de la transición
+}
+
+// Cambio de estado (StatusChanged, para la analítica de flujo): rol y precondiciones según workflow.ts,
+// más los efectos de la transición (liberar la reserva, sellar la verificación)
+export const changeStatus = (
+  state: DomainState,
+  ctx: CommandContext,
+  id: string,
+  to: TicketStatus,
+  opts: StatusChangeOptions = {}
+): CommandResult => {
+  const t = state.tickets.find(x => x.id === id);
+  if (!t) return fail('Ticket no encontrado.');
+  const { status: _ignored, ...changes } = opts.changes ?? {};
+  if (t.status === to) {
+    if (Object.keys(changes).length === 0) return fail(`El ticket ya está en ${to}.`);
+    // Corregir la descripción de la refacción o el proveedor sin salir del estado; la del catálogo se cambia reservando
+    const transition = TRANSITIONS.find(tr => tr.to === to);
+    const fields = transition?.fields ?? [];
+    if (transition && Object.keys(changes).some(k => fields.includes(k as keyof Ticket))) {
+      const extra = Object.keys(changes).find(k => !fields.includes(k as keyof Ticket));
+      if (extra) return fail(`El dato "${extra}" no se cambia al marcar ${to}.`);
+      const linked = Object.keys(changes).find(k => PART_LINK_FIELDS.includes(k as keyof Ticket));
+      if (linked) return fail(`El dato "${linked}" cambia al reservar, surtir o liberar la refacción.`);
+      if (!transition.roles.includes(ctx.user)) return fail(`${ctx.user} no puede marcar ${to}.`);
+      const invalid = invalidChanges(state, changes);
+      if (invalid) return fail(invalid);
+      return ticketUpdated(t, changes, opts.action ?? 'Ticket actualizado');
+    }
+    return updateTicket(state, ctx, id, changes, opts.action ?? 'Ticket actualizado');
+  }
+
+  const check = checkTransition(t, to, ctx.user, {
+    changes,
+    checklist: opts.checklist,
+    reason: opts.reason,
+    rules: state.rules,
+    checklists: state.checklists,
+  });
+  if (!check.ok || !check.transition) return fail(check.message);
+  const invalid = invalidChanges(state, changes);
+  if (invalid) return fail(invalid);
+  const { transition } = check;
+
+  const baseRev = t.rev ?? 0;
+  const events: PendingEvent[] = [];
+  // Lo marcado junto con el cierre se guarda renglón por renglón, antes del cambio de estado
+  if (transition.guards.includes('checklistComplete') && opts.checklist) {
+    checklistFor(state.checklists, t)
+      .items.filter(i => i.id in opts.checklist! && (checklistResponse(t, i.id)?.checked ?? false) !== opts.checklist![i.id])
+      .forEach(i => events.push({ type: 'ChecklistMarked', ticketId: id, itemId: i.id, label: i.label, checked: opts.checklist![i.id] }));
+  }
+  if (transition.effects.includes('releaseReservation') && t.partId && t.reservedQty) {
+    events.push({
+      type: 'ReservationReleased',
+      ticketId: id,
+      partId: t.partId,
+      qty: t.reservedQty,
+      note: `Reserva liberada al pasar a ${to} (DEMO)`,
+      swap: false,
+      baseRev,
+    });
+  }
+  const stopTimers = transition.effects.includes('stopTimers');
+  if (stopTimers || transition.effects.includes('pauseTimers')) {
+    (t.workSessions ?? [])
+      .filter(w => !w.end)
+      .forEach(w => events.push({ type: 'WorkEnded', ticketId: id, sessionId: w.id, end: ctx.now.toISOString(), stopped: stopTimers }));
+  }
+  const updates: Partial<Ticket> = { ...changes, status: to };
+  if (transition.effects.includes('stampVerification')) {
+    updates.verifiedBy = ctx.user;
+    updates.closedAt = ctx.now.toISOString();
+  }
+  let action = opts.action ?? transition.action;
+  if (transition.effects.includes('recordReopening')) {
+    const reason = opts.reason!.trim();
+    const reopening: Reopening = {
+      date: ctx.now.toISOString(),
+      user: ctx.user,
+      reason,
+      closedAt: t.closedAt,
+      verifiedBy: t.verifiedBy,
+      technician: t.assignedTo,
+    };
+    updates.reopenings = [...(t.reopenings ?? []), reopening];
+    updates.reopenCount = (t.reopenCount ?? 0) + 1;
+    updates.closedAt = undefined;
+    updates.verifiedBy = undefined;
+    updates.checklist = undefined;
+    action = opts.action ?? `Reabierto (${updates.reopenCount}ª vez): ${reason}`;
+  }
+  events.push({
+    type: 'StatusChanged',
+    ticketId: id,
+    from: t.status,
+    to,
+    changes: updates,
+    prev: prevOf(t, updates),
+    action,
+    baseRev,
+  });
+  return { ok: true, message: `Ticket ${folioOf(t)}: ${to}.`, events };
+};
+
+// Conflicto por campo: `keep[campo]` = 'incoming' toma el valor del cambio en conflicto; si no, se queda el vigente
+export const resolveConflict = (
+  state: DomainState,
+  ctx: CommandContext,
+  ticketId: string,
+  conflictId: string,
+  keep: Partial<Record<keyof Ticket, 'current' | 'incoming'>>
+): CommandResult => {
+  const t = state.tickets.find(x => x.id === ticketId);
+  const conflict = t?.conflicts?.find(c => c.id === conflictId);
+  if (!t || !conflict) return fail('El conflicto ya fue resuelto.');
+
+  const fields = Object.keys(conflict.incoming) as (keyof Ticket)[];
+  const taken = fields.filter(f => keep[f] === 'incoming');
+  const changes = Object.fromEntries(taken.map(f => [f, conflict.incoming[f]])) as Partial<Ticket>;
+  const summary = fields.map(f => `${f} ← ${keep[f] === 'incoming' ? 'propuesto' : 'vigente'}`).join(', ');
+  return {
+    ok: true,
+    message: 'Conflicto resuelto.',
+    events: [{ type: 'ConflictResolved', ticketId, conflictId, changes, action: `Conflicto resuelto (${conflict.action}): ${summary}` }],
+  };
+};
+
+// =========================
+// Fallas generales
+// =========================
+// Una falla de edificio (caldera, luz, agua) genera un ticket por habitación. Se agrupan bajo un
+// incidente: los tickets hijos siguen existiendo, pero el estado y los avisos se dan una sola vez.
+
+export interface NewIncidentData {
+  title: string;
+  asset: string;
+  description: string;
+  ticketIds: string[];
+}
+
+export const activeIncidents = (incidents: Incident[]) => incidents.filter(i => i.status !== TicketStatus.VERIFIED);
+
+export const incidentTickets = (tickets: Ticket[], incidentId: string) => tickets.filter(t => t.incidentId === incidentId);
+
+// Tickets abiertos del mismo activo que aún no pertenecen a ninguna falla general
+export const incidentCandidates = (tickets: Ticket[], asset: string) =>
+  tickets.filter(t => t.asset === asset && !t.incidentId && t.status !== TicketStatus.VERIFIED);
+
+const linkable = (state: DomainState, ticketIds: string[]) => {
+  const found = ticketIds.map(id => state.tickets.find(t => t.id === id));
+  if (found.some(t => !t)) return { error: 'Ticket no encontrado.' };
+  const tickets = found as Ticket[];
+  const closed = tickets.find(t => t.status === TicketStatus.VERIFIED);
+  if (closed) return { error: `${folioOf(closed)} ya está cerrado.` };
+  const grouped = tickets.find(t => t.incidentId);
+  if (grouped) return { error: `${folioOf(grouped)} ya pertenece a otra falla general.` };
+  return { tickets };
+};
+
+export const declareIncident = (
+  state: DomainState,
+  ctx: CommandContext,
+  data: NewIncidentData
+): CommandResult<{ incidentId?: string }> => {
+  if (!permissionsFor(ctx.user).canManageIncidents) return fail('Solo Gerencia puede declarar fallas generales (DEMO).');
+  const title = data.title.trim();
+  if (!title) return fail('Indica qué falló (ej. "Caldera sin agua caliente").');
+  const res = linkable(state, data.ticketIds);
+  if (!res.tickets) return fail(res.error);
+
+  const incident: Omit<Incident, 'updates'> = {
+    id: ctx.newId('INC-'),
+    // Como en tickets y OC: el folio es una propuesta que el reductor respeta si sigue libre
+    folio: nextFolio(state.incidents, INCIDENT_FOLIO),
+    title,
+    asset: data.asset,
+    description: data.description.trim(),
+    status: TicketStatus.OPEN,
+    createdAt: ctx.now.toISOString(),
+    createdBy: ctx.user,
+  };
+  return {
+    ok: true,
+    message: `Falla general ${incident.folio} declarada (${res.tickets.length} ticket(s)).`,
+    events: [{ type: 'IncidentDeclared', incident, ticketIds: res.tickets.map(t => t.id), action: `Declarada: ${title}` }],
+    incidentId: incident.id,
+  };
+};
+
+export const linkToIncident = (state: DomainState, ctx: CommandContext, incidentId: string, ticketIds: string[]): CommandResult => {
+  if (!permissionsFor(ctx.user).canManageIncidents) return fail('Solo Gerencia puede agrupar tickets (DEMO).');
+  const incident = state.incidents.find(i => i.id === incidentId);
+  if (!incident) return fail('Falla general no encontrada.');
+  if (incident.status === TicketStatus.VERIFIED) return fail(`${folioOf(incident)} ya está cerrada.`);
+  if (ticketIds.length === 0) return fail('Elige al menos un ticket.');
+  const res = linkable(state, ticketIds);
+  if (!res.tickets) return fail(res.error);
+  return {
+    ok: true,
+    message: `${res.tickets.length} ticket(s) agrupado(s) en ${folioOf(incident)}.`,
+    events: [{ type: 'IncidentLinked', incidentId, ticketIds, unlink: false }],
+  };
+};
+
+// Resultó ser otra falla: el ticket vuelve a atenderse por su cuenta
+export const unlinkFromIncident = (state: DomainState, ctx: CommandContext, ticketId: string): CommandResult => {
+  if (!permissionsFor(ctx.user).canManageIncidents) return fail('Solo Gerencia puede separar tickets (DEMO).');
+  const t = state.tickets.find(x => x.id === ticketId);
+  const incident = state.incidents.find(i => i.id === t?.incidentId);
+  if (!t || !incident) return fail('El ticket no pertenece a una falla general.');
+  return {
+    ok: true,
+    message: `${folioOf(t)} separado de ${folioOf(incident)}.`,
+    events: [{ type: 'IncidentLinked', incidentId: incident.id, ticketIds: [ticketId], unlink: true }],
+  };
+};
+
+export interface IncidentUpdate extends Pick<TransitionInput, 'checklist'> {
+  status?: TicketStatus;
+  message?: string;
+  vendorType?: string; // al pasar a proveedor
+}
+
+// Aviso compartido y, si trae estado, el mismo cambio en cada hijo abierto (con las reglas de workflow.ts:
+// si alguno no puede, por ejemplo porque aún tiene refacción reservada, no cambia ninguno)
+export const updateIncident = (state: DomainState, ctx: CommandContext, incidentId: string, update: IncidentUpdate): CommandResult => {
+  if (!permissionsFor(ctx.user).canUpdateIncidents) return fail(`${ctx.user} no puede actualizar fallas generales.`);
+  const incident = state.incidents.find(i => i.id === incidentId);
+  if (!incident) return fail('Falla general no encontrada.');
+  const text = update.message?.trim() ?? '';
+
+  if (!update.status || update.status === incident.status) {
+    if (!text) return fail('Escribe el aviso.');
+    return {
+      ok: true,
+      message: `Aviso publicado en ${folioOf(incident)}.`,
+      events: [{ type: 'IncidentUpdated', incidentId, message: text }],
+    };
+  }
+
+  const to = update.status;
+  const transition = nextIncidentTransitions(incident.status, ctx.user).find(tr => tr.to === to);
+  if (!transition) return fail(`No se puede pasar ${folioOf(incident)} de ${incident.status} a ${to}.`);
+
+  const message = text || transition.action;
+  const changes: Partial<Ticket> = to === TicketStatus.VENDOR ? { needsVendor: true, vendorType: update.vendorType } : {};
+  const events: PendingEvent[] = [];
+  for (const t of incidentTickets(state.tickets, incidentId)) {
+    if (t.status === to || t.status === TicketStatus.VERIFIED) continue;
+    const res = changeStatus(state, ctx, t.id, to, { changes, checklist: update.checklist, action: `${folioOf(incident)}: ${message}` });
+    if (!res.ok) return fail(`${folioOf(t)}: ${res.message}`);
+    events.push(...res.events);
+  }
+  events.push({ type: 'IncidentUpdated', incidentId, status: to, message });
+  return { ok: true, message: `${folioOf(incident)}: ${to}.`, events };
+};
+
+export const occupiedIncidentRooms = (tickets: Ticket[], incidentId: string) =>
+  Array.from(
+    new Set(
+      incidentTickets(tickets, incidentId)
+        .filter(t => t.isOccupied && t.status !== TicketStatus.VERIFIED)
+        .map(t => t.roomNumber)
+    )
+  ).sort();
+
+// Recepción avisa de una vez a todas las habitaciones ocupadas afectadas; queda constancia en cada ticket
+export const notifyIncidentGuests = (state: DomainState, ctx: CommandContext, incidentId: string): CommandResult => {
+  if (!permissionsFor(ctx.user).canNotifyGuests) return fail('Solo Recepción o Gerencia avisan a huéspedes (DEMO).');
+  const incident = state.incidents.find(i => i.id === incidentId);
+  if (!incident) return fail('Falla general no encontrada.');
+  const rooms = occupiedIncidentRooms(state.tickets, incidentId);
+  if (rooms.length === 0) return fail('No hay habitaciones ocupadas afectadas.');
+  return {
+    ok: true,
+    message: `Aviso registrado para ${rooms.length} habitación(es).`,
+    events: [{ type: 'IncidentUpdated', incidentId, message: `Aviso a huéspedes (${ctx.user}): Hab. ${rooms.join(', ')}` }],
+  };
+};
+
+// =========================
+// Inventario
+// =========================
+
+export const reservePartForTicket = (
+  state: DomainState,
+  ctx: CommandContext,
+  ticketId: string,
+  partId: string,
+  qty: number
+): CommandResult => {
+  if (!permissionsFor(ctx.user).canReserve) return fail('Permiso insuficiente para reservar refacciones.');
+  const q = Math.max(1, Math.floor(qty || 1));
+
+  const ticket = state.tickets.find(t => t.id === ticketId);
+  if (!ticket) return fail('Ticket no encontrado.');
+
+  const part = state.parts.find(p => p.id === partId);
+  if (!part) return fail('Refacción no encontrada.');
+
+  // Reservar deja el ticket en espera de refacción: debe ser un paso válido del flujo
+  if (ticket.status !== TicketStatus.WAITING_PART) {
+    const check = checkTransition(ticket, TicketStatus.WAITING_PART, ctx.user, {
+      changes: { needsPart: true, partId: part.id, partName: part.name },
+    });
+    if (!check.ok) return fail(check.message);
+  }
+
+  const available = clampNonNeg(part.stockOnHand - part.stockReserved);
+  if (available < q) return fail(`Stock insuficiente. Disponible: ${available}. Requerido: ${q}.`);
+
+  const baseRev = ticket.rev ?? 0;
+  const events: PendingEvent[] = [];
+
+  // Si ya tenía una refacción reservada, liberarla primero (para evitar dobles reservas)
+  if (ticket.partId && ticket.reservedQty && ticket.reservedQty > 0) {
+    events.push({
+      type: 'ReservationReleased',
+      ticketId,
+      partId: ticket.partId,
+      qty: ticket.reservedQty,
+      note: 'Cambio de refacción / ajuste de reserva (DEMO)',
+      swap: true,
+      baseRev,
+    });
+  }
+
+  events.push({ type: 'PartReserved', ticketId, partId, qty: q, baseRev });
+  return { ok: true, message: 'Refacción reservada correctamente.', events };
+};
+
+export const releaseReservationForTicket = (
+  state: DomainState,
+  ctx: CommandContext,
+  ticketId: string,
+  note?: string
+): CommandResult => {
+  if (!permissionsFor(ctx.user).canReserve) return fail('Permiso insuficiente para liberar reservas.');
+
+  const ticket = state.tickets.find(t => t.id === ticketId);
+  if (!ticket) return fail('Ticket no encontrado.');
+  // Solo se libera lo que de verdad se apartó (un ticket puede esperar refacción sin reserva)
+  if (!ticket.partId || !ticket.reservedQty) return fail('Este ticket no tiene refacción reservada.');
+
+  return {
+    ok: true,
+    message: 'Reserva liberada correctamente.',
+    events: [
+      {
+        type: 'ReservationReleased',
+        ticketId,
+        partId: ticket.partId,
+        qty: ticket.reservedQty,
+        note: note || 'Liberación de reserva (DEMO)',
+        swap: false,
+        baseRev: ticket.rev ?? 0,
+      },
+    ],
+  };
+};
+
+// Consumo: baja reservado y baja onHand
+export const issueReservedPartForTicket = (
+  state: DomainState,
+  ctx: CommandContext,
+  ticketId: string,
+  note?: string
+): CommandResult => {
+  if (!permissionsFor(ctx.user).canReserve) return fail('Permiso insuficiente para consumir refacciones.');
+
+  const ticket = state.tickets.find(t => t.id === ticketId);
+  if (!ticket) return fail('Ticket no encontrado.');
+  if (!ticket.partId || !ticket.partQty) return fail('Este ticket no tiene refacción vinculada.');
+  if (!ticket.reservedQty) return fail('La refacción no está reservada: resérvala o registra un consumo directo.');
+
+  const part = state.parts.find(p => p.id === ticket.partId);
+  if (!part) return fail('Refacción no encontrada.');
+
+  return {
+    ok: true,
+    message: 'Refacción marcada como consumida.',
+    events: [
+      {
+        type: 'PartIssued',
+        ticketId,
+        partId: part.id,
+        qty: ticket.reservedQty,
+        note: note || 'Salida a mantenimiento (DEMO)',
+        baseRev: ticket.rev ?? 0,
+      },
+    ],
+  };
+};
+
+// Consumo directo (sin reserva previa): baja onHand y, si hay ticket, deja nota + audit
+export const consumePart = (
+  state: DomainState,
+  ctx: CommandContext,
+  params: { partId: string; qty: number; ticketId?: string; note?: string }
+): CommandResult => {
+  if (!permissionsFor(ctx.user).canConsume) return fail('Permiso insuficiente para consumir refacciones.');
+
+  const part = state.parts.find(p => p.id === params.partId);
+  if (!part) return fail('Refacción no encontrada.');
+
+  const ticket = params.ticketId ? state.tickets.find(t => t.id === params.ticketId) : undefined;
+  if (params.ticketId && !ticket) return fail('Ticket no encontrado.');
+
+  const q = Math.max(1, Math.floor(params.qty || 1));
+  const available = clampNonNeg(part.stockOnHand - part.stockReserved);
+  if (available < q) return fail(`Stock insuficiente. Disponible: ${available}. Requerido: ${q}.`);
+
+  return {
+    ok: true,
+    message: `Consumo registrado: ${part.name} x${q}.`,
+    events: [
+      {
+        type: 'PartConsumed',
+        partId: part.id,
+        qty: q,
+        ticketId: ticket?.id,
+        note: params.note || (ticket ? `Consumo directo para ticket ${folioOf(ticket)}` : 'Consumo directo (DEMO)'),
+        baseRev: ticket ? ticket.rev ?? 0 : undefined,
+      },
+    ],
+  };
+};
+
+export const adjustStock = (
+  state: DomainState,
+  ctx: CommandContext,
+  params: { partId: string; delta: number; note?: string }
+): CommandResult => {
+  if (!permissionsFor(ctx.user).canAdjustStock) return fail('Solo Gerencia puede ajustar stock (DEMO).');
+
+  const part = state.parts.find(p => p.id === params.partId);
+  if (!part) return fail('Refacción no encontrada.');
+
+  const delta = Math.trunc(params.delta || 0);
+  if (delta === 0) return fail('Delta inválido.');
+
+  return {
+    ok: true,
+    message: 'Stock ajustado (DEMO).',
+    events: [
+      {
+        type: 'StockAdjusted',
+        partId: part.id,
+        delta,
+        note: params.note || `Ajuste de stock ${delta > 0 ? '+' : ''}${delta} (DEMO)`,
+      },
+    ],
+  };
+};
+
+// Repara lo que encuentre la auditoría de integridad; todo queda como evento, movimientos y bitácora
+export const reconcileInventory = (state: DomainState, ctx: CommandContext, log: DomainEvent[]): CommandResult => {
+  if (!permissionsFor(ctx.user).canAdjustStock) return fail('Solo Gerencia puede conciliar inventario (DEMO).');
+
+  const report = auditInventory(state, log);
+  if (!needsRepair(report)) return { ok: true, message: 'Inventario cuadrado: nada que reparar.', events: [] };
+
+  const errors = report.issues.filter(i => i.severity === 'error').length;
+  return {
+    ok: true,
+    message: `Inventario conciliado: ${errors} discrepancia(s) corregida(s).`,
+    events: [{ type: 'InventoryReconciled', action: `Conciliación de inventario (${errors} discrepancia(s))`, ...report.plan }],
+  };
+};
+
+// =========================
+// Compras
+// =========================
+
+// La OC llega también por la API tal cual: renglones con refacción y cantidad, y datos opcionales con su tipo
+export const invalidPOParams = (params: POParams): string | undefined => {
+  if (!params || typeof params !== 'object' || !Array.isArray(params.items) || params.items.length === 0) {
+    return 'Indica las refacciones de la OC.';
+  }
+  if (params.items.some(i => !i || !isText(i.partId) || typeof i.qty !== 'number' || !(i.qty > 0))) {
+    return 'Cada renglón necesita refacción y cantidad mayor a 0.';
+  }
+  if (!optionalText(params.vendor) || !optionalText(params.notes) || !optionalText(params.ticketId)) return 'Datos de la OC inválidos.';
+  if (params.etaDays !== undefined && !(typeof params.etaDays === 'number' && params.etaDays >= 0)) {
+    return 'Los días de entrega deben ser 0 o más.';
+  }
+  if (params.status !== undefined && ![POStatus.DRAFT, POStatus.ORDERED].includes(params.status)) return 'Estado de OC inválido.';
+  return undefined;
+};
+
+// Núcleo de compras: toda OC (sugerida, por refacción o ligada a ticket) nace aquí
+export const createPO = (state: DomainState, ctx: CommandContext, params: POParams): CommandResult<{ poId?: string }> => {
+  if (!permissionsFor(ctx.user).canCreatePO) return fail('Solo Gerencia puede generar OC (DEMO).');
+  const invalid = invalidPOParams(params);
+  if (invalid) return fail(invalid);
+
+  const lines = params.items
+    .map(i => ({ part: state.parts.find(p => p.id === i.partId), qty: Math.max(1, Math.floor(i.qty || 1)) }))
+    .filter((l): l is { part: InventoryPart; qty: number } => !!l.part);
+  if (lines.length === 0) return fail('Refacción no encontrada.');
+
+  const vendors = Array.from(new Set(lines.map(l => l.part.preferredVendor).filter(Boolean)));
+  const vendor =
+    params.vendor || (vendors.length === 1 ? vendors[0]! : vendors.length > 1 ? 'Varios proveedores (DEMO)' : 'Proveedor (DEMO)');
+
+  const eta = new Date(ctx.now);
+  eta.setDate(eta.getDate() + (params.etaDays ?? Math.max(...lines.map(l => l.part.leadTimeDays ?? 3))));
+
+  const po: PurchaseOrder = {
+    id: ctx.newId('OC-'),
+    folio: nextFolio(state.pos, PO_FOLIO),
+    status: params.status ?? POStatus.ORDERED,
+    createdAt: ctx.now.toISOString(),
+    createdBy: ctx.user,
+    vendor,
+    etaDate: eta.toISOString(),
+    items: lines.map(l => ({ partId: l.part.id, partName: l.part.name, qty: l.qty, unit: l.part.unit })),
+    notes: params.notes || 'OC generada en DEMO (no implica compra real).',
+  };
+
+  return {
+    ok: true,
+    message: `OC generada: ${po.folio}`,
+    poId: po.id,
+    events: [{ type: 'POCreated', po, ticketId: params.ticketId }],
+  };
+};
+
+export const createPOForPart = (state: DomainState, ctx: CommandContext, params: POForPartParams) =>
+  createPO(state, ctx, {
+    items: [{ partId: params.partId, qty: params.qty }],
+    vendor: params.vendor,
+    etaDays: params.etaDays,
+    ticketId: params.ticketId,
+  });
+
+export const sendPO = (state: DomainState, ctx: CommandContext, poId: string): CommandResult => {
+  if (!permissionsFor(ctx.user).canCreatePO) return fail('Solo Gerencia puede enviar OC (DEMO).');
+
+  const po = state.pos.find(p => p.id === poId);
+  if (!po) return fail('OC no encontrada.');
+  if (po.status !== POStatus.DRAFT) return fail(`Solo se envían OC en ${POStatus.DRAFT}.`);
+
+  return { ok: true, message: `OC ${folioOf(po)} enviada.`, events: [{ type: 'POSent', poId }] };
+};
+
+export const receivePO = (state: DomainState, ctx: CommandContext, poId: string): CommandResult => {
+  if (!permissionsFor(ctx.user).canCreatePO) return fail('Solo Gerencia puede recibir OC (DEMO).');
+
+  const po = state.pos.find(p => p.id === poId);
+  if (!po) return fail('OC no encontrada.');
+  if (po.status === POStatus.RECEIVED) return fail('Esta OC ya fue recibida.');
+  if (po.status === POStatus.CANCELED) return fail('Esta OC fue cancelada.');
+
+  return { ok: true, message: `OC ${folioOf(po)} recibida y stock actualizado.`, events: [{ type: 'POReceived', poId }] };
+};
+
+export const cancelPO = (state: DomainState, ctx: CommandContext, poId: string): CommandResult => {
+  if (!permissionsFor(ctx.user).canCreatePO) return fail('Solo Gerencia puede cancelar OC (DEMO).');
+
+  const po = state.pos.find(p => p.id === poId);
+  if (!po) return fail('OC no encontrada.');
+  if (po.status === POStatus.RECEIVED || po.status === POStatus.CANCELED) return fail(`La OC ya está ${po.status}.`);
+
+  return { ok: true, message: `OC ${folioOf(po)} cancelada.`, events: [{ type: 'POCanceled', poId }] };
+};
+
+// =========================
+// Respaldo
+// =========================
+
+export const restoreBackup = (
+  state: DomainState,
+  ctx: CommandContext,
+  archive: BackupArchive,
+  plan: RestorePlan
+): CommandResult => {
+  if (!permissionsFor(ctx.user).canAdjustStock) return fail('Solo Gerencia puede restaurar respaldos (DEMO).');
+  if (planIsEmpty(plan)) return { ok: true, message: 'El respaldo no trae nada más reciente: no hubo cambios.', events: [] };
+
+  const from = archive.exportedAt ? archive.exportedAt.slice(0, 10) : 'fecha desconocida';
+  const verb = plan.mode === 'replace' ? 'reemplazo' : 'combinación';
+  const records = { tickets: plan.tickets, parts: plan.parts, pos: plan.pos, movements: plan.movements, incidents: plan.incidents };
+  return {
+    ok: true,
+    message: `Respaldo del ${from} restaurado (${verb}).`,
+    events: [
+      {
+        type: 'BackupRestored',
+        action: `Restaurado desde respaldo del ${from} (${verb})`,
+        mode: plan.mode,
+        state:
+          plan.mode === 'replace'
+            ? {
+                ...records,
+                rules: state.rules,
+                costs: state.costs,
+                checklists: state.checklists,
+                sla: state.sla,
+                escalations: state.escalations,
+                escalationLog: state.escalationLog,
+                priority: state.priority,
+              }
+            : undefined,
+        ...(plan.mode === 'replace' ? { tickets: [], parts: [], pos: [], movements: [], incidents: [] } : records),
+      },
+    ],
+  };
+};
+
+// =========================
+// DEMO Scenarios
+// =========================
+
+export const runScenario = (
+  state: DomainState,
+  ctx: CommandContext,
+  scenario: DemoScenario
+): CommandResult<{ ticketId: string | null }> => {
+  const { tickets, parts } = state;
+  const actionable = [...tickets]
+    .filter(t => t.status !== TicketStatus.VERIFIED)
+    .sort((a, b) => b.priorityScore - a.priorityScore);
+
+  const pickForBlock = actionable.find(t => [TicketStatus.OPEN, TicketStatus.IN_PROGRESS].includes(t.status));
+
+  const created = (e: Extract<PendingEvent, { type: 'TicketCreated' }>) => ({
+    ok: true,
+    message: `Ticket ${e.ticket.folio} creado (DEMO).`,
+    events: [e],
+    ticketId: e.ticket.id,
+  });
+
+  const moved = (id: string, to: TicketStatus, changes: Partial<Ticket>, action: string) => ({
+    ...changeStatus(state, ctx, id, to, { changes, action }),
+    ticketId: id,
+  });
+
+  if (scenario === 'GUEST_COMPLAINT') {
+    return created(
+      ticketCreated(
+        state,
+        ctx,
+        {
+          roomNumber: '105',
+          isOccupied: true,
+          asset: 'Aire Acondicionado',
+          issueType: 'No enciende',
+          description: 'Simulación DEMO: Huésped reporta que el aire no responde y no puede descansar.',
+          urgency: Urgency.HIGH,
+          impact: Impact.BLOCKING,
+          status: TicketStatus.OPEN,
+          createdBy: Role.RECEPTION,
+          notes: [],
+          needsPart: false,
+          needsVendor: false,
+        },
+        'Ticket creado por Recepción (DEMO)'
+      )
+    );
+  }
+
+  if (scenario === 'CLEANING_REPORT') {
+    return created(
+      ticketCreated(
+        state,
+        ctx,
+        {
+          roomNumber: '112',
+          isOccupied: false,
+          asset: 'Plomería',
+          issueType: 'Gotea',
+          description: 'Simulación DEMO: Limpieza detecta goteo en lavabo durante preparación de habitación.',
+          urgency: Urgency.MEDIUM,
+          impact: Impact.ANNOYING,
+          status: TicketStatus.OPEN,
+          createdBy: Role.CLEANING,
+          notes: [],
+          needsPart: false,
+          needsVendor: false,
+        },
+        'Ticket creado por Limpieza (DEMO)'
+      )
+    );
+  }
+
+  if (scenario === 'BLOCK_PART') {
+    const id = pickForBlock?.id;
+    const lowStockPart = parts.find(p => (p.stockOnHand - p.stockReserved) <= 0) || parts[0];
+
+    if (id && lowStockPart) {
+      return moved(
+        id,
+        TicketStatus.WAITING_PART,
+        {
+          needsPart: true,
+          partId: lowStockPart.id,
+          partName: lowStockPart.name,
+          partQty: 1,
+        },
+        `Marcado espera refacción: ${lowStockPart.name} (DEMO)`
+      );
+    }
+
+    return created(
+      ticketCreated(
+        state,
+        ctx,
+        {
+          roomNumber: '101',
+          isOccupied: true,
+          asset: 'Eléctrico',
+          issueType: 'Roto/Dañado',
+          description: 'Simulación DEMO: Se requiere refacción para completar la reparación.',
+          urgency: Urgency.HIGH,
+          impact: Impact.BLOCKING,
+          status: TicketStatus.WAITING_PART,
+          createdBy: Role.MAINTENANCE,
+          notes: [noteBy(ctx, NoteKind.DIAGNOSIS, 'Simulación DEMO: identificado componente a reemplazar.', {}, Role.MAINTENANCE)],
+          needsPart: true,
+          partId: parts[0]?.id,
+          partName: parts[0]?.name,
+          partQty: 1,
+          needsVendor: false,
+        },
+        'Ticket creado y marcado espera refacción (DEMO)'
+      )
+    );
+  }
+
+  if (scenario === 'BLOCK_VENDOR') {
+    const id = pickForBlock?.id;
+    if (id) {
+      return moved(
+        id,
+        TicketStatus.VENDOR,
+        {
+          needsVendor: true,
+          vendorType: 'Proveedor DEMO (IT / HVAC / Cerrajería)',
+        },
+        'Marcado para proveedor (DEMO)'
+      );
+    }
+
+    return created(
+      ticketCreated(
+        state,
+        ctx,
+        {
+          roomNumber: '120',
+          isOccupied: false,
+          asset: 'TV/WiFi',
+          issueType: 'Sin señal',
+          description: 'Simulación DEMO: caso escalado a proveedor externo.',
+          urgency: Urgency.LOW,
+          impact: Impact.ANNOYING,
+          status: TicketStatus.VENDOR,
+          createdBy: Role.MAINTENANCE,
+          notes: [noteBy(ctx, NoteKind.DIAGNOSIS, 'Simulación DEMO: reinicio no resuelve, se agenda visita.', {}, Role.MAINTENANCE)],
+          needsPart: false,
+          needsVendor: true,
+          vendorType: 'Proveedor DEMO',
+        },
+        'Ticket creado y escalado a proveedor (DEMO)'
+      )
+    );
+  }
+
+  return { ok: false, message: 'Escenario desconocido.', events: [], ticketId: null };
+};
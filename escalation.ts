@@ -0,0 +1,103 @@
+// src/escalation.ts
+
+import { Ticket, TicketStatus, Urgency } from './types';
+
+// =========================
+// Escalamiento automático
+// =========================
+// Reglas que define Gerencia: si un ticket abierto cumple las condiciones (estado, antigüedad, urgencia,
+// ocupación, activo, habitación) se aplica la acción. Se evalúan periódicamente y después de cada cambio;
+// cada regla dispara una sola vez por ticket y queda en la bitácora de escalamientos.
+
+export type EscalationAction = 'RAISE_URGENCY' | 'REASSIGN' | 'NOTIFY' | 'NOTE';
+
+export const ESCALATION_ACTION_LABELS: Record<EscalationAction, string> = {
+  RAISE_URGENCY: 'Subir urgencia',
+  REASSIGN: 'Reasignar',
+  NOTIFY: 'Avisar a Gerencia',
+  NOTE: 'Nota en bitácora',
+};
+
+export interface EscalationRule {
+  id: string; // ESC-<uuid>
+  name: string;
+  enabled: boolean;
+  // Condiciones (ausente = cualquiera)
+  status?: TicketStatus;
+  minAgeMinutes?: number; // desde que se reportó
+  urgency?: Urgency;
+  occupied?: boolean;
+  asset?: string;
+  roomNumber?: string;
+  action: EscalationAction;
+  assignTo?: string; // REASSIGN: técnico
+  note?: string; // NOTE: texto; NOTIFY: mensaje opcional
+}
+
+// Bitácora: qué regla disparó sobre qué ticket
+export interface EscalationFiring {
+  id: string; // id del evento que la registró
+  ruleId: string;
+  ruleName: string;
+  ticketId: string;
+  action: EscalationAction;
+  detail: string;
+  date: string;
+}
+
+export const DEFAULT_ESCALATION_RULES: EscalationRule[] = [
+  {
+    id: 'ESC-guest-waiting',
+    name: 'Urgente con huésped sin atender 2 h',
+    enabled: true,
+    status: TicketStatus.OPEN,
+    minAgeMinutes: 120,
+    urgency: Urgency.HIGH,
+    occupied: true,
+    action: 'NOTIFY',
+  },
+  {
+    id: 'ESC-stale-open',
+    name: 'Reportado hace más de 1 día',
+    enabled: true,
+    status: TicketStatus.OPEN,
+    minAgeMinutes: 1440,
+    action: 'RAISE_URGENCY',
+  },
+  {
+    id: 'ESC-vendor-week',
+    name: 'Proveedor sin resolver en 7 días',
+    enabled: false,
+    status: TicketStatus.VENDOR,
+    minAgeMinutes: 10080,
+    action: 'NOTE',
+    note: 'Dar seguimiento con el proveedor: lleva más de una semana.',
+  },
+];
+
+// Los tickets cerrados ya no escalan
+const isEscalatable = (t: Ticket) => t.status !== TicketStatus.RESOLVED && t.status !== TicketStatus.VERIFIED;
+
+export const ticketAgeMinutes = (t: Pick<Ticket, 'createdAt'>, now: Date) => (now.getTime() - Date.parse(t.createdAt)) / 60000;
+
+export const ruleMatches = (r: EscalationRule, t: Ticket, now: Date) =>
+  isEscalatable(t) &&
+  (r.status === undefined || r.status === t.status) &&
+  (r.minAgeMinutes === undefined || ticketAgeMinutes(t, now) >= r.minAgeMinutes) &&
+  (r.urgency === undefined || r.urgency === t.urgency) &&
+  (r.occupied === undefined || r.occupied === t.isOccupied) &&
+  (r.asset === undefined || r.asset === t.asset) &&
+  (r.roomNumber === undefined || r.roomNumber === t.roomNumber);
+
+export const hasFired = (log: EscalationFiring[], ruleId: string, ticketId: string) =>
+  log.some(f => f.ruleId === ruleId && f.ticketId === ticketId);
+
+/** Pares regla/ticket que toca disparar ahora (reglas activas, en orden; una vez por ticket). */
+export const dueEscalations = (rules: EscalationRule[], log: EscalationFiring[], tickets: Ticket[], now: Date) =>
+  rules
+    .filter(r => r.enabled)
+    .flatMap(rule => tickets.filter(t => ruleMatches(rule, t, now) && !hasFired(log, rule.id, t.id)).map(ticket => ({ rule, ticket })));
+
+// Avisos a Gerencia cuyo ticket sigue abierto (los muestra el tablero)
+export const openNotices = (log: EscalationFiring[], tickets: Ticket[]) =>
+  log.filter(f => f.action === 'NOTIFY' && tickets.some(t => t.id === f.ticketId && isEscalatable(t)));
@@ -0,0 +1,1186 @@
+// src/events.ts
+
+import {
+  Attachment,
+  AuditEvent,
+  ChecklistResponse,
+  ChecklistTemplate,
+  FieldConflict,
+  Impact,
+  Incident,
+  InventoryPart,
+  NoteKind,
+  PartMovement,
+  POStatus,
+  PurchaseOrder,
+  Role,
+  Ticket,
+  TicketNote,
+  TicketStatus,
+  Urgency,
+  VendorCharge,
+  WorkSession,
+} from './types';
+import { calculatePriority, clampNonNeg, folioOf, formatMinutes, nextId } from './utils';
+import { DEFAULT_CHECKLISTS, DEFAULT_WORKFLOW_RULES, WorkflowRules } from './workflow';
+import { CostSettings, DEFAULT_COST_SETTINGS } from './costs';
+import { DEFAULT_SLA_SETTINGS, SlaPolicy, SlaSettings, stampSla, trackSla } from './sla';
+import { DEFAULT_PRIORITY_WEIGHTS, PriorityWeights } from './priority';
+import { DEFAULT_ESCALATION_RULES, EscalationAction, EscalationFiring, EscalationRule, hasFired } from './escalation';
+
+// =========================
+// Registro de eventos (fuente de verdad)
+// =========================
+// El estado visible (tickets, refacciones, OC, movimientos, fallas generales) se obtiene reproduciendo los eventos en orden.
+// La bitácora de cada ticket y los movimientos de inventario los genera este reductor, así que
+// auditoría, analítica y "estado al día X" siempre cuadran con lo que muestra la UI.
+
+export interface DomainState {
+  tickets: Ticket[];
+  parts: InventoryPart[];
+  pos: PurchaseOrder[];
+  movements: PartMovement[];
+  incidents: Incident[];
+  rules: WorkflowRules;
+  costs: CostSettings;
+  checklists: ChecklistTemplate[]; // listas de verificación por activo / tipo de falla
+  sla: SlaSettings;
+  escalations: EscalationRule[];
+  escalationLog: EscalationFiring[]; // qué regla disparó sobre qué ticket
+  priority: PriorityWeights; // pesos del puntaje de la cola
+}
+
+export const EMPTY_STATE: DomainState = {
+  tickets: [],
+  parts: [],
+  pos: [],
+  movements: [],
+  incidents: [],
+  rules: DEFAULT_WORKFLOW_RULES,
+  costs: DEFAULT_COST_SETTINGS,
+  checklists: DEFAULT_CHECKLISTS,
+  sla: DEFAULT_SLA_SETTINGS,
+  escalations: DEFAULT_ESCALATION_RULES,
+  escalationLog: [],
+  priority: DEFAULT_PRIORITY_WEIGHTS,
+};
+
+// Reglas de un estado guardado antes de que existieran (o de alguna regla nueva): las de omisión
+const withRules = (s: DomainState, rules?: Partial<WorkflowRules>): DomainState => ({
+  ...s,
+  rules: { ...DEFAULT_WORKFLOW_RULES, ...rules },
+});
+
+// Tarifas: igual que las reglas. En `technicianRates`, null quita la tarifa propia del técnico
+const withCosts = (
+  s: DomainState,
+  laborRate?: number,
+  technicianRates: Record<string, number | null> = {}
+): DomainState => {
+  const base = s.costs ?? DEFAULT_COST_SETTINGS;
+  const rates = { ...base.technicianRates };
+  Object.entries(technicianRates).forEach(([who, rate]) => {
+    if (rate === null) delete rates[who];
+    else rates[who] = rate;
+  });
+  return { ...s, costs: { laborRate: laborRate ?? base.laborRate, technicianRates: rates } };
+};
+
+// Listas de verificación: un estado previo a ellas arranca con las de omisión
+const withChecklists = (s: DomainState): DomainState => ({ ...s, checklists: s.checklists ?? DEFAULT_CHECKLISTS });
+
+// Políticas de SLA: igual (los tickets de antes quedan sin sello)
+const withSla = (s: DomainState): DomainState => ({ ...s, sla: s.sla ?? DEFAULT_SLA_SETTINGS });
+
+// Escalamiento: reglas de omisión y bitácora vacía
+const withEscalations = (s: DomainState): DomainState => ({
+  ...s,
+  escalations: s.escalations ?? DEFAULT_ESCALATION_RULES,
+  escalationLog: s.escalationLog ?? [],
+});
+
+// Pesos de prioridad: los de omisión (que reproducen la fórmula fija anterior) completan lo que falte
+const withPriority = (s: DomainState): DomainState => ({ ...s, priority: { ...DEFAULT_PRIORITY_WEIGHTS, ...s.priority } });
+
+// Cada cuántos eventos se guarda una foto completa del estado (acelera carga y consultas históricas)
+export const SNAPSHOT_EVERY = 100;
+
+interface EventMeta {
+  id: string; // E-<origen>-<consecutivo>; ordena eventos con la misma fecha
+  date: string; // ISO
+  user: Role | string;
+  origin: string; // pestaña/sesión que lo emitió
+}
+
+// `baseRev` = revisión del ticket que vio quien emitió el evento (detecta ediciones simultáneas)
+// `prev` = valor de cada campo de `changes` tal como lo vio quien emitió el evento (conflictos por campo)
+export type DomainEventBody =
+  | { type: 'Genesis'; state: DomainState; note: string }
+  | { type: 'TicketCreated'; ticket: Omit<Ticket, 'history' | 'priorityScore'>; action: string }
+  | {
+      type: 'TicketUpdated';
+      ticketId: string;
+      changes: Partial<Ticket>;
+      prev?: Partial<Ticket>;
+      action: string;
+      baseRev?: number;
+    }
+  | {
+      type: 'StatusChanged';
+      ticketId: string;
+      from: TicketStatus;
+      to: TicketStatus;
+      changes: Partial<Ticket>;
+      prev?: Partial<Ticket>;
+      action: string;
+      baseRev?: number;
+    }
+  | {
+      // Elección de valores para un conflicto por campo (`changes` = lo que se toma del cambio en conflicto)
+      type: 'ConflictResolved';
+      ticketId: string;
+      conflictId: string;
+      changes: Partial<Ticket>;
+      action: string;
+    }
+  | {
+      // Reportes duplicados: los absorbidos salen de la lista y su información pasa al que sobrevive
+      type: 'TicketsMerged';
+      survivorId: string;
+      mergedIds: string[];
+      action: string;
+    }
+  | {
+      // Falla general: agrupa bajo un incidente los tickets de las habitaciones afectadas
+      type: 'IncidentDeclared';
+      incident: Omit<Incident, 'updates'>;
+      ticketIds: string[];
+      action: string;
+    }
+  | { type: 'IncidentLinked'; incidentId: string; ticketIds: string[]; unlink: boolean }
+  | {
+      // Aviso compartido. Con `status`, los hijos cambian con sus propios StatusChanged (emitidos junto a este)
+      type: 'IncidentUpdated';
+      incidentId: string;
+      status?: TicketStatus;
+      message: string;
+    }
+  | { type: 'AttachmentAdded'; ticketId: string; attachment: Attachment }
+  | { type: 'AttachmentRemoved'; ticketId: string; attachmentId: string }
+  | { type: 'RulesChanged'; rules: Partial<WorkflowRules>; action: string }
+  | {
+      type: 'CostSettingsChanged';
+      laborRate?: number;
+      technicianRates?: Record<string, number | null>;
+      action: string;
+    }
+  | { type: 'PartCostChanged'; partId: string; unitCost: number }
+  | { type: 'SlaPoliciesChanged'; policies: SlaPolicy[]; action: string }
+  | { type: 'EscalationRulesChanged'; rules: EscalationRule[]; action: string }
+  | { type: 'PriorityWeightsChanged'; weights: PriorityWeights; action: string }
+  | {
+      // Una regla disparó: cambios al ticket (urgencia, técnico) y/o nota; el reductor ignora repetidos
+      type: 'EscalationFired';
+      ruleId: string;
+      ruleName: string;
+      ticketId: string;
+      escalation: EscalationAction;
+      changes: Partial<Ticket>;
+      note?: string;
+      detail: string;
+    }
+  | { type: 'ChecklistTemplateSaved'; template: ChecklistTemplate; action: string }
+  | { type: 'ChecklistTemplateRemoved'; templateId: string; action: string }
+  | { type: 'ChecklistMarked'; ticketId: string; itemId: string; label: string; checked: boolean }
+  | { type: 'VendorChargeAdded'; ticketId: string; charge: VendorCharge }
+  | { type: 'VendorChargeRemoved'; ticketId: string; chargeId: string }
+  | { type: 'WorkStarted'; ticketId: string; session: WorkSession }
+  | {
+      // Pausa o fin del cronómetro. Sobre un tramo ya pausado, `stopped` solo lo marca como terminado
+      type: 'WorkEnded';
+      ticketId: string;
+      sessionId: string;
+      end: string;
+      stopped: boolean;
+    }
+  | { type: 'PartReserved'; ticketId: string; partId: string; qty: number; baseRev?: number }
+  | {
+      type: 'ReservationReleased';
+      ticketId: string;
+      partId: string;
+      qty: number;
+      note: string;
+      swap: boolean; // true = se cambia de refacción (el ticket sigue esperando)
+      baseRev?: number;
+    }
+  | { type: 'PartIssued'; ticketId: string; partId: string; qty: number; note: string; baseRev?: number }
+  | { type: 'PartConsumed'; partId: string; qty: number; ticketId?: string; note: string; baseRev?: number }
+  | { type: 'StockAdjusted'; partId: string; delta: number; note: string }
+  | { type: 'POCreated'; po: PurchaseOrder; ticketId?: string }
+  | { type: 'POSent'; poId: string }
+  | { type: 'POReceived'; poId: string }
+  | { type: 'POCanceled'; poId: string }
+  | {
+      // Deshacer/rehacer y resolución de conflictos: registros completos a restaurar (sin registro = eliminar)
+      type: 'RecordsRestored';
+      action: string;
+      tickets: { id: string; record?: Ticket }[];
+      parts: { id: string; record?: InventoryPart }[];
+      pos: { id: string; record?: PurchaseOrder }[];
+      incidents?: { id: string; record?: Incident }[]; // ausente en eventos previos a las fallas generales
+    }
+  | {
+      // Conciliación de inventario (integrity.ts): libera reservas huérfanas y cuadra el libro de movimientos
+      type: 'InventoryReconciled';
+      action: string;
+      releases: { ticketId: string; partId: string; qty: number }[];
+      parts: { partId: string; stockReserved: number; onHandDelta: number; reservedDelta: number }[];
+    }
+  | {
+      // Restauración desde archivo de respaldo (backup.ts). `replace`: `state` sustituye a todo lo vigente;
+      // `merge`: se agregan/actualizan los registros listados. En ambos casos el libro arranca de nuevo aquí
+      type: 'BackupRestored';
+      action: string;
+      mode: 'replace' | 'merge';
+      state?: DomainState;
+      tickets: Ticket[];
+      parts: InventoryPart[];
+      pos: PurchaseOrder[];
+      movements: PartMovement[];
+      incidents?: Incident[];
+    };
+
+export type DomainEvent = EventMeta & DomainEventBody;
+
+export type DomainEventType = DomainEvent['type'];
+
+export const EVENT_TYPES: DomainEventType[] = [
+  'Genesis',
+  'TicketCreated',
+  'TicketUpdated',
+  'StatusChanged',
+  'ConflictResolved',
+  'TicketsMerged',
+  'IncidentDeclared',
+  'IncidentLinked',
+  'IncidentUpdated',
+  'AttachmentAdded',
+  'AttachmentRemoved',
+  'RulesChanged',
+  'CostSettingsChanged',
+  'PartCostChanged',
+  'SlaPoliciesChanged',
+  'EscalationRulesChanged',
+  'EscalationFired',
+  'PriorityWeightsChanged',
+  'ChecklistTemplateSaved',
+  'ChecklistTemplateRemoved',
+  'ChecklistMarked',
+  'VendorChargeAdded',
+  'VendorChargeRemoved',
+  'WorkStarted',
+  'WorkEnded',
+  'PartReserved',
+  'ReservationReleased',
+  'PartIssued',
+  'PartConsumed',
+  'StockAdjusted',
+  'POCreated',
+  'POSent',
+  'POReceived',
+  'POCanceled',
+  'RecordsRestored',
+  'InventoryReconciled',
+  'BackupRestored',
+];
+
+// Origen por pestaña/sesión; con el consecutivo da ids únicos y ordenables
+export const newOrigin = () => Math.random().toString(36).slice(2, 8);
+
+export const eventId = (origin: string, seq: number) => `E-${origin}-${String(seq).padStart(6, '0')}`;
+
+export const createGenesis = (state: DomainState, note: string, user: Role | string = 'Sistema'): DomainEvent => ({
+  id: `E-genesis-${Date.now().toString(36)}`,
+  date: new Date().toISOString(),
+  user,
+  origin: 'genesis',
+  type: 'Genesis',
+  state,
+  note,
+});
+
+// =========================
+// Reductor
+// =========================
+
+const audit = (e: EventMeta, action: string): AuditEvent => ({ date: e.date, action, user: e.user });
+
+const touchTicket = (e: EventMeta, t: Ticket, changes: Partial<Ticket>, action: string): Ticket => {
+  const updated: Ticket = {
+    ...t,
+    ...changes,
+    history: [...t.history, audit(e, action)],
+    updatedAt: e.date,
+    rev: (t.rev ?? 0) + 1,
+  };
+  // El reloj del SLA sigue cualquier cambio de estado, venga del flujo, de un conflicto resuelto o de una falla general
+  if (updated.sla && updated.status !== t.status) updated.sla = trackSla(updated.sla, t.status, updated.status, e.date);
+  return updated;
+};
+
+// Nota que escribe la app; el id sale del evento para que reproducirlo dé siempre la misma
+const systemNote = (e: EventMeta, text: string, suffix?: string): TicketNote => ({
+  id: `N-${e.id}${suffix ? `-${suffix}` : ''}`,
+  date: e.date,
+  user: e.user,
+  kind: NoteKind.SYSTEM,
+  text,
+});
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Notas por id: entran las nuevas y salen solo las que quien editó vio (`seen`) y ya no envía;
+// las que ya estaban conservan su registro (autor y fecha originales)
+const mergeNotes = (current: TicketNote[], incoming: TicketNote[], seen: TicketNote[] = current): TicketNote[] => {
+  const ids = (list: TicketNote[]) => new Set(list.map(n => n.id));
+  const kept = ids(incoming);
+  const known = ids(current);
+  const before = ids(seen);
+  return [...current.filter(n => kept.has(n.id) || !before.has(n.id)), ...incoming.filter(n => !known.has(n.id) && !before.has(n.id))];
+};
+
+/**
+ * Cambios de un evento contra el ticket vigente. Sin `prev` (eventos anteriores) se aplica todo.
+ * - Notas: se aplican como altas/bajas sobre las vigentes, con o sin `prev` (dos dispositivos agregando notas no se pisan).
+ * - Campo que alguien más cambió desde que se emitió el evento: no se aplica y queda como conflicto.
+ *   Un cambio de estado en conflicto se aparta completo (cierre, verificación, etc. van con él).
+ */
+const mergeTicketChanges = (
+  e: EventMeta,
+  t: Ticket,
+  changes: Partial<Ticket>,
+  prev: Partial<Ticket> | undefined,
+  action: string
+): { apply: Partial<Ticket>; conflict?: FieldConflict } => {
+  const notes = changes.notes && mergeNotes(t.notes, changes.notes, prev?.notes);
+  if (!prev) return { apply: notes ? { ...changes, notes } : changes };
+  const apply: Partial<Ticket> = {};
+  const current: Partial<Ticket> = {};
+  const incoming: Partial<Ticket> = {};
+  const set = (target: Partial<Ticket>, key: keyof Ticket, value: unknown) => ((target as Record<string, unknown>)[key] = value);
+
+  (Object.keys(changes) as (keyof Ticket)[]).forEach(key => {
+    if (key === 'notes') {
+      if (notes) apply.notes = notes;
+      return;
+    }
+    const stale = key in prev && !sameValue(prev[key], t[key]) && !sameValue(changes[key], t[key]);
+    if (stale) {
+      set(current, key, t[key]);
+      set(incoming, key, changes[key]);
+    } else {
+      set(apply, key, changes[key]);
+    }
+  });
+
+  if ('status' in incoming) {
+    (Object.keys(apply) as (keyof Ticket)[])
+      .filter(k => k !== 'notes')
+      .forEach(k => {
+        set(current, k, t[k]);
+        set(incoming, k, apply[k]);
+        delete apply[k];
+      });
+  }
+  if (Object.keys(incoming).length === 0) return { apply };
+  return { apply, conflict: { id: e.id, date: e.date, user: e.user, action, current, incoming } };
+};
+
+const touchPart = (e: EventMeta, p: InventoryPart, changes: Partial<InventoryPart>): InventoryPart => ({
+  ...p,
+  ...changes,
+  updatedAt: e.date,
+  rev: (p.rev ?? 0) + 1,
+});
+
+const touchPO = (po: PurchaseOrder, changes: Partial<PurchaseOrder>): PurchaseOrder => ({
+  ...po,
+  ...changes,
+  rev: (po.rev ?? 0) + 1,
+});
+
+const touchIncident = (e: EventMeta, i: Incident, changes: Partial<Incident>, message: string): Incident => ({
+  ...i,
+  ...changes,
+  updates: [...i.updates, audit(e, message)],
+  updatedAt: e.date,
+  rev: (i.rev ?? 0) + 1,
+});
+
+// =========================
+// Folios (número visible)
+// =========================
+// Se asignan al aplicar el evento: el propuesto se respeta si sigue libre; si otro dispositivo ya lo
+// usó, toca el siguiente. Al reproducir el mismo registro todos los dispositivos llegan al mismo folio.
+
+export const TICKET_FOLIO = { prefix: 'T-', start: 1000 };
+export const PO_FOLIO = { prefix: 'OC-', start: 0 };
+export const INCIDENT_FOLIO = { prefix: 'INC-', start: 0 };
+
+// Ids de antes de los folios: eran el consecutivo y se conservan como folio
+const LEGACY_ID = /^(T|OC)-\d+$/;
+
+export const nextFolio = (records: { id: string; folio?: string }[], f: { prefix: string; start: number }) =>
+  nextId(f.prefix, records.map(folioOf), f.start);
+
+const assignFolio = (
+  records: { id: string; folio?: string }[],
+  r: { id: string; folio?: string },
+  f: { prefix: string; start: number }
+) => {
+  const proposed = r.folio ?? (LEGACY_ID.test(r.id) ? r.id : undefined);
+  const taken = (folio: string) => records.some(x => x.id !== r.id && folioOf(x) === folio);
+  return proposed && !taken(proposed) ? proposed : nextFolio(records, f);
+};
+
+const ticketFolio = (s: DomainState, id: string) => {
+  const t = s.tickets.find(x => x.id === id);
+  return t ? folioOf(t) : id;
+};
+
+const mapTicket = (s: DomainState, id: string, fn: (t: Ticket) => Ticket): DomainState => ({
+  ...s,
+  tickets: s.tickets.map(t => (t.id === id ? fn(t) : t)),
+});
+
+const mapIncident = (s: DomainState, id: string, fn: (i: Incident) => Incident): DomainState => ({
+  ...s,
+  incidents: s.incidents.map(i => (i.id === id ? fn(i) : i)),
+});
+
+// Solo tickets abiertos y sin otra falla general (otro dispositivo pudo agruparlos entretanto)
+const linkTickets = (s: DomainState, e: EventMeta, incident: Incident, ids: string[]): DomainState => ({
+  ...s,
+  tickets: s.tickets.map(t =>
+    ids.includes(t.id) && !t.incidentId && t.status !== TicketStatus.VERIFIED
+      ? touchTicket(e, t, { incidentId: incident.id }, `Agrupado en falla general ${folioOf(incident)}: ${incident.title}`)
+      : t
+  ),
+});
+
+const mapPart = (s: DomainState, id: string, fn: (p: InventoryPart) => InventoryPart): DomainState => ({
+  ...s,
+  parts: s.parts.map(p => (p.id === id ? fn(p) : p)),
+});
+
+const mapPO = (s: DomainState, id: string, fn: (po: PurchaseOrder) => PurchaseOrder): DomainState => ({
+  ...s,
+  pos: s.pos.map(po => (po.id === id ? fn(po) : po)),
+});
+
+// Id del movimiento derivado del evento que lo genera: único y el mismo en cada reproducción
+const movementId = (s: DomainState, e: EventMeta) => {
+  const base = `M-${e.id.replace(/^E-/, '')}-`;
+  return `${base}${s.movements.filter(x => x.id.startsWith(base)).length + 1}`;
+};
+
+const addMovement = (s: DomainState, e: EventMeta, m: Omit<PartMovement, 'id' | 'date' | 'user'>): DomainState => ({
+  ...s,
+  movements: [{ ...m, id: movementId(s, e), date: e.date, user: e.user }, ...s.movements],
+});
+
+// Eventos de reserva que llegan tarde solo se aplican si la reserva que suponían sigue igual
+const holdsReservation = (s: DomainState, ticketId: string, partId: string, qty: number) => {
+  const t = s.tickets.find(x => x.id === ticketId);
+  return !!t && t.partId === partId && t.reservedQty === qty;
+};
+
+const restoreRecords = <T extends { id: string }>(records: T[], changes: { id: string; record?: T }[]) => {
+  if (changes.length === 0) return records;
+  const byId = new Map(changes.map(c => [c.id, c.record]));
+  const present = new Set(records.map(r => r.id));
+  const added = changes.filter(c => c.record && !present.has(c.id)).map(c => c.record as T);
+  const kept = records.filter(r => !byId.has(r.id) || byId.get(r.id)).map(r => (byId.has(r.id) ? (byId.get(r.id) as T) : r));
+  return [...added, ...kept];
+};
+
+// Al fusionar tickets se conserva la urgencia/impacto más alto de todos
+const URGENCY_RANK = [Urgency.LOW, Urgency.MEDIUM, Urgency.HIGH];
+const IMPACT_RANK = [Impact.NONE, Impact.ANNOYING, Impact.BLOCKING];
+
+const reduceEvent = (s: DomainState, e: DomainEvent): DomainState => {
+  switch (e.type) {
+    case 'Genesis':
+      return withPriority(withEscalations(withSla(withChecklists(withCosts(withRules(e.state, e.state.rules))))));
+
+    case 'TicketCreated': {
+      // Un id repetido (dos pestañas creando a la vez) no pisa al existente
+      if (s.tickets.some(t => t.id === e.ticket.id)) return s;
+      const folio = assignFolio(s.tickets, e.ticket, TICKET_FOLIO);
+      const t: Ticket = { ...e.ticket, folio, history: [audit(e, e.action)], priorityScore: 0 };
+      // Vencimientos con las políticas vigentes al crearse (cambiarlas después no los mueve)
+      if (!t.sla) {
+        const sla = stampSla(s.sla, t, t.createdAt);
+        if (sla) t.sla = sla;
+      }
+      return { ...s, tickets: [t, ...s.tickets] };
+    }
+
+    case 'TicketUpdated':
+    case 'StatusChanged':
+      return mapTicket(s, e.ticketId, t => {
+        const { apply, conflict } = mergeTicketChanges(e, t, e.changes, e.prev, e.action);
+        if (!conflict) return touchTicket(e, t, apply, e.action);
+        const fields = Object.keys(conflict.incoming).join(', ');
+        return touchTicket(e, t, { ...apply, conflicts: [...(t.conflicts ?? []), conflict] }, `${e.action} — en conflicto: ${fields}`);
+      });
+
+    case 'ConflictResolved':
+      return mapTicket(s, e.ticketId, t =>
+        t.conflicts?.some(c => c.id === e.conflictId)
+          ? touchTicket(e, t, { ...e.changes, conflicts: t.conflicts.filter(c => c.id !== e.conflictId) }, e.action)
+          : t
+      );
+
+    case 'TicketsMerged': {
+      const survivor = s.tickets.find(t => t.id === e.survivorId);
+      const listed = s.tickets.filter(t => t.id !== e.survivorId && e.mergedIds.includes(t.id));
+      // Si entretanto alguno apartó refacción (otro dispositivo), se queda fuera: la reserva no cambia de dueño
+      const merged = listed.filter(t => !t.reservedQty);
+      const held = listed.filter(t => t.reservedQty);
+      if (!survivor || merged.length === 0) return s;
+
+      const all = [survivor, ...merged];
+      const gone = new Set(merged.map(t => t.id));
+      const reporters = Array.from(new Set(all.flatMap(t => [t.createdBy, ...(t.reporters ?? [])]))).filter(r => r !== survivor.createdBy);
+      const notes = [
+        ...survivor.notes,
+        ...merged.flatMap(t => [
+          systemNote(e, `Reporte fusionado ${folioOf(t)} (${t.createdBy}): ${t.description}`, folioOf(t)),
+          ...t.notes,
+        ]),
+      ];
+      const absorbed: Ticket = {
+        ...survivor,
+        history: [...survivor.history, ...merged.flatMap(t => t.history.map(h => ({ ...h, action: `[${folioOf(t)}] ${h.action}` })))].sort(
+          (a, b) => a.date.localeCompare(b.date)
+        ),
+      };
+      const changes: Partial<Ticket> = {
+        notes: notes.filter((n, i) => notes.findIndex(x => x.id === n.id) === i),
+        reporters,
+        mergedFrom: [...(survivor.mergedFrom ?? []), ...merged.flatMap(t => [folioOf(t), ...(t.mergedFrom ?? [])])],
+        urgency: all.map(t => t.urgency).sort((a, b) => URGENCY_RANK.indexOf(b) - URGENCY_RANK.indexOf(a))[0],
+        impact: all.map(t => t.impact).sort((a, b) => IMPACT_RANK.indexOf(b) - IMPACT_RANK.indexOf(a))[0],
+        isOccupied: all.some(t => t.isOccupied),
+        poId: survivor.poId ?? merged.find(t => t.poId)?.poId,
+        incidentId: survivor.incidentId ?? merged.find(t => t.incidentId)?.incidentId,
+      };
+      // Costos del duplicado: sus cargos de proveedor y su tiempo pasan al que queda (un cronómetro corriendo se pausa aquí)
+      const charges = merged.flatMap(t => t.vendorCharges ?? []);
+      if (charges.length) changes.vendorCharges = [...(survivor.vendorCharges ?? []), ...charges];
+      const sessions = merged.flatMap(t => (t.workSessions ?? []).map(w => (w.end ? w : { ...w, end: e.date })));
+      if (sessions.length) changes.workSessions = [...(survivor.workSessions ?? []), ...sessions];
+      // Evidencia del duplicado (fotos antes/después) y los puntos de verificación que el que queda no tenga
+      const attachments = merged.flatMap(t => t.attachments ?? []).filter(a => !survivor.attachments?.some(x => x.id === a.id));
+      if (attachments.length) changes.attachments = [...(survivor.attachments ?? []), ...attachments];
+      const responses = merged
+        .flatMap(t => t.checklist ?? [])
+        .filter((r, i, list) => !survivor.checklist?.some(x => x.itemId === r.itemId) && list.findIndex(x => x.itemId === r.itemId) === i);
+      if (responses.length) changes.checklist = [...(survivor.checklist ?? []), ...responses];
+      const note = held.length ? ` (${held.map(folioOf).join(', ')} no: tiene refacción reservada)` : '';
+
+      const next: DomainState = {
+        ...s,
+        tickets: s.tickets.filter(t => !gone.has(t.id)).map(t => (t.id === survivor.id ? touchTicket(e, absorbed, changes, `${e.action}${note}`) : t)),
+        // El libro de movimientos sigue apuntando a un ticket que existe
+        movements: s.movements.map(m => (m.ticketId && gone.has(m.ticketId) ? { ...m, ticketId: survivor.id } : m)),
+      };
+      return next;
+    }
+
+    case 'IncidentDeclared': {
+      if (s.incidents.some(i => i.id === e.incident.id)) return s;
+      const incident: Incident = {
+        ...e.incident,
+        folio: assignFolio(s.incidents, e.incident, INCIDENT_FOLIO),
+        updates: [audit(e, e.action)],
+      };
+      return linkTickets({ ...s, incidents: [incident, ...s.incidents] }, e, incident, e.ticketIds);
+    }
+
+    case 'IncidentLinked': {
+      const incident = s.incidents.find(i => i.id === e.incidentId);
+      if (!incident) return s;
+      if (!e.unlink) return linkTickets(s, e, incident, e.ticketIds);
+      return {
+        ...s,
+        tickets: s.tickets.map(t =>
+          e.ticketIds.includes(t.id) && t.incidentId === incident.id
+            ? touchTicket(e, t, { incidentId: undefined }, `Separado de la falla general ${folioOf(incident)}`)
+            : t
+        ),
+      };
+    }
+
+    case 'IncidentUpdated': {
+      const incident = s.incidents.find(i => i.id === e.incidentId);
+      if (!incident) return s;
+      const changes: Partial<Incident> = e.status
+        ? { status: e.status, closedAt: e.status === TicketStatus.VERIFIED ? e.date : undefined }
+        : {};
+      const next = mapIncident(s, e.incidentId, i => touchIncident(e, i, changes, e.message));
+      if (e.status) return next;
+      // Aviso sin cambio de estado: queda también en la bitácora de cada hijo abierto
+      return {
+        ...next,
+        tickets: next.tickets.map(t =>
+          t.incidentId === incident.id && t.status !== TicketStatus.VERIFIED
+            ? touchTicket(e, t, {}, `[${folioOf(incident)}] ${e.message}`)
+            : t
+        ),
+      };
+    }
+
+    case 'AttachmentAdded':
+      return mapTicket(s, e.ticketId, t =>
+        t.attachments?.some(a => a.id === e.attachment.id)
+          ? t
+          : touchTicket(e, t, { attachments: [...(t.attachments ?? []), e.attachment] }, `Adjunto (${e.attachment.stage}): ${e.attachment.name}`)
+      );
+
+    case 'AttachmentRemoved':
+      return mapTicket(s, e.ticketId, t => {
+        const gone = t.attachments?.find(a => a.id === e.attachmentId);
+        if (!gone) return t;
+        return touchTicket(e, t, { attachments: t.attachments!.filter(a => a.id !== e.attachmentId) }, `Adjunto quitado: ${gone.name}`);
+      });
+
+    case 'RulesChanged':
+      return withRules(s, { ...s.rules, ...e.rules });
+
+    case 'CostSettingsChanged':
+      return withCosts(s, e.laborRate, e.technicianRates);
+
+    case 'PartCostChanged':
+      return mapPart(s, e.partId, p => touchPart(e, p, { unitCost: e.unitCost }));
+
+    case 'SlaPoliciesChanged':
+      return { ...s, sla: { ...s.sla, policies: e.policies } };
+
+    case 'EscalationRulesChanged':
+      return { ...s, escalations: e.rules };
+
+    case 'PriorityWeightsChanged':
+      return { ...s, priority: e.weights };
+
+    case 'EscalationFired': {
+      // Dos pestañas pueden evaluar a la vez: solo cuenta la primera
+      if (hasFired(s.escalationLog, e.ruleId, e.ticketId)) return s;
+      const target = s.tickets.find(t => t.id === e.ticketId);
+      if (!target) return s;
+      const firing: EscalationFiring = {
+        id: e.id,
+        ruleId: e.ruleId,
+        ruleName: e.ruleName,
+        ticketId: e.ticketId,
+        action: e.escalation,
+        detail: e.detail,
+        date: e.date,
+      };
+      const next = mapTicket(s, e.ticketId, t => {
+        const changes: Partial<Ticket> = e.note ? { ...e.changes, notes: [...t.notes, systemNote(e, e.note)] } : e.changes;
+        return touchTicket(e, t, changes, `Escalamiento "${e.ruleName}": ${e.detail}`);
+      });
+      return { ...next, escalationLog: [...s.escalationLog, firing] };
+    }
+
+    case 'ChecklistTemplateSaved': {
+      const known = s.checklists.some(c => c.id === e.template.id);
+      return {
+        ...s,
+        checklists: known ? s.checklists.map(c => (c.id === e.template.id ? e.template : c)) : [...s.checklists, e.template],
+      };
+    }
+
+    case 'ChecklistTemplateRemoved':
+      return { ...s, checklists: s.checklists.filter(c => c.id !== e.templateId) };
+
+    case 'ChecklistMarked':
+      return mapTicket(s, e.ticketId, t => {
+        const current = t.checklist?.find(r => r.itemId === e.itemId);
+        if ((current?.checked ?? false) === e.checked) return t;
+        const response: ChecklistResponse = { itemId: e.itemId, label: e.label, checked: e.checked, date: e.date, user: e.user };
+        const checklist = [...(t.checklist ?? []).filter(r => r.itemId !== e.itemId), response];
+        return touchTicket(e, t, { checklist }, `Verificación: ${e.checked ? '✓' : 'desmarcado'} ${e.label}`);
+      });
+
+    case 'VendorChargeAdded':
+      return mapTicket(s, e.ticketId, t =>
+        t.vendorCharges?.some(c => c.id === e.charge.id)
+          ? t
+          : touchTicket(
+              e,
+              t,
+              { vendorCharges: [...(t.vendorCharges ?? []), e.charge] },
+              `Cargo de proveedor: ${e.charge.vendor} $${e.charge.amount}${e.charge.invoice ? ` (factura ${e.charge.invoice})` : ''}`
+            )
+      );
+
+    case 'VendorChargeRemoved':
+      return mapTicket(s, e.ticketId, t => {
+        const gone = t.vendorCharges?.find(c => c.id === e.chargeId);
+        if (!gone) return t;
+        return touchTicket(e, t, { vendorCharges: t.vendorCharges!.filter(c => c.id !== e.chargeId) }, `Cargo quitado: ${gone.vendor} $${gone.amount}`);
+      });
+
+    case 'WorkStarted':
+      return mapTicket(s, e.ticketId, t =>
+        t.workSessions?.some(w => w.id === e.session.id)
+          ? t
+          : touchTicket(e, t, { workSessions: [...(t.workSessions ?? []), e.session] }, `Trabajo iniciado: ${e.session.technician}`)
+      );
+
+    case 'WorkEnded':
+      return mapTicket(s, e.ticketId, t => {
+        const w = t.workSessions?.find(x => x.id === e.sessionId);
+        if (!w || (w.end && (w.stopped || !e.stopped))) return t;
+        const ended: WorkSession = { ...w, end: w.end ?? e.end, stopped: e.stopped || undefined };
+        const minutes = (Date.parse(ended.end!) - Date.parse(w.start)) / 60000;
+        const action = w.end
+          ? `Trabajo terminado: ${w.technician}`
+          : `Trabajo ${e.stopped ? 'terminado' : 'pausado'}: ${w.technician} (${formatMinutes(minutes)})`;
+        return touchTicket(e, t, { workSessions: t.workSessions!.map(x => (x.id === w.id ? ended : x)) }, action);
+      });
+
+    case 'PartReserved': {
+      const part = s.parts.find(p => p.id === e.partId);
+      if (!part) return s;
+      // Llega tarde (sin conexión) y el ticket ya aparta otra cosa: no se duplica la reserva
+      const holder = s.tickets.find(t => t.id === e.ticketId);
+      if (holder?.reservedQty) {
+        return mapTicket(s, e.ticketId, t => touchTicket(e, t, {}, `Reserva no aplicada (${part.name} x${e.qty}): el ticket ya tenía reserva`));
+      }
+      let next = mapPart(s, e.partId, p => touchPart(e, p, { stockReserved: p.stockReserved + e.qty }));
+      next = mapTicket(next, e.ticketId, t =>
+        touchTicket(
+          e,
+          t,
+          {
+            needsPart: true,
+            status: TicketStatus.WAITING_PART,
+            partId: part.id,
+            partName: part.name,
+            partQty: e.qty,
+            reservedQty: e.qty,
+          },
+          `Reservada refacción: ${part.name} (x${e.qty})`
+        )
+      );
+      return addMovement(next, e, { partId: e.partId, type: 'RESERVE', qty: e.qty, note: `Reserva para ticket ${ticketFolio(next, e.ticketId)}`, ticketId: e.ticketId });
+    }
+
+    case 'ReservationReleased': {
+      if (!holdsReservation(s, e.ticketId, e.partId, e.qty)) {
+        return mapTicket(s, e.ticketId, t => touchTicket(e, t, {}, `Liberación no aplicada (${e.partId} x${e.qty}): la reserva ya no existía`));
+      }
+      let next = mapPart(s, e.partId, p => touchPart(e, p, { stockReserved: clampNonNeg(p.stockReserved - e.qty) }));
+      // Mantener trazabilidad: no borramos partName/id, solo quitamos needsPart
+      // En un cambio de refacción la reserva nueva (PartReserved) deja la bitácora; aquí solo se suelta
+      next = e.swap
+        ? mapTicket(next, e.ticketId, t => ({ ...t, reservedQty: 0 }))
+        : mapTicket(next, e.ticketId, t => touchTicket(e, t, { needsPart: false, reservedQty: 0 }, 'Reserva liberada'));
+      return addMovement(next, e, { partId: e.partId, type: 'RELEASE', qty: e.qty, note: e.note, ticketId: e.ticketId });
+    }
+
+    case 'PartIssued': {
+      const part = s.parts.find(p => p.id === e.partId);
+      if (!holdsReservation(s, e.ticketId, e.partId, e.qty)) {
+        return mapTicket(s, e.ticketId, t => touchTicket(e, t, {}, `Surtido no aplicado (${e.partId} x${e.qty}): la reserva ya no existía`));
+      }
+      let next = mapPart(s, e.partId, p =>
+        touchPart(e, p, {
+          stockReserved: clampNonNeg(p.stockReserved - e.qty),
+          stockOnHand: clampNonNeg(p.stockOnHand - e.qty),
+        })
+      );
+      next = mapTicket(next, e.ticketId, t =>
+        touchTicket(e, t, { needsPart: false, reservedQty: 0 }, `Refacción utilizada: ${part?.name ?? e.partId} (x${e.qty})`)
+      );
+      return addMovement(next, e, {
+        partId: e.partId,
+        type: 'ISSUE',
+        qty: e.qty,
+        note: e.note,
+        ticketId: e.ticketId,
+        fromReserved: true,
+        unitCost: part?.unitCost,
+      });
+    }
+
+    case 'PartConsumed': {
+      const part = s.parts.find(p => p.id === e.partId);
+      let next = mapPart(s, e.partId, p => touchPart(e, p, { stockOnHand: clampNonNeg(p.stockOnHand - e.qty) }));
+      next = addMovement(next, e, {
+        partId: e.partId,
+        type: 'ISSUE',
+        qty: e.qty,
+        note: e.note,
+        ticketId: e.ticketId,
+        unitCost: part?.unitCost,
+      });
+      if (!e.ticketId || !part) return next;
+      const noteLine = `Consumido de inventario: ${part.name}${part.sku ? ` (${part.sku})` : ''} x${e.qty}`;
+      return mapTicket(next, e.ticketId, t => touchTicket(e, t, { notes: [...t.notes, systemNote(e, noteLine)] }, noteLine));
+    }
+
+    case 'StockAdjusted': {
+      const next = mapPart(s, e.partId, p => touchPart(e, p, { stockOnHand: clampNonNeg(p.stockOnHand + e.delta) }));
+      return addMovement(next, e, { partId: e.partId, type: 'ADJUST', qty: Math.abs(e.delta), delta: e.delta, note: e.note });
+    }
+
+    case 'POCreated': {
+      if (s.pos.some(p => p.id === e.po.id)) return s;
+      const po: PurchaseOrder = { ...e.po, folio: assignFolio(s.pos, e.po, PO_FOLIO) };
+      let next: DomainState = { ...s, pos: [po, ...s.pos] };
+      po.items.forEach(item => {
+        next = addMovement(next, e, {
+          partId: item.partId,
+          type: 'PO_CREATED',
+          qty: item.qty,
+          note: `OC ${po.folio} creada (${po.status}) (DEMO)`,
+          poId: po.id,
+          ticketId: e.ticketId,
+        });
+      });
+      if (e.ticketId) next = mapTicket(next, e.ticketId, t => touchTicket(e, t, { poId: po.id }, `OC vinculada: ${po.folio}`));
+      return next;
+    }
+
+    case 'POSent': {
+      const po = s.pos.find(p => p.id === e.poId);
+      if (!po) return s;
+      let next = mapPO(s, e.poId, p => touchPO(p, { status: POStatus.ORDERED }));
+      po.items.forEach(item => {
+        next = addMovement(next, e, {
+          partId: item.partId,
+          type: 'PO_SENT',
+          qty: item.qty,
+          note: `OC ${folioOf(po)} enviada a ${po.vendor} (DEMO)`,
+          poId: po.id,
+        });
+      });
+      return next;
+    }
+
+    case 'POReceived': {
+      const po = s.pos.find(p => p.id === e.poId);
+      if (!po) return s;
+      let next: DomainState = {
+        ...s,
+        parts: s.parts.map(p => {
+          const qty = po.items.filter(i => i.partId === p.id).reduce((sum, i) => sum + i.qty, 0);
+          return qty ? touchPart(e, p, { stockOnHand: p.stockOnHand + qty }) : p;
+        }),
+      };
+      po.items.forEach(item => {
+        next = addMovement(next, e, { partId: item.partId, type: 'RECEIVE', qty: item.qty, note: `Recepción OC ${folioOf(po)} (DEMO)`, poId: po.id });
+      });
+      next = mapPO(next, e.poId, p => touchPO(p, { status: POStatus.RECEIVED }));
+      return addMovement(next, e, {
+        partId: po.items[0]?.partId || 'P-000',
+        type: 'PO_RECEIVED',
+        qty: po.items.reduce((sum, i) => sum + i.qty, 0),
+        note: `OC ${folioOf(po)} marcada como Recibida (DEMO)`,
+        poId: po.id,
+      });
+    }
+
+    case 'POCanceled':
+      return mapPO(s, e.poId, p => touchPO(p, { status: POStatus.CANCELED }));
+
+    case 'RecordsRestored': {
+      let next: DomainState = {
+        ...s,
+        tickets: restoreRecords(s.tickets, e.tickets),
+        parts: restoreRecords(s.parts, e.parts),
+        pos: restoreRecords(s.pos, e.pos),
+        incidents: restoreRecords(s.incidents, e.incidents ?? []),
+      };
+      // El stock no se reescribe en silencio: cada diferencia queda como movimiento compensatorio
+      e.parts.forEach(c => {
+        const before = s.parts.find(p => p.id === c.id);
+        if (!before || !c.record) return;
+        const onHand = c.record.stockOnHand - before.stockOnHand;
+        const reserved = c.record.stockReserved - before.stockReserved;
+        if (onHand !== 0) next = addMovement(next, e, { partId: c.id, type: 'ADJUST', qty: Math.abs(onHand), delta: onHand, note: e.action });
+        if (reserved !== 0) {
+          next = addMovement(next, e, { partId: c.id, type: reserved > 0 ? 'RESERVE' : 'RELEASE', qty: Math.abs(reserved), note: e.action });
+        }
+      });
+      return next;
+    }
+
+    case 'InventoryReconciled': {
+      let next = s;
+      e.releases.forEach(r => {
+        next = mapTicket(next, r.ticketId, t =>
+          touchTicket(e, t, { reservedQty: 0 }, `Reserva liberada por conciliación: ${r.partId} x${r.qty}`)
+        );
+        next = addMovement(next, e, { partId: r.partId, type: 'RELEASE', qty: r.qty, note: e.action, ticketId: r.ticketId });
+      });
+      e.parts.forEach(line => {
+        next = mapPart(next, line.partId, p =>
+          p.stockReserved === line.stockReserved ? p : touchPart(e, p, { stockReserved: line.stockReserved })
+        );
+        // Solo libro: el físico ya es el que marca la refacción; se registra la diferencia que faltaba
+        if (line.onHandDelta !== 0) {
+          next = addMovement(next, e, {
+            partId: line.partId,
+            type: 'ADJUST',
+            qty: Math.abs(line.onHandDelta),
+            delta: line.onHandDelta,
+            note: `${e.action} (existencia)`,
+          });
+        }
+        if (line.reservedDelta !== 0) {
+          next = addMovement(next, e, {
+            partId: line.partId,
+            type: line.reservedDelta > 0 ? 'RESERVE' : 'RELEASE',
+            qty: Math.abs(line.reservedDelta),
+            note: `${e.action} (reservado)`,
+          });
+        }
+      });
+      return next;
+    }
+
+    case 'BackupRestored': {
+      const stamp = (t: Ticket): Ticket => ({ ...t, history: [...t.history, audit(e, e.action)] });
+      // Las reglas, tarifas, listas de verificación, SLA y escalamientos del hotel no vienen en el respaldo: se conservan los vigentes
+      if (e.mode === 'replace' && e.state) {
+        return {
+          ...e.state,
+          tickets: e.state.tickets.map(stamp),
+          rules: s.rules,
+          costs: s.costs,
+          checklists: s.checklists,
+          sla: s.sla,
+          escalations: s.escalations,
+          escalationLog: s.escalationLog,
+          priority: s.priority,
+        };
+      }
+
+      const upsert = <T extends { id: string }>(records: T[], incoming: T[]) =>
+        restoreRecords(records, incoming.map(r => ({ id: r.id, record: r })));
+      // Un folio del respaldo que aquí ya usa otro registro se reasigna (el id interno no cambia)
+      const withFolios = <T extends { id: string; folio?: string }>(records: T[], incoming: T[], f: typeof TICKET_FOLIO) =>
+        incoming.reduce<T[]>((acc, r) => {
+          const others = acc.filter(x => x.id !== r.id);
+          return upsert(acc, [{ ...r, folio: assignFolio(others, r, f) }]);
+        }, records);
+      const next: DomainState = {
+        ...s,
+        tickets: withFolios(s.tickets, e.tickets.map(stamp), TICKET_FOLIO),
+        parts: upsert(s.parts, e.parts),
+        pos: withFolios(s.pos, e.pos, PO_FOLIO),
+        incidents: withFolios(s.incidents, e.incidents ?? [], INCIDENT_FOLIO),
+      };
+      // Los movimientos importados toman id de este evento (los del respaldo pueden repetirse aquí)
+      return e.movements.reduce<DomainState>(
+        (acc, m) => ({ ...acc, movements: [{ ...m, id: movementId(acc, e) }, ...acc.movements] }),
+        next
+      );
+    }
+  }
+};
+
+// El puntaje de prioridad sale de los pesos vigentes: se recalcula en los tickets que tocó el evento
+// (en todos si lo que cambió fueron los pesos)
+export const applyEvent = (s: DomainState, e: DomainEvent): DomainState => {
+  const next = reduceEvent(s, e);
+  if (next.tickets === s.tickets && next.priority === s.priority) return next;
+  const untouched = new Set(next.priority === s.priority ? s.tickets : []);
+  return {
+    ...next,
+    tickets: next.tickets.map(t => (untouched.has(t) ? t : { ...t, priorityScore: calculatePriority(t, next.priority) })),
+  };
+};
+
+// =========================
+// Reproducción / fotos / consultas
+// =========================
+
+export const compareEvents = (a: DomainEvent, b: DomainEvent) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+
+export const sortEvents = (events: DomainEvent[]) => [...events].sort(compareEvents);
+
+/**
+ * Foto del estado tras los primeros `count` eventos (el último es `upTo`). Fuera del registro a propósito:
+ * si llega de otra pestaña un evento anterior a `upTo`, la foto deja de cuadrar y simplemente se ignora.
+ */
+export interface StateSnapshot {
+  id: string;
+  upTo: string;
+  count: number;
+  date: string; // fecha del evento `upTo`
+  state: DomainState;
+}
+
+export const SNAPSHOTS_KEPT = 3;
+
+const isSnapshotValid = (events: DomainEvent[], snap: StateSnapshot) => events[snap.count - 1]?.id === snap.upTo;
+
+/**
+ * Estado tras aplicar `events` (ordenados). Arranca en la foto válida más reciente o en el último Genesis,
+ * lo que quede más adelante. Con `until` (ISO) solo cuenta lo ocurrido hasta esa fecha.
+ */
+export const replay = (events: DomainEvent[], snapshots: StateSnapshot[] = [], until?: string): DomainState => {
+  const upTo = until ? events.filter(e => e.date <= until).length : events.length;
+
+  let start = 0;
+  let state = EMPTY_STATE;
+  for (let i = upTo - 1; i >= 0; i--) {
+    if (events[i].type === 'Genesis') {
+      start = i;
+      break;
+    }
+  }
+  const snap = snapshots
+    .filter(sn => sn.count <= upTo && sn.count > start && isSnapshotValid(events, sn))
+    .sort((a, b) => b.count - a.count)[0];
+  if (snap) {
+    state = snap.state;
+    start = snap.count;
+  }
+  for (let i = start; i < upTo; i++) state = applyEvent(state, events[i]);
+  return state;
+};
+
+/** Estado tal como estaba en `date` (ISO). Antes del primer evento devuelve la foto inicial. */
+export const stateAsOf = (events: DomainEvent[], snapshots: StateSnapshot[], date: string): DomainState =>
+  events.length && events[0].date > date ? replay(events.slice(0, 1)) : replay(events, snapshots, date);
+
+// ¿Toca foto nueva? Cuenta eventos desde la última foto válida (o desde el inicio)
+export const needsSnapshot = (events: DomainEvent[], snapshots: StateSnapshot[]) => {
+  const last = snapshots.filter(sn => isSnapshotValid(events, sn)).reduce((m, sn) => Math.max(m, sn.count), 0);
+  return events.length - last >= SNAPSHOT_EVERY;
+};
+
+export const takeSnapshot = (events: DomainEvent[], state: DomainState): StateSnapshot => {
+  const last = events[events.length - 1];
+  return { id: `S-${last.id}`, upTo: last.id, count: events.length, date: last.date, state };
+};
+
+export const ticketIdOf = (e: DomainEvent): string | undefined => {
+  switch (e.type) {
+    case 'TicketCreated':
+      return e.ticket.id;
+    case 'TicketUpdated':
+    case 'StatusChanged':
+    case 'ConflictResolved':
+    case 'PartReserved':
+    case 'ReservationReleased':
+    case 'PartIssued':
+      return e.ticketId;
+    case 'TicketsMerged':
+      return e.survivorId;
+    case 'AttachmentAdded':
+    case 'AttachmentRemoved':
+    case 'VendorChargeAdded':
+    case 'VendorChargeRemoved':
+    case 'ChecklistMarked':
+    case 'EscalationFired':
+    case 'WorkStarted':
+    case 'WorkEnded':
+    case 'PartConsumed':
+    case 'POCreated':
+      return e.ticketId;
+    default:
+      return undefined;
+  }
+};
+
+// Texto corto para avisos y vistas de historial. Con `s` los tickets, OC e incidentes se nombran por su folio
+export const describeEvent = (
+  e: DomainEvent,
+  s?: Pick<DomainState, 'tickets' | 'pos'> & Partial<Pick<DomainState, 'incidents'>>
+): string => {
+  const folio = (records: { id: string; folio?: string }[] | undefined, id: string) => {
+    const r = records?.find(x => x.id === id);
+    return r ? folioOf(r) : id;
+  };
+  const t = (id: string) => folio(s?.tickets, id);
+  const po = (id: string) => folio(s?.pos, id);
+  const inc = (id: string) => folio(s?.incidents, id);
+  switch (e.type) {
+    case 'Genesis':
+      return e.note;
+    case 'TicketCreated':
+      return `Nuevo ticket ${t(e.ticket.id)} (Hab. ${e.ticket.roomNumber})`;
+    case 'StatusChanged':
+      return `${t(e.ticketId)}: ${e.from} → ${e.to}`;
+    case 'TicketUpdated':
+    case 'ConflictResolved':
+      return `${t(e.ticketId)}: ${e.action}`;
+    case 'TicketsMerged':
+      return `${t(e.survivorId)}: ${e.action}`;
+    case 'IncidentDeclared':
+      return `Falla general ${inc(e.incident.id)}: ${e.incident.title} (${e.ticketIds.length} ticket(s))`;
+    case 'IncidentLinked':
+      return `${inc(e.incidentId)}: ${e.unlink ? 'separa' : 'agrupa'} ${e.ticketIds.map(t).join(', ')}`;
+    case 'IncidentUpdated':
+      return `${inc(e.incidentId)}: ${e.status ? `${e.status} — ` : ''}${e.message}`;
+    case 'AttachmentAdded':
+      return `${t(e.ticketId)}: adjunta ${e.attachment.name} (${e.attachment.stage})`;
+    case 'AttachmentRemoved':
+      return `${t(e.ticketId)}: quita un adjunto`;
+    case 'RulesChanged':
+      return e.action;
+    case 'CostSettingsChanged':
+      return e.action;
+    case 'PartCostChanged':
+      return `Costo ${e.partId}: $${e.unitCost}`;
+    case 'SlaPoliciesChanged':
+    case 'EscalationRulesChanged':
+    case 'PriorityWeightsChanged':
+    case 'ChecklistTemplateSaved':
+    case 'ChecklistTemplateRemoved':
+      return e.action;
+    case 'EscalationFired':
+      return `${t(e.ticketId)}: escalamiento "${e.ruleName}" (${e.detail})`;
+    case 'ChecklistMarked':
+      return `${t(e.ticketId)}: ${e.checked ? 'marca' : 'desmarca'} "${e.label}"`;
+    case 'VendorChargeAdded':
+      return `${t(e.ticketId)}: cargo de ${e.charge.vendor} $${e.charge.amount}`;
+    case 'VendorChargeRemoved':
+      return `${t(e.ticketId)}: quita un cargo de proveedor`;
+    case 'WorkStarted':
+      return `${t(e.ticketId)}: ${e.session.technician} inicia trabajo`;
+    case 'WorkEnded':
+      return `${t(e.ticketId)}: ${e.stopped ? 'termina' : 'pausa'} trabajo`;
+    case 'PartReserved':
+      return `${t(e.ticketId)}: reserva ${e.partId} x${e.qty}`;
+    case 'ReservationReleased':
+      return `${t(e.ticketId)}: libera ${e.partId} x${e.qty}`;
+    case 'PartIssued':
+      return `${t(e.ticketId)}: surte ${e.partId} x${e.qty}`;
+    case 'PartConsumed':
+      return `Consumo ${e.partId} x${e.qty}${e.ticketId ? ` (${t(e.ticketId)})` : ''}`;
+    case 'StockAdjusted':
+      return `Ajuste ${e.partId} ${e.delta > 0 ? '+' : ''}${e.delta}`;
+    case 'POCreated':
+      return `Nueva OC ${po(e.po.id)} (${e.po.status})`;
+    case 'POSent':
+      return `${po(e.poId)}: enviada`;
+    case 'POReceived':
+      return `${po(e.poId)}: recibida`;
+    case 'POCanceled':
+      return `${po(e.poId)}: cancelada`;
+    case 'RecordsRestored':
+    case 'InventoryReconciled':
+    case 'BackupRestored':
+      return e.action;
+  }
+};
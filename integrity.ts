@@ -0,0 +1,207 @@
+// src/integrity.ts
+
+import { InventoryPart, PartMovement, Ticket, TicketStatus } from './types';
+import { applyEvent, DomainEvent, DomainState, replay } from './events';
+import { folioOf } from './utils';
+
+// =========================
+// Auditoría de integridad de inventario
+// =========================
+// Tres fuentes que deben cuadrar para cada refacción:
+// - el registro (stockOnHand / stockReserved),
+// - el libro de movimientos desde el Genesis vigente (saldo inicial + entradas − salidas),
+// - los tickets que tienen algo apartado (reservedQty).
+// Nada de esto pasa por clampNonNeg: un saldo negativo en el libro es justamente lo que se busca.
+
+export type IntegrityIssueKind =
+  | 'ON_HAND_LEDGER' // existencia distinta a la que da el libro
+  | 'RESERVED_LEDGER' // reservado distinto al que da el libro
+  | 'RESERVED_TICKETS' // reservado distinto a la suma de reservas de tickets activos
+  | 'STALE_RESERVATION' // ticket cerrado / sin necesidad que sigue apartando stock
+  | 'ORPHAN_RESERVATION' // reserva ligada a una refacción que no existe
+  | 'UNRESERVED_LINK'; // espera refacción sin reserva real (informativo)
+
+export interface IntegrityIssue {
+  id: string;
+  kind: IntegrityIssueKind;
+  severity: 'error' | 'info';
+  partId: string;
+  ticketId?: string;
+  expected?: number;
+  actual?: number;
+  cause: string;
+}
+
+export interface LedgerBalance {
+  onHand: number;
+  reserved: number;
+}
+
+export interface ReconciliationPlan {
+  releases: { ticketId: string; partId: string; qty: number }[];
+  parts: { partId: string; stockReserved: number; onHandDelta: number; reservedDelta: number }[];
+}
+
+export interface IntegrityReport {
+  checkedAt: string; // ISO
+  issues: IntegrityIssue[];
+  plan: ReconciliationPlan; // vacío = nada que reparar
+}
+
+const CLOSED: TicketStatus[] = [TicketStatus.RESOLVED, TicketStatus.VERIFIED];
+
+// Base del libro: estado del último Genesis o restauración de respaldo (los movimientos anteriores ya
+// están en sus saldos; un respaldo trae existencias que el libro local no puede explicar)
+export const ledgerBaseline = (events: DomainEvent[]): DomainState | null => {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const e = events[i];
+    if (e.type === 'Genesis') return e.state;
+    if (e.type === 'BackupRestored') return e.state ?? applyEvent(replay(events.slice(0, i)), e);
+  }
+  return null;
+};
+
+const applyMovement = (b: LedgerBalance, m: PartMovement): LedgerBalance => {
+  switch (m.type) {
+    case 'RECEIVE':
+      return { ...b, onHand: b.onHand + m.qty };
+    case 'ADJUST':
+      return { ...b, onHand: b.onHand + (m.delta ?? 0) };
+    case 'ISSUE':
+      return { onHand: b.onHand - m.qty, reserved: m.fromReserved ? b.reserved - m.qty : b.reserved };
+    case 'RESERVE':
+      return { ...b, reserved: b.reserved + m.qty };
+    case 'RELEASE':
+      return { ...b, reserved: b.reserved - m.qty };
+    default:
+      // PO_CREATED / PO_SENT / PO_RECEIVED son informativos (la entrada es RECEIVE)
+      return b;
+  }
+};
+
+/** Saldos por refacción según el libro (sin recortar negativos). */
+export const computeLedger = (baseline: DomainState | null, movements: PartMovement[]) => {
+  const known = new Set(baseline?.movements.map(m => m.id) ?? []);
+  const balances = new Map<string, LedgerBalance>(
+    (baseline?.parts ?? []).map(p => [p.id, { onHand: p.stockOnHand, reserved: p.stockReserved }])
+  );
+  movements.forEach(m => {
+    if (known.has(m.id)) return;
+    balances.set(m.partId, applyMovement(balances.get(m.partId) ?? { onHand: 0, reserved: 0 }, m));
+  });
+  return balances;
+};
+
+const holdsStock = (t: Ticket) => !!t.partId && !!t.reservedQty && t.reservedQty > 0;
+const isStale = (t: Ticket) => CLOSED.includes(t.status) || !t.needsPart;
+
+export const auditInventory = (state: DomainState, events: DomainEvent[]): IntegrityReport => {
+  const ledger = computeLedger(ledgerBaseline(events), state.movements);
+  const partIds = new Set(state.parts.map(p => p.id));
+  const issues: IntegrityIssue[] = [];
+  const releases: ReconciliationPlan['releases'] = [];
+
+  // Reservas por ticket: las que ya no corresponden se liberan en la reparación
+  state.tickets.forEach(t => {
+    if (holdsStock(t) && !partIds.has(t.partId!)) {
+      issues.push({
+        id: `orphan-${t.id}`,
+        kind: 'ORPHAN_RESERVATION',
+        severity: 'error',
+        partId: t.partId!,
+        ticketId: t.id,
+        actual: t.reservedQty,
+        cause: `${folioOf(t)} aparta x${t.reservedQty} de ${t.partId}, que no existe en el catálogo.`,
+      });
+      releases.push({ ticketId: t.id, partId: t.partId!, qty: t.reservedQty! });
+      return;
+    }
+    if (holdsStock(t) && isStale(t)) {
+      issues.push({
+        id: `stale-${t.id}`,
+        kind: 'STALE_RESERVATION',
+        severity: 'error',
+        partId: t.partId!,
+        ticketId: t.id,
+        actual: t.reservedQty,
+        cause: CLOSED.includes(t.status)
+          ? `${folioOf(t)} está ${t.status} y sigue apartando x${t.reservedQty}.`
+          : `${folioOf(t)} ya no espera refacción y sigue apartando x${t.reservedQty}.`,
+      });
+      releases.push({ ticketId: t.id, partId: t.partId!, qty: t.reservedQty! });
+      return;
+    }
+    if (!holdsStock(t) && t.needsPart && t.partId && !CLOSED.includes(t.status)) {
+      issues.push({
+        id: `unreserved-${t.id}`,
+        kind: 'UNRESERVED_LINK',
+        severity: 'info',
+        partId: t.partId,
+        ticketId: t.id,
+        cause: `${folioOf(t)} espera ${t.partName || t.partId} sin reserva (no aparta stock; liberar no descuenta nada).`,
+      });
+    }
+  });
+
+  const planParts: ReconciliationPlan['parts'] = [];
+
+  state.parts.forEach((p: InventoryPart) => {
+    const book = ledger.get(p.id) ?? { onHand: 0, reserved: 0 };
+    const released = releases.filter(r => r.partId === p.id).reduce((sum, r) => sum + r.qty, 0);
+    const held = state.tickets
+      .filter(t => t.partId === p.id && holdsStock(t) && !isStale(t))
+      .reduce((sum, t) => sum + (t.reservedQty ?? 0), 0);
+
+    if (book.onHand !== p.stockOnHand) {
+      issues.push({
+        id: `onhand-${p.id}`,
+        kind: 'ON_HAND_LEDGER',
+        severity: 'error',
+        partId: p.id,
+        expected: book.onHand,
+        actual: p.stockOnHand,
+        cause:
+          book.onHand < 0
+            ? `El libro da ${book.onHand}: salieron más piezas de las registradas y el registro se quedó en ${p.stockOnHand} (se recortó el negativo).`
+            : `El registro dice ${p.stockOnHand} pero los movimientos dan ${book.onHand} (cambio sin movimiento).`,
+      });
+    }
+    if (book.reserved !== p.stockReserved) {
+      issues.push({
+        id: `reserved-ledger-${p.id}`,
+        kind: 'RESERVED_LEDGER',
+        severity: 'error',
+        partId: p.id,
+        expected: book.reserved,
+        actual: p.stockReserved,
+        cause:
+          book.reserved < 0
+            ? `El libro da ${book.reserved} reservado: se liberó o surtió más de lo que se apartó (se recortó el negativo).`
+            : `El registro dice ${p.stockReserved} reservado pero los movimientos dan ${book.reserved}.`,
+      });
+    }
+    if (held + released !== p.stockReserved) {
+      issues.push({
+        id: `reserved-tickets-${p.id}`,
+        kind: 'RESERVED_TICKETS',
+        severity: 'error',
+        partId: p.id,
+        expected: held + released,
+        actual: p.stockReserved,
+        cause: `Reservado ${p.stockReserved}, pero los tickets apartan ${held + released}.`,
+      });
+    }
+
+    // Reparación: el reservado queda igual a lo que apartan los tickets activos; la existencia física
+    // se respeta y el libro absorbe la diferencia con movimientos de conciliación
+    const onHandDelta = p.stockOnHand - book.onHand;
+    const reservedDelta = held - (book.reserved - released);
+    if (onHandDelta !== 0 || reservedDelta !== 0 || held !== p.stockReserved || released > 0) {
+      planParts.push({ partId: p.id, stockReserved: held, onHandDelta, reservedDelta });
+    }
+  });
+
+  return { checkedAt: new Date().toISOString(), issues, plan: { releases, parts: planParts } };
+};
+
+export const needsRepair = (r: IntegrityReport) => r.plan.releases.length > 0 || r.plan.parts.length > 0;
@@ -0,0 +1,233 @@
+// src/inventory.test.ts
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Role, TicketStatus } from './types';
+import { DomainEvent, DomainState, eventId, replay } from './events';
+import {
+  changeStatus,
+  checkEvent,
+  CommandContext,
+  CommandResult,
+  createInitialLog,
+  createPOForPart,
+  execute,
+  issueReservedPartForTicket,
+  receivePO,
+  releaseReservationForTicket,
+  reservePartForTicket,
+} from './domain';
+
+// =========================
+// Inventario: reserva → surtido / liberación → recepción de OC
+// =========================
+// Cada paso corre el comando y aplica sus eventos con execute (igual que la app y el servidor). Después de
+// cada paso se revisan existencia, reservado, la reserva del ticket y el libro de movimientos; al final, que
+// reproducir el registro dé el mismo estado.
+
+const PART = 'P-002'; // 3 en existencia, nada reservado
+const TICKET = 'T-1002'; // En proceso
+const OTHER = 'T-1001'; // Reportado
+
+let seq = 0;
+let state: DomainState;
+let log: DomainEvent[];
+let base: { onHand: number; reserved: number };
+
+const ctxFor = (user: Role): CommandContext => ({ user, now: new Date(), newId: prefix => `${prefix}test-${++seq}` });
+
+const run = (user: Role, cmd: (s: DomainState, ctx: CommandContext) => CommandResult) => {
+  const res = cmd(state, ctxFor(user));
+  expect(res.ok, res.message).toBe(true);
+  const { state: next, events } = execute(state, res.events, {
+    user,
+    date: new Date().toISOString(),
+    origin: 'test',
+    nextEventId: () => eventId('test', ++seq),
+  });
+  state = next;
+  log = [...log, ...events];
+  return res;
+};
+
+const rejected = (user: Role, cmd: (s: DomainState, ctx: CommandContext) => CommandResult) => {
+  const res = cmd(state, ctxFor(user));
+  expect(res.ok).toBe(false);
+  expect(res.events).toEqual([]);
+  return res.message;
+};
+
+const part = () => state.parts.find(p => p.id === PART)!;
+const ticket = (id = TICKET) => state.tickets.find(t => t.id === id)!;
+const movements = () => state.movements.filter(m => m.partId === PART);
+
+// Lo que dice el libro desde el inicio debe cuadrar con lo que marca la refacción
+const expectLedgerBalanced = () => {
+  const sum = (pick: (m: ReturnType<typeof movements>[number]) => number) => movements().reduce((acc, m) => acc + pick(m), 0);
+  const onHand = sum(m => (m.type === 'RECEIVE' ? m.qty : m.type === 'ISSUE' ? -m.qty : m.type === 'ADJUST' ? (m.delta ?? 0) : 0));
+  const reserved = sum(m => (m.type === 'RESERVE' ? m.qty : m.type === 'RELEASE' || (m.type === 'ISSUE' && m.fromReserved) ? -m.qty : 0));
+  expect(part().stockOnHand).toBe(base.onHand + onHand);
+  expect(part().stockReserved).toBe(base.reserved + reserved);
+};
+
+beforeEach(() => {
+  const initial = createInitialLog('Pruebas de inventario');
+  log = initial.events;
+  state = replay(log);
+  base = { onHand: part().stockOnHand, reserved: part().stockReserved };
+});
+
+describe('reserva', () => {
+  it('aparta sin tocar la existencia y deja el ticket esperando la refacción', () => {
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 2));
+
+    expect(part().stockOnHand).toBe(base.onHand);
+    expect(part().stockReserved).toBe(base.reserved + 2);
+    expect(ticket()).toMatchObject({ reservedQty: 2, partId: PART, partQty: 2, status: TicketStatus.WAITING_PART });
+    expect(movements()).toEqual([expect.objectContaining({ type: 'RESERVE', qty: 2, ticketId: TICKET })]);
+    expectLedgerBalanced();
+  });
+
+  it('no aparta más de lo disponible ni deja reservar a Recepción', () => {
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 2));
+
+    const available = base.onHand - base.reserved - 2;
+    expect(rejected(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, OTHER, PART, available + 1))).toMatch(/Stock insuficiente/);
+    expect(rejected(Role.RECEPTION, (s, ctx) => reservePartForTicket(s, ctx, OTHER, PART, 1))).toMatch(/Permiso/);
+    expect(ticket(OTHER).reservedQty ?? 0).toBe(0);
+    expect(part().stockReserved).toBe(base.reserved + 2);
+    expectLedgerBalanced();
+  });
+
+  it('no deja resolver el ticket mientras la refacción siga apartada', () => {
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 1));
+
+    expect(rejected(Role.MAINTENANCE, (s, ctx) => changeStatus(s, ctx, TICKET, TicketStatus.RESOLVED))).toMatch(/reservada/);
+    expect(rejected(Role.MAINTENANCE, (s, ctx) => changeStatus(s, ctx, TICKET, TicketStatus.RESOLVED, { changes: { reservedQty: 0 } }))).toMatch(
+      /reservedQty/
+    );
+    expect(ticket().reservedQty).toBe(1);
+  });
+
+  it('la refacción apartada no se cambia editando el ticket', () => {
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 1));
+
+    expect(
+      rejected(Role.MAINTENANCE, (s, ctx) => changeStatus(s, ctx, TICKET, TicketStatus.WAITING_PART, { changes: { partQty: 3 } }))
+    ).toMatch(/partQty/);
+    // Ni desde otro dispositivo: el servidor lo revisa con checkEvent
+    const pushed = { id: 'E-otro-1', date: new Date().toISOString(), user: Role.MAINTENANCE, origin: 'otro' };
+    expect(checkEvent(state, { ...pushed, type: 'TicketUpdated', ticketId: TICKET, changes: { partId: 'P-001' }, action: 'x' }, Role.MAINTENANCE)).toMatch(
+      /partId/
+    );
+    expect(ticket()).toMatchObject({ partId: PART, partQty: 1, reservedQty: 1 });
+  });
+});
+
+describe('surtido', () => {
+  it('descuenta existencia y reservado a la vez y suelta la reserva del ticket', () => {
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 2));
+    run(Role.MAINTENANCE, (s, ctx) => issueReservedPartForTicket(s, ctx, TICKET));
+
+    expect(part().stockOnHand).toBe(base.onHand - 2);
+    expect(part().stockReserved).toBe(base.reserved);
+    expect(ticket().reservedQty).toBe(0);
+    expect(movements()[0]).toMatchObject({ type: 'ISSUE', qty: 2, ticketId: TICKET, fromReserved: true });
+    expectLedgerBalanced();
+
+    run(Role.MAINTENANCE, (s, ctx) => changeStatus(s, ctx, TICKET, TicketStatus.RESOLVED));
+    expect(ticket().status).toBe(TicketStatus.RESOLVED);
+  });
+
+  it('sin reserva no hay nada que surtir', () => {
+    expect(rejected(Role.MAINTENANCE, (s, ctx) => issueReservedPartForTicket(s, ctx, TICKET))).toBeTruthy();
+    expect(movements()).toEqual([]);
+    expectLedgerBalanced();
+  });
+});
+
+describe('liberación', () => {
+  it('regresa lo apartado al disponible sin mover la existencia', () => {
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 2));
+    run(Role.MAINTENANCE, (s, ctx) => releaseReservationForTicket(s, ctx, TICKET));
+
+    expect(part().stockOnHand).toBe(base.onHand);
+    expect(part().stockReserved).toBe(base.reserved);
+    expect(ticket().reservedQty).toBe(0);
+    expect(movements().map(m => [m.type, m.qty])).toEqual([
+      ['RELEASE', 2],
+      ['RESERVE', 2],
+    ]);
+    expectLedgerBalanced();
+  });
+
+  it('un surtido que llega después de liberar (otro dispositivo) no descuenta nada', () => {
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 2));
+    const stale = issueReservedPartForTicket(state, ctxFor(Role.MAINTENANCE), TICKET);
+    run(Role.MAINTENANCE, (s, ctx) => releaseReservationForTicket(s, ctx, TICKET));
+
+    const { state: next } = execute(state, stale.events, {
+      user: Role.MAINTENANCE,
+      date: new Date().toISOString(),
+      origin: 'otro',
+      nextEventId: () => eventId('otro', ++seq),
+    });
+    state = next;
+
+    expect(part().stockOnHand).toBe(base.onHand);
+    expect(part().stockReserved).toBe(base.reserved);
+    expect(movements().some(m => m.type === 'ISSUE')).toBe(false);
+    expectLedgerBalanced();
+  });
+});
+
+describe('recepción de OC', () => {
+  it('suma la existencia al recibir y no toca lo reservado', () => {
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 1));
+    const po = run(Role.MANAGEMENT, (s, ctx) => createPOForPart(s, ctx, { partId: PART, qty: 5 })) as CommandResult<{ poId?: string }>;
+    expect(po.poId).toBeTruthy();
+    expect(part().stockOnHand).toBe(base.onHand);
+    expect(movements()[0]).toMatchObject({ type: 'PO_CREATED', qty: 5, poId: po.poId });
+
+    run(Role.MANAGEMENT, (s, ctx) => receivePO(s, ctx, po.poId!));
+
+    expect(part().stockOnHand).toBe(base.onHand + 5);
+    expect(part().stockReserved).toBe(base.reserved + 1);
+    expect(ticket().reservedQty).toBe(1);
+    expect(movements().filter(m => m.poId === po.poId).map(m => m.type)).toEqual(['PO_RECEIVED', 'RECEIVE', 'PO_CREATED']);
+    expectLedgerBalanced();
+
+    // Recibir dos veces no duplica la existencia
+    expect(rejected(Role.MANAGEMENT, (s, ctx) => receivePO(s, ctx, po.poId!))).toMatch(/ya fue recibida/);
+    expect(part().stockOnHand).toBe(base.onHand + 5);
+  });
+
+  it('lo recibido queda disponible para reservar y surtir', () => {
+    const po = run(Role.MANAGEMENT, (s, ctx) => createPOForPart(s, ctx, { partId: PART, qty: 4 })) as CommandResult<{ poId?: string }>;
+    run(Role.MANAGEMENT, (s, ctx) => receivePO(s, ctx, po.poId!));
+    const available = part().stockOnHand - part().stockReserved;
+
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, available));
+    run(Role.MAINTENANCE, (s, ctx) => issueReservedPartForTicket(s, ctx, TICKET));
+
+    expect(part().stockOnHand).toBe(base.onHand + 4 - available);
+    expect(part().stockReserved).toBe(base.reserved);
+    expectLedgerBalanced();
+  });
+});
+
+describe('registro', () => {
+  it('reproducir los eventos da la misma existencia, reservas y libro', () => {
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 2));
+    run(Role.MAINTENANCE, (s, ctx) => releaseReservationForTicket(s, ctx, TICKET));
+    run(Role.MAINTENANCE, (s, ctx) => reservePartForTicket(s, ctx, TICKET, PART, 1));
+    const po = run(Role.MANAGEMENT, (s, ctx) => createPOForPart(s, ctx, { partId: PART, qty: 2 })) as CommandResult<{ poId?: string }>;
+    run(Role.MANAGEMENT, (s, ctx) => receivePO(s, ctx, po.poId!));
+    run(Role.MAINTENANCE, (s, ctx) => issueReservedPartForTicket(s, ctx, TICKET));
+
+    const replayed = replay(log);
+    expect(replayed.parts).toEqual(state.parts);
+    expect(replayed.movements).toEqual(state.movements);
+    expect(replayed.tickets.find(t => t.id === TICKET)?.reservedQty).toBe(ticket().reservedQty);
+    expectLedgerBalanced();
+  });
+});
@@ -0,0 +1,98 @@
+// src/journal.ts
+
+import { Incident, InventoryPart, POStatus, PurchaseOrder, Role, Ticket } from './types';
+
+// =========================
+// Bitácora de comandos (deshacer / rehacer)
+// =========================
+// Un comando = una acción del contexto (un clic). Se guarda qué registros tocó, cómo estaban antes
+// y cómo quedaron; el inverso se calcula con eso. Los movimientos no se deshacen: se compensan.
+
+export type JournaledCollection = 'tickets' | 'parts' | 'pos' | 'incidents';
+
+export interface JournalSnapshot {
+  tickets: Ticket[];
+  parts: InventoryPart[];
+  pos: PurchaseOrder[];
+  incidents: Incident[];
+}
+
+export type JournalChange =
+  | { collection: 'tickets'; id: string; before?: Ticket; after?: Ticket; current?: Ticket }
+  | { collection: 'parts'; id: string; before?: InventoryPart; after?: InventoryPart; current?: InventoryPart }
+  | { collection: 'pos'; id: string; before?: PurchaseOrder; after?: PurchaseOrder; current?: PurchaseOrder }
+  | { collection: 'incidents'; id: string; before?: Incident; after?: Incident; current?: Incident };
+
+export interface JournalEntry {
+  id: string;
+  label: string;
+  date: string; // ISO
+  user: Role | string;
+  changes: JournalChange[]; // `current` = cómo debe estar el registro para poder aplicar el inverso
+}
+
+export const JOURNAL_LIMIT = 50;
+
+// El estado es inmutable: un registro que no cambió conserva la misma referencia
+const diffById = <T extends { id: string }>(before: T[], after: T[]) => {
+  const prev = new Map(before.map(r => [r.id, r]));
+  const next = new Map(after.map(r => [r.id, r]));
+  const out: { id: string; before?: T; after?: T }[] = [];
+  after.forEach(r => {
+    if (prev.get(r.id) !== r) out.push({ id: r.id, before: prev.get(r.id), after: r });
+  });
+  before.forEach(r => {
+    if (!next.has(r.id)) out.push({ id: r.id, before: r });
+  });
+  return out;
+};
+
+export const diffSnapshots = (before: JournalSnapshot, after: JournalSnapshot): JournalChange[] => [
+  ...diffById(before.tickets, after.tickets).map(c => ({ collection: 'tickets' as const, ...c, current: c.after })),
+  ...diffById(before.parts, after.parts).map(c => ({ collection: 'parts' as const, ...c, current: c.after })),
+  ...diffById(before.pos, after.pos).map(c => ({ collection: 'pos' as const, ...c, current: c.after })),
+  ...diffById(before.incidents, after.incidents).map(c => ({ collection: 'incidents' as const, ...c, current: c.after })),
+];
+
+export const findCurrent = (snapshot: JournalSnapshot, change: JournalChange) =>
+  (snapshot[change.collection] as { id: string }[]).find(r => r.id === change.id);
+
+/**
+ * Registro resultante al deshacer/rehacer un cambio.
+ * - Tickets e incidentes: vuelven a los campos destino pero conservan la bitácora vigente + la entrada de deshacer.
+ * - OC creadas por el comando: no se borran (tienen movimientos), se cancelan.
+ * - Registro creado por el comando (sin destino): se elimina.
+ */
+export const restoreChange = (change: JournalChange, direction: 'undo' | 'redo', audit: Ticket['history'][number]) => {
+  const now = new Date().toISOString();
+  switch (change.collection) {
+    case 'tickets': {
+      const target = direction === 'undo' ? change.before : change.after;
+      const cur = change.current;
+      if (!target) return { ...change, current: undefined };
+      const history = [...(cur?.history ?? target.history), audit];
+      return { ...change, current: { ...target, history, updatedAt: now, rev: (cur?.rev ?? target.rev ?? 0) + 1 } };
+    }
+    case 'parts': {
+      const target = direction === 'undo' ? change.before : change.after;
+      const cur = change.current;
+      if (!target) return { ...change, current: undefined };
+      return { ...change, current: { ...target, updatedAt: now, rev: (cur?.rev ?? target.rev ?? 0) + 1 } };
+    }
+    case 'pos': {
+      const target = direction === 'undo' ? change.before : change.after;
+      const cur = change.current;
+      const rev = (cur?.rev ?? target?.rev ?? 0) + 1;
+      if (target) return { ...change, current: { ...target, rev } };
+      if (!cur) return { ...change, current: undefined };
+      return { ...change, current: { ...cur, status: POStatus.CANCELED, rev, notes: `${cur.notes ? `${cur.notes} — ` : ''}${audit.action}` } };
+    }
+    case 'incidents': {
+      const target = direction === 'undo' ? change.before : change.after;
+      const cur = change.current;
+      if (!target) return { ...change, current: undefined };
+      const updates = [...(cur?.updates ?? target.updates), audit];
+      return { ...change, current: { ...target, updates, updatedAt: now, rev: (cur?.rev ?? target.rev ?? 0) + 1 } };
+    }
+  }
+};
@@ -0,0 +1,1180 @@
+// src/persistence.ts
+
+import {
+  Attachment,
+  AuditEvent,
+  ChecklistItem,
+  ChecklistResponse,
+  ChecklistTemplate,
+  EvidenceStage,
+  SlaPause,
+  TicketSla,
+  Impact,
+  Incident,
+  InventoryPart,
+  NoteKind,
+  PartMovement,
+  PartMovementType,
+  POStatus,
+  PurchaseOrder,
+  Ticket,
+  TicketNote,
+  TicketStatus,
+  Urgency,
+  VendorCharge,
+  WorkSession,
+} from './types';
+import { Collection, COLLECTIONS, StorageAdapter } from './storage';
+import { createGenesis, DomainEvent, EVENT_TYPES, StateSnapshot } from './events';
+import { DEFAULT_CHECKLISTS, DEFAULT_WORKFLOW_RULES } from './workflow';
+import { CostSettings, DEFAULT_COST_SETTINGS } from './costs';
+import { DEFAULT_SLA_SETTINGS, ROOM_TYPES, SlaPolicy, SlaSettings } from './sla';
+import { DEFAULT_PRIORITY_WEIGHTS, PriorityWeights } from './priority';
+import {
+  DEFAULT_ESCALATION_RULES,
+  ESCALATION_ACTION_LABELS,
+  EscalationAction,
+  EscalationFiring,
+  EscalationRule,
+} from './escalation';
+
+// =========================
+// Esquema persistido (el backend lo elige storage.ts)
+// =========================
+
+export const SCHEMA_VERSION = 6;
+
+// Respaldo de lo descartado y claves heredadas: siempre en localStorage (pequeño)
+export const RECOVERY_KEY = 'metodiko_demo_recovery';
+
+// Claves de versiones anteriores del DEMO (inventario/OC privados de cada vista)
+const LEGACY_KEYS = {
+  maintenanceInventory: 'metodiko_demo_inventory',
+  managementInventory: 'metodiko_demo_inventory_v1',
+  managementPOs: 'metodiko_demo_purchase_orders_v1',
+};
+
+export interface PersistedData {
+  tickets: Ticket[];
+  parts: InventoryPart[];
+  pos: PurchaseOrder[];
+  movements: PartMovement[];
+  incidents: Incident[];
+  events: DomainEvent[];
+  snapshots: StateSnapshot[];
+}
+
+interface StoredMeta {
+  schemaVersion: number;
+  updatedAt: string;
+}
+
+// =========================
+// Reporte de recuperación (visible al usuario)
+// =========================
+
+export interface RecoveryIssue {
+  collection: Collection | 'legacy';
+  severity: 'repaired' | 'discarded' | 'unreadable';
+  recordId?: string;
+  message: string;
+}
+
+export interface RecoveryReport {
+  fromVersion: number;
+  toVersion: number;
+  migrationsApplied: string[];
+  issues: RecoveryIssue[];
+  backupKey?: string; // dónde quedó copia de lo descartado
+}
+
+export const reportNeedsAttention = (r: RecoveryReport | null) =>
+  !!r && (r.issues.length > 0 || r.migrationsApplied.length > 0);
+
+// =========================
+// Migraciones (en orden; cada una lleva el payload de version-1 a version)
+// =========================
+
+type RawPayload = Record<Collection, unknown[]>;
+
+interface MigrationContext {
+  readLegacy: (key: string) => unknown;
+  removeLegacy: (key: string) => void;
+  backup: (collection: RecoveryIssue['collection'], record: unknown, reason: string) => void;
+  issue: (i: RecoveryIssue) => void;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (raw: RawPayload, ctx: MigrationContext) => RawPayload;
+}
+
+const asRecord = (x: unknown): Record<string, unknown> => (x && typeof x === 'object' ? (x as Record<string, unknown>) : {});
+
+const normalizeName = (s: unknown) =>
+  String(s || '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+
+const findPartIdByName = (parts: unknown[], name?: unknown) => {
+  if (!name) return undefined;
+  const match = parts.map(asRecord).find(p => normalizeName(p.name) === normalizeName(name));
+  return match ? String(match.id) : undefined;
+};
+
+const LEGACY_PO_STATUS: Record<string, POStatus> = {
+  BORRADOR: POStatus.DRAFT,
+  ENVIADA: POStatus.ORDERED,
+  RECIBIDA: POStatus.RECEIVED,
+};
+
+// Notas de texto (esquema < 6) → registros. Cada TicketUpdated llevaba la lista completa, así que el id
+// sale del ticket y del texto (n-ésima aparición): la misma nota queda con el mismo id en todos los eventos
+const textHash = (s: string) => {
+  let h = 5381;
+  for (let i = 0; i < s.length; i++) h = ((h << 5) + h + s.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+};
+
+const legacyNoteKind = (text: string) => {
+  if (/^(Consumido de inventario|Reporte fusionado)/.test(text)) return NoteKind.SYSTEM;
+  if (/^Reportado también por/.test(text)) return NoteKind.INTERNAL;
+  return NoteKind.DIAGNOSIS; // el panel era de "Notas Técnicas"
+};
+
+const upgradeNotes = (notes: unknown, ticketId: unknown, date: unknown, user: unknown): unknown => {
+  if (!Array.isArray(notes)) return notes;
+  const seen: Record<string, number> = {};
+  return notes.map(n => {
+    if (typeof n !== 'string') return n;
+    const hash = textHash(n);
+    seen[hash] = (seen[hash] ?? 0) + 1;
+    return {
+      id: `N-${String(ticketId)}-${hash}${seen[hash] > 1 ? `-${seen[hash]}` : ''}`,
+      date: isIso(date) ? date : new Date(0).toISOString(),
+      user: String(user ?? '—'),
+      kind: legacyNoteKind(n),
+      text: n,
+    };
+  });
+};
+
+// Sin autor conocido: la fecha del ticket. En eventos, quien emitió el evento que agregó la nota
+const upgradeTicketNotes = (x: unknown, date?: unknown, user?: unknown) => {
+  const t = asRecord(x);
+  return Array.isArray(t.notes) ? { ...t, notes: upgradeNotes(t.notes, t.id, date ?? t.createdAt, user) } : x;
+};
+
+const upgradeEventNotes = (x: unknown): unknown => {
+  const e = asRecord(x);
+  const list = (v: unknown) => (Array.isArray(v) ? v : []);
+  const inChanges = (v: unknown) => {
+    const c = asRecord(v);
+    return Array.isArray(c.notes) ? { ...c, notes: upgradeNotes(c.notes, e.ticketId, e.date, e.user) } : v;
+  };
+  switch (e.type) {
+    case 'Genesis': {
+      const state = asRecord(e.state);
+      return { ...e, state: { ...state, tickets: list(state.tickets).map(t => upgradeTicketNotes(t)) } };
+    }
+    case 'TicketCreated':
+      return { ...e, ticket: upgradeTicketNotes(e.ticket, e.date, e.user) };
+    case 'TicketUpdated':
+    case 'StatusChanged':
+      return { ...e, changes: inChanges(e.changes), ...(e.prev ? { prev: inChanges(e.prev) } : {}) };
+    case 'ConflictResolved':
+      return { ...e, changes: inChanges(e.changes) };
+    case 'RecordsRestored':
+      return {
+        ...e,
+        tickets: list(e.tickets).map(x => {
+          const r = asRecord(x);
+          return r.record ? { ...r, record: upgradeTicketNotes(r.record) } : x;
+        }),
+      };
+    case 'BackupRestored': {
+      const state = e.state ? { ...asRecord(e.state), tickets: list(asRecord(e.state).tickets).map(t => upgradeTicketNotes(t)) } : e.state;
+      return { ...e, state, tickets: list(e.tickets).map(t => upgradeTicketNotes(t)) };
+    }
+    default:
+      return x;
+  }
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Tickets: vincular partName → partId con el catálogo',
+    up: raw => ({
+      ...raw,
+      tickets: raw.tickets.map(x => {
+        const t = asRecord(x);
+        if (t.needsPart && !t.partId && t.partName) {
+          const pid = findPartIdByName(raw.parts, t.partName);
+          if (pid) return { ...t, partId: pid };
+        }
+        return t;
+      }),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Inventario/OC privados de las vistas → almacén único',
+    up: (raw, ctx) => {
+      // OC de la vista de Gerencia: se incorporan al consecutivo OC- compartido
+      const legacyPOs = ctx.readLegacy(LEGACY_KEYS.managementPOs);
+      const pos = [...raw.pos];
+      if (Array.isArray(legacyPOs)) {
+        let seq = pos.reduce<number>((m, p) => {
+          const n = parseInt(String(asRecord(p).id).replace(/\D/g, ''), 10);
+          return Number.isFinite(n) ? Math.max(m, n) : m;
+        }, 0);
+        legacyPOs.map(asRecord).forEach(lp => {
+          seq += 1;
+          const items = (Array.isArray(lp.items) ? lp.items : []).map(asRecord).map(i => ({
+            partId: findPartIdByName(raw.parts, i.name) || String(i.partId || ''),
+            partName: String(i.name || i.partName || ''),
+            qty: Number(i.qty) || 1,
+          }));
+          pos.unshift({
+            id: `OC-${seq}`,
+            status: LEGACY_PO_STATUS[String(lp.status)] ?? POStatus.DRAFT,
+            createdAt: String(lp.createdAt || new Date().toISOString()),
+            createdBy: 'Migración DEMO',
+            vendor: 'Proveedor (DEMO)',
+            items,
+            notes: `Importada de ${lp.id || 'OC local'}${lp.notes ? ` — ${lp.notes}` : ''}`,
+          });
+        });
+        ctx.issue({
+          collection: 'legacy',
+          severity: 'repaired',
+          message: `${legacyPOs.length} OC de la vista de Gerencia incorporadas a la lista única.`,
+        });
+      }
+
+      // Inventarios paralelos: sus cantidades no son confiables frente al catálogo; se respaldan
+      [LEGACY_KEYS.maintenanceInventory, LEGACY_KEYS.managementInventory].forEach(key => {
+        const legacy = ctx.readLegacy(key);
+        if (!Array.isArray(legacy)) return;
+        ctx.backup('legacy', { key, records: legacy }, 'Inventario local obsoleto');
+        ctx.issue({
+          collection: 'legacy',
+          severity: 'discarded',
+          message: `Inventario local "${key}" (${legacy.length} artículos) reemplazado por el catálogo compartido; copia en respaldo.`,
+        });
+      });
+
+      Object.values(LEGACY_KEYS).forEach(ctx.removeLegacy);
+      return { ...raw, pos };
+    },
+  },
+  {
+    version: 3,
+    description: 'Registro de eventos: los datos guardados pasan a ser el evento inicial (Genesis)',
+    up: raw => {
+      if (raw.events.length > 0) return raw;
+      const state = { tickets: raw.tickets, parts: raw.parts, pos: raw.pos, movements: raw.movements };
+      return { ...raw, events: [createGenesis(state as never, 'Datos previos al registro de eventos')] };
+    },
+  },
+  {
+    version: 4,
+    description: 'Tickets: la reserva en inventario se guarda aparte de la cantidad solicitada (reservedQty)',
+    up: raw => ({
+      ...raw,
+      // Los eventos posteriores ya la llevan al reproducirse; solo falta en el estado inicial (Genesis)
+      events: raw.events.map(x => {
+        const e = asRecord(x);
+        if (e.type !== 'Genesis') return x;
+        const state = asRecord(e.state);
+        const tickets = (Array.isArray(state.tickets) ? state.tickets : []).map(y => {
+          const t = asRecord(y);
+          const holds =
+            t.needsPart && t.partId && isNum(t.partQty) && t.status !== TicketStatus.RESOLVED && t.status !== TicketStatus.VERIFIED;
+          return holds && t.reservedQty === undefined ? { ...t, reservedQty: t.partQty } : y;
+        });
+        return { ...e, state: { ...state, tickets } };
+      }),
+      // Las fotos guardadas no traen el campo: se regeneran
+      snapshots: [],
+    }),
+  },
+  {
+    version: 5,
+    description: 'Tickets y OC: el id consecutivo pasa a ser el folio visible (los nuevos ids son únicos)',
+    up: raw => {
+      // Los ids no cambian: ticketId/poId de movimientos, OC y eventos siguen apuntando al mismo registro
+      const withFolio = (records: unknown[]) =>
+        records.map(x => {
+          const r = asRecord(x);
+          return typeof r.id === 'string' && r.folio === undefined ? { ...r, folio: r.id } : x;
+        });
+      return {
+        ...raw,
+        tickets: withFolio(raw.tickets),
+        pos: withFolio(raw.pos),
+        events: raw.events.map(x => {
+          const e = asRecord(x);
+          if (e.type !== 'Genesis') return x;
+          const state = asRecord(e.state);
+          const list = (k: string) => (Array.isArray(state[k]) ? (state[k] as unknown[]) : []);
+          return { ...e, state: { ...state, tickets: withFolio(list('tickets')), pos: withFolio(list('pos')) } };
+        }),
+        snapshots: [],
+      };
+    },
+  },
+  {
+    version: 6,
+    description: 'Tickets: las notas de texto pasan a notas con autor, fecha y tipo',
+    up: raw => ({
+      ...raw,
+      tickets: raw.tickets.map(t => upgradeTicketNotes(t)),
+      events: raw.events.map(upgradeEventNotes),
+      snapshots: [],
+    }),
+  },
+];
+
+// =========================
+// Validación por registro (repara lo trivial, descarta lo irrecuperable)
+// =========================
+
+type Sanitized<T> = { value?: T; repairs: string[]; error?: string };
+
+const isIso = (s: unknown): s is string => typeof s === 'string' && !Number.isNaN(new Date(s).getTime());
+const isNum = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+const isId = (v: unknown): v is string => typeof v === 'string' && v !== '';
+const isIdList = (v: unknown): v is string[] => Array.isArray(v) && v.every(isId);
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const oneOf = <T extends string>(values: T[], v: unknown): v is T => values.includes(v as T);
+
+const MOVEMENT_TYPES: PartMovementType[] = [
+  'RESERVE',
+  'RELEASE',
+  'ISSUE',
+  'RECEIVE',
+  'ADJUST',
+  'PO_CREATED',
+  'PO_SENT',
+  'PO_RECEIVED',
+];
+
+const sanitizeAudit = (x: unknown): AuditEvent | null => {
+  const h = asRecord(x);
+  if (!isIso(h.date) || typeof h.action !== 'string') return null;
+  return { date: h.date, action: h.action, user: String(h.user ?? '—') };
+};
+
+const sanitizeNote = (x: unknown): TicketNote | null => {
+  const n = asRecord(x);
+  if (typeof n.id !== 'string' || !n.id || typeof n.text !== 'string') return null;
+  const note: TicketNote = {
+    id: n.id,
+    date: isIso(n.date) ? n.date : new Date(0).toISOString(),
+    user: String(n.user ?? '—'),
+    kind: oneOf(Object.values(NoteKind), n.kind) ? n.kind : NoteKind.INTERNAL,
+    text: n.text,
+  };
+  if (n.visibleToReception) note.visibleToReception = true;
+  if (typeof n.replyTo === 'string' && n.replyTo) note.replyTo = n.replyTo;
+  return note;
+};
+
+const sanitizeAttachment = (x: unknown): Attachment | null => {
+  const a = asRecord(x);
+  if (typeof a.id !== 'string' || !a.id || typeof a.name !== 'string' || typeof a.mimeType !== 'string') return null;
+  const attachment: Attachment = {
+    id: a.id,
+    name: a.name,
+    mimeType: a.mimeType,
+    size: isNum(a.size) ? a.size : 0,
+    stage: oneOf(Object.values(EvidenceStage), a.stage) ? a.stage : EvidenceStage.OTHER,
+    date: isIso(a.date) ? a.date : new Date(0).toISOString(),
+    user: String(a.user ?? '—'),
+  };
+  if (typeof a.thumbnail === 'string' && a.thumbnail.startsWith('data:image/')) attachment.thumbnail = a.thumbnail;
+  return attachment;
+};
+
+const sanitizeWorkSession = (x: unknown): WorkSession | null => {
+  const w = asRecord(x);
+  if (typeof w.id !== 'string' || !w.id || typeof w.technician !== 'string' || !isIso(w.start)) return null;
+  const session: WorkSession = { id: w.id, technician: w.technician, start: w.start, user: String(w.user ?? '—') };
+  if (isIso(w.end)) session.end = w.end;
+  if (session.end && w.stopped) session.stopped = true;
+  if (isNum(w.rate) && w.rate >= 0) session.rate = w.rate;
+  return session;
+};
+
+const sanitizeVendorCharge = (x: unknown): VendorCharge | null => {
+  const c = asRecord(x);
+  if (typeof c.id !== 'string' || !c.id || !isNum(c.amount) || c.amount < 0) return null;
+  const charge: VendorCharge = {
+    id: c.id,
+    vendor: String(c.vendor ?? 'Proveedor'),
+    amount: c.amount,
+    date: isIso(c.date) ? c.date : new Date(0).toISOString(),
+    user: String(c.user ?? '—'),
+  };
+  if (typeof c.invoice === 'string' && c.invoice) charge.invoice = c.invoice;
+  return charge;
+};
+
+const sanitizeChecklistResponse = (x: unknown): ChecklistResponse | null => {
+  const r = asRecord(x);
+  if (typeof r.itemId !== 'string' || !r.itemId) return null;
+  return {
+    itemId: r.itemId,
+    label: String(r.label ?? r.itemId),
+    checked: r.checked === true,
+    date: isIso(r.date) ? r.date : new Date(0).toISOString(),
+    user: String(r.user ?? '—'),
+  };
+};
+
+const sanitizeTicketSla = (x: unknown): TicketSla | null => {
+  const s = asRecord(x);
+  if (typeof s.policyId !== 'string' || !isIso(s.start) || !isIso(s.responseDue) || !isIso(s.resolutionDue)) return null;
+  const sla: TicketSla = {
+    policyId: s.policyId,
+    policyName: String(s.policyName ?? s.policyId),
+    start: s.start,
+    responseDue: s.responseDue,
+    resolutionDue: s.resolutionDue,
+  };
+  if (isIso(s.respondedAt)) sla.respondedAt = s.respondedAt;
+  if (isIso(s.resolvedAt)) sla.resolvedAt = s.resolvedAt;
+  const pauses = (Array.isArray(s.pauses) ? s.pauses : [])
+    .map(asRecord)
+    .flatMap((p): SlaPause[] =>
+      isIso(p.start) && oneOf(Object.values(TicketStatus), p.status)
+        ? [{ start: p.start, status: p.status, ...(isIso(p.end) ? { end: p.end } : {}) }]
+        : []
+    );
+  if (pauses.length) sla.pauses = pauses;
+  return sla;
+};
+
+export const sanitizeTicket = (x: unknown): Sanitized<Ticket> => {
+  const t = asRecord(x);
+  const repairs: string[] = [];
+  if (typeof t.id !== 'string' || !t.id) return { repairs, error: 'Ticket sin id' };
+  if (typeof t.roomNumber !== 'string' && typeof t.roomNumber !== 'number') {
+    return { repairs, error: 'Ticket sin habitación' };
+  }
+  if (!oneOf(Object.values(TicketStatus), t.status)) return { repairs, error: `Estado desconocido: ${t.status}` };
+
+  const value = { ...t, id: t.id, status: t.status, roomNumber: String(t.roomNumber) } as Ticket;
+  if (!oneOf(Object.values(Urgency), t.urgency)) {
+    value.urgency = Urgency.MEDIUM;
+    repairs.push('urgencia → Media');
+  }
+  if (!oneOf(Object.values(Impact), t.impact)) {
+    value.impact = Impact.ANNOYING;
+    repairs.push('impacto → Molesta');
+  }
+  if (!isIso(t.createdAt)) {
+    value.createdAt = new Date().toISOString();
+    repairs.push('fecha de creación');
+  }
+  // Texto suelto: llega de una pestaña con la versión anterior (se convierte igual que en la migración 6)
+  const upgraded = upgradeNotes(t.notes, t.id, t.createdAt, '—');
+  const notes = (Array.isArray(upgraded) ? upgraded : []).map(sanitizeNote);
+  if (!Array.isArray(t.notes) || notes.some(n => !n)) repairs.push('notas');
+  value.notes = notes.filter((n): n is TicketNote => !!n);
+  if (t.attachments !== undefined) {
+    const attachments = (Array.isArray(t.attachments) ? t.attachments : []).map(sanitizeAttachment);
+    if (!Array.isArray(t.attachments) || attachments.some(a => !a)) repairs.push('adjuntos');
+    value.attachments = attachments.filter((a): a is Attachment => !!a);
+  }
+  if (t.workSessions !== undefined) {
+    const sessions = (Array.isArray(t.workSessions) ? t.workSessions : []).map(sanitizeWorkSession);
+    if (!Array.isArray(t.workSessions) || sessions.some(w => !w)) repairs.push('tiempo de trabajo');
+    value.workSessions = sessions.filter((w): w is WorkSession => !!w);
+  }
+  if (t.vendorCharges !== undefined) {
+    const charges = (Array.isArray(t.vendorCharges) ? t.vendorCharges : []).map(sanitizeVendorCharge);
+    if (!Array.isArray(t.vendorCharges) || charges.some(c => !c)) repairs.push('cargos de proveedor');
+    value.vendorCharges = charges.filter((c): c is VendorCharge => !!c);
+  }
+  if (t.checklist !== undefined) {
+    const responses = (Array.isArray(t.checklist) ? t.checklist : []).map(sanitizeChecklistResponse);
+    if (!Array.isArray(t.checklist) || responses.some(r => !r)) repairs.push('checklist');
+    value.checklist = responses.filter((r): r is ChecklistResponse => !!r);
+  }
+  if (t.sla !== undefined) {
+    const sla = sanitizeTicketSla(t.sla);
+    if (sla) value.sla = sla;
+    else {
+      delete value.sla;
+      repairs.push('SLA');
+    }
+  }
+  const history = (Array.isArray(t.history) ? t.history : []).map(sanitizeAudit);
+  if (!Array.isArray(t.history) || history.some(h => !h)) repairs.push('historial');
+  value.history = history.filter((h): h is AuditEvent => !!h);
+  value.isOccupied = !!t.isOccupied;
+  value.asset = String(t.asset ?? 'Otros');
+  value.issueType = String(t.issueType ?? '');
+  value.description = String(t.description ?? '');
+  if (!isNum(t.priorityScore)) value.priorityScore = 0;
+  if (t.folio !== undefined && (typeof t.folio !== 'string' || !t.folio)) {
+    delete value.folio;
+    repairs.push('folio');
+  }
+  if (t.reopenings !== undefined && !Array.isArray(t.reopenings)) {
+    delete value.reopenings;
+    repairs.push('reaperturas');
+  }
+  if (t.conflicts !== undefined && !Array.isArray(t.conflicts)) {
+    delete value.conflicts;
+    repairs.push('conflictos');
+  }
+  return { value, repairs };
+};
+
+export const sanitizePart = (x: unknown): Sanitized<InventoryPart> => {
+  const p = asRecord(x);
+  const repairs: string[] = [];
+  if (typeof p.id !== 'string' || !p.id) return { repairs, error: 'Refacción sin id' };
+  if (typeof p.name !== 'string' || !p.name) return { repairs, error: 'Refacción sin nombre' };
+
+  const value = { ...p, id: p.id, name: p.name } as InventoryPart;
+  (['stockOnHand', 'stockReserved', 'minStock'] as const).forEach(k => {
+    const n = p[k];
+    if (!isNum(n) || n < 0) {
+      value[k] = Math.max(0, Number(n) || 0);
+      repairs.push(k);
+    }
+  });
+  if (typeof p.unit !== 'string') {
+    value.unit = 'pza';
+    repairs.push('unidad');
+  }
+  if (typeof p.category !== 'string') {
+    value.category = 'Otros';
+    repairs.push('categoría');
+  }
+  return { value, repairs };
+};
+
+export const sanitizePO = (x: unknown): Sanitized<PurchaseOrder> => {
+  const po = asRecord(x);
+  const repairs: string[] = [];
+  if (typeof po.id !== 'string' || !po.id) return { repairs, error: 'OC sin id' };
+  if (!oneOf(Object.values(POStatus), po.status)) return { repairs, error: `Estado de OC desconocido: ${po.status}` };
+
+  const items = (Array.isArray(po.items) ? po.items : [])
+    .map(asRecord)
+    .flatMap(i => (typeof i.partId === 'string' && isNum(i.qty) && i.qty > 0 ? [{ ...i, partId: i.partId, qty: i.qty }] : []));
+  if (items.length === 0) return { repairs, error: 'OC sin partidas válidas' };
+  if (!Array.isArray(po.items) || items.length !== po.items.length) repairs.push('partidas');
+
+  const value = { ...po, id: po.id, status: po.status, items } as PurchaseOrder;
+  if (!isIso(po.createdAt)) {
+    value.createdAt = new Date().toISOString();
+    repairs.push('fecha');
+  }
+  if (typeof po.vendor !== 'string') value.vendor = 'Proveedor (DEMO)';
+  if (po.createdBy === undefined) value.createdBy = '—';
+  if (po.folio !== undefined && (typeof po.folio !== 'string' || !po.folio)) {
+    delete value.folio;
+    repairs.push('folio');
+  }
+  return { value, repairs };
+};
+
+export const sanitizeMovement = (x: unknown): Sanitized<PartMovement> => {
+  const m = asRecord(x);
+  const repairs: string[] = [];
+  if (typeof m.id !== 'string' || !m.id) return { repairs, error: 'Movimiento sin id' };
+  if (typeof m.partId !== 'string') return { repairs, error: 'Movimiento sin refacción' };
+  if (!oneOf(MOVEMENT_TYPES, m.type)) return { repairs, error: `Tipo de movimiento desconocido: ${m.type}` };
+  if (!isNum(m.qty)) return { repairs, error: 'Movimiento sin cantidad' };
+
+  const value = { ...m, id: m.id, partId: m.partId, type: m.type, qty: m.qty } as PartMovement;
+  if (m.qty < 0) {
+    value.qty = Math.abs(m.qty);
+    repairs.push('cantidad negativa');
+  }
+  if (!isIso(m.date)) return { repairs, error: 'Movimiento sin fecha' };
+  if (m.user === undefined) value.user = '—';
+  if (m.unitCost !== undefined && !isNum(m.unitCost)) {
+    delete value.unitCost;
+    repairs.push('costo unitario');
+  }
+  return { value, repairs };
+};
+
+export const sanitizeIncident = (x: unknown): Sanitized<Incident> => {
+  const i = asRecord(x);
+  const repairs: string[] = [];
+  if (typeof i.id !== 'string' || !i.id) return { repairs, error: 'Falla general sin id' };
+  if (!oneOf(Object.values(TicketStatus), i.status)) return { repairs, error: `Estado desconocido: ${i.status}` };
+
+  const value = { ...i, id: i.id, status: i.status } as Incident;
+  if (!isIso(i.createdAt)) {
+    value.createdAt = new Date().toISOString();
+    repairs.push('fecha de creación');
+  }
+  const updates = (Array.isArray(i.updates) ? i.updates : []).map(sanitizeAudit);
+  if (!Array.isArray(i.updates) || updates.some(u => !u)) repairs.push('avisos');
+  value.updates = updates.filter((u): u is AuditEvent => !!u);
+  value.title = String(i.title ?? 'Falla general');
+  value.asset = String(i.asset ?? 'Otros');
+  value.description = String(i.description ?? '');
+  if (i.createdBy === undefined) value.createdBy = '—';
+  if (i.folio !== undefined && (typeof i.folio !== 'string' || !i.folio)) {
+    delete value.folio;
+    repairs.push('folio');
+  }
+  return { value, repairs };
+};
+
+const sanitizeCosts = (x: unknown): CostSettings => {
+  const c = asRecord(x);
+  const rates = Object.entries(asRecord(c.technicianRates)).filter((e): e is [string, number] => isNum(e[1]) && e[1] >= 0);
+  return {
+    laborRate: isNum(c.laborRate) && c.laborRate >= 0 ? c.laborRate : DEFAULT_COST_SETTINGS.laborRate,
+    technicianRates: Object.fromEntries(rates),
+  };
+};
+
+const sanitizeChecklistTemplate = (x: unknown): ChecklistTemplate | null => {
+  const c = asRecord(x);
+  if (typeof c.id !== 'string' || !c.id || !Array.isArray(c.items)) return null;
+  const items = c.items
+    .map(asRecord)
+    .flatMap((i): ChecklistItem[] =>
+      isId(i.id) && typeof i.label === 'string' && i.label ? [{ id: i.id, label: i.label, required: i.required !== false }] : []
+    );
+  if (items.length === 0) return null;
+  const template: ChecklistTemplate = { id: c.id, items };
+  if (typeof c.asset === 'string' && c.asset) template.asset = c.asset;
+  if (template.asset && typeof c.issueType === 'string' && c.issueType) template.issueType = c.issueType;
+  return template;
+};
+
+// Sin lista general (dañada o de antes) se usan las de omisión completas
+const sanitizeChecklists = (x: unknown): ChecklistTemplate[] => {
+  const templates = (Array.isArray(x) ? x : []).map(sanitizeChecklistTemplate).filter((c): c is ChecklistTemplate => !!c);
+  return templates.some(c => !c.asset) ? templates : DEFAULT_CHECKLISTS;
+};
+
+const sanitizeSlaPolicy = (x: unknown): SlaPolicy | null => {
+  const p = asRecord(x);
+  if (typeof p.id !== 'string' || !p.id || !isNum(p.responseMinutes) || !isNum(p.resolutionMinutes)) return null;
+  const policy: SlaPolicy = {
+    id: p.id,
+    name: String(p.name ?? p.id),
+    responseMinutes: p.responseMinutes,
+    resolutionMinutes: p.resolutionMinutes,
+  };
+  if (oneOf(Object.values(Urgency), p.urgency)) policy.urgency = p.urgency;
+  if (oneOf(Object.values(Impact), p.impact)) policy.impact = p.impact;
+  if (typeof p.occupied === 'boolean') policy.occupied = p.occupied;
+  if (oneOf(ROOM_TYPES, p.roomType)) policy.roomType = p.roomType;
+  return policy;
+};
+
+const sanitizeSla = (x: unknown): SlaSettings => {
+  const list = asRecord(x).policies;
+  const policies = (Array.isArray(list) ? list : []).map(sanitizeSlaPolicy).filter((p): p is SlaPolicy => !!p);
+  return policies.length ? { policies } : DEFAULT_SLA_SETTINGS;
+};
+
+const ESCALATION_ACTIONS = Object.keys(ESCALATION_ACTION_LABELS) as EscalationAction[];
+
+const sanitizeEscalationRule = (x: unknown): EscalationRule | null => {
+  const r = asRecord(x);
+  if (typeof r.id !== 'string' || !r.id || !oneOf(ESCALATION_ACTIONS, r.action)) return null;
+  const rule: EscalationRule = { id: r.id, name: String(r.name ?? r.id), enabled: r.enabled !== false, action: r.action };
+  if (oneOf(Object.values(TicketStatus), r.status)) rule.status = r.status;
+  if (isNum(r.minAgeMinutes)) rule.minAgeMinutes = Math.max(0, r.minAgeMinutes);
+  if (oneOf(Object.values(Urgency), r.urgency)) rule.urgency = r.urgency;
+  if (typeof r.occupied === 'boolean') rule.occupied = r.occupied;
+  if (typeof r.asset === 'string' && r.asset) rule.asset = r.asset;
+  if (typeof r.roomNumber === 'string' && r.roomNumber) rule.roomNumber = r.roomNumber;
+  if (typeof r.assignTo === 'string' && r.assignTo) rule.assignTo = r.assignTo;
+  if (typeof r.note === 'string' && r.note) rule.note = r.note;
+  return rule;
+};
+
+// Sin lista (estado previo al escalamiento) = las de omisión; una lista vacía es válida (todo desactivado)
+const sanitizeEscalations = (x: unknown): EscalationRule[] =>
+  Array.isArray(x) ? x.map(sanitizeEscalationRule).filter((r): r is EscalationRule => !!r) : DEFAULT_ESCALATION_RULES;
+
+// Peso que falte o no sea válido: el de omisión
+const sanitizePriority = (x: unknown): PriorityWeights => {
+  const p = asRecord(x);
+  const weight = (v: unknown, fallback: number) => (isNum(v) && v >= 0 ? v : fallback);
+  const table = <K extends string>(v: unknown, base: Record<K, number>) =>
+    Object.fromEntries((Object.keys(base) as K[]).map(k => [k, weight(asRecord(v)[k], base[k])])) as Record<K, number>;
+  const d = DEFAULT_PRIORITY_WEIGHTS;
+  return {
+    urgency: table(p.urgency, d.urgency),
+    impact: table(p.impact, d.impact),
+    occupied: weight(p.occupied, d.occupied),
+    agePerDay: weight(p.agePerDay, d.agePerDay),
+    ageMax: weight(p.ageMax, d.ageMax),
+    roomType: table(p.roomType, d.roomType),
+    vip: weight(p.vip, d.vip),
+    perReopening: weight(p.perReopening, d.perReopening),
+    reopeningMax: weight(p.reopeningMax, d.reopeningMax),
+  };
+};
+
+const sanitizeEscalationFiring = (x: unknown): EscalationFiring | null => {
+  const f = asRecord(x);
+  if (typeof f.ruleId !== 'string' || typeof f.ticketId !== 'string' || !oneOf(ESCALATION_ACTIONS, f.action) || !isIso(f.date)) {
+    return null;
+  }
+  return {
+    id: String(f.id ?? ''),
+    ruleId: f.ruleId,
+    ruleName: String(f.ruleName ?? f.ruleId),
+    ticketId: f.ticketId,
+    action: f.action,
+    detail: String(f.detail ?? ''),
+    date: f.date,
+  };
+};
+
+// Fotos y Genesis previos a las fallas generales no traen `incidents` (quedan vacías) ni `rules`/`costs`/`checklists`/`sla`/`escalations`/`priority` (las de omisión)
+const sanitizeState = (x: unknown) => {
+  const st = asRecord(x);
+  const clean = <T>(list: unknown, fn: (r: unknown) => Sanitized<T>) =>
+    (Array.isArray(list) ? list : []).map(r => fn(r).value).filter((v): v is T => v !== undefined);
+  return {
+    tickets: clean(st.tickets, sanitizeTicket),
+    parts: clean(st.parts, sanitizePart),
+    pos: clean(st.pos, sanitizePO),
+    movements: clean(st.movements, sanitizeMovement),
+    incidents: clean(st.incidents, sanitizeIncident),
+    rules: { ...DEFAULT_WORKFLOW_RULES, requireAfterPhoto: asRecord(st.rules).requireAfterPhoto === true },
+    costs: sanitizeCosts(st.costs),
+    checklists: sanitizeChecklists(st.checklists),
+    sla: sanitizeSla(st.sla),
+    escalations: sanitizeEscalations(st.escalations),
+    escalationLog: (Array.isArray(st.escalationLog) ? st.escalationLog : [])
+      .map(sanitizeEscalationFiring)
+      .filter((f): f is EscalationFiring => !!f),
+    priority: sanitizePriority(st.priority),
+  };
+};
+
+// Cambios parciales de un ticket: los mismos validadores que el ticket completo, campo por campo
+const sanitizeTicketChanges = (x: unknown, repairs: string[]): Partial<Ticket> | null => {
+  if (!isObject(x)) return null;
+  const c = { ...x };
+  const list = <T>(key: keyof Ticket, fn: (r: unknown) => T | null, label: string) => {
+    if (c[key] === undefined) return;
+    const items = (Array.isArray(c[key]) ? c[key] : []).map(fn);
+    if (!Array.isArray(c[key]) || items.some(i => !i)) repairs.push(label);
+    c[key] = items.filter((i): i is T => !!i);
+  };
+  list('notes', sanitizeNote, 'notas');
+  list('attachments', sanitizeAttachment, 'adjuntos');
+  list('workSessions', sanitizeWorkSession, 'tiempo de trabajo');
+  list('vendorCharges', sanitizeVendorCharge, 'cargos de proveedor');
+  list('checklist', sanitizeChecklistResponse, 'checklist');
+  if (c.status !== undefined && !oneOf(Object.values(TicketStatus), c.status)) return null;
+  if (c.urgency !== undefined && !oneOf(Object.values(Urgency), c.urgency)) return null;
+  if (c.impact !== undefined && !oneOf(Object.values(Impact), c.impact)) return null;
+  (['partQty', 'reservedQty', 'reopenCount'] as const).forEach(k => {
+    if (c[k] !== undefined && !(isNum(c[k]) && c[k] >= 0)) {
+      delete c[k];
+      repairs.push(k);
+    }
+  });
+  if (c.reporters !== undefined && !isIdList(c.reporters)) {
+    delete c.reporters;
+    repairs.push('reportantes');
+  }
+  return c as Partial<Ticket>;
+};
+
+// Registros completos dentro de un evento (restauraciones, respaldos): uno irrecuperable invalida el evento
+const sanitizeRecords = <T>(list: unknown, fn: (r: unknown) => Sanitized<T>): T[] | null => {
+  if (!Array.isArray(list)) return null;
+  const clean = list.map(r => fn(r).value);
+  return clean.every(v => v !== undefined) ? (clean as T[]) : null;
+};
+
+const sanitizeRestores = <T>(list: unknown, fn: (r: unknown) => Sanitized<T>): { id: string; record?: T }[] | null => {
+  if (!Array.isArray(list)) return null;
+  const clean = list.map(asRecord).map(c => ({ id: c.id, ...(c.record ? { record: fn(c.record).value } : {}) }));
+  return clean.every(c => isId(c.id) && (!('record' in c) || c.record !== undefined)) ? (clean as { id: string; record?: T }[]) : null;
+};
+
+/**
+ * Cuerpo del evento según su tipo: lo que el reductor lee debe estar y tener la forma esperada. Los registros
+ * anidados pasan por los validadores de arriba (se reparan igual). Devuelve el campo irrecuperable, si lo hay.
+ */
+const sanitizeEventBody = (e: Record<string, unknown>, repairs: string[]): string | undefined => {
+  const changes = (key = 'changes') => {
+    const c = sanitizeTicketChanges(e[key], repairs);
+    if (c) e[key] = c;
+    return !!c;
+  };
+  const record = <T>(key: string, fn: (r: unknown) => T | null) => {
+    const r = fn(e[key]);
+    if (r) e[key] = r;
+    return !!r;
+  };
+  const qty = isNum(e.qty) && e.qty > 0;
+
+  switch (e.type as DomainEvent['type']) {
+    case 'Genesis':
+      e.state = sanitizeState(e.state);
+      return undefined;
+    case 'TicketCreated': {
+      const ticket = sanitizeTicket({ ...asRecord(e.ticket), history: [], priorityScore: 0 });
+      if (!ticket.value) return 'ticket';
+      repairs.push(...ticket.repairs);
+      const { history: _h, priorityScore: _p, ...rest } = ticket.value;
+      e.ticket = rest;
+      return undefined;
+    }
+    case 'TicketUpdated':
+    case 'StatusChanged':
+      if (!isId(e.ticketId)) return 'ticketId';
+      if (e.type === 'StatusChanged' && !oneOf(Object.values(TicketStatus), e.to)) return 'to';
+      if (!changes()) return 'changes';
+      if (e.prev !== undefined && !changes('prev')) delete e.prev;
+      return undefined;
+    case 'ConflictResolved':
+      if (!isId(e.ticketId) || !isId(e.conflictId)) return 'conflictId';
+      return changes() ? undefined : 'changes';
+    case 'TicketsMerged':
+      return isId(e.survivorId) && isIdList(e.mergedIds) ? undefined : 'mergedIds';
+    case 'IncidentDeclared': {
+      const incident = sanitizeIncident({ ...asRecord(e.incident), updates: [] });
+      if (!incident.value || !isIdList(e.ticketIds)) return 'incident';
+      const { updates: _u, ...rest } = incident.value;
+      e.incident = rest;
+      return undefined;
+    }
+    case 'IncidentLinked':
+      e.unlink = e.unlink === true;
+      return isId(e.incidentId) && isIdList(e.ticketIds) ? undefined : 'ticketIds';
+    case 'IncidentUpdated':
+      if (e.status !== undefined && !oneOf(Object.values(TicketStatus), e.status)) return 'status';
+      if (typeof e.message !== 'string') e.message = '';
+      return isId(e.incidentId) ? undefined : 'incidentId';
+    case 'AttachmentAdded':
+      return isId(e.ticketId) && record('attachment', sanitizeAttachment) ? undefined : 'attachment';
+    case 'AttachmentRemoved':
+      return isId(e.ticketId) && isId(e.attachmentId) ? undefined : 'attachmentId';
+    case 'RulesChanged':
+      return isObject(e.rules) ? undefined : 'rules';
+    case 'CostSettingsChanged':
+      if (e.laborRate !== undefined && !(isNum(e.laborRate) && e.laborRate >= 0)) return 'laborRate';
+      if (e.technicianRates !== undefined && !isObject(e.technicianRates)) return 'technicianRates';
+      return undefined;
+    case 'PartCostChanged':
+      return isId(e.partId) && isNum(e.unitCost) && e.unitCost >= 0 ? undefined : 'unitCost';
+    case 'SlaPoliciesChanged': {
+      const policies = (Array.isArray(e.policies) ? e.policies : []).map(sanitizeSlaPolicy).filter((p): p is SlaPolicy => !!p);
+      if (policies.length === 0) return 'policies';
+      e.policies = policies;
+      return undefined;
+    }
+    case 'EscalationRulesChanged':
+      if (!Array.isArray(e.rules)) return 'rules';
+      e.rules = sanitizeEscalations(e.rules);
+      return undefined;
+    case 'PriorityWeightsChanged':
+      if (!isObject(e.weights)) return 'weights';
+      e.weights = sanitizePriority(e.weights);
+      return undefined;
+    case 'EscalationFired':
+      if (!isId(e.ruleId) || !isId(e.ticketId) || !oneOf(ESCALATION_ACTIONS, e.escalation)) return 'ruleId';
+      if (e.note !== undefined && typeof e.note !== 'string') delete e.note;
+      e.ruleName = String(e.ruleName ?? e.ruleId);
+      e.detail = String(e.detail ?? '');
+      return changes() ? undefined : 'changes';
+    case 'ChecklistTemplateSaved':
+      return record('template', sanitizeChecklistTemplate) ? undefined : 'template';
+    case 'ChecklistTemplateRemoved':
+      return isId(e.templateId) ? undefined : 'templateId';
+    case 'ChecklistMarked':
+      if (!isId(e.ticketId) || !isId(e.itemId) || typeof e.checked !== 'boolean') return 'itemId';
+      e.label = String(e.label ?? e.itemId);
+      return undefined;
+    case 'VendorChargeAdded':
+      return isId(e.ticketId) && record('charge', sanitizeVendorCharge) ? undefined : 'charge';
+    case 'VendorChargeRemoved':
+      return isId(e.ticketId) && isId(e.chargeId) ? undefined : 'chargeId';
+    case 'WorkStarted':
+      return isId(e.ticketId) && record('session', sanitizeWorkSession) ? undefined : 'session';
+    case 'WorkEnded':
+      e.stopped = e.stopped === true;
+      return isId(e.ticketId) && isId(e.sessionId) && isIso(e.end) ? undefined : 'end';
+    case 'PartReserved':
+    case 'PartIssued':
+      return isId(e.ticketId) && isId(e.partId) && qty ? undefined : 'qty';
+    case 'ReservationReleased':
+      e.swap = e.swap === true;
+      return isId(e.ticketId) && isId(e.partId) && qty ? undefined : 'qty';
+    case 'PartConsumed':
+      if (e.ticketId !== undefined && !isId(e.ticketId)) delete e.ticketId;
+      return isId(e.partId) && qty ? undefined : 'qty';
+    case 'StockAdjusted':
+      return isId(e.partId) && isNum(e.delta) ? undefined : 'delta';
+    case 'POCreated': {
+      const po = sanitizePO(e.po);
+      if (!po.value) return 'po';
+      e.po = po.value;
+      if (e.ticketId !== undefined && !isId(e.ticketId)) delete e.ticketId;
+      return undefined;
+    }
+    case 'POSent':
+    case 'POReceived':
+    case 'POCanceled':
+      return isId(e.poId) ? undefined : 'poId';
+    case 'RecordsRestored': {
+      const tickets = sanitizeRestores(e.tickets, sanitizeTicket);
+      const parts = sanitizeRestores(e.parts, sanitizePart);
+      const pos = sanitizeRestores(e.pos, sanitizePO);
+      const incidents = e.incidents === undefined ? undefined : sanitizeRestores(e.incidents, sanitizeIncident);
+      if (!tickets || !parts || !pos || incidents === null) return 'registros';
+      Object.assign(e, { tickets, parts, pos }, incidents ? { incidents } : {});
+      return undefined;
+    }
+    case 'InventoryReconciled': {
+      const releases = Array.isArray(e.releases) ? e.releases.map(asRecord) : null;
+      const parts = Array.isArray(e.parts) ? e.parts.map(asRecord) : null;
+      if (!releases || !releases.every(r => isId(r.ticketId) && isId(r.partId) && isNum(r.qty))) return 'releases';
+      if (!parts || !parts.every(p => isId(p.partId) && isNum(p.stockReserved) && isNum(p.onHandDelta) && isNum(p.reservedDelta))) {
+        return 'parts';
+      }
+      return undefined;
+    }
+    case 'BackupRestored': {
+      if (!oneOf(['replace', 'merge'], e.mode)) return 'mode';
+      if (e.state !== undefined) e.state = sanitizeState(e.state);
+      const tickets = sanitizeRecords(e.tickets, sanitizeTicket);
+      const parts = sanitizeRecords(e.parts, sanitizePart);
+      const pos = sanitizeRecords(e.pos, sanitizePO);
+      const movements = sanitizeRecords(e.movements, sanitizeMovement);
+      const incidents = e.incidents === undefined ? undefined : sanitizeRecords(e.incidents, sanitizeIncident);
+      if (!tickets || !parts || !pos || !movements || incidents === null) return 'registros';
+      Object.assign(e, { tickets, parts, pos, movements }, incidents ? { incidents } : {});
+      return undefined;
+    }
+  }
+};
+
+// Eventos: la envoltura y el cuerpo según el tipo; el estado de Genesis se depura con los validadores de arriba
+export const sanitizeEvent = (x: unknown): Sanitized<DomainEvent> => {
+  const e = asRecord(x);
+  const repairs: string[] = [];
+  if (typeof e.id !== 'string' || !e.id) return { repairs, error: 'Evento sin id' };
+  if (!oneOf(EVENT_TYPES, e.type)) return { repairs, error: `Tipo de evento desconocido: ${e.type}` };
+  if (!isIso(e.date)) return { repairs, error: 'Evento sin fecha' };
+
+  // Notas de texto: evento de una pestaña con la versión anterior (igual que la migración 6)
+  const value = { ...asRecord(upgradeEventNotes(e)), user: String(e.user ?? '—'), origin: String(e.origin ?? '?') };
+  const missing = sanitizeEventBody(value, repairs);
+  if (missing) return { repairs, error: `Evento ${e.type} ${e.id} incompleto: ${missing}` };
+  return { value: value as DomainEvent, repairs };
+};
+
+export const sanitizeSnapshot = (x: unknown): Sanitized<StateSnapshot> => {
+  const sn = asRecord(x);
+  if (typeof sn.id !== 'string' || typeof sn.upTo !== 'string' || !isNum(sn.count) || !isIso(sn.date)) {
+    return { repairs: [], error: 'Foto de estado incompleta' };
+  }
+  return { value: { id: sn.id, upTo: sn.upTo, count: sn.count, date: sn.date, state: sanitizeState(sn.state) }, repairs: [] };
+};
+
+const SANITIZERS: Record<Collection, (x: unknown) => Sanitized<unknown>> = {
+  tickets: sanitizeTicket,
+  parts: sanitizePart,
+  pos: sanitizePO,
+  movements: sanitizeMovement,
+  incidents: sanitizeIncident,
+  events: sanitizeEvent,
+  snapshots: sanitizeSnapshot,
+};
+
+// Registros recibidos de otra pestaña: lo inválido se ignora (la pestaña de origen ya lo reportó)
+export const sanitizeCollection = (collection: Collection, records: unknown[]): unknown[] =>
+  records.map(r => SANITIZERS[collection](r).value).filter(v => v !== undefined);
+
+// =========================
+// Carga / guardado
+// =========================
+
+const readJSON = (key: string): { ok: boolean; value?: unknown; raw: string } | null => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return null;
+  try {
+    return { ok: true, value: JSON.parse(raw), raw };
+  } catch {
+    return { ok: false, raw };
+  }
+};
+
+const readMeta = async (adapter: StorageAdapter): Promise<StoredMeta | null> => {
+  const m = asRecord(await adapter.loadMeta());
+  return isNum(m.schemaVersion) ? { schemaVersion: m.schemaVersion, updatedAt: String(m.updatedAt || '') } : null;
+};
+
+export const stampSchemaVersion = (adapter: StorageAdapter) => {
+  const meta: StoredMeta = { schemaVersion: SCHEMA_VERSION, updatedAt: new Date().toISOString() };
+  return adapter.saveMeta(meta);
+};
+
+const appendRecovery = (entries: { collection: string; reason: string; record: unknown }[]) => {
+  if (entries.length === 0) return;
+  const prev = readJSON(RECOVERY_KEY);
+  const list = prev && prev.ok && Array.isArray(prev.value) ? prev.value : [];
+  const date = new Date().toISOString();
+  localStorage.setItem(RECOVERY_KEY, JSON.stringify([...list, ...entries.map(e => ({ ...e, date }))]));
+};
+
+// Migraciones pendientes + validación por registro (ids duplicados incluidos)
+const normalizePayload = (raw: RawPayload, fromVersion: number, ctx: MigrationContext) => {
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion && m.version <= SCHEMA_VERSION);
+  const migrated = pending.reduce((acc, m) => m.up(acc, ctx), raw);
+
+  const data = {} as PersistedData;
+  COLLECTIONS.forEach(c => {
+    const seen = new Set<string>();
+    const out: unknown[] = [];
+    migrated[c].forEach((record, idx) => {
+      const res = SANITIZERS[c](record);
+      const id = String(asRecord(record).id ?? `#${idx}`);
+      if (!res.value) {
+        ctx.backup(c, record, res.error || 'inválido');
+        ctx.issue({ collection: c, severity: 'discarded', recordId: id, message: res.error || 'Registro inválido' });
+        return;
+      }
+      if (seen.has(id)) {
+        ctx.backup(c, record, 'id duplicado');
+        ctx.issue({ collection: c, severity: 'discarded', recordId: id, message: 'Id duplicado' });
+        return;
+      }
+      seen.add(id);
+      if (res.repairs.length) {
+        ctx.issue({ collection: c, severity: 'repaired', recordId: id, message: `Reparado: ${res.repairs.join(', ')}` });
+      }
+      out.push(res.value);
+    });
+    (data as unknown as Record<Collection, unknown[]>)[c] = out;
+  });
+
+  return { data, migrationsApplied: pending.map(m => `v${m.version}: ${m.description}`) };
+};
+
+/**
+ * Lee todas las colecciones, aplica migraciones pendientes y valida cada registro.
+ * Nada se descarta en silencio: lo irrecuperable se copia a RECOVERY_KEY y se lista en el reporte.
+ * `fallback` se usa solo para colecciones que nunca se guardaron (primer uso).
+ */
+export const loadPersistedData = async (
+  adapter: StorageAdapter,
+  fallback: PersistedData
+): Promise<{ data: PersistedData; report: RecoveryReport }> => {
+  const meta = await readMeta(adapter);
+  const issues: RecoveryIssue[] = [];
+  const backups: { collection: string; reason: string; record: unknown }[] = [];
+
+  const raw = {} as RawPayload;
+  let anyStored = false;
+  const stored = await Promise.all(COLLECTIONS.map(c => adapter.load(c)));
+  COLLECTIONS.forEach((c, idx) => {
+    const r = stored[idx];
+    if (!r) {
+      raw[c] = fallback[c];
+      return;
+    }
+    anyStored = true;
+    if (!r.ok) {
+      backups.push({ collection: c, reason: 'JSON ilegible', record: r.raw });
+      issues.push({ collection: c, severity: 'unreadable', message: 'Datos ilegibles; se respaldaron y se usaron los iniciales.' });
+      raw[c] = fallback[c];
+      return;
+    }
+    if (!Array.isArray(r.value)) {
+      backups.push({ collection: c, reason: 'Formato inesperado', record: r.value });
+      issues.push({ collection: c, severity: 'unreadable', message: 'Formato inesperado; se respaldó y se usaron los iniciales.' });
+      raw[c] = fallback[c];
+      return;
+    }
+    raw[c] = r.value;
+  });
+
+  // Sin meta pero con datos = almacenamiento previo al versionado (v0). Primer uso = versión actual.
+  const fromVersion = meta?.schemaVersion ?? (anyStored ? 0 : SCHEMA_VERSION);
+  if (fromVersion > SCHEMA_VERSION) {
+    issues.push({
+      collection: 'legacy',
+      severity: 'repaired',
+      message: `Datos guardados con una versión más nueva (v${fromVersion}); se cargan sin migrar.`,
+    });
+  }
+
+  const ctx: MigrationContext = {
+    readLegacy: key => {
+      const r = readJSON(key);
+      return r && r.ok ? r.value : undefined;
+    },
+    removeLegacy: key => localStorage.removeItem(key),
+    backup: (collection, record, reason) => backups.push({ collection, reason, record }),
+    issue: i => issues.push(i),
+  };
+
+  const { data, migrationsApplied } = normalizePayload(raw, fromVersion, ctx);
+
+  appendRecovery(backups);
+
+  return {
+    data,
+    report: {
+      fromVersion,
+      toVersion: Math.max(fromVersion, SCHEMA_VERSION),
+      migrationsApplied,
+      issues,
+      backupKey: backups.length ? RECOVERY_KEY : undefined,
+    },
+  };
+};
+
+/**
+ * Migra y valida un payload ya leído que no viene del almacenamiento (ej. archivo de respaldo).
+ * No toca claves heredadas ni el respaldo de recuperación: lo descartado solo se reporta.
+ */
+export const normalizeImportedPayload = (raw: Partial<Record<Collection, unknown[]>>, fromVersion: number) => {
+  const issues: RecoveryIssue[] = [];
+  const full = {} as RawPayload;
+  COLLECTIONS.forEach(c => {
+    full[c] = Array.isArray(raw[c]) ? raw[c]! : [];
+  });
+  const { data, migrationsApplied } = normalizePayload(full, fromVersion, {
+    readLegacy: () => undefined,
+    removeLegacy: () => undefined,
+    backup: () => undefined,
+    issue: i => issues.push(i),
+  });
+  return { data, issues, migrationsApplied };
+};
+
+export const savePersistedCollection = <C extends Collection>(
+  adapter: StorageAdapter,
+  collection: C,
+  records: PersistedData[C]
+) => adapter.save(collection, records);
+
+export const clearPersistedData = (adapter: StorageAdapter) => adapter.clear();
+
+export const readRecoveryBackup = (): unknown[] => {
+  const r = readJSON(RECOVERY_KEY);
+  return r && r.ok && Array.isArray(r.value) ? r.value : [];
+};
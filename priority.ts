@@ -0,0 +1,77 @@
+// src/priority.ts
+
+import { Impact, Room, Ticket, TicketStatus, Urgency } from './types';
+import { roomTypeOf } from './sla';
+
+// =========================
+// Prioridad (puntaje de la cola)
+// =========================
+// Suma de factores con pesos que ajusta Gerencia. Cada factor queda como renglón del desglose para que
+// en el ticket se vea por qué tiene su puntaje. Un peso en 0 = el factor no cuenta.
+
+export interface PriorityWeights {
+  urgency: Record<Urgency, number>;
+  impact: Record<Impact, number>;
+  occupied: number; // habitación ocupada
+  agePerDay: number; // por día abierto…
+  ageMax: number; // …hasta este tope
+  roomType: Record<Room['type'], number>;
+  vip: number; // huésped VIP
+  perReopening: number; // recurrencia: por cada reapertura…
+  reopeningMax: number; // …hasta este tope
+}
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  urgency: { [Urgency.HIGH]: 50, [Urgency.MEDIUM]: 30, [Urgency.LOW]: 10 },
+  impact: { [Impact.BLOCKING]: 40, [Impact.ANNOYING]: 20, [Impact.NONE]: 0 },
+  occupied: 30,
+  agePerDay: 5,
+  ageMax: 30,
+  roomType: { Suite: 0, Deluxe: 0, Standard: 0 },
+  vip: 20,
+  perReopening: 0,
+  reopeningMax: 0,
+};
+
+export interface PriorityFactor {
+  label: string;
+  points: number;
+}
+
+const DAY_MS = 1000 * 3600 * 24;
+
+/** Renglones del puntaje (solo los que suman). Los tickets resueltos o verificados no compiten en la cola. */
+export const priorityBreakdown = (t: Ticket, w: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS, now = new Date()): PriorityFactor[] => {
+  if (t.status === TicketStatus.RESOLVED || t.status === TicketStatus.VERIFIED) return [];
+  const daysOpen = Math.max(0, (now.getTime() - new Date(t.createdAt).getTime()) / DAY_MS);
+  const roomType = roomTypeOf(t.roomNumber);
+  const reopenings = t.reopenCount ?? 0;
+  const factors: PriorityFactor[] = [
+    { label: `Urgencia ${t.urgency}`, points: w.urgency[t.urgency] ?? 0 },
+    { label: `Impacto: ${t.impact}`, points: w.impact[t.impact] ?? 0 },
+    { label: 'Habitación ocupada', points: t.isOccupied ? w.occupied : 0 },
+    { label: `Antigüedad (${daysOpen.toFixed(1)} días)`, points: Math.min(daysOpen * w.agePerDay, w.ageMax) },
+    { label: `Habitación ${roomType ?? ''}`.trim(), points: roomType ? w.roomType[roomType] : 0 },
+    { label: 'Huésped VIP', points: t.guestVip ? w.vip : 0 },
+    { label: `Recurrencia (${reopenings} reapertura(s))`, points: Math.min(reopenings * w.perReopening, w.reopeningMax) },
+  ];
+  return factors.filter(f => f.points !== 0);
+};
+
+export const scorePriority = (t: Ticket, w: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS, now = new Date()) =>
+  Math.round(priorityBreakdown(t, w, now).reduce((sum, f) => sum + f.points, 0));
+
+/** Cola reordenada con otros pesos: lugar y puntaje antes y después (vista previa antes de guardar). */
+export const rerank = (tickets: Ticket[], current: PriorityWeights, next: PriorityWeights, now = new Date()) => {
+  const open = tickets.filter(t => t.status !== TicketStatus.RESOLVED && t.status !== TicketStatus.VERIFIED);
+  const rank = (w: PriorityWeights) =>
+    open
+      .map(t => ({ t, score: scorePriority(t, w, now) }))
+      .sort((a, b) => b.score - a.score)
+      .map((x, index) => ({ ...x, index }));
+  const before = new Map(rank(current).map(x => [x.t.id, x]));
+  return rank(next).map(x => {
+    const prev = before.get(x.t.id)!;
+    return { ticket: x.t, score: x.score, rank: x.index + 1, prevScore: prev.score, prevRank: prev.index + 1 };
+  });
+};
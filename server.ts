@@ -0,0 +1,496 @@
+// src/server.ts
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { NoteKind, Role, Ticket, TicketStatus } from './types';
+import { applyEvent, compareEvents, DomainEvent, DomainState, eventId, newOrigin, replay, sortEvents } from './events';
+import { sanitizeEvent } from './persistence';
+import { uniqueId } from './utils';
+import * as domain from './domain';
+import { ticketCost } from './costs';
+import { checklistFor } from './workflow';
+import { priorityBreakdown } from './priority';
+import { CommandContext, CommandResult, createInitialLog, execute, PendingEvent } from './domain';
+
+// =========================
+// Servidor REST local (DEMO)
+// =========================
+// Comparte los datos entre dispositivos de la red del hotel. Guarda el registro de eventos en un
+// archivo JSON y aplica las MISMAS reglas que la app (domain.ts): los comandos REST pasan por los
+// mismos comandos y las mismas validaciones de permisos.
+//
+//   npm run server                     → http://localhost:8787
+//   PORT=9000 METODIKO_DATA=./datos.json npm run server
+//
+// Quién ejecuta: cabecera `X-Metodiko-Role` con el nombre del rol (ej. "Mantenimiento"; los acentos van
+// con encodeURIComponent: "Recepci%C3%B3n").
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.METODIKO_DATA || './metodiko-data.json';
+
+// =========================
+// Registro en archivo
+// =========================
+
+const loadLog = (): DomainEvent[] => {
+  if (!existsSync(DATA_FILE)) return createInitialLog('Datos iniciales DEMO (servidor)').events;
+  const raw = JSON.parse(readFileSync(DATA_FILE, 'utf8')) as { events?: unknown[] };
+  const events = (raw.events ?? []).map(sanitizeEvent).flatMap(r => (r.value ? [r.value] : []));
+  return events.length ? sortEvents(events) : createInitialLog('Datos iniciales DEMO (servidor)').events;
+};
+
+// Escritura atómica: si el proceso muere a la mitad, el archivo anterior queda intacto
+const saveLog = (events: DomainEvent[]) => {
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify({ savedAt: new Date().toISOString(), events }));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+let log = loadLog();
+let state: DomainState = replay(log);
+const origin = `srv${newOrigin()}`;
+let seq = 0;
+
+// Firma del registro: los clientes la mandan para saber si hay algo nuevo sin descargar todo
+const logVersion = () => `${log.length}:${log[log.length - 1]?.id ?? ''}`;
+
+// Registro y estado nuevos se arman aparte (lo nuevo aplicado sobre lo vigente; el registro completo solo si
+// hace falta) y solo si todo aplica se sustituye lo vigente: un evento que no aplica no deja el registro
+// envenenado (en memoria ni en archivo)
+const commit = (build: () => { events: DomainEvent[]; state: DomainState }) => {
+  let next: { events: DomainEvent[]; state: DomainState };
+  try {
+    next = build();
+  } catch (err) {
+    throw new HttpError(422, `Evento inválido: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  log = next.events;
+  state = next.state;
+  saveLog(log);
+};
+
+/**
+ * Une eventos que llegan de un cliente (la app) con los del servidor: unión por id y orden cronológico.
+ * Cada evento nuevo se revisa con las reglas del dominio, y con el rol de la cabecera, sobre lo ya aceptado
+ * (domain.checkEvent); los que no pasan se devuelven como rechazados. Un Genesis más reciente que el vigente es un reinicio: solo Gerencia
+ * lo manda, y lo anterior a él se descarta.
+ */
+const mergeClientEvents = (incoming: DomainEvent[], role: Role) => {
+  const known = new Set(log.map(e => e.id));
+  const rejected: { id: string; reason: string }[] = [];
+  let probe = state;
+  const fresh = sortEvents(incoming.filter((e, i) => !known.has(e.id) && incoming.findIndex(x => x.id === e.id) === i)).filter(e => {
+    let problem =
+      e.type === 'Genesis' ? (role === Role.MANAGEMENT ? undefined : 'Solo Gerencia reinicia los datos compartidos.') : domain.checkEvent(probe, e, role);
+    if (!problem) {
+      try {
+        probe = applyEvent(probe, e);
+      } catch (err) {
+        problem = `no aplica (${err instanceof Error ? err.message : String(err)})`;
+      }
+    }
+    if (problem) rejected.push({ id: e.id, reason: problem });
+    return !problem;
+  });
+  if (fresh.length === 0) return { added: 0, rejected };
+  const merged = sortEvents([...log, ...fresh]);
+  const genesis = merged.map(e => e.type).lastIndexOf('Genesis');
+  // Lo normal: todo va después de lo vigente y `probe` ya es el estado nuevo; si se intercala o reinicia, se reproduce
+  const last = log[log.length - 1];
+  const appendOnly = genesis <= 0 && (!last || compareEvents(fresh[0], last) > 0);
+  commit(() => {
+    if (appendOnly) return { events: merged, state: probe };
+    const events = genesis > 0 ? merged.slice(genesis) : merged;
+    return { events, state: replay(events) };
+  });
+  return { added: fresh.length, rejected };
+};
+
+// =========================
+// HTTP
+// =========================
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const send = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Metodiko-Role',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<Record<string, unknown>>((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+      if (raw.length > 5_000_000) reject(new HttpError(413, 'Cuerpo demasiado grande'));
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new HttpError(400, 'JSON inválido'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const ROLES = Object.values(Role) as string[];
+
+const roleOf = (req: IncomingMessage): Role => {
+  const header = decodeURIComponent(String(req.headers['x-metodiko-role'] ?? ''));
+  if (!ROLES.includes(header)) throw new HttpError(401, `Cabecera X-Metodiko-Role inválida (roles: ${ROLES.join(', ')})`);
+  return header as Role;
+};
+
+const append = (pending: PendingEvent[], user: Role) => {
+  if (pending.length === 0) return [];
+  let added: DomainEvent[] = [];
+  commit(() => {
+    const { state: next, events } = execute(state, pending, {
+      user,
+      date: new Date().toISOString(),
+      origin,
+      nextEventId: () => eventId(origin, ++seq),
+    });
+    added = events;
+    return { events: [...log, ...events], state: next };
+  });
+  return added;
+};
+
+// Escalamiento automático, como en la app: tras cada cambio y cada minuto (aunque no haya clientes abiertos)
+const escalate = () => {
+  const { events } = domain.runEscalations(state, { user: Role.MANAGEMENT, now: new Date(), newId: uniqueId });
+  append(events, Role.MANAGEMENT);
+};
+
+// Igual que `run` en AppProvider: el comando decide, execute sella y aplica
+const run = <X,>(req: IncomingMessage, cmd: (s: DomainState, ctx: CommandContext) => CommandResult<X>) => {
+  const user = roleOf(req);
+  const { events: pending, ...result } = cmd(state, { user, now: new Date(), newId: uniqueId });
+  if (!result.ok) return { status: 422, body: result };
+  const events = append(pending, user);
+  if (events.length) escalate();
+  return { status: 200, body: { ...result, events } };
+};
+
+const findOr404 = <T extends { id: string }>(records: T[], id: string, label: string) => {
+  const found = records.find(r => r.id === id);
+  if (!found) throw new HttpError(404, `${label} ${id} no existe`);
+  return found;
+};
+
+// Cuerpo con forma inválida: 400 con el mismo mensaje que daría el comando
+const valid = <T,>(body: unknown, invalid: (x: T) => string | undefined): T => {
+  const problem = invalid(body as T);
+  if (problem) throw new HttpError(400, problem);
+  return body as T;
+};
+
+type Route = (req: IncomingMessage, params: string[], body: Record<string, unknown>) => { status: number; body?: unknown };
+
+const ok = (body: unknown) => ({ status: 200, body });
+
+const ROUTES: [string, RegExp, Route][] = [
+  ['GET', /^\/api\/health$/, () => ok({ ok: true, version: logVersion(), events: log.length })],
+
+  // Lectura (vista materializada del registro)
+  ['GET', /^\/api\/tickets$/, () => ok(state.tickets)],
+  ['GET', /^\/api\/tickets\/([^/]+)$/, (_r, [id]) => ok(findOr404(state.tickets, id, 'Ticket'))],
+  ['GET', /^\/api\/tickets\/([^/]+)\/cost$/, (_r, [id]) => ok(ticketCost(findOr404(state.tickets, id, 'Ticket'), state))],
+  ['GET', /^\/api\/parts$/, () => ok(state.parts)],
+  ['GET', /^\/api\/parts\/([^/]+)$/, (_r, [id]) => ok(findOr404(state.parts, id, 'Refacción'))],
+  ['GET', /^\/api\/pos$/, () => ok(state.pos)],
+  ['GET', /^\/api\/pos\/([^/]+)$/, (_r, [id]) => ok(findOr404(state.pos, id, 'OC'))],
+  ['GET', /^\/api\/movements$/, () => ok(state.movements)],
+  ['GET', /^\/api\/incidents$/, () => ok(state.incidents)],
+  ['GET', /^\/api\/incidents\/([^/]+)$/, (_r, [id]) => ok(findOr404(state.incidents, id, 'Falla general'))],
+  ['GET', /^\/api\/rules$/, () => ok(state.rules)],
+  ['GET', /^\/api\/costs$/, () => ok(state.costs)],
+  ['GET', /^\/api\/checklists$/, () => ok(state.checklists)],
+  ['GET', /^\/api\/sla$/, () => ok(state.sla)],
+  ['GET', /^\/api\/priority$/, () => ok(state.priority)],
+  [
+    'GET',
+    /^\/api\/tickets\/([^/]+)\/priority$/,
+    (_r, [id]) => {
+      const t = findOr404(state.tickets, id, 'Ticket');
+      return ok({ score: t.priorityScore, factors: priorityBreakdown(t, state.priority) });
+    },
+  ],
+  ['GET', /^\/api\/escalations$/, () => ok({ rules: state.escalations, log: state.escalationLog })],
+  [
+    'GET',
+    /^\/api\/tickets\/([^/]+)\/checklist$/,
+    (_r, [id]) => {
+      const t = findOr404(state.tickets, id, 'Ticket');
+      return ok({ template: checklistFor(state.checklists, t), responses: t.checklist ?? [] });
+    },
+  ],
+
+  // Tickets
+  [
+    'POST',
+    /^\/api\/tickets$/,
+    (req, _p, { allowDuplicate, ...data }) =>
+      run(req, (s, ctx) => domain.createTicket(s, ctx, valid(data, domain.invalidReport), { allowDuplicate: !!allowDuplicate })),
+  ],
+  [
+    'PATCH',
+    /^\/api\/tickets\/([^/]+)$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) =>
+        domain.updateTicket(s, ctx, id, (body.updates ?? {}) as Partial<Ticket>, String(body.action ?? 'Actualización vía API'))
+      ),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/status$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) =>
+        domain.changeStatus(s, ctx, id, body.to as TicketStatus, {
+          changes: body.changes as Partial<Ticket> | undefined,
+          checklist: body.checklist as Record<string, boolean> | undefined,
+          reason: body.reason as string | undefined,
+          action: body.action as string | undefined,
+        })
+      ),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/report$/,
+    (req, [id], body) => run(req, (s, ctx) => domain.addReport(s, ctx, id, String(body.description ?? ''))),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/notes$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) =>
+        domain.addNote(s, ctx, id, {
+          text: String(body.text ?? ''),
+          kind: body.kind as NoteKind,
+          visibleToReception: !!body.visibleToReception,
+          replyTo: body.replyTo as string | undefined,
+        })
+      ),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/attachments$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) => domain.addAttachments(s, ctx, id, Array.isArray(body.attachments) ? (body.attachments as never[]) : [])),
+  ],
+  [
+    'DELETE',
+    /^\/api\/tickets\/([^/]+)\/attachments\/([^/]+)$/,
+    (req, [id, attachmentId]) => run(req, (s, ctx) => domain.removeAttachment(s, ctx, id, attachmentId)),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/work\/(start|pause|stop)$/,
+    (req, [id, action], body) =>
+      run(req, (s, ctx) => {
+        const technician = String(body.technician ?? '');
+        if (action === 'start') return domain.startWork(s, ctx, id, technician);
+        return action === 'pause' ? domain.pauseWork(s, ctx, id, technician) : domain.stopWork(s, ctx, id, technician);
+      }),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/checklist$/,
+    (req, [id], body) => run(req, (s, ctx) => domain.markChecklistItem(s, ctx, id, String(body.itemId ?? ''), body.checked !== false)),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/charges$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) =>
+        domain.addVendorCharge(s, ctx, id, {
+          vendor: String(body.vendor ?? ''),
+          amount: Number(body.amount),
+          invoice: body.invoice as string | undefined,
+        })
+      ),
+  ],
+  [
+    'DELETE',
+    /^\/api\/tickets\/([^/]+)\/charges\/([^/]+)$/,
+    (req, [id, chargeId]) => run(req, (s, ctx) => domain.removeVendorCharge(s, ctx, id, chargeId)),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/merge$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) => domain.mergeTickets(s, ctx, id, Array.isArray(body.ticketIds) ? body.ticketIds.map(String) : [])),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/reserve$/,
+    (req, [id], body) => run(req, (s, ctx) => domain.reservePartForTicket(s, ctx, id, String(body.partId), Number(body.qty))),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/release$/,
+    (req, [id], body) => run(req, (s, ctx) => domain.releaseReservationForTicket(s, ctx, id, body.note as string | undefined)),
+  ],
+  [
+    'POST',
+    /^\/api\/tickets\/([^/]+)\/issue$/,
+    (req, [id], body) => run(req, (s, ctx) => domain.issueReservedPartForTicket(s, ctx, id, body.note as string | undefined)),
+  ],
+
+  // Fallas generales
+  [
+    'POST',
+    /^\/api\/incidents$/,
+    (req, _p, body) =>
+      run(req, (s, ctx) =>
+        domain.declareIncident(s, ctx, {
+          title: String(body.title ?? ''),
+          asset: String(body.asset ?? 'Otros'),
+          description: String(body.description ?? ''),
+          ticketIds: Array.isArray(body.ticketIds) ? body.ticketIds.map(String) : [],
+        })
+      ),
+  ],
+  [
+    'POST',
+    /^\/api\/incidents\/([^/]+)\/tickets$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) => domain.linkToIncident(s, ctx, id, Array.isArray(body.ticketIds) ? body.ticketIds.map(String) : [])),
+  ],
+  [
+    'POST',
+    /^\/api\/incidents\/([^/]+)\/updates$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) =>
+        domain.updateIncident(s, ctx, id, {
+          status: body.status as TicketStatus | undefined,
+          message: body.message as string | undefined,
+          checklist: body.checklist as Record<string, boolean> | undefined,
+          vendorType: body.vendorType as string | undefined,
+        })
+      ),
+  ],
+  ['POST', /^\/api\/incidents\/([^/]+)\/notify$/, (req, [id]) => run(req, (s, ctx) => domain.notifyIncidentGuests(s, ctx, id))],
+  ['POST', /^\/api\/tickets\/([^/]+)\/unlink$/, (req, [id]) => run(req, (s, ctx) => domain.unlinkFromIncident(s, ctx, id))],
+
+  // Inventario
+  [
+    'POST',
+    /^\/api\/parts\/([^/]+)\/consume$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) =>
+        domain.consumePart(s, ctx, {
+          partId: id,
+          qty: Number(body.qty),
+          ticketId: body.ticketId as string | undefined,
+          note: body.note as string | undefined,
+        })
+      ),
+  ],
+  [
+    'POST',
+    /^\/api\/parts\/([^/]+)\/adjust$/,
+    (req, [id], body) =>
+      run(req, (s, ctx) => domain.adjustStock(s, ctx, { partId: id, delta: Number(body.delta), note: body.note as string | undefined })),
+  ],
+  ['POST', /^\/api\/parts\/([^/]+)\/cost$/, (req, [id], body) => run(req, (s, ctx) => domain.setPartUnitCost(s, ctx, id, Number(body.unitCost)))],
+
+  // Reglas del flujo, listas de verificación, SLA y tarifas (solo Gerencia)
+  [
+    'POST',
+    /^\/api\/rules$/,
+    (req, _p, body) => run(req, (s, ctx) => domain.setWorkflowRules(s, ctx, valid(body, domain.invalidWorkflowRules))),
+  ],
+  [
+    'POST',
+    /^\/api\/checklists$/,
+    (req, _p, body) => run(req, (s, ctx) => domain.saveChecklistTemplate(s, ctx, valid(body, domain.invalidChecklistTemplate))),
+  ],
+  ['DELETE', /^\/api\/checklists\/([^/]+)$/, (req, [id]) => run(req, (s, ctx) => domain.removeChecklistTemplate(s, ctx, id))],
+  [
+    'POST',
+    /^\/api\/sla$/,
+    (req, _p, body) => run(req, (s, ctx) => domain.setSlaPolicies(s, ctx, Array.isArray(body.policies) ? (body.policies as never[]) : [])),
+  ],
+  [
+    'POST',
+    /^\/api\/escalations$/,
+    (req, _p, body) => run(req, (s, ctx) => domain.setEscalationRules(s, ctx, valid(body.rules, domain.invalidEscalationRules))),
+  ],
+  ['POST', /^\/api\/priority$/, (req, _p, body) => run(req, (s, ctx) => domain.setPriorityWeights(s, ctx, body as never))],
+  ['POST', /^\/api\/costs$/, (req, _p, body) => run(req, (s, ctx) => domain.setCostSettings(s, ctx, body as never))],
+
+  // Órdenes de compra
+  ['POST', /^\/api\/pos$/, (req, _p, body) => run(req, (s, ctx) => domain.createPO(s, ctx, valid(body, domain.invalidPOParams)))],
+  ['POST', /^\/api\/pos\/([^/]+)\/send$/, (req, [id]) => run(req, (s, ctx) => domain.sendPO(s, ctx, id))],
+  ['POST', /^\/api\/pos\/([^/]+)\/receive$/, (req, [id]) => run(req, (s, ctx) => domain.receivePO(s, ctx, id))],
+  ['POST', /^\/api\/pos\/([^/]+)\/cancel$/, (req, [id]) => run(req, (s, ctx) => domain.cancelPO(s, ctx, id))],
+
+  // Sincronización de la app: registro completo (o nada si `version` no cambió)
+  [
+    'GET',
+    /^\/api\/events$/,
+    req => {
+      const known = new URL(req.url ?? '', 'http://x').searchParams.get('version');
+      return known === logVersion() ? { status: 204 } : ok({ version: logVersion(), events: log });
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/events$/,
+    (req, _p, body) => {
+      const role = roleOf(req);
+      const raw: unknown[] = Array.isArray(body.events) ? body.events : [];
+      const incoming = raw.map(sanitizeEvent);
+      const merged = mergeClientEvents(incoming.flatMap(r => (r.value ? [r.value] : [])), role);
+      // Cada rechazo lleva el id del evento, para que el cliente lo saque de su bandeja
+      const unreadable = incoming.flatMap((r, i) =>
+        r.value ? [] : [{ id: String((raw[i] as { id?: unknown } | null)?.id ?? ''), reason: r.error ?? 'Evento inválido' }]
+      );
+      const rejected = [...unreadable, ...merged.rejected];
+      return ok({ version: logVersion(), added: merged.added, rejected, ids: log.map(e => e.id) });
+    },
+  ],
+];
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const path = new URL(req.url ?? '', 'http://x').pathname;
+  const route = ROUTES.find(([method, pattern]) => method === req.method && pattern.test(path));
+  if (!route) return send(res, 404, { ok: false, message: `Ruta no encontrada: ${req.method} ${path}` });
+  try {
+    const params = (path.match(route[1]) ?? []).slice(1).map(decodeURIComponent);
+    const body = req.method === 'GET' ? {} : await readBody(req);
+    const out = route[2](req, params, body);
+    send(res, out.status, out.body);
+  } catch (err) {
+    if (err instanceof HttpError) return send(res, err.status, { ok: false, message: err.message });
+    console.error('[server]', err);
+    send(res, 500, { ok: false, message: 'Error interno' });
+  }
+};
+
+setInterval(() => {
+  try {
+    escalate();
+  } catch (err) {
+    console.error('[server]', err);
+  }
+}, 60000);
+
+createServer((req, res) => void handle(req, res)).listen(PORT, () => {
+  console.log(`[server] Metodiko DEMO en http://localhost:${PORT} — ${log.length} evento(s) en ${DATA_FILE}`);
+});
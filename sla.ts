@@ -0,0 +1,136 @@
+// src/sla.ts
+
+import { Impact, Room, SlaPause, Ticket, TicketSla, TicketStatus, Urgency } from './types';
+import { ROOMS } from './constants';
+
+// =========================
+// Niveles de servicio (SLA)
+// =========================
+// Al crearse, cada ticket toma la primera política que le aplique (urgencia, impacto, ocupación, tipo de
+// habitación) y queda sellado con sus vencimientos: respuesta (salir de Reportado) y solución (Resuelto).
+// Las esperas de refacción o proveedor pausan el reloj de solución; el vencimiento se recorre lo que duró la pausa.
+
+export interface SlaPolicy {
+  id: string; // SLA-<uuid>
+  name: string;
+  // Condiciones (ausente = cualquiera)
+  urgency?: Urgency;
+  impact?: Impact;
+  occupied?: boolean;
+  roomType?: Room['type'];
+  responseMinutes: number;
+  resolutionMinutes: number;
+}
+
+export interface SlaSettings {
+  policies: SlaPolicy[]; // en orden: gana la primera que coincida; la última sin condiciones atrapa el resto
+}
+
+export const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  policies: [
+    { id: 'SLA-critical', name: 'Urgente con huésped', urgency: Urgency.HIGH, occupied: true, responseMinutes: 15, resolutionMinutes: 120 },
+    { id: 'SLA-blocking', name: 'Bloquea la habitación', impact: Impact.BLOCKING, responseMinutes: 30, resolutionMinutes: 240 },
+    { id: 'SLA-high', name: 'Urgente', urgency: Urgency.HIGH, responseMinutes: 30, resolutionMinutes: 480 },
+    { id: 'SLA-suite', name: 'Suite', roomType: 'Suite', responseMinutes: 60, resolutionMinutes: 480 },
+    { id: 'SLA-standard', name: 'Estándar', responseMinutes: 120, resolutionMinutes: 1440 },
+  ],
+};
+
+// Estados que detienen el reloj de solución
+export const SLA_PAUSED: TicketStatus[] = [TicketStatus.WAITING_PART, TicketStatus.VENDOR];
+
+export const ROOM_TYPES: Room['type'][] = ['Standard', 'Deluxe', 'Suite'];
+
+export const roomTypeOf = (roomNumber: string) => ROOMS.find(r => r.number === roomNumber)?.type;
+
+export const policyMatches = (p: SlaPolicy, t: Pick<Ticket, 'urgency' | 'impact' | 'isOccupied' | 'roomNumber'>) =>
+  (p.urgency === undefined || p.urgency === t.urgency) &&
+  (p.impact === undefined || p.impact === t.impact) &&
+  (p.occupied === undefined || p.occupied === t.isOccupied) &&
+  (p.roomType === undefined || p.roomType === roomTypeOf(t.roomNumber));
+
+export const policyFor = (settings: SlaSettings, t: Pick<Ticket, 'urgency' | 'impact' | 'isOccupied' | 'roomNumber'>) =>
+  settings.policies.find(p => policyMatches(p, t));
+
+const plusMinutes = (iso: string, minutes: number) => new Date(Date.parse(iso) + minutes * 60000).toISOString();
+
+/** Sello al crearse el ticket (o nada si ninguna política aplica). */
+export const stampSla = (settings: SlaSettings, t: Pick<Ticket, 'urgency' | 'impact' | 'isOccupied' | 'roomNumber'>, start: string) => {
+  const p = policyFor(settings, t);
+  if (!p) return undefined;
+  const sla: TicketSla = {
+    policyId: p.id,
+    policyName: p.name,
+    start,
+    responseDue: plusMinutes(start, p.responseMinutes),
+    resolutionDue: plusMinutes(start, p.resolutionMinutes),
+  };
+  return sla;
+};
+
+/** Sigue el reloj en cada cambio de estado: respuesta, pausas y solución (una reapertura lo vuelve a correr). */
+export const trackSla = (sla: TicketSla, from: TicketStatus, to: TicketStatus, date: string): TicketSla => {
+  const next: TicketSla = { ...sla };
+  if (from === TicketStatus.OPEN && !next.respondedAt) next.respondedAt = date;
+  const open = next.pauses?.find(p => !p.end);
+  if (open && !SLA_PAUSED.includes(to)) next.pauses = next.pauses!.map(p => (p === open ? { ...p, end: date } : p));
+  if (!open && SLA_PAUSED.includes(to)) next.pauses = [...(next.pauses ?? []), { start: date, status: to }];
+  if (to === TicketStatus.RESOLVED) next.resolvedAt = date;
+  if (to === TicketStatus.OPEN || to === TicketStatus.IN_PROGRESS) delete next.resolvedAt;
+  return next;
+};
+
+const pauseMs = (p: SlaPause, until: number) => Math.max(0, Math.min(p.end ? Date.parse(p.end) : until, until) - Date.parse(p.start));
+
+// Tiempo en pausa hasta `until` (ms)
+export const pausedMs = (sla: TicketSla, until: number) => (sla.pauses ?? []).reduce((sum, p) => sum + pauseMs(p, until), 0);
+
+export const isSlaPaused = (sla: TicketSla) => (sla.pauses ?? []).some(p => !p.end);
+
+// Vencimiento de solución recorrido por las pausas (una pausa abierta lo sigue empujando)
+export const resolutionDueAt = (sla: TicketSla, now = new Date()) => {
+  const until = sla.resolvedAt ? Date.parse(sla.resolvedAt) : now.getTime();
+  return Date.parse(sla.resolutionDue) + pausedMs(sla, until);
+};
+
+export interface SlaStatus {
+  responseBreached: boolean;
+  resolutionBreached: boolean;
+  breached: boolean;
+  // El reloj que corre: respuesta mientras no se atiende, luego solución; ninguno ya resuelto
+  clock?: { kind: 'response' | 'resolution'; due: number; remainingMs: number; paused: boolean };
+}
+
+export const slaStatus = (sla: TicketSla, now = new Date()): SlaStatus => {
+  const responseDue = Date.parse(sla.responseDue);
+  const resolutionDue = resolutionDueAt(sla, now);
+  const responseBreached = (sla.respondedAt ? Date.parse(sla.respondedAt) : now.getTime()) > responseDue;
+  const resolutionBreached = (sla.resolvedAt ? Date.parse(sla.resolvedAt) : now.getTime()) > resolutionDue;
+  const clock = !sla.respondedAt
+    ? { kind: 'response' as const, due: responseDue, remainingMs: responseDue - now.getTime(), paused: false }
+    : !sla.resolvedAt
+      ? { kind: 'resolution' as const, due: resolutionDue, remainingMs: resolutionDue - now.getTime(), paused: isSlaPaused(sla) }
+      : undefined;
+  return { responseBreached, resolutionBreached, breached: responseBreached || resolutionBreached, clock };
+};
+
+// En riesgo: al reloj que corre le queda menos de una cuarta parte de su plazo
+export const slaAtRisk = (sla: TicketSla, now = new Date()) => {
+  const { clock } = slaStatus(sla, now);
+  if (!clock || clock.paused || clock.remainingMs <= 0) return false;
+  const span = clock.due - Date.parse(sla.start);
+  return clock.remainingMs < span / 4;
+};
+
+export const SLA_CLOCK_LABELS = { response: 'Respuesta', resolution: 'Solución' };
+
+// Tickets ya creados antes de las políticas (datos DEMO): sello a partir de su fecha de creación y su bitácora
+export const backfillSla = (settings: SlaSettings, t: Ticket): Ticket => {
+  const sla = stampSla(settings, t, t.createdAt);
+  if (!sla) return t;
+  const lastChange = t.history[t.history.length - 1]?.date ?? t.createdAt;
+  if (t.status !== TicketStatus.OPEN) sla.respondedAt = t.history[1]?.date ?? t.createdAt;
+  if (SLA_PAUSED.includes(t.status)) sla.pauses = [{ start: lastChange, status: t.status }];
+  if (t.status === TicketStatus.RESOLVED || t.status === TicketStatus.VERIFIED) sla.resolvedAt = t.closedAt ?? lastChange;
+  return { ...t, sla };
+};
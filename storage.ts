@@ -0,0 +1,484 @@
+// src/storage.ts
+
+// =========================
+// Backend de almacenamiento intercambiable
+// =========================
+// persistence.ts decide QUÉ se guarda (esquema, migraciones, validación);
+// aquí solo se decide DÓNDE. Los registros se identifican por `id`.
+
+// `events` es la fuente de verdad; tickets/parts/pos/movements/incidents son la vista materializada
+// (compatibilidad / exportación) y `snapshots` las fotos que aceleran la reconstrucción
+export type Collection = 'tickets' | 'parts' | 'pos' | 'movements' | 'incidents' | 'events' | 'snapshots';
+
+export const COLLECTIONS: Collection[] = ['tickets', 'parts', 'pos', 'movements', 'incidents', 'events', 'snapshots'];
+
+// Claves históricas de localStorage (se conservan por compatibilidad)
+export const STORAGE_KEYS: Record<Collection, string> = {
+  tickets: 'metodiko_demo_tickets',
+  parts: 'metodiko_demo_parts',
+  pos: 'metodiko_demo_pos',
+  movements: 'metodiko_demo_movements',
+  incidents: 'metodiko_demo_incidents',
+  events: 'metodiko_demo_events',
+  snapshots: 'metodiko_demo_snapshots',
+};
+
+export const META_KEY = 'metodiko_demo_meta';
+const BACKEND_KEY = 'metodiko_demo_storage_backend';
+const API_URL_KEY = 'metodiko_demo_api_url';
+const ACKED_KEY = 'metodiko_demo_server_acked';
+const REJECTED_KEY = 'metodiko_demo_server_rejected';
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'server';
+
+export const BACKEND_LABEL: Record<StorageBackend, string> = {
+  localStorage: 'localStorage',
+  indexedDB: 'IndexedDB',
+  server: 'Servidor',
+};
+
+// Resultado de leer una colección: `ok: false` = había algo pero no se pudo interpretar
+export interface StoredCollection {
+  ok: boolean;
+  value?: unknown;
+  raw?: string;
+}
+
+export interface StorageAdapter {
+  backend: StorageBackend;
+  load: (collection: Collection) => Promise<StoredCollection | null>;
+  save: (collection: Collection, records: { id: string }[]) => Promise<void>;
+  // Cambios hechos por OTRA pestaña/ventana sobre la colección
+  subscribe: (collection: Collection, listener: (records: unknown[]) => void) => () => void;
+  loadMeta: () => Promise<unknown>;
+  saveMeta: (meta: unknown) => Promise<void>;
+  clear: () => Promise<void>;
+  // Solo backends remotos: conexión y bandeja de salida
+  subscribeStatus?: (listener: (status: SyncStatus) => void) => () => void;
+  // Solo backends remotos: rol que firma lo que se sube (cabecera X-Metodiko-Role)
+  setActor?: (role: string) => void;
+  // Solo backends remotos: olvidar los rechazos ya vistos
+  dismissRejected?: () => void;
+}
+
+// Evento propio que el servidor no aceptó (reglas, rol): no se reenvía y la app lo quita de su registro
+export interface SyncRejection {
+  id: string;
+  reason: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  pending: string[]; // ids de eventos propios que el servidor aún no confirma (bandeja de salida)
+  rejected: SyncRejection[]; // los que el servidor rechazó, hasta descartarlos
+  lastSyncAt?: string; // ISO, último contacto exitoso
+}
+
+const parseStored = (raw: string | null): StoredCollection | null => {
+  if (raw === null) return null;
+  try {
+    return { ok: true, value: JSON.parse(raw), raw };
+  } catch {
+    return { ok: false, raw };
+  }
+};
+
+// =========================
+// localStorage (compatibilidad; ~5 MB, reescribe la colección completa)
+// =========================
+
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  backend: 'localStorage',
+
+  load: async collection => parseStored(localStorage.getItem(STORAGE_KEYS[collection])),
+
+  save: async (collection, records) => {
+    localStorage.setItem(STORAGE_KEYS[collection], JSON.stringify(records));
+  },
+
+  subscribe: (collection, listener) => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== STORAGE_KEYS[collection] || e.newValue === null) return;
+      const parsed = parseStored(e.newValue);
+      if (parsed?.ok && Array.isArray(parsed.value)) listener(parsed.value);
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  },
+
+  loadMeta: async () => {
+    const parsed = parseStored(localStorage.getItem(META_KEY));
+    return parsed?.ok ? parsed.value : null;
+  },
+
+  saveMeta: async meta => {
+    localStorage.setItem(META_KEY, JSON.stringify(meta));
+  },
+
+  clear: async () => {
+    COLLECTIONS.forEach(c => localStorage.removeItem(STORAGE_KEYS[c]));
+    localStorage.removeItem(META_KEY);
+  },
+});
+
+// =========================
+// IndexedDB (escritura incremental por registro)
+// =========================
+
+const IDB_NAME = 'metodiko_demo';
+const IDB_VERSION = 3; // v2: almacenes `events` y `snapshots`; v3: `incidents`
+const META_STORE = 'meta';
+const CHANNEL_NAME = 'metodiko_demo_storage';
+
+const orderKey = (c: Collection) => `order:${c}`;
+
+export const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const txDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDB = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(IDB_NAME, IDB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      COLLECTIONS.forEach(c => {
+        if (!db.objectStoreNames.contains(c)) db.createObjectStore(c, { keyPath: 'id' });
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const createIndexedDBAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => (dbPromise ??= openDB());
+
+  // Última versión escrita de cada registro (por referencia: el estado de React es inmutable,
+  // así que un registro que no cambió conserva el mismo objeto y no se reescribe).
+  const written: Record<Collection, Map<string, unknown>> = {
+    tickets: new Map(),
+    parts: new Map(),
+    pos: new Map(),
+    movements: new Map(),
+    incidents: new Map(),
+    events: new Map(),
+    snapshots: new Map(),
+  };
+  const writtenOrder: Partial<Record<Collection, string>> = {};
+
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  const readCollection = async (collection: Collection) => {
+    const d = await db();
+    const tx = d.transaction([collection, META_STORE], 'readonly');
+    const [records, order] = await Promise.all([
+      promisify(tx.objectStore(collection).getAll() as IDBRequest<{ id: string }[]>),
+      promisify(tx.objectStore(META_STORE).get(orderKey(collection)) as IDBRequest<string[] | undefined>),
+    ]);
+    if (!order) return { records, hasOrder: false };
+    // IndexedDB devuelve por llave; el orden de la UI (más reciente primero) se guarda aparte
+    const pos = new Map(order.map((id, i) => [id, i]));
+    records.sort((a, b) => (pos.get(a.id) ?? Infinity) - (pos.get(b.id) ?? Infinity));
+    return { records, hasOrder: true };
+  };
+
+  return {
+    backend: 'indexedDB',
+
+    load: async collection => {
+      const { records, hasOrder } = await readCollection(collection);
+      if (!hasOrder) {
+        // Nunca se guardó en IndexedDB: tomar lo que hubiera en localStorage (pasa una sola vez)
+        return parseStored(localStorage.getItem(STORAGE_KEYS[collection]));
+      }
+      written[collection] = new Map(records.map(r => [r.id, r]));
+      writtenOrder[collection] = records.map(r => r.id).join('\n');
+      return { ok: true, value: records };
+    },
+
+    save: async (collection, records) => {
+      const prev = written[collection];
+      const next = new Map(records.map(r => [r.id, r as unknown]));
+      const changed = records.filter(r => prev.get(r.id) !== r);
+      const removed = [...prev.keys()].filter(id => !next.has(id));
+      const order = records.map(r => r.id);
+      const orderSig = order.join('\n');
+      const orderChanged = writtenOrder[collection] !== orderSig;
+      if (changed.length === 0 && removed.length === 0 && !orderChanged) return;
+
+      written[collection] = next;
+      writtenOrder[collection] = orderSig;
+
+      try {
+        const d = await db();
+        const tx = d.transaction([collection, META_STORE], 'readwrite');
+        const store = tx.objectStore(collection);
+        changed.forEach(r => store.put(r));
+        removed.forEach(id => store.delete(id));
+        if (orderChanged) tx.objectStore(META_STORE).put(order, orderKey(collection));
+        await txDone(tx);
+      } catch (err) {
+        // Sin certeza de qué quedó escrito: la próxima vez se reescribe todo
+        written[collection] = new Map();
+        writtenOrder[collection] = undefined;
+        throw err;
+      }
+
+      // La copia de localStorage ya no es la fuente; liberar espacio
+      localStorage.removeItem(STORAGE_KEYS[collection]);
+      channel?.postMessage({ collection });
+    },
+
+    subscribe: (collection, listener) => {
+      if (typeof BroadcastChannel === 'undefined') return () => undefined;
+      // Canal propio: BroadcastChannel no entrega mensajes a la misma instancia que los envía
+      const rx = new BroadcastChannel(CHANNEL_NAME);
+      rx.onmessage = (e: MessageEvent<{ collection: Collection }>) => {
+        if (e.data?.collection !== collection) return;
+        readCollection(collection)
+          .then(({ records }) => {
+            written[collection] = new Map(records.map(r => [r.id, r]));
+            writtenOrder[collection] = records.map(r => r.id).join('\n');
+            listener(records);
+          })
+          .catch(err => console.error('[storage] No se pudo releer', collection, err));
+      };
+      return () => rx.close();
+    },
+
+    loadMeta: async () => {
+      const d = await db();
+      const stored = await promisify(d.transaction(META_STORE, 'readonly').objectStore(META_STORE).get('schema'));
+      if (stored !== undefined) return stored;
+      const legacy = parseStored(localStorage.getItem(META_KEY));
+      return legacy?.ok ? legacy.value : null;
+    },
+
+    saveMeta: async meta => {
+      const d = await db();
+      const tx = d.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(meta, 'schema');
+      await txDone(tx);
+      localStorage.removeItem(META_KEY);
+    },
+
+    clear: async () => {
+      COLLECTIONS.forEach(c => {
+        written[c] = new Map();
+        writtenOrder[c] = undefined;
+      });
+      const d = await db();
+      const tx = d.transaction([...COLLECTIONS, META_STORE], 'readwrite');
+      COLLECTIONS.forEach(c => tx.objectStore(c).clear());
+      tx.objectStore(META_STORE).clear();
+      await txDone(tx);
+      COLLECTIONS.forEach(c => localStorage.removeItem(STORAGE_KEYS[c]));
+      localStorage.removeItem(META_KEY);
+    },
+  };
+};
+
+// =========================
+// Servidor REST (server.ts) con copia local
+// =========================
+// Solo el registro de eventos viaja al servidor; lo demás (vista materializada, fotos, meta) se queda
+// en el almacenamiento local, que además sirve de respaldo si el servidor no responde.
+// Bandeja de salida: todo evento propio sin confirmar. Se guarda con el registro local (sobrevive a
+// recargar sin conexión) y se reenvía en cada intento; el servidor ignora los ids que ya tiene.
+
+const SERVER_POLL_MS = 4000;
+const SERVER_TIMEOUT_MS = 3000;
+
+type ServerEvent = { id: string; type?: string };
+
+export const createServerAdapter = (baseUrl: string, local: StorageAdapter): StorageAdapter => {
+  const url = (path: string) => `${baseUrl.replace(/\/$/, '')}${path}`;
+
+  let online = false;
+  let lastSyncAt: string | undefined;
+  let version = '';
+  let resetPending = false; // el reinicio local (nuevo Genesis) sí debe llegar al servidor
+  let actor = '';
+  let localEvents: ServerEvent[] = [];
+  const statusListeners = new Set<(status: SyncStatus) => void>();
+
+  // Ids que el servidor ya tiene; persistidos para que al recargar sin conexión la bandeja no crezca
+  const stored = parseStored(localStorage.getItem(ACKED_KEY))?.value;
+  const acked = new Set<string>(Array.isArray(stored) ? stored : []);
+  const saveAcked = () => localStorage.setItem(ACKED_KEY, JSON.stringify([...acked]));
+
+  const storedRejected = parseStored(localStorage.getItem(REJECTED_KEY))?.value;
+  let rejected: SyncRejection[] = Array.isArray(storedRejected) ? storedRejected : [];
+  const saveRejected = () => localStorage.setItem(REJECTED_KEY, JSON.stringify(rejected));
+
+  const status = (): SyncStatus => ({ online, pending: pending().map(e => e.id), rejected, lastSyncAt });
+  const notify = () => statusListeners.forEach(l => l(status()));
+
+  const setOnline = (next: boolean) => {
+    if (next) lastSyncAt = new Date().toISOString();
+    if (next === online) return;
+    online = next;
+    notify();
+  };
+
+  const request = async (path: string, init?: RequestInit) => {
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), SERVER_TIMEOUT_MS);
+    try {
+      const res = await fetch(url(path), {
+        ...init,
+        signal: ctrl.signal,
+        headers: { 'Content-Type': 'application/json', 'X-Metodiko-Role': encodeURIComponent(actor) },
+      });
+      if (!res.ok && res.status !== 204) throw new Error(`HTTP ${res.status}`);
+      setOnline(true);
+      return res.status === 204 ? null : await res.json();
+    } catch (err) {
+      setOnline(false);
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  // Lo propio que el servidor aún no tiene (ni rechazó). Un Genesis local solo se manda si fue un reinicio: el
+  // que se crea al arrancar sin conexión pisaría los datos compartidos
+  const pending = () =>
+    localEvents.filter(e => !acked.has(e.id) && !rejected.some(r => r.id === e.id) && (e.type !== 'Genesis' || resetPending));
+
+  const push = async () => {
+    const out = pending();
+    if (out.length === 0) return;
+    const res = (await request('/api/events', { method: 'POST', body: JSON.stringify({ events: out }) })) as {
+      ids: string[];
+      rejected: SyncRejection[];
+    };
+    acked.clear();
+    res.ids.forEach(id => acked.add(id));
+    saveAcked();
+    // Lo rechazado sale de la bandeja; los más recientes primero
+    const mine = res.rejected.filter(r => out.some(e => e.id === r.id));
+    if (mine.length) {
+      rejected = [...mine, ...rejected].slice(0, 50);
+      saveRejected();
+    }
+    if (out.some(e => e.type === 'Genesis' && acked.has(e.id))) resetPending = false;
+    notify();
+  };
+
+  const pull = async (force = false) => {
+    const res = (await request(`/api/events${force ? '' : `?version=${encodeURIComponent(version)}`}`)) as {
+      version: string;
+      events: ServerEvent[];
+    } | null;
+    if (!res) return null;
+    version = res.version;
+    acked.clear();
+    res.events.forEach(e => acked.add(e.id));
+    saveAcked();
+    notify();
+    // Lo propio aún en camino se conserva: si no, la app lo tomaría como borrado en el servidor
+    const serverIds = new Set(res.events.map(e => e.id));
+    return [...res.events, ...pending().filter(e => !serverIds.has(e.id))];
+  };
+
+  return {
+    backend: 'server',
+
+    load: async collection => {
+      if (collection !== 'events') return local.load(collection);
+      try {
+        const cached = await local.load('events');
+        if (cached?.ok && Array.isArray(cached.value)) localEvents = cached.value as ServerEvent[];
+        await push().catch(() => undefined);
+        const events = await pull(true);
+        return { ok: true, value: events ?? [] };
+      } catch {
+        // Sin servidor: se sigue con la copia local y se sincroniza al volver
+        return local.load('events');
+      }
+    },
+
+    save: async (collection, records) => {
+      await local.save(collection, records);
+      if (collection !== 'events') return;
+      localEvents = records as ServerEvent[];
+      notify();
+      await push().catch(() => undefined);
+    },
+
+    subscribe: (collection, listener) => {
+      const offLocal = local.subscribe(collection, listener);
+      if (collection !== 'events') return offLocal;
+      const timer = setInterval(() => {
+        push()
+          .then(() => pull())
+          .then(events => events && listener(events))
+          .catch(() => undefined);
+      }, SERVER_POLL_MS);
+      return () => {
+        offLocal();
+        clearInterval(timer);
+      };
+    },
+
+    loadMeta: () => local.loadMeta(),
+    saveMeta: meta => local.saveMeta(meta),
+
+    clear: async () => {
+      await local.clear();
+      localEvents = [];
+      resetPending = true;
+      notify();
+    },
+
+    subscribeStatus: listener => {
+      statusListeners.add(listener);
+      listener(status());
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+
+    setActor: role => {
+      actor = role;
+    },
+
+    dismissRejected: () => {
+      rejected = [];
+      saveRejected();
+      notify();
+    },
+  };
+};
+
+// =========================
+// Selección de backend
+// =========================
+
+export const isIndexedDBAvailable = () => typeof indexedDB !== 'undefined';
+
+// Servidor: `METODIKO_API_URL` en .env.local o `localStorage.metodiko_demo_api_url` (ej. http://192.168.0.10:8787)
+export const serverUrl = () => localStorage.getItem(API_URL_KEY) || process.env.METODIKO_API_URL || '';
+
+/**
+ * IndexedDB por defecto; localStorage si el navegador no lo soporta o si se forzó
+ * con `localStorage.metodiko_demo_storage_backend = 'localStorage'` (DEMO / diagnóstico).
+ * Con servidor configurado, el registro se comparte a través de él y el backend local queda como copia.
+ */
+export const createStorageAdapter = (backend?: StorageBackend): StorageAdapter => {
+  const wanted = backend ?? (localStorage.getItem(BACKEND_KEY) as StorageBackend | null) ?? 'indexedDB';
+  const local = wanted !== 'localStorage' && isIndexedDBAvailable() ? createIndexedDBAdapter() : createLocalStorageAdapter();
+  const api = serverUrl();
+  return api && wanted !== 'localStorage' && backend !== 'indexedDB' ? createServerAdapter(api, local) : local;
+};
@@ -0,0 +1,95 @@
+// src/sync.ts
+
+// =========================
+// Sincronización entre pestañas
+// =========================
+// Lo que se comparte es el registro de eventos: es de solo-agregar, así que unir dos copias es
+// tomar la unión por id y reordenar. `base` = ids conocidos la última vez que esta pestaña guardó
+// o recibió el registro; con eso se distingue "evento nuevo de allá" de "allá se reinició".
+// Dos ediciones del mismo campo no se resuelven aquí: el reductor (events.ts) deja el conflicto en el ticket.
+
+export interface SyncRecord {
+  id: string;
+  rev?: number;
+}
+
+export type SyncBase = Map<string, number>;
+
+export interface MergeResult<T> {
+  merged: T[];
+  changed: { before?: T; after: T }[]; // lo que llegó de la otra pestaña y se aplicó
+  removed: T[];
+  conflicts: { mine: T; theirs: T }[]; // ambas editaron; se aplicó la otra (queda `mine` para reaplicar)
+  keptLocal: boolean; // se conservaron cambios propios que la otra pestaña no tenía → volver a guardar
+}
+
+const revOf = (r: SyncRecord) => r.rev ?? 0;
+
+export const revMap = (records: SyncRecord[]): SyncBase => new Map(records.map(r => [r.id, revOf(r)]));
+
+// Comparación independiente del orden de llaves (los objetos pueden venir de JSON.parse o de IndexedDB)
+const stable = (x: unknown): string =>
+  JSON.stringify(x, (_k, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.keys(v)
+          .sort()
+          .reduce<Record<string, unknown>>((acc, k) => ((acc[k] = v[k]), acc), {})
+      : v
+  );
+
+export const sameRecord = (a: unknown, b: unknown) => a === b || stable(a) === stable(b);
+
+export const mergeRemote = <T extends SyncRecord>(local: T[], incoming: T[], base: SyncBase): MergeResult<T> => {
+  const localById = new Map(local.map(r => [r.id, r]));
+  const incomingIds = new Set(incoming.map(r => r.id));
+
+  const changed: MergeResult<T>['changed'] = [];
+  const conflicts: MergeResult<T>['conflicts'] = [];
+  let keptLocal = false;
+
+  const merged = incoming.map(theirs => {
+    const mine = localById.get(theirs.id);
+    if (!mine) {
+      changed.push({ after: theirs });
+      return theirs;
+    }
+    if (sameRecord(mine, theirs)) return theirs;
+
+    const baseRev = base.get(theirs.id);
+    const mineChanged = baseRev === undefined || revOf(mine) !== baseRev;
+    const theirsChanged = baseRev === undefined || revOf(theirs) !== baseRev;
+
+    if (revOf(theirs) > revOf(mine) && !mineChanged) {
+      changed.push({ before: mine, after: theirs });
+      return theirs;
+    }
+    if (revOf(mine) > revOf(theirs) && !theirsChanged) {
+      keptLocal = true;
+      return mine;
+    }
+    // Ediciones divergentes: gana lo que ya está guardado (la otra pestaña) y se avisa
+    conflicts.push({ mine, theirs });
+    changed.push({ before: mine, after: theirs });
+    return theirs;
+  });
+
+  // Registros que solo existen aquí: nuevos (se conservan al frente) o borrados allá (ej. reinicio)
+  const removed: T[] = [];
+  const localOnly = local.filter(r => !incomingIds.has(r.id));
+  const fresh = localOnly.filter(r => {
+    if (base.has(r.id)) {
+      removed.push(r);
+      return false;
+    }
+    return true;
+  });
+  if (fresh.length) keptLocal = true;
+
+  return { merged: [...fresh, ...merged], changed, removed, conflicts, keptLocal };
+};
+
+export interface SyncNotice {
+  id: string;
+  date: string; // ISO
+  lines: string[];
+}
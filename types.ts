@@ -28,12 +28,135 @@ export enum TicketStatus {
   VERIFIED = 'Verificado'
 }
 
+export enum NoteKind {
+  DIAGNOSIS = 'Diagnóstico',
+  GUEST = 'Huésped',
+  INTERNAL = 'Interna',
+  SYSTEM = 'Sistema'
+}
+
+export enum EvidenceStage {
+  BEFORE = 'Antes',
+  AFTER = 'Después',
+  OTHER = 'Otro'
+}
+
 export interface AuditEvent {
   date: string; // ISO string
   action: string;
   user: Role | string;
 }
 
+// Cambio que llegó tarde (ej. hecho sin conexión) sobre campos que alguien más ya había modificado:
+// no se aplica hasta que alguien elija, campo por campo, con qué valor se queda el ticket
+export interface FieldConflict {
+  id: string; // id del evento que lo originó
+  date: string; // ISO, cuándo se hizo el cambio en conflicto
+  user: Role | string;
+  action: string;
+  current: Partial<Ticket>; // valor vigente de cada campo en conflicto
+  incoming: Partial<Ticket>; // valor que proponía el cambio
+}
+
+// Nota de un ticket: autor, fecha y tipo. Las de sistema las escribe la app (consumo de inventario, fusiones)
+export interface TicketNote {
+  id: string; // único entre dispositivos (N-<uuid>; las migradas de texto: N-<ticket>-<hash>)
+  date: string; // ISO
+  user: Role | string;
+  kind: NoteKind;
+  text: string;
+  visibleToReception?: boolean; // Recepción solo ve las marcadas
+  replyTo?: string; // id de la nota que responde (hilo)
+}
+
+// Foto o archivo de un ticket. El registro lleva solo la miniatura; el archivo (ya comprimido) queda
+// guardado en el dispositivo que lo subió (attachments.ts)
+export interface Attachment {
+  id: string; // A-<uuid>; también es la llave del archivo guardado
+  name: string;
+  mimeType: string;
+  size: number; // bytes, ya comprimido
+  stage: EvidenceStage;
+  thumbnail?: string; // data URL (solo imágenes)
+  date: string; // ISO
+  user: Role | string;
+}
+
+// Tramo de trabajo de un técnico en un ticket: abierto mientras el cronómetro corre. Pausar cierra el tramo
+// (reanudar abre otro); terminar además marca que ese técnico acabó su parte
+export interface WorkSession {
+  id: string; // W-<uuid>
+  technician: string;
+  start: string; // ISO
+  end?: string; // ISO; ausente = cronómetro corriendo
+  stopped?: boolean; // terminado (no solo pausado)
+  rate?: number; // tarifa por hora vigente al iniciar (MXN); sin ella se usa la actual
+  user: Role | string; // quién lo registró
+}
+
+// Cargo de proveedor (factura o nota) imputado al ticket
+export interface VendorCharge {
+  id: string; // VC-<uuid>
+  vendor: string;
+  amount: number; // MXN
+  invoice?: string; // folio de la factura
+  date: string; // ISO
+  user: Role | string;
+}
+
+// Verificación del cierre: renglones de la lista que toca según el activo (y el tipo de falla)
+export interface ChecklistItem {
+  id: string; // CI-<uuid> (los de omisión: nombre corto)
+  label: string;
+  required: boolean; // sin marcar no se puede cerrar (VERIFIED)
+}
+
+// Lista por activo; con `issueType`, solo para ese tipo de falla. Sin activo = la general (todo lo demás)
+export interface ChecklistTemplate {
+  id: string; // CL-<uuid>
+  asset?: string;
+  issueType?: string;
+  items: ChecklistItem[];
+}
+
+// Renglón marcado en el ticket: quién lo revisó y cuándo
+export interface ChecklistResponse {
+  itemId: string;
+  label: string; // texto al marcarlo (la lista puede cambiar después)
+  checked: boolean;
+  date: string; // ISO
+  user: Role | string;
+}
+
+// Pausa del reloj de solución (espera de refacción o proveedor)
+export interface SlaPause {
+  start: string; // ISO
+  end?: string; // ISO; ausente = sigue en pausa
+  status: TicketStatus;
+}
+
+// Nivel de servicio sellado al crearse el ticket (sla.ts): la política que aplicó y sus vencimientos
+export interface TicketSla {
+  policyId: string;
+  policyName: string;
+  start: string; // ISO, arranca el reloj
+  responseDue: string; // ISO
+  resolutionDue: string; // ISO, sin contar pausas
+  respondedAt?: string; // salió de Reportado
+  resolvedAt?: string; // pasó a Resuelto (una reapertura lo borra)
+  pauses?: SlaPause[];
+}
+
+// Reapertura de un ticket ya verificado: conserva el cierre que se deshizo (cuándo, quién verificó, técnico)
+export interface Reopening {
+  date: string; // ISO
+  user: Role | string;
+  reason: string;
+  closedAt?: string; // cierre original
+  verifiedBy?: string;
+  technician?: string; // asignado al cerrarse
+}
+
 // =========================
 // Inventario / Refacciones
 // =========================
@@ -52,18 +175,22 @@ export interface InventoryPart {
   id: string; // ej. P-001
   name: string; // nombre visible
   category: PartCategory;
-  unit: 'pza' | 'kit' | 'm' | 'lt' | 'otro';
+  unit: 'pza' | 'kit' | 'pack' | 'tubo' | 'm' | 'lt' | 'otro';
 
   // Stock
   stockOnHand: number; // disponible físico
   stockReserved: number; // reservado por tickets
   minStock: number; // umbral mínimo
+  reorderTo?: number; // nivel objetivo al reordenar (si falta, se usa minStock * 2)
 
   // Metadatos DEMO (no implica integración)
   preferredVendor?: string;
   leadTimeDays?: number;
   location?: string; // anaquel / cuarto / bodega
   sku?: string;
+  unitCost?: number; // costo unitario (DEMO, MXN)
+  updatedAt?: string; // ISO, último movimiento
+  rev?: number; // revisión (sincronización entre pestañas)
 }
 
 export type PartMovementType =
@@ -77,10 +204,13 @@ export type PartMovementType =
   | 'PO_RECEIVED'; // recibida
 
 export interface PartMovement {
-  id: string; // ej. M-0001
+  id: string; // M-<evento>-<n> (los previos: M-1, M-2…)
   partId: string;
   type: PartMovementType;
   qty: number; // siempre positivo; el tipo define si suma/resta
+  delta?: number; // solo ADJUST: cambio con signo aplicado a stockOnHand
+  fromReserved?: boolean; // solo ISSUE: la salida descontó lo reservado
+  unitCost?: number; // solo ISSUE: costo unitario de la refacción al surtirla (MXN)
   date: string; // ISO
   user: Role | string;
   note?: string;
@@ -103,7 +233,8 @@ export interface PurchaseOrderItem {
 }
 
 export interface PurchaseOrder {
-  id: string; // ej. OC-0001
+  id: string; // interno, único (OC-<uuid>; las previas a folios: OC-1, OC-2…)
+  folio?: string; // número visible consecutivo (ej. OC-12)
   status: POStatus;
   createdAt: string; // ISO
   createdBy: Role | string;
@@ -111,6 +242,7 @@ export interface PurchaseOrder {
   etaDate?: string; // ISO (DEMO)
   items: PurchaseOrderItem[];
   notes?: string;
+  rev?: number; // revisión (sincronización entre pestañas)
 }
 
 // =========================
@@ -118,9 +250,11 @@ export interface PurchaseOrder {
 // =========================
 
 export interface Ticket {
-  id: string;
+  id: string; // interno, único (T-<uuid>; los previos a folios: T-1001…)
+  folio?: string; // número visible consecutivo por propiedad (ej. T-1010)
   roomNumber: string;
   isOccupied: boolean;
+  guestVip?: boolean; // huésped VIP en la habitación (suma a la prioridad)
   asset: string;
   issueType: string;
   description: string;
@@ -129,8 +263,16 @@ export interface Ticket {
   status: TicketStatus;
   createdAt: string; // ISO string
   createdBy: Role;
+  reporters?: string[]; // quién más reportó lo mismo (reportes sumados o fusionados)
+  mergedFrom?: string[]; // folios de tickets duplicados fusionados en este
+  incidentId?: string; // falla general a la que pertenece (Incident.id)
   assignedTo?: string; // Name of technician
-  notes: string[];
+  notes: TicketNote[];
+  attachments?: Attachment[]; // evidencia: antes / después
+  workSessions?: WorkSession[]; // tiempo de mano de obra por técnico
+  vendorCharges?: VendorCharge[]; // lo que cobró el proveedor
+  checklist?: ChecklistResponse[]; // verificación del cierre (se vacía al reabrir)
+  sla?: TicketSla; // vencimientos de respuesta y solución
   history: AuditEvent[];
 
   // Decision support fields
@@ -139,7 +281,8 @@ export interface Ticket {
   // Inventario: vínculo real (evita prompts)
   partId?: string; // referencia a InventoryPart.id
   partName?: string; // redundante para UI/CSV (DEMO)
-  partQty?: number; // cantidad solicitada/reservada
+  partQty?: number; // cantidad solicitada
+  reservedQty?: number; // cantidad apartada en inventario para este ticket (0/ausente = sin reserva)
 
   needsVendor?: boolean;
   vendorType?: string;
@@ -150,8 +293,34 @@ export interface Ticket {
   verifiedBy?: string;
   closedAt?: string;
 
+  // Reaperturas (calidad del cierre)
+  reopenCount?: number;
+  reopenings?: Reopening[];
+
   // Calculated
   priorityScore: number;
+
+  // Sincronización entre pestañas / dispositivos
+  rev?: number; // se incrementa en cada cambio
+  updatedAt?: string; // ISO
+  conflicts?: FieldConflict[]; // pendientes de resolver
+}
+
+// Falla general (caldera, luz, agua): agrupa los tickets de las habitaciones afectadas. El estado y los
+// avisos se comparten con todos los tickets hijos; cada hijo conserva su habitación y su bitácora
+export interface Incident {
+  id: string; // interno, único (INC-<uuid>)
+  folio?: string; // número visible consecutivo (ej. INC-3)
+  title: string;
+  asset: string; // sistema afectado (ASSETS)
+  description: string;
+  status: TicketStatus;
+  createdAt: string; // ISO
+  createdBy: Role | string;
+  updates: AuditEvent[]; // avisos compartidos, del más antiguo al más reciente
+  closedAt?: string;
+  rev?: number; // revisión (sincronización entre pestañas)
+  updatedAt?: string; // ISO
 }
 
 export interface Room {
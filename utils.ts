@@ -1,42 +1,22 @@
 // src/utils.ts
 
 import {
-  Impact,
   InventoryPart,
+  POStatus,
+  PurchaseOrder,
   Ticket,
   TicketStatus,
   Urgency,
 } from './types';
+import { DEFAULT_PRIORITY_WEIGHTS, PriorityWeights, scorePriority } from './priority';
 
 // =========================
 // Tickets
 // =========================
 
-// Simple heuristic for priority score
-export const calculatePriority = (ticket: Ticket): number => {
-  if (ticket.status === TicketStatus.RESOLVED || ticket.status === TicketStatus.VERIFIED) return 0;
-
-  let score = 0;
-
-  // Urgency
-  if (ticket.urgency === Urgency.HIGH) score += 50;
-  if (ticket.urgency === Urgency.MEDIUM) score += 30;
-  if (ticket.urgency === Urgency.LOW) score += 10;
-
-  // Impact
-  if (ticket.impact === Impact.BLOCKING) score += 40;
-  if (ticket.impact === Impact.ANNOYING) score += 20;
-
-  // Occupancy
-  if (ticket.isOccupied) score += 30;
-
-  // Age (Days open) - Max 30 points
-  const daysOpen =
-    (new Date().getTime() - new Date(ticket.createdAt).getTime()) / (1000 * 3600 * 24);
-  score += Math.min(daysOpen * 5, 30);
-
-  return Math.round(score);
-};
+// Priority score: weighted factors (priority.ts); Gerencia tunes the weights
+export const calculatePriority = (ticket: Ticket, weights: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS): number =>
+  scorePriority(ticket, weights);
 
 export const getStatusColor = (status: TicketStatus) => {
   switch (status) {
@@ -68,6 +48,40 @@ export const getUrgencyColor = (urgency: Urgency) => {
   }
 };
 
+// Id interno: único entre pestañas y dispositivos sin coordinarse (lo que ve el usuario es el folio)
+export const uniqueId = (prefix: string) => {
+  const uuid =
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `${prefix}${uuid}`;
+};
+
+// Número visible (T-1010, OC-12). Los registros anteriores a los folios usan su id, que era el consecutivo
+export const folioOf = (r: { id: string; folio?: string }) => r.folio ?? r.id;
+
+// Consecutivo por prefijo (folios T-, OC-): toma el mayor número existente + 1
+export const nextId = (prefix: string, existingIds: string[], start: number) => {
+  const max = existingIds.reduce((m, id) => {
+    const n = parseInt(String(id).replace(/\D/g, ''), 10);
+    return Number.isFinite(n) ? Math.max(m, n) : m;
+  }, start);
+  return `${prefix}${max + 1}`;
+};
+
+// Duración legible: 35 min, 2 h 05 min
+export const formatMinutes = (minutes: number) => {
+  const m = Math.max(0, Math.round(minutes));
+  if (m < 60) return `${m} min`;
+  return `${Math.floor(m / 60)} h ${String(m % 60).padStart(2, '0')} min`;
+};
+
+// Importe en pesos: $1,250 / $37.50
+export const formatMoney = (amount: number) => {
+  const v = Math.round(amount * 100) / 100;
+  return `$${v.toLocaleString('es-MX', { minimumFractionDigits: Number.isInteger(v) ? 0 : 2, maximumFractionDigits: 2 })}`;
+};
+
 // =========================
 // Inventario
 // =========================
@@ -93,10 +107,10 @@ export const shouldReorder = (part: InventoryPart) => {
 };
 
 export const suggestedReorderQty = (part: InventoryPart) => {
-  // DEMO: reorden sugerido = (minStock * 2) - available, mínimo 1
+  // DEMO: reorden sugerido = reorderTo (o minStock * 2) - available, mínimo 1
   const available = getAvailableStock(part);
   const min = part.minStock ?? 0;
-  const target = Math.max(2, min * 2);
+  const target = part.reorderTo ?? Math.max(2, min * 2);
   return Math.max(1, target - available);
 };
 
@@ -124,3 +138,30 @@ export const getPartIdFromTicket = (ticket: Ticket) => {
   // Compat DEMO: si no hay partId, al menos devolvemos undefined sin romper UI.
   return ticket.partId || undefined;
 };
+
+// =========================
+// Compras
+// =========================
+
+export const isOpenPO = (po: PurchaseOrder) => po.status === POStatus.DRAFT || po.status === POStatus.ORDERED;
+
+// Cantidad de una refacción ya pedida en OC abiertas (evita pedir dos veces lo mismo)
+export const getOnOrderQty = (partId: string, pos: PurchaseOrder[]) =>
+  pos
+    .filter(isOpenPO)
+    .reduce((sum, po) => sum + po.items.filter(i => i.partId === partId).reduce((s, i) => s + i.qty, 0), 0);
+
+export const getPOStatusColor = (status: POStatus) => {
+  switch (status) {
+    case POStatus.DRAFT:
+      return 'bg-slate-100 text-slate-800 border-slate-200';
+    case POStatus.ORDERED:
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case POStatus.RECEIVED:
+      return 'bg-emerald-100 text-emerald-800 border-emerald-200';
+    case POStatus.CANCELED:
+      return 'bg-rose-50 text-rose-700 border-rose-200';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
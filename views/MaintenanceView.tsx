@@ -1,11 +1,21 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useApp } from '../AppContext';
-import { Role, Ticket, TicketStatus, Urgency } from '../types';
+import { InventoryPart, Ticket, TicketStatus, Urgency } from '../types';
 import { Button } from '../components/Button';
-import { getStatusColor, getUrgencyColor } from '../utils';
+import { ReopenPanel } from '../components/ReopenPanel';
+import { IncidentCard, IncidentNotice } from '../components/IncidentPanel';
+import { NotesPanel } from '../components/NotesPanel';
+import { AttachmentsPanel } from '../components/AttachmentsPanel';
+import { LaborPanel, LaborTimer } from '../components/LaborPanel';
+import { ChecklistSummary, VerificationChecklist } from '../components/ChecklistPanel';
+import { SlaBadge, SlaDetails } from '../components/SlaBadge';
+import { PriorityBreakdown } from '../components/PriorityBreakdown';
+import { DEMO_TECHNICIAN } from '../constants';
+import { folioOf, getAvailableStock, getStatusColor, getUrgencyColor, shouldReorder } from '../utils';
+import { checkTransition, nextTransitions } from '../workflow';
+import { activeIncidents } from '../domain';
 import {
   Check,
-  PenTool,
   Box,
   UserPlus,
   AlertOctagon,
@@ -17,123 +27,6 @@ import {
   AlertTriangle
 } from 'lucide-react';
 
-// ============================
-// INVENTARIO (DEMO) — LOCAL ONLY
-// ============================
-
-type InventoryItem = {
-  id: string;
-  sku: string;
-  name: string;
-  location: string;
-  unit: string;
-  stock: number;
-  minStock: number;
-  supplier?: string;
-  cost?: number;
-  updatedAt?: string; // ISO
-};
-
-const INVENTORY_KEY = 'metodiko_demo_inventory';
-
-const DEFAULT_INVENTORY: InventoryItem[] = [
-  {
-    id: 'P-1001',
-    sku: 'ELEC-OUT-001',
-    name: 'Outlet Universal Premium Blanco',
-    location: 'Bodega A · Estante 2',
-    unit: 'pza',
-    stock: 2,
-    minStock: 4,
-    supplier: 'Proveedor Eléctrico',
-    cost: 145,
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-1002',
-    sku: 'PLOM-EMP-012',
-    name: 'Empaque Grifo Lavabo 1/2"',
-    location: 'Caja Plomería · A-03',
-    unit: 'pza',
-    stock: 12,
-    minStock: 10,
-    supplier: 'Ferretería',
-    cost: 15,
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-1003',
-    sku: 'HVAC-CAP-035',
-    name: 'Capacitor Aire Acondicionado 35uF',
-    location: 'Bodega A · Estante 1',
-    unit: 'pza',
-    stock: 1,
-    minStock: 3,
-    supplier: 'Proveedor HVAC',
-    cost: 320,
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-1004',
-    sku: 'HVAC-REM-UNI',
-    name: 'Control Remoto MiniSplit (Universal)',
-    location: 'Recepción · Caja repuestos',
-    unit: 'pza',
-    stock: 3,
-    minStock: 2,
-    supplier: 'Proveedor HVAC',
-    cost: 220,
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-1005',
-    sku: 'ELEC-BAT-AA4',
-    name: 'Baterías AA (4 pack)',
-    location: 'Bodega B · Consumibles',
-    unit: 'pack',
-    stock: 6,
-    minStock: 4,
-    supplier: 'Proveedor General',
-    cost: 48,
-    updatedAt: new Date().toISOString()
-  }
-];
-
-const loadInventory = (): InventoryItem[] => {
-  try {
-    const raw = localStorage.getItem(INVENTORY_KEY);
-    if (!raw) return DEFAULT_INVENTORY;
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return DEFAULT_INVENTORY;
-    // normalización ligera
-    return parsed.map((x: any) => ({
-      id: String(x.id || ''),
-      sku: String(x.sku || ''),
-      name: String(x.name || ''),
-      location: String(x.location || ''),
-      unit: String(x.unit || 'pza'),
-      stock: Number.isFinite(Number(x.stock)) ? Number(x.stock) : 0,
-      minStock: Number.isFinite(Number(x.minStock)) ? Number(x.minStock) : 0,
-      supplier: x.supplier ? String(x.supplier) : undefined,
-      cost: Number.isFinite(Number(x.cost)) ? Number(x.cost) : undefined,
-      updatedAt: x.updatedAt ? String(x.updatedAt) : undefined
-    })) as InventoryItem[];
-  } catch {
-    return DEFAULT_INVENTORY;
-  }
-};
-
-const isLow = (i: InventoryItem) => i.stock <= i.minStock;
-
-const consumeFromInventory = (items: InventoryItem[], itemId: string, qty: number): InventoryItem[] => {
-  const q = Math.max(1, Math.floor(qty || 1));
-  return items.map(i => {
-    if (i.id !== itemId) return i;
-    const next = Math.max(0, i.stock - q);
-    return { ...i, stock: next, updatedAt: new Date().toISOString() };
-  });
-};
-
 const STATUS_STEPS: TicketStatus[] = [
   TicketStatus.OPEN,
   TicketStatus.IN_PROGRESS,
@@ -176,7 +69,10 @@ const TicketCard: React.FC<{ ticket: Ticket; onEdit: (t: Ticket) => void }> = ({
 
       <div className="flex justify-between items-start mb-2 mt-1">
         <div>
-          <span className="text-xs font-mono text-slate-400 block mb-1">{ticket.id}</span>
+          <span className="text-xs font-mono text-slate-400 block mb-1">
+            {folioOf(ticket)}
+            {ticket.incidentId && <span className="ml-2 font-sans font-bold text-violet-600">FALLA GENERAL</span>}
+          </span>
           <h4 className="font-bold text-lg text-slate-900 flex items-center gap-2">
             Hab {ticket.roomNumber}
             <span className="text-sm font-normal text-slate-500">· {ticket.asset}</span>
@@ -189,6 +85,12 @@ const TicketCard: React.FC<{ ticket: Ticket; onEdit: (t: Ticket) => void }> = ({
 
       <p className="text-sm text-slate-600 mb-3 truncate">{ticket.description}</p>
 
+      {ticket.sla && (
+        <div className="-mt-1 mb-3">
+          <SlaBadge ticket={ticket} />
+        </div>
+      )}
+
       <div className="flex items-center justify-between pt-3 border-t border-slate-100">
         <div className="flex items-center gap-2 text-xs">
           <span className={`${getUrgencyColor(ticket.urgency)}`}>{ticket.urgency}</span>
@@ -204,11 +106,18 @@ const TicketCard: React.FC<{ ticket: Ticket; onEdit: (t: Ticket) => void }> = ({
           <span className="text-xs text-slate-400 italic">Sin asignar</span>
         )}
       </div>
+
+      <LaborTimer ticket={ticket} />
     </div>
   );
 };
 
-const StatusTimeline: React.FC<{ status: TicketStatus }> = ({ status }) => {
+// Los pasos a los que el rol puede avanzar desde el estado actual (workflow.ts) son botones
+const StatusTimeline: React.FC<{ status: TicketStatus; next: TicketStatus[]; onPick: (to: TicketStatus) => void }> = ({
+  status,
+  next,
+  onPick,
+}) => {
   const idx = STATUS_STEPS.indexOf(status);
 
   return (
@@ -221,6 +130,18 @@ const StatusTimeline: React.FC<{ status: TicketStatus }> = ({ status }) => {
         {STATUS_STEPS.map((s, i) => {
           const done = i < idx;
           const current = i === idx;
+          if (next.includes(s)) {
+            return (
+              <button
+                key={s}
+                onClick={() => onPick(s)}
+                title={`Pasar a ${s}`}
+                className="px-2.5 py-1 rounded-full text-[11px] font-semibold border border-dashed border-slate-500 bg-white text-slate-700 hover:bg-slate-100"
+              >
+                {statusLabelShort(s)} →
+              </button>
+            );
+          }
           return (
             <div
               key={s}
@@ -238,7 +159,9 @@ const StatusTimeline: React.FC<{ status: TicketStatus }> = ({ status }) => {
         })}
       </div>
 
-      <div className="mt-3 text-[11px] text-slate-400">*Trazabilidad visible en Audit Log (quién hizo qué y cuándo).</div>
+      <div className="mt-3 text-[11px] text-slate-400">
+        *Los pasos con → son los disponibles para tu rol. Trazabilidad visible en Audit Log (quién hizo qué y cuándo).
+      </div>
     </div>
   );
 };
@@ -246,43 +169,41 @@ const StatusTimeline: React.FC<{ status: TicketStatus }> = ({ status }) => {
 const InventoryDrawer: React.FC<{
   open: boolean;
   title?: string;
-  role: Role;
-  inventory: InventoryItem[];
-  setInventory: React.Dispatch<React.SetStateAction<InventoryItem[]>>;
   onClose: () => void;
-  onPick?: (item: InventoryItem) => void; // si se usa como selector de refacción
-}> = ({ open, title = 'Inventario de Refacciones (DEMO)', role, inventory, setInventory, onClose, onPick }) => {
+  onPick?: (part: InventoryPart) => void; // si se usa como selector de refacción
+}> = ({ open, title = 'Inventario de Refacciones (DEMO)', onClose, onPick }) => {
+  const { parts, consumePart, permissions } = useApp();
   const [q, setQ] = useState('');
   const [onlyLow, setOnlyLow] = useState(false);
+  const [msg, setMsg] = useState('');
 
   useEffect(() => {
     if (!open) return;
     setQ('');
     setOnlyLow(false);
+    setMsg('');
   }, [open]);
 
-  const canConsume = role === Role.MAINTENANCE || role === Role.MANAGEMENT;
-
   const filtered = useMemo(() => {
     const term = q.trim().toLowerCase();
-    return inventory
+    return parts
       .filter(i => {
-        if (onlyLow && !isLow(i)) return false;
+        if (onlyLow && !shouldReorder(i)) return false;
         if (!term) return true;
         return (
           i.name.toLowerCase().includes(term) ||
-          i.sku.toLowerCase().includes(term) ||
-          i.location.toLowerCase().includes(term)
+          (i.sku || '').toLowerCase().includes(term) ||
+          (i.location || '').toLowerCase().includes(term)
         );
       })
       .sort((a, b) => {
         // low stock arriba
-        const al = isLow(a) ? 1 : 0;
-        const bl = isLow(b) ? 1 : 0;
+        const al = shouldReorder(a) ? 1 : 0;
+        const bl = shouldReorder(b) ? 1 : 0;
         if (al !== bl) return bl - al;
         return a.name.localeCompare(b.name);
       });
-  }, [inventory, q, onlyLow]);
+  }, [parts, q, onlyLow]);
 
   if (!open) return null;
 
@@ -328,11 +249,15 @@ const InventoryDrawer: React.FC<{
         </div>
 
         <div className="p-5 flex-1 overflow-y-auto">
+          {msg && (
+            <div className="mb-3 bg-slate-50 border border-slate-200 text-slate-700 px-4 py-2 rounded-lg text-sm">{msg}</div>
+          )}
           {filtered.length === 0 && <div className="text-sm text-slate-500">Sin resultados.</div>}
 
           <div className="space-y-3">
             {filtered.map(item => {
-              const low = isLow(item);
+              const low = shouldReorder(item);
+              const available = getAvailableStock(item);
               return (
                 <div
                   key={item.id}
@@ -349,19 +274,19 @@ const InventoryDrawer: React.FC<{
                         )}
                       </div>
                       <div className="text-[11px] text-slate-500 mt-1">
-                        <span className="font-mono text-slate-600">{item.sku}</span>
+                        <span className="font-mono text-slate-600">{item.sku || item.id}</span>
                         <span className="text-slate-300"> • </span>
-                        {item.location}
+                        {item.location || '—'}
                         <span className="text-slate-300"> • </span>
                         Unidad: <span className="font-semibold">{item.unit}</span>
                       </div>
-                      {item.supplier && (
+                      {item.preferredVendor && (
                         <div className="text-[11px] text-slate-500 mt-1">
-                          Proveedor: <span className="font-semibold">{item.supplier}</span>
-                          {Number.isFinite(item.cost) && (
+                          Proveedor: <span className="font-semibold">{item.preferredVendor}</span>
+                          {Number.isFinite(item.unitCost) && (
                             <>
                               <span className="text-slate-300"> • </span>
-                              Costo: <span className="font-semibold">${item.cost}</span>
+                              Costo: <span className="font-semibold">${item.unitCost}</span>
                             </>
                           )}
                         </div>
@@ -369,9 +294,11 @@ const InventoryDrawer: React.FC<{
                     </div>
 
                     <div className="text-right">
-                      <div className="text-xs text-slate-500">Stock</div>
-                      <div className={`text-2xl font-bold ${low ? 'text-amber-900' : 'text-slate-900'}`}>{item.stock}</div>
-                      <div className="text-[11px] text-slate-500">Mín: {item.minStock}</div>
+                      <div className="text-xs text-slate-500">Disponible</div>
+                      <div className={`text-2xl font-bold ${low ? 'text-amber-900' : 'text-slate-900'}`}>{available}</div>
+                      <div className="text-[11px] text-slate-500">
+                        Físico: {item.stockOnHand} · Reservado: {item.stockReserved} · Mín: {item.minStock}
+                      </div>
                     </div>
                   </div>
 
@@ -386,12 +313,14 @@ const InventoryDrawer: React.FC<{
                       </button>
                     )}
 
-                    {canConsume && (
+                    {permissions.canConsume && (
                       <button
                         onClick={() => {
-                          setInventory(prev => consumeFromInventory(prev, item.id, 1));
+                          const res = consumePart({ partId: item.id, qty: 1 });
+                          setMsg(res.message);
                         }}
-                        className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-white border border-slate-200 text-slate-700 text-sm font-semibold hover:bg-slate-50"
+                        disabled={available <= 0}
+                        className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-white border border-slate-200 text-slate-700 text-sm font-semibold hover:bg-slate-50 disabled:opacity-50"
                         title="Consumir 1 unidad del inventario"
                       >
                         <Package className="w-4 h-4" /> Consumir 1
@@ -409,7 +338,7 @@ const InventoryDrawer: React.FC<{
         </div>
 
         <div className="p-5 border-t border-slate-200 text-[11px] text-slate-400">
-          *DEMO: inventario local (LocalStorage). En producción se conectaría a un sistema real y control de permisos.
+          *DEMO: inventario compartido con Gerencia; cada consumo queda registrado como movimiento. En producción se conectaría a un sistema real y control de permisos.
         </div>
       </div>
     </div>
@@ -419,20 +348,24 @@ const InventoryDrawer: React.FC<{
 const TicketEditModal: React.FC<{
   ticket: Ticket | null;
   onClose: () => void;
-  inventory: InventoryItem[];
-  setInventory: React.Dispatch<React.SetStateAction<InventoryItem[]>>;
-  openInventoryPicker: (onPick: (item: InventoryItem) => void) => void;
-  roleForPerms: Role;
-}> = ({ ticket, onClose, inventory, setInventory, openInventoryPicker, roleForPerms }) => {
-  const { updateTicket, role } = useApp();
-  const [note, setNote] = useState('');
+  openInventoryPicker: (onPick: (part: InventoryPart) => void) => void;
+}> = ({ ticket, onClose, openInventoryPicker }) => {
+  const {
+    updateTicket,
+    changeTicketStatus,
+    role,
+    parts,
+    permissions,
+    rules,
+    checklists,
+    reservePartForTicket,
+    issueReservedPartForTicket,
+    consumePart,
+  } = useApp();
   const [partName, setPartName] = useState(ticket?.partName || '');
   const [vendorType, setVendorType] = useState(ticket?.vendorType || '');
   const [pendingAction, setPendingAction] = useState<null | 'PART' | 'VENDOR'>(null);
 
-  const [checkClean, setCheckClean] = useState(false);
-  const [checkWorking, setCheckWorking] = useState(false);
-
   const [selectedPartId, setSelectedPartId] = useState<string | null>(null);
   const [consumeQty, setConsumeQty] = useState(1);
   const [inlineMsg, setInlineMsg] = useState('');
@@ -445,16 +378,19 @@ const TicketEditModal: React.FC<{
     setSelectedPartId(null);
     setConsumeQty(1);
     setInlineMsg('');
-    setCheckClean(false);
-    setCheckWorking(false);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [ticket?.id]);
 
   if (!ticket) return null;
 
-  const canConsume = roleForPerms === Role.MAINTENANCE || roleForPerms === Role.MANAGEMENT;
+  const canConsume = permissions.canConsume;
+
+  // Acciones de estado disponibles para este rol (la tabla de workflow.ts manda)
+  const next = nextTransitions(ticket, role).map(tr => tr.to);
+  const resolveCheck = checkTransition(ticket, TicketStatus.RESOLVED, role, { rules });
+  const verifyCheck = checkTransition(ticket, TicketStatus.VERIFIED, role, { rules, checklists });
 
-  const selectedPart = selectedPartId ? inventory.find(i => i.id === selectedPartId) : null;
+  const selectedPart = selectedPartId ? parts.find(p => p.id === selectedPartId) : null;
 
   const flash = (msg: string) => {
     setInlineMsg(msg);
@@ -463,37 +399,43 @@ const TicketEditModal: React.FC<{
   };
 
   const handleAssign = () => {
-    updateTicket(ticket.id, { assignedTo: 'Técnico Demo' }, 'Asignado a Técnico Demo');
+    updateTicket(ticket.id, { assignedTo: DEMO_TECHNICIAN }, `Asignado a ${DEMO_TECHNICIAN}`);
   };
 
   const setStatus = (newStatus: TicketStatus, extra?: Partial<Ticket>, action?: string) => {
-    const updates: Partial<Ticket> = { status: newStatus, ...(extra || {}) };
-
-    let actionDescription = action || `Estado cambiado a ${newStatus}`;
-
-    if (newStatus === TicketStatus.RESOLVED) {
-      actionDescription = 'Marcado como Resuelto — Pendiente de verificación';
-    }
-
-    if (newStatus === TicketStatus.VERIFIED) {
-      updates.verifiedBy = role;
-      updates.closedAt = new Date().toISOString();
-      actionDescription = `Verificado y Cerrado por ${role}`;
-    }
-
-    updateTicket(ticket.id, updates, actionDescription);
-    onClose();
+    const res = changeTicketStatus(ticket.id, newStatus, { changes: extra, action });
+    if (res.ok) onClose();
+    else flash(res.message);
   };
 
-  const handleAddNote = () => {
-    if (!note.trim()) return;
-    const n = note.trim();
-    updateTicket(ticket.id, { notes: [...ticket.notes, n] }, `Nota agregada: ${n.slice(0, 28)}${n.length > 28 ? '…' : ''}`);
-    setNote('');
+  // Espera de refacción y proveedor piden datos antes de cambiar el estado
+  const goTo = (to: TicketStatus) => {
+    if (to === TicketStatus.WAITING_PART) return setPendingAction('PART');
+    if (to === TicketStatus.VENDOR) return setPendingAction('VENDOR');
+    if (to === TicketStatus.VERIFIED && !verifyCheck.ok) return flash(verifyCheck.message);
+    if (to === TicketStatus.RESOLVED && !resolveCheck.ok) return flash(resolveCheck.message);
+    setStatus(to);
   };
 
   const confirmPart = () => {
-    const name = (partName || '').trim() || (selectedPart?.name ?? 'Refacción (DEMO)');
+    if (selectedPart) {
+      const q = Math.max(1, Math.floor(Number(consumeQty || 1)));
+      const res = reservePartForTicket(ticket.id, selectedPart.id, q);
+      if (res.ok) {
+        onClose();
+        return;
+      }
+      // Sin stock suficiente: queda ligado al catálogo (sin reserva) para que Gerencia lo compre. Si ya esperaba
+      // una refacción, cambiarla solo se hace reservando
+      if (ticket.status === TicketStatus.WAITING_PART) return flash(res.message);
+      setStatus(
+        TicketStatus.WAITING_PART,
+        { needsPart: true, partId: selectedPart.id, partName: selectedPart.name, partQty: q },
+        `Marcado espera refacción: ${selectedPart.name} (x${q}) — ${res.message}`
+      );
+      return;
+    }
+    const name = (partName || '').trim() || 'Refacción (DEMO)';
     setStatus(TicketStatus.WAITING_PART, { needsPart: true, partName: name }, `Marcado espera refacción: ${name}`);
   };
 
@@ -503,11 +445,11 @@ const TicketEditModal: React.FC<{
   };
 
   const pickPartFromInventory = () => {
-    openInventoryPicker((item) => {
+    openInventoryPicker((part) => {
       setPendingAction('PART');
-      setSelectedPartId(item.id);
-      setPartName(item.name);
-      flash(`Seleccionado: ${item.name}`);
+      setSelectedPartId(part.id);
+      setPartName(part.name);
+      flash(`Seleccionado: ${part.name}`);
     });
   };
 
@@ -517,17 +459,13 @@ const TicketEditModal: React.FC<{
       flash('Selecciona una refacción del inventario.');
       return;
     }
-    const q = Math.max(1, Math.floor(Number(consumeQty || 1)));
-    if (selectedPart.stock < q) {
-      flash(`Stock insuficiente (disponible: ${selectedPart.stock}).`);
-      return;
-    }
-
-    setInventory(prev => consumeFromInventory(prev, selectedPart.id, q));
 
-    const noteLine = `Consumido de inventario: ${selectedPart.name} (${selectedPart.sku}) x${q}`;
-    updateTicket(ticket.id, { notes: [...ticket.notes, noteLine] }, noteLine);
-    flash('Consumo registrado en inventario y en notas.');
+    // Si el ticket ya tiene esta refacción reservada, se consume la reserva (no el disponible)
+    const holdsReservation = ticket.partId === selectedPart.id && !!ticket.reservedQty;
+    const res = holdsReservation
+      ? issueReservedPartForTicket(ticket.id, `Consumo desde ticket ${folioOf(ticket)}`)
+      : consumePart({ partId: selectedPart.id, qty: consumeQty, ticketId: ticket.id });
+    flash(res.ok ? 'Consumo registrado en inventario y en notas.' : res.message);
   };
 
   return (
@@ -535,7 +473,7 @@ const TicketEditModal: React.FC<{
       <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto flex flex-col">
         <div className="p-6 border-b border-slate-200 flex justify-between items-start">
           <div>
-            <span className="text-xs font-mono text-slate-400">{ticket.id}</span>
+            <span className="text-xs font-mono text-slate-400">{folioOf(ticket)}</span>
             <h2 className="text-2xl font-bold text-slate-900">Habitación {ticket.roomNumber}</h2>
             <div className="text-sm text-slate-500 mt-1">
               {ticket.asset} — {ticket.issueType} · <span className="font-semibold">{ticket.createdBy}</span>
@@ -551,7 +489,9 @@ const TicketEditModal: React.FC<{
             </div>
           )}
 
-          <StatusTimeline status={ticket.status} />
+          <IncidentNotice ticket={ticket} />
+
+          <StatusTimeline status={ticket.status} next={next} onPick={goTo} />
 
           {/* Actions */}
           <div className="flex flex-wrap gap-2 pb-6 border-b border-slate-100">
@@ -561,35 +501,58 @@ const TicketEditModal: React.FC<{
               </Button>
             )}
 
-            {ticket.status !== TicketStatus.RESOLVED && ticket.status !== TicketStatus.VERIFIED && (
-              <>
-                <Button onClick={() => setStatus(TicketStatus.IN_PROGRESS)} size="sm" variant={ticket.status === TicketStatus.IN_PROGRESS ? 'primary' : 'ghost'}>
-                  En Proceso
-                </Button>
+            {(next.includes(TicketStatus.IN_PROGRESS) || ticket.status === TicketStatus.IN_PROGRESS) && (
+              <Button
+                onClick={() => goTo(TicketStatus.IN_PROGRESS)}
+                disabled={ticket.status === TicketStatus.IN_PROGRESS}
+                size="sm"
+                variant={ticket.status === TicketStatus.IN_PROGRESS ? 'primary' : 'ghost'}
+              >
+                En Proceso
+              </Button>
+            )}
 
-                <Button
-                  onClick={() => setPendingAction('PART')}
-                  size="sm"
-                  variant={ticket.status === TicketStatus.WAITING_PART ? 'primary' : 'ghost'}
-                >
-                  <Box className="w-4 h-4 mr-1" /> Falta Pieza
-                </Button>
+            {(next.includes(TicketStatus.WAITING_PART) || ticket.status === TicketStatus.WAITING_PART) && (
+              <Button
+                onClick={() => setPendingAction('PART')}
+                size="sm"
+                variant={ticket.status === TicketStatus.WAITING_PART ? 'primary' : 'ghost'}
+              >
+                <Box className="w-4 h-4 mr-1" /> Falta Pieza
+              </Button>
+            )}
 
-                <Button
-                  onClick={() => setPendingAction('VENDOR')}
-                  size="sm"
-                  variant={ticket.status === TicketStatus.VENDOR ? 'primary' : 'ghost'}
-                >
-                  <AlertOctagon className="w-4 h-4 mr-1" /> Proveedor
-                </Button>
+            {(next.includes(TicketStatus.VENDOR) || ticket.status === TicketStatus.VENDOR) && (
+              <Button
+                onClick={() => setPendingAction('VENDOR')}
+                size="sm"
+                variant={ticket.status === TicketStatus.VENDOR ? 'primary' : 'ghost'}
+              >
+                <AlertOctagon className="w-4 h-4 mr-1" /> Proveedor
+              </Button>
+            )}
+
+            {next.includes(TicketStatus.RESOLVED) && (
+              <Button
+                onClick={() => goTo(TicketStatus.RESOLVED)}
+                disabled={!resolveCheck.ok}
+                title={resolveCheck.ok ? undefined : resolveCheck.message}
+                size="sm"
+                className="bg-emerald-600 hover:bg-emerald-700 text-white"
+              >
+                <Check className="w-4 h-4 mr-1" /> Resolver
+              </Button>
+            )}
 
-                <Button onClick={() => setStatus(TicketStatus.RESOLVED)} size="sm" className="bg-emerald-600 hover:bg-emerald-700 text-white">
-                  <Check className="w-4 h-4 mr-1" /> Resolver
-                </Button>
-              </>
+            {next.length === 0 && ticket.status !== TicketStatus.VERIFIED && (
+              <span className="text-xs text-slate-400 self-center">Tu rol no tiene acciones de estado para este ticket.</span>
             )}
           </div>
 
+          {next.includes(TicketStatus.RESOLVED) && !resolveCheck.ok && (
+            <div className="-mt-4 text-xs text-amber-700">{resolveCheck.message}</div>
+          )}
+
           {/* Inline action panels (sin prompt) */}
           {pendingAction === 'PART' && ticket.status !== TicketStatus.VERIFIED && (
             <div className="bg-amber-50 border border-amber-100 rounded-lg p-4">
@@ -629,11 +592,14 @@ const TicketEditModal: React.FC<{
                   <div className="text-xs font-bold text-slate-700">Inventario seleccionado</div>
                   <div className="text-sm font-semibold text-slate-900 mt-1">{selectedPart.name}</div>
                   <div className="text-[11px] text-slate-500 mt-1">
-                    <span className="font-mono">{selectedPart.sku}</span>
+                    <span className="font-mono">{selectedPart.sku || selectedPart.id}</span>
                     <span className="text-slate-300"> • </span>
-                    {selectedPart.location}
+                    {selectedPart.location || '—'}
                     <span className="text-slate-300"> • </span>
-                    Stock: <span className={`font-bold ${isLow(selectedPart) ? 'text-amber-800' : 'text-slate-900'}`}>{selectedPart.stock}</span>
+                    Disponible:{' '}
+                    <span className={`font-bold ${shouldReorder(selectedPart) ? 'text-amber-800' : 'text-slate-900'}`}>
+                      {getAvailableStock(selectedPart)}
+                    </span>
                     <span className="text-slate-300"> / </span>
                     Mín: <span className="font-semibold">{selectedPart.minStock}</span>
                   </div>
@@ -641,7 +607,7 @@ const TicketEditModal: React.FC<{
                   {canConsume && (
                     <div className="mt-3 flex flex-wrap gap-2 items-center justify-end">
                       <div className="flex items-center gap-2">
-                        <span className="text-xs text-slate-600">Consumir</span>
+                        <span className="text-xs text-slate-600">Cantidad</span>
                         <input
                           type="number"
                           min={1}
@@ -682,34 +648,9 @@ const TicketEditModal: React.FC<{
           )}
 
           {/* Resolved -> Verification */}
-          {ticket.status === TicketStatus.RESOLVED && (
-            <div className="bg-emerald-50 border border-emerald-100 p-4 rounded-lg">
-              <h4 className="text-emerald-800 font-bold text-sm mb-2">Checklist de Verificación</h4>
-              <div className="space-y-2 mb-3">
-                <label className="flex items-center gap-2 text-sm text-slate-700">
-                  <input
-                    type="checkbox"
-                    className="rounded text-emerald-600"
-                    checked={checkClean}
-                    onChange={(e) => setCheckClean(e.target.checked)}
-                  />
-                  El área quedó limpia
-                </label>
-                <label className="flex items-center gap-2 text-sm text-slate-700">
-                  <input
-                    type="checkbox"
-                    className="rounded text-emerald-600"
-                    checked={checkWorking}
-                    onChange={(e) => setCheckWorking(e.target.checked)}
-                  />
-                  El activo funciona correctamente
-                </label>
-              </div>
-              <Button onClick={() => setStatus(TicketStatus.VERIFIED)} disabled={!(checkClean && checkWorking)} size="sm" className="w-full">
-                Confirmar y Cerrar
-              </Button>
-            </div>
-          )}
+          {next.includes(TicketStatus.VERIFIED) && <VerificationChecklist ticket={ticket} onVerified={onClose} />}
+
+          <ReopenPanel ticket={ticket} onReopened={onClose} />
 
           {/* Details + Notes */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -730,31 +671,19 @@ const TicketEditModal: React.FC<{
               </div>
             </div>
 
-            <div>
-              <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">Notas Técnicas</h4>
-              <div className="space-y-2 mb-2 max-h-40 overflow-y-auto">
-                {ticket.notes.length === 0 && <p className="text-xs text-slate-400 italic">Sin notas.</p>}
-                {ticket.notes.map((n, i) => (
-                  <div key={i} className="bg-yellow-50 p-2 rounded border border-yellow-100 text-xs text-slate-700">
-                    {n}
-                  </div>
-                ))}
-              </div>
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  value={note}
-                  onChange={(e) => setNote(e.target.value)}
-                  className="flex-1 border border-slate-300 rounded px-2 py-1 text-sm focus:outline-none focus:border-slate-500"
-                  placeholder="Agregar nota..."
-                />
-                <Button onClick={handleAddNote} size="sm" variant="secondary">
-                  <PenTool className="w-3 h-3" />
-                </Button>
-              </div>
-            </div>
+            <NotesPanel ticket={ticket} />
           </div>
 
+          <SlaDetails ticket={ticket} />
+
+          <PriorityBreakdown ticket={ticket} />
+
+          <AttachmentsPanel ticket={ticket} />
+
+          {ticket.status === TicketStatus.VERIFIED && <ChecklistSummary ticket={ticket} />}
+
+          <LaborPanel ticket={ticket} />
+
           {/* Audit Log */}
           <div>
             <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">Audit Log</h4>
@@ -779,28 +708,23 @@ const TicketEditModal: React.FC<{
 };
 
 export const MaintenanceView: React.FC = () => {
-  const { tickets, role } = useApp();
+  const { tickets, parts, incidents } = useApp();
   const [filter, setFilter] = useState<'ALL' | 'URGENT' | 'CLOSED'>('ALL');
-  const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
 
-  // INVENTORY STATE (shared via LocalStorage)
-  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  // INVENTARIO: compartido vía AppContext (mismo stock que Gerencia)
   const [invOpen, setInvOpen] = useState(false);
-  const [invPick, setInvPick] = useState<null | ((item: InventoryItem) => void)>(null);
+  const [invPick, setInvPick] = useState<null | ((part: InventoryPart) => void)>(null);
 
-  useEffect(() => {
-    setInventory(loadInventory());
-  }, []);
+  // El modal siempre lee la versión vigente del ticket (no una copia al abrir)
+  const selectedTicket = useMemo(
+    () => (selectedTicketId ? tickets.find(t => t.id === selectedTicketId) || null : null),
+    [tickets, selectedTicketId]
+  );
 
-  useEffect(() => {
-    try {
-      localStorage.setItem(INVENTORY_KEY, JSON.stringify(inventory));
-    } catch {
-      // ignore
-    }
-  }, [inventory]);
+  const lowCount = useMemo(() => parts.filter(shouldReorder).length, [parts]);
 
-  const lowCount = useMemo(() => inventory.filter(isLow).length, [inventory]);
+  const liveIncidents = useMemo(() => activeIncidents(incidents), [incidents]);
 
   const filteredTickets = useMemo(() => {
     return tickets.filter(t => {
@@ -816,7 +740,7 @@ export const MaintenanceView: React.FC = () => {
     setInvOpen(true);
   };
 
-  const openInventoryPicker = (onPick: (item: InventoryItem) => void) => {
+  const openInventoryPicker = (onPick: (part: InventoryPart) => void) => {
     setInvPick(() => onPick);
     setInvOpen(true);
   };
@@ -872,35 +796,37 @@ export const MaintenanceView: React.FC = () => {
         </div>
       </div>
 
+      {filter !== 'CLOSED' && liveIncidents.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
+          {liveIncidents.map(i => (
+            <IncidentCard key={i.id} incident={i} onOpenTicket={t => setSelectedTicketId(t.id)} />
+          ))}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
         {filteredTickets.map(ticket => (
-          <TicketCard key={ticket.id} ticket={ticket} onEdit={setSelectedTicket} />
+          <TicketCard key={ticket.id} ticket={ticket} onEdit={t => setSelectedTicketId(t.id)} />
         ))}
       </div>
 
       {selectedTicket && (
         <TicketEditModal
           ticket={selectedTicket}
-          onClose={() => setSelectedTicket(null)}
-          inventory={inventory}
-          setInventory={setInventory}
+          onClose={() => setSelectedTicketId(null)}
           openInventoryPicker={openInventoryPicker}
-          roleForPerms={role}
         />
       )}
 
       <InventoryDrawer
         open={invOpen}
-        role={role}
-        inventory={inventory}
-        setInventory={setInventory}
         onClose={() => {
           setInvOpen(false);
           setInvPick(null);
         }}
-        onPick={invPick ? (item) => {
+        onPick={invPick ? (part) => {
           // pick mode: seleccionar para ticket
-          invPick(item);
+          invPick(part);
           setInvOpen(false);
           setInvPick(null);
         } : undefined}
@@ -1,7 +1,7 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useApp } from '../AppContext';
-import { Impact, Ticket, TicketStatus, Urgency } from '../types';
-import { ROOMS } from '../constants';
+import { ChecklistTemplate, Impact, Incident, InventoryPart, POStatus, PurchaseOrder, Ticket, TicketStatus, Urgency } from '../types';
+import { ASSETS, ISSUE_TYPES, ROOMS } from '../constants';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import {
   ArrowUpRight,
@@ -24,150 +24,64 @@ import {
   Plus,
   FileText,
   ShieldCheck,
-  BadgeCheck
+  BadgeCheck,
+  History,
+  RotateCcw,
+  Siren,
+  SlidersHorizontal,
+  ClipboardCheck,
+  Timer,
+  Hourglass,
+  Wallet,
+  BellRing,
+  Zap
 } from 'lucide-react';
-import { getStatusColor, getUrgencyColor } from '../utils';
+import {
+  folioOf,
+  formatMinutes,
+  formatMoney,
+  getAvailableStock,
+  getOnOrderQty,
+  getPartIdFromTicket,
+  getPOStatusColor,
+  getStatusColor,
+  getStockBadge,
+  getUrgencyColor,
+  isLowStock,
+  isOpenPO,
+  isOutOfStock,
+  shouldReorder,
+  suggestedReorderQty
+} from '../utils';
+import { describeEvent } from '../events';
+import { Button } from '../components/Button';
+import { daysToReopen, ReopenPanel } from '../components/ReopenPanel';
+import { DeclareIncidentForm, IncidentCard, IncidentNotice } from '../components/IncidentPanel';
+import { NotesPanel } from '../components/NotesPanel';
+import { AttachmentsPanel } from '../components/AttachmentsPanel';
+import { LaborPanel } from '../components/LaborPanel';
+import { CostBreakdown } from '../components/CostPanel';
+import { ChecklistSummary } from '../components/ChecklistPanel';
+import { SlaBadge, SlaDetails } from '../components/SlaBadge';
+import { PriorityBreakdown } from '../components/PriorityBreakdown';
+import { COST_KIND_LABELS, CostGrouping, costLines, costTotals, periodStart } from '../costs';
+import { ROOM_TYPES, SlaPolicy, slaAtRisk, slaStatus } from '../sla';
+import { PriorityWeights, rerank } from '../priority';
+import { ESCALATION_ACTION_LABELS, EscalationAction, EscalationRule, openNotices } from '../escalation';
+import { activeIncidents, laborMinutes, runningSession, sessionTechnicians } from '../domain';
+import { checklistName, RULE_LABELS, WorkflowRules } from '../workflow';
 
 // ===============================
-// INVENTARIO (DEMO LOCAL)
+// INVENTARIO: helpers
 // ===============================
 
-type InventoryItem = {
-  id: string;
-  name: string;
-  unit: string;
-  onHand: number;
-  min: number;
-  reorderTo: number;
-  location?: string;
-  updatedAt?: string;
-};
-
-type POItem = { partId: string; name: string; qty: number };
-
-type PurchaseOrder = {
-  id: string;
-  createdAt: string;
-  status: 'BORRADOR' | 'ENVIADA' | 'RECIBIDA';
-  items: POItem[];
-  notes?: string;
-};
-
-const INVENTORY_STORAGE_KEY = 'metodiko_demo_inventory_v1';
-const PO_STORAGE_KEY = 'metodiko_demo_purchase_orders_v1';
-
+// Compat: tickets antiguos sin partId se vinculan por nombre normalizado
 const normalizePart = (s: string) =>
   String(s || '')
     .trim()
     .toLowerCase()
     .replace(/\s+/g, ' ');
 
-const DEFAULT_INVENTORY: InventoryItem[] = [
-  {
-    id: 'P-001',
-    name: 'Outlet Universal Premium Blanco',
-    unit: 'pza',
-    onHand: 0,
-    min: 2,
-    reorderTo: 6,
-    location: 'Almacén',
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-002',
-    name: 'Empaque lavabo (universal)',
-    unit: 'pza',
-    onHand: 12,
-    min: 5,
-    reorderTo: 20,
-    location: 'Almacén',
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-003',
-    name: 'Capacitor HVAC 35uF',
-    unit: 'pza',
-    onHand: 1,
-    min: 2,
-    reorderTo: 6,
-    location: 'Almacén',
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-004',
-    name: 'Baterías AA (Pack)',
-    unit: 'pack',
-    onHand: 3,
-    min: 2,
-    reorderTo: 8,
-    location: 'Recepción',
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-005',
-    name: 'Filtro AC (standard)',
-    unit: 'pza',
-    onHand: 0,
-    min: 4,
-    reorderTo: 12,
-    location: 'Almacén',
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-006',
-    name: 'Cable HDMI 2m',
-    unit: 'pza',
-    onHand: 5,
-    min: 2,
-    reorderTo: 10,
-    location: 'Almacén',
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'P-007',
-    name: 'Silicón sanitario',
-    unit: 'tubo',
-    onHand: 1,
-    min: 2,
-    reorderTo: 6,
-    location: 'Almacén',
-    updatedAt: new Date().toISOString()
-  }
-];
-
-const stockBadge = (onHand: number, min: number) => {
-  if (onHand <= 0) {
-    return {
-      label: 'SIN STOCK',
-      cls: 'bg-rose-100 text-rose-800 border-rose-200'
-    };
-  }
-  if (onHand <= min) {
-    return {
-      label: 'BAJO',
-      cls: 'bg-amber-100 text-amber-800 border-amber-200'
-    };
-  }
-  return {
-    label: 'OK',
-    cls: 'bg-emerald-100 text-emerald-800 border-emerald-200'
-  };
-};
-
-const suggestedReorder = (item: InventoryItem) => {
-  if (item.onHand <= 0) return Math.max(0, item.reorderTo);
-  if (item.onHand <= item.min) return Math.max(0, item.reorderTo - item.onHand);
-  return 0;
-};
-
-const nextPOId = (existing: PurchaseOrder[]) => {
-  const max = existing.reduce((m, po) => {
-    const n = parseInt(String(po.id).replace(/\D/g, ''), 10);
-    return Number.isFinite(n) ? Math.max(m, n) : m;
-  }, 2000);
-  return `PO-${max + 1}`;
-};
-
 // ===============================
 // UI
 // ===============================
@@ -349,10 +263,11 @@ const TourOverlay: React.FC<{
 
 const RoomMap: React.FC<{
   tickets: Ticket[];
+  incidents: Incident[];
   onSelectRoom: (room: string) => void;
   roomHot: Record<string, boolean>;
   roomRecurrent: Record<string, boolean>;
-}> = ({ tickets, onSelectRoom, roomHot, roomRecurrent }) => {
+}> = ({ tickets, incidents, onSelectRoom, roomHot, roomRecurrent }) => {
   const roomState = useMemo(() => {
     const map: Record<string, { state: 'OK' | 'PENDING' | 'CRITICAL'; occupied: boolean; count: number }> = {};
     ROOMS.forEach(r => {
@@ -365,6 +280,17 @@ const RoomMap: React.FC<{
     return map;
   }, [tickets]);
 
+  // Habitación → falla general activa que la afecta (se marcan todas con el mismo contorno)
+  const live = activeIncidents(incidents);
+  const roomIncident = useMemo(() => {
+    const map: Record<string, Incident> = {};
+    tickets.forEach(t => {
+      const inc = t.status !== TicketStatus.VERIFIED && live.find(i => i.id === t.incidentId);
+      if (inc) map[t.roomNumber] = inc;
+    });
+    return map;
+  }, [tickets, incidents]);
+
   const badgeClass = (state: string) => {
     if (state === 'CRITICAL') return 'bg-rose-100 border-rose-200 text-rose-800';
     if (state === 'PENDING') return 'bg-amber-50 border-amber-200 text-amber-800';
@@ -382,18 +308,37 @@ const RoomMap: React.FC<{
       </div>
 
       <div className="p-6">
+        {live.length > 0 && (
+          <div className="mb-4 space-y-2">
+            {live.map(i => {
+              const rooms = ROOMS.filter(r => roomIncident[r.number]?.id === i.id).length;
+              return (
+                <div key={i.id} className="flex items-center gap-2 text-xs bg-violet-50 border border-violet-200 text-violet-900 rounded-lg px-3 py-2">
+                  <Siren className="w-4 h-4" />
+                  <span className="font-mono">{folioOf(i)}</span>
+                  <span className="font-semibold">{i.title}</span>
+                  <span className="text-violet-700">· {i.status} · {rooms} habitación(es)</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         <div className="grid grid-cols-5 sm:grid-cols-10 gap-2">
           {ROOMS.map(r => {
             const s = roomState[r.number];
             const hot = !!roomHot[r.number];
             const rec = !!roomRecurrent[r.number];
+            const inc = roomIncident[r.number];
 
             return (
               <button
                 key={r.number}
                 onClick={() => onSelectRoom(r.number)}
-                className={`relative rounded-lg border px-2 py-3 text-left transition-all hover:shadow-sm ${badgeClass(s.state)}`}
-                title={`Hab ${r.number} — ${s.state} — ${s.count} ticket(s)`}
+                className={`relative rounded-lg border px-2 py-3 text-left transition-all hover:shadow-sm ${badgeClass(s.state)} ${
+                  inc ? 'ring-2 ring-violet-400' : ''
+                }`}
+                title={`Hab ${r.number} — ${s.state} — ${s.count} ticket(s)${inc ? ` — ${folioOf(inc)}: ${inc.title}` : ''}`}
               >
                 <div className="text-sm font-bold">{r.number}</div>
                 <div className="text-[10px] font-medium opacity-80">
@@ -447,6 +392,9 @@ const RoomMap: React.FC<{
           <span className="inline-flex items-center gap-2">
             <span className="px-1.5 py-0.5 rounded bg-white border text-slate-900 text-[9px] font-bold">R</span> Recurrente
           </span>
+          <span className="inline-flex items-center gap-2">
+            <span className="w-3 h-3 rounded ring-2 ring-violet-400 inline-block" /> Falla general
+          </span>
         </div>
       </div>
     </div>
@@ -508,7 +456,7 @@ const RoomTicketsModal: React.FC<{
               <div className="flex items-start justify-between gap-3">
                 <div>
                   <div className="text-xs font-mono text-slate-400 flex items-center gap-2">
-                    {t.id}
+                    {folioOf(t)}
                     {isRec(t) && (
                       <span className="text-[10px] font-bold bg-white border border-slate-200 text-slate-900 px-2 py-0.5 rounded-full">
                         Recurrente
@@ -538,6 +486,52 @@ const RoomTicketsModal: React.FC<{
   );
 };
 
+// Gerencia: otros tickets abiertos que parecen la misma falla, para fusionarlos en el que se está viendo
+const DuplicatesSection: React.FC<{ ticket: Ticket; onMerged: () => void }> = ({ ticket, onMerged }) => {
+  const { likelyDuplicatesOf, mergeTickets, permissions } = useApp();
+  const [error, setError] = useState<string | null>(null);
+  const duplicates = likelyDuplicatesOf(ticket);
+  if (ticket.status === TicketStatus.VERIFIED || duplicates.length === 0) return null;
+
+  const merge = (ids: string[]) => {
+    const res = mergeTickets(ticket.id, ids);
+    if (res.ok) onMerged();
+    else setError(res.message);
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-bold text-amber-800 uppercase">Posibles duplicados ({duplicates.length})</div>
+        {permissions.canMergeTickets && duplicates.length > 1 && (
+          <button onClick={() => merge(duplicates.map(d => d.id))} className="text-xs font-semibold text-amber-800 underline">
+            Fusionar todos aquí
+          </button>
+        )}
+      </div>
+      <div className="mt-2 space-y-2">
+        {duplicates.map(d => (
+          <div key={d.id} className="bg-white border border-amber-100 rounded-md px-3 py-2 flex items-start justify-between gap-3">
+            <div className="text-xs text-slate-700 min-w-0">
+              <span className="font-mono text-slate-400">{folioOf(d)}</span> · {d.status} · {d.createdBy}
+              <div className="text-slate-500 truncate">{d.description}</div>
+            </div>
+            {permissions.canMergeTickets && (
+              <Button size="sm" variant="secondary" onClick={() => merge([d.id])}>
+                Fusionar aquí
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+      {error && <div className="text-xs text-rose-600 mt-2">{error}</div>}
+      <div className="mt-2 text-[11px] text-amber-700">
+        *Al fusionar, notas, historial y reportantes pasan a {folioOf(ticket)}; los duplicados dejan de aparecer.
+      </div>
+    </div>
+  );
+};
+
 const TicketDetailModal: React.FC<{
   ticket: Ticket | null;
   onClose: () => void;
@@ -551,7 +545,7 @@ const TicketDetailModal: React.FC<{
       <div id="ticket-detail-modal" className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6 border-b border-slate-200 flex justify-between items-start">
           <div>
-            <div className="text-xs font-mono text-slate-400">{ticket.id}</div>
+            <div className="text-xs font-mono text-slate-400">{folioOf(ticket)}</div>
             <h3 className="text-2xl font-bold text-slate-900">Hab {ticket.roomNumber}</h3>
             <div className="text-sm text-slate-500 mt-1">
               {ticket.asset} — {ticket.issueType}
@@ -569,6 +563,7 @@ const TicketDetailModal: React.FC<{
               {ticket.isOccupied && (
                 <span className="text-[10px] font-bold bg-rose-500 text-white px-2 py-0.5 rounded-full">OCUPADA</span>
               )}
+              {ticket.guestVip && <span className="text-[10px] font-bold bg-amber-400 text-white px-2 py-0.5 rounded-full">VIP</span>}
             </div>
           </div>
           <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
@@ -598,7 +593,13 @@ const TicketDetailModal: React.FC<{
               </div>
               <div className="text-sm text-slate-700 mt-2">
                 <span className="font-semibold">Origen:</span> {ticket.createdBy}
+                {ticket.reporters?.length ? ` (+ ${ticket.reporters.join(', ')})` : ''}
               </div>
+              {ticket.mergedFrom?.length ? (
+                <div className="text-sm text-slate-700 mt-2">
+                  <span className="font-semibold">Fusionó:</span> {ticket.mergedFrom.join(', ')}
+                </div>
+              ) : null}
               <div className="text-sm text-slate-700 mt-2">
                 <span className="font-semibold">Antigüedad:</span> {daysBetween(ticket.createdAt)} día(s)
               </div>
@@ -621,6 +622,26 @@ const TicketDetailModal: React.FC<{
             </div>
           </div>
 
+          <IncidentNotice ticket={ticket} />
+
+          <DuplicatesSection ticket={ticket} onMerged={onClose} />
+
+          <ReopenPanel ticket={ticket} onReopened={onClose} />
+
+          <SlaDetails ticket={ticket} />
+
+          <PriorityBreakdown ticket={ticket} />
+
+          <NotesPanel ticket={ticket} />
+
+          <AttachmentsPanel ticket={ticket} />
+
+          <ChecklistSummary ticket={ticket} />
+
+          <LaborPanel ticket={ticket} />
+
+          <CostBreakdown ticket={ticket} />
+
           <div>
             <div className="text-xs font-bold text-slate-400 uppercase mb-2">Audit log (DEMO)</div>
             <div className="border-l-2 border-slate-200 pl-4 space-y-4 max-h-64 overflow-y-auto">
@@ -650,14 +671,17 @@ const TicketDetailModal: React.FC<{
 // ===============================
 
 const InventoryRow: React.FC<{
-  item: InventoryItem;
+  item: InventoryPart;
   linkedTickets: Ticket[];
+  onOrder: number;
   onAdjust: (delta: number) => void;
-  onReceiveToReorder: () => void;
+  onOrderToReorder: () => void;
   onQuickConsume: () => void;
-}> = ({ item, linkedTickets, onAdjust, onReceiveToReorder, onQuickConsume }) => {
-  const badge = stockBadge(item.onHand, item.min);
-  const reco = suggestedReorder(item);
+  onSetCost?: (unitCost: number) => void; // solo si el rol captura costos
+}> = ({ item, linkedTickets, onOrder, onAdjust, onOrderToReorder, onQuickConsume, onSetCost }) => {
+  const badge = getStockBadge(item);
+  const available = getAvailableStock(item);
+  const reco = shouldReorder(item) ? Math.max(0, suggestedReorderQty(item) - onOrder) : 0;
 
   return (
     <tr className="hover:bg-slate-50">
@@ -670,17 +694,31 @@ const InventoryRow: React.FC<{
             Ubicación: <span className="font-semibold text-slate-500">{item.location || '—'}</span>
           </span>
         </div>
+        <div className="text-[11px] text-slate-400 flex items-center gap-1 mt-1">
+          Costo unitario:
+          {onSetCost ? (
+            <RateInput value={item.unitCost} placeholder="—" onCommit={v => v !== null && onSetCost(v)} />
+          ) : (
+            <span className="font-semibold text-slate-500">{item.unitCost === undefined ? '—' : formatMoney(item.unitCost)}</span>
+          )}
+        </div>
       </td>
 
       <td className="px-4 py-3 whitespace-nowrap">
-        <Pill className={badge.cls}>{badge.label}</Pill>
+        <Pill className={badge.className}>{badge.label}</Pill>
       </td>
 
       <td className="px-4 py-3 whitespace-nowrap">
         <div className="text-sm text-slate-700">
-          <span className="font-bold text-slate-900">{item.onHand}</span> <span className="text-slate-400">{item.unit}</span>
+          <span className="font-bold text-slate-900">{available}</span> <span className="text-slate-400">{item.unit} disp.</span>
+        </div>
+        <div className="text-[11px] text-slate-400">
+          Físico: {item.stockOnHand} · Reservado: {item.stockReserved}
+        </div>
+        <div className="text-[11px] text-slate-400">
+          Mín: {item.minStock} · Reordenar a: {item.reorderTo ?? item.minStock * 2}
         </div>
-        <div className="text-[11px] text-slate-400">Mín: {item.min} · Reordenar a: {item.reorderTo}</div>
+        {onOrder > 0 && <div className="text-[11px] font-semibold text-blue-700">En OC abierta: {onOrder}</div>}
       </td>
 
       <td className="px-4 py-3">
@@ -690,7 +728,7 @@ const InventoryRow: React.FC<{
           <div className="space-y-1">
             {linkedTickets.slice(0, 3).map(t => (
               <div key={t.id} className="text-[11px]">
-                <span className="font-mono text-slate-400">{t.id}</span>
+                <span className="font-mono text-slate-400">{folioOf(t)}</span>
                 <span className="text-slate-300"> · </span>
                 <span className="font-semibold text-slate-700">Hab {t.roomNumber}</span>
                 <span className="text-slate-300"> · </span>
@@ -721,9 +759,9 @@ const InventoryRow: React.FC<{
 
           <button
             onClick={onQuickConsume}
-            disabled={item.onHand <= 0}
+            disabled={available <= 0}
             className={`inline-flex items-center gap-2 px-3 h-9 rounded-lg border text-xs font-semibold ${
-              item.onHand <= 0
+              available <= 0
                 ? 'bg-slate-50 border-slate-200 text-slate-300'
                 : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'
             }`}
@@ -733,11 +771,12 @@ const InventoryRow: React.FC<{
           </button>
 
           <button
-            onClick={onReceiveToReorder}
-            className="inline-flex items-center gap-2 px-3 h-9 rounded-lg bg-slate-900 text-white text-xs font-semibold hover:bg-slate-800"
-            title="Simular recepción de compra (reponer a nivel objetivo)"
+            onClick={onOrderToReorder}
+            disabled={reco <= 0}
+            className="inline-flex items-center gap-2 px-3 h-9 rounded-lg bg-slate-900 text-white text-xs font-semibold hover:bg-slate-800 disabled:opacity-40"
+            title="Generar OC por la cantidad sugerida (reponer a nivel objetivo)"
           >
-            <Package className="w-4 h-4" /> Recibir
+            <Package className="w-4 h-4" /> Pedir
             {reco > 0 && <span className="ml-1 bg-white/15 px-2 py-0.5 rounded-full">+{reco}</span>}
           </button>
         </div>
@@ -747,23 +786,31 @@ const InventoryRow: React.FC<{
 };
 
 const PurchaseOrderModal: React.FC<{
-  open: boolean;
-  onClose: () => void;
   po: PurchaseOrder | null;
-}> = ({ open, onClose, po }) => {
-  if (!open || !po) return null;
+  onClose: () => void;
+  onSend: () => void;
+  onReceive: () => void;
+  onCancel: () => void;
+}> = ({ po, onClose, onSend, onReceive, onCancel }) => {
+  if (!po) return null;
+
+  const open = isOpenPO(po);
 
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[80] p-4">
       <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full overflow-hidden">
         <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
           <div>
-            <div className="text-xs font-mono text-slate-400">{po.id}</div>
+            <div className="text-xs font-mono text-slate-400">{folioOf(po)}</div>
             <div className="text-xl font-bold text-slate-900 flex items-center gap-2">
               Orden de Compra (DEMO)
-              <Pill className="bg-slate-100 text-slate-800 border-slate-200">{po.status}</Pill>
+              <Pill className={getPOStatusColor(po.status)}>{po.status}</Pill>
             </div>
             <div className="text-sm text-slate-500 mt-1">Generada: {new Date(po.createdAt).toLocaleString()}</div>
+            <div className="text-sm text-slate-500">
+              Proveedor: <span className="font-semibold text-slate-700">{po.vendor}</span>
+              {po.etaDate && open && <> · ETA: {new Date(po.etaDate).toLocaleDateString()}</>}
+            </div>
           </div>
           <button onClick={onClose} className="text-slate-400 hover:text-slate-700">
             <X className="w-5 h-5" />
@@ -777,10 +824,12 @@ const PurchaseOrderModal: React.FC<{
               {po.items.map(it => (
                 <div key={it.partId} className="flex items-center justify-between">
                   <div>
-                    <div className="font-semibold text-slate-900">{it.name}</div>
+                    <div className="font-semibold text-slate-900">{it.partName}</div>
                     <div className="text-[11px] text-slate-400 font-mono">{it.partId}</div>
                   </div>
-                  <div className="text-lg font-bold text-slate-900">{it.qty}</div>
+                  <div className="text-lg font-bold text-slate-900">
+                    {it.qty} <span className="text-xs font-normal text-slate-400">{it.unit}</span>
+                  </div>
                 </div>
               ))}
             </div>
@@ -797,7 +846,7 @@ const PurchaseOrderModal: React.FC<{
             </div>
             <div className="bg-white border border-slate-200 rounded-xl p-4">
               <div className="text-xs font-bold text-slate-400 uppercase mb-1">Trazabilidad</div>
-              <div className="text-sm text-slate-600">Registro local (DEMO) — no integra ERP.</div>
+              <div className="text-sm text-slate-600">Cada paso (creada/enviada/recibida) queda como movimiento de inventario.</div>
             </div>
           </div>
 
@@ -806,7 +855,31 @@ const PurchaseOrderModal: React.FC<{
           </div>
         </div>
 
-        <div className="px-6 py-4 border-t border-slate-200 flex justify-end gap-2">
+        <div className="px-6 py-4 border-t border-slate-200 flex flex-wrap justify-end gap-2">
+          {open && (
+            <button
+              onClick={onCancel}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white border border-rose-200 text-rose-700 text-sm font-semibold hover:bg-rose-50"
+            >
+              Cancelar OC
+            </button>
+          )}
+          {po.status === POStatus.DRAFT && (
+            <button
+              onClick={onSend}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-700 text-sm font-semibold hover:bg-slate-50"
+            >
+              Enviar a proveedor
+            </button>
+          )}
+          {open && (
+            <button
+              onClick={onReceive}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-emerald-600 text-white text-sm font-semibold hover:bg-emerald-700"
+            >
+              <Package className="w-4 h-4" /> Recibir (suma stock)
+            </button>
+          )}
           <button
             onClick={onClose}
             className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-700 text-sm font-semibold hover:bg-slate-50"
@@ -829,8 +902,1096 @@ const PurchaseOrderModal: React.FC<{
 // MAIN VIEW
 // ===============================
 
+// Fallas generales: una tarjeta por incidente en lugar de un renglón por habitación afectada
+const IncidentsSection: React.FC<{ onOpenTicket: (t: Ticket) => void; onToast: (msg: string) => void }> = ({ onOpenTicket, onToast }) => {
+  const { incidents, permissions } = useApp();
+  const [declaring, setDeclaring] = useState(false);
+  const live = activeIncidents(incidents);
+  if (live.length === 0 && !permissions.canManageIncidents) return null;
+
+  return (
+    <SectionCard
+      id="incidents-section"
+      title="Fallas generales"
+      subtitle="Caldera, luz, agua: un solo seguimiento para todas las habitaciones afectadas."
+      icon={<Siren className="w-5 h-5 text-slate-400" />}
+      right={
+        permissions.canManageIncidents && !declaring ? (
+          <button
+            onClick={() => setDeclaring(true)}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-full bg-slate-900 text-white text-xs font-semibold hover:bg-slate-800"
+          >
+            <Plus className="w-4 h-4" /> Declarar falla general
+          </button>
+        ) : undefined
+      }
+    >
+      <div className="space-y-3">
+        {declaring && (
+          <DeclareIncidentForm
+            onDone={msg => {
+              setDeclaring(false);
+              onToast(msg);
+            }}
+            onCancel={() => setDeclaring(false)}
+          />
+        )}
+        {live.length === 0 && !declaring && <div className="text-sm text-slate-500">Sin fallas generales activas.</div>}
+        {live.map(i => (
+          <IncidentCard key={i.id} incident={i} onOpenTicket={onOpenTicket} />
+        ))}
+      </div>
+    </SectionCard>
+  );
+};
+
+// Avisos del escalamiento automático mientras el ticket siga abierto
+const EscalationNotices: React.FC<{ onOpenTicket: (t: Ticket) => void }> = ({ onOpenTicket }) => {
+  const { escalationLog, tickets } = useApp();
+  const notices = openNotices(escalationLog, tickets);
+  if (notices.length === 0) return null;
+
+  return (
+    <SectionCard
+      id="escalation-notices-section"
+      title="Escalamientos para Gerencia"
+      subtitle="Tickets que dispararon una regla de aviso y siguen sin resolverse."
+      icon={<BellRing className="w-5 h-5 text-rose-500" />}
+    >
+      <div className="space-y-2">
+        {notices
+          .slice()
+          .reverse()
+          .map(f => {
+            const t = tickets.find(x => x.id === f.ticketId)!;
+            return (
+              <button
+                key={`${f.ruleId}-${f.ticketId}`}
+                onClick={() => onOpenTicket(t)}
+                className="w-full flex items-center justify-between gap-3 text-left border border-rose-100 bg-rose-50 rounded-lg px-3 py-2 hover:bg-rose-100"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-slate-800">
+                    {folioOf(t)} · Hab. {t.roomNumber} · {t.asset}
+                  </div>
+                  <div className="text-xs text-slate-600 truncate">
+                    {f.ruleName} — {f.detail}
+                  </div>
+                </div>
+                <div className="text-[11px] text-slate-500 whitespace-nowrap">{new Date(f.date).toLocaleString()}</div>
+              </button>
+            );
+          })}
+      </div>
+    </SectionCard>
+  );
+};
+
+// Auditoría de integridad: registro vs libro de movimientos vs reservas de tickets
+const IntegrityCard: React.FC<{ onToast: (msg: string) => void }> = ({ onToast }) => {
+  const { inventoryAudit, reconcileInventory, permissions } = useApp();
+  const errors = inventoryAudit.issues.filter(i => i.severity === 'error');
+  const infos = inventoryAudit.issues.filter(i => i.severity === 'info');
+
+  return (
+    <SectionCard
+      id="integrity-panel"
+      title="Integridad de inventario"
+      subtitle="Existencia y reservado se recalculan desde los movimientos y las reservas de cada ticket."
+      icon={<ShieldCheck className="w-5 h-5 text-slate-400" />}
+      right={
+        permissions.canAdjustStock && errors.length > 0 ? (
+          <button
+            onClick={() => onToast(reconcileInventory().message)}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-full bg-slate-900 text-white text-xs font-semibold hover:bg-slate-800"
+          >
+            <BadgeCheck className="w-4 h-4" /> Reparar ({errors.length})
+          </button>
+        ) : (
+          <Pill className={errors.length ? 'bg-rose-50 text-rose-700 border-rose-200' : 'bg-emerald-50 text-emerald-700 border-emerald-200'}>
+            {errors.length ? `${errors.length} discrepancia(s)` : 'Cuadrado'}
+          </Pill>
+        )
+      }
+    >
+      {inventoryAudit.issues.length === 0 ? (
+        <p className="text-sm text-slate-500">Registro, movimientos y reservas coinciden.</p>
+      ) : (
+        <ul className="space-y-2">
+          {[...errors, ...infos].map(i => (
+            <li
+              key={i.id}
+              className={`flex items-start gap-2 text-xs rounded-lg border px-3 py-2 ${
+                i.severity === 'error' ? 'bg-rose-50 border-rose-200 text-rose-800' : 'bg-slate-50 border-slate-200 text-slate-600'
+              }`}
+            >
+              <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+              <div>
+                <span className="font-mono font-semibold">{i.partId}</span>
+                {i.expected !== undefined && (
+                  <span className="ml-2">
+                    esperado {i.expected} · registrado {i.actual}
+                  </span>
+                )}
+                <div>{i.cause}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-3 text-[11px] text-slate-400">
+        *La reparación conserva la existencia física, libera reservas huérfanas y deja movimientos de conciliación + bitácora en los tickets.
+      </div>
+    </SectionCard>
+  );
+};
+
+// Reglas opcionales del flujo: Gerencia las activa para todo el equipo
+const WorkflowRulesCard: React.FC = () => {
+  const { rules, setWorkflowRules, permissions } = useApp();
+  const [message, setMessage] = useState<string | null>(null);
+  if (!permissions.canConfigureWorkflow) return null;
+
+  const toggle = (key: keyof WorkflowRules, value: boolean) => setMessage(setWorkflowRules({ [key]: value }).message);
+
+  return (
+    <div id="workflow-rules-section" className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="w-5 h-5 text-slate-400" />
+        <h3 className="font-bold text-slate-800">Reglas del flujo</h3>
+      </div>
+      <div className="mt-3 space-y-2">
+        {(Object.keys(RULE_LABELS) as (keyof WorkflowRules)[]).map(k => (
+          <label key={k} className="flex items-start gap-2 text-sm text-slate-700">
+            <input type="checkbox" className="mt-1" checked={!!rules[k]} onChange={e => toggle(k, e.target.checked)} />
+            {RULE_LABELS[k]}
+          </label>
+        ))}
+      </div>
+      {message && <div className="mt-2 text-xs text-slate-500">{message}</div>}
+    </div>
+  );
+};
+
+// Select de condición: '' = cualquiera
+const ConditionSelect: React.FC<{ value?: string; options: string[]; anyLabel: string; onChange: (value?: string) => void }> = ({
+  value,
+  options,
+  anyLabel,
+  onChange,
+}) => (
+  <select
+    value={value ?? ''}
+    onChange={e => onChange(e.target.value || undefined)}
+    className="min-w-0 text-[11px] border border-slate-200 rounded-md px-1 py-1 text-slate-700"
+  >
+    <option value="">{anyLabel}</option>
+    {options.map(o => (
+      <option key={o}>{o}</option>
+    ))}
+  </select>
+);
+
+const OCCUPANCY = { Ocupada: true, Libre: false } as const;
+
+// Niveles de servicio: en orden, gana la primera política que coincida; la última (sin condiciones) cubre el resto
+const SlaPoliciesCard: React.FC = () => {
+  const { sla, setSlaPolicies, permissions } = useApp();
+  const [draft, setDraft] = useState<SlaPolicy[]>(sla.policies);
+  const [message, setMessage] = useState<string | null>(null);
+  useEffect(() => setDraft(sla.policies), [sla.policies]);
+  if (!permissions.canConfigureWorkflow) return null;
+
+  const set = (index: number, changes: Partial<SlaPolicy>) => setDraft(d => d.map((p, n) => (n === index ? { ...p, ...changes } : p)));
+  const moveUp = (index: number) => setDraft(d => d.map((p, n) => (n === index - 1 ? d[index] : n === index ? d[index - 1] : p)));
+  const add = () =>
+    setDraft(d => [...d.slice(0, -1), { id: '', name: 'Nueva política', responseMinutes: 60, resolutionMinutes: 480 }, ...d.slice(-1)]);
+  const occupancyLabel = (p: SlaPolicy) => (p.occupied === undefined ? undefined : p.occupied ? 'Ocupada' : 'Libre');
+
+  return (
+    <div id="sla-section" className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center gap-2">
+        <Hourglass className="w-5 h-5 text-slate-400" />
+        <h3 className="font-bold text-slate-800">Niveles de servicio (SLA)</h3>
+      </div>
+      <div className="mt-3 space-y-3">
+        {draft.map((p, index) => (
+          <div key={p.id || `new-${index}`} className="border border-slate-200 rounded-lg p-2 space-y-1.5">
+            <div className="flex items-center gap-1">
+              <span className="text-[11px] text-slate-400 w-4">{index + 1}.</span>
+              <input
+                value={p.name}
+                onChange={e => set(index, { name: e.target.value })}
+                className="flex-1 min-w-0 text-xs font-medium border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+              />
+              {index > 0 && index < draft.length - 1 && (
+                <button onClick={() => moveUp(index)} title="Subir" className="text-slate-300 hover:text-slate-700 text-xs px-1">
+                  ↑
+                </button>
+              )}
+              {index < draft.length - 1 && (
+                <button onClick={() => setDraft(d => d.filter((_, n) => n !== index))} title="Quitar" className="text-slate-300 hover:text-rose-600">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            {index < draft.length - 1 ? (
+              <div className="grid grid-cols-2 gap-1">
+                <ConditionSelect value={p.urgency} options={Object.values(Urgency)} anyLabel="Urgencia: cualquiera" onChange={v => set(index, { urgency: v as Urgency | undefined })} />
+                <ConditionSelect value={p.impact} options={Object.values(Impact)} anyLabel="Impacto: cualquiera" onChange={v => set(index, { impact: v as Impact | undefined })} />
+                <ConditionSelect
+                  value={occupancyLabel(p)}
+                  options={Object.keys(OCCUPANCY)}
+                  anyLabel="Ocupación: cualquiera"
+                  onChange={v => set(index, { occupied: v ? OCCUPANCY[v as keyof typeof OCCUPANCY] : undefined })}
+                />
+                <ConditionSelect
+                  value={p.roomType}
+                  options={ROOM_TYPES}
+                  anyLabel="Habitación: cualquiera"
+                  onChange={v => set(index, { roomType: v as SlaPolicy['roomType'] })}
+                />
+              </div>
+            ) : (
+              <div className="text-[11px] text-slate-400">Todo lo demás</div>
+            )}
+            <div className="flex items-center justify-between gap-2 text-[11px] text-slate-500">
+              <span>Respuesta (min)</span>
+              <RateInput value={p.responseMinutes} onCommit={v => v !== null && set(index, { responseMinutes: v })} />
+            </div>
+            <div className="flex items-center justify-between gap-2 text-[11px] text-slate-500">
+              <span>Solución (min)</span>
+              <RateInput value={p.resolutionMinutes} onCommit={v => v !== null && set(index, { resolutionMinutes: v })} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 flex items-center gap-2">
+        <Button size="sm" onClick={() => setMessage(setSlaPolicies(draft).message)}>
+          Guardar
+        </Button>
+        <button onClick={add} className="text-[11px] text-slate-500 hover:text-slate-800">
+          + Política
+        </button>
+      </div>
+      {message && <div className="mt-2 text-xs text-slate-500">{message}</div>}
+      <div className="mt-3 text-[11px] text-slate-400">
+        *Aplica a los tickets que se creen después. Espera de refacción o proveedor pausa el reloj de solución.
+      </div>
+    </div>
+  );
+};
+
+// Un peso de la tabla: etiqueta + campo numérico
+const WeightRow: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({ label, value, onChange }) => (
+  <div className="flex items-center justify-between gap-2 text-[11px] text-slate-500">
+    <span>{label}</span>
+    <RateInput value={value} onCommit={v => onChange(v ?? 0)} />
+  </div>
+);
+
+// Pesos del puntaje de prioridad: antes de guardar se ve cómo queda la cola abierta
+const PriorityWeightsCard: React.FC = () => {
+  const { priority, setPriorityWeights, tickets, permissions } = useApp();
+  const [draft, setDraft] = useState<PriorityWeights>(priority);
+  const [message, setMessage] = useState<string | null>(null);
+  useEffect(() => setDraft(priority), [priority]);
+  const preview = useMemo(() => rerank(tickets, priority, draft), [tickets, priority, draft]);
+  if (!permissions.canConfigureWorkflow) return null;
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(priority);
+  const set = (changes: Partial<PriorityWeights>) => setDraft(d => ({ ...d, ...changes }));
+  const table = <K extends 'urgency' | 'impact' | 'roomType'>(key: K, label: string) =>
+    (Object.keys(draft[key]) as (keyof PriorityWeights[K])[]).map(k => (
+      <WeightRow
+        key={`${key}-${String(k)}`}
+        label={`${label} ${String(k)}`}
+        value={draft[key][k] as number}
+        onChange={v => set({ [key]: { ...draft[key], [k]: v } })}
+      />
+    ));
+
+  return (
+    <div id="priority-section" className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center gap-2">
+        <Flame className="w-5 h-5 text-slate-400" />
+        <h3 className="font-bold text-slate-800">Pesos de prioridad</h3>
+      </div>
+      <div className="mt-3 space-y-1">
+        {table('urgency', 'Urgencia')}
+        {table('impact', 'Impacto:')}
+        <WeightRow label="Habitación ocupada" value={draft.occupied} onChange={v => set({ occupied: v })} />
+        <WeightRow label="Por día abierto" value={draft.agePerDay} onChange={v => set({ agePerDay: v })} />
+        <WeightRow label="Antigüedad (tope)" value={draft.ageMax} onChange={v => set({ ageMax: v })} />
+        {table('roomType', 'Habitación')}
+        <WeightRow label="Huésped VIP" value={draft.vip} onChange={v => set({ vip: v })} />
+        <WeightRow label="Por reapertura" value={draft.perReopening} onChange={v => set({ perReopening: v })} />
+        <WeightRow label="Reaperturas (tope)" value={draft.reopeningMax} onChange={v => set({ reopeningMax: v })} />
+      </div>
+
+      {dirty && (
+        <div className="mt-4 pt-3 border-t border-slate-100">
+          <div className="text-[10px] font-bold text-slate-400 uppercase mb-1">Vista previa de la cola</div>
+          <ul className="space-y-1">
+            {preview.slice(0, 8).map(p => {
+              const moved = p.prevRank - p.rank;
+              return (
+                <li key={p.ticket.id} className="flex items-center justify-between gap-2 text-[11px] text-slate-600">
+                  <span className="truncate">
+                    {p.rank}. {folioOf(p.ticket)} · Hab. {p.ticket.roomNumber}
+                  </span>
+                  <span className="whitespace-nowrap">
+                    {p.prevScore} → <span className="font-semibold text-slate-800">{p.score}</span>
+                    {moved !== 0 && (
+                      <span className={moved > 0 ? 'text-emerald-600' : 'text-rose-600'}>
+                        {' '}
+                        {moved > 0 ? `↑${moved}` : `↓${-moved}`}
+                      </span>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-3 flex items-center gap-2">
+        <Button size="sm" disabled={!dirty} onClick={() => setMessage(setPriorityWeights(draft).message)}>
+          Guardar
+        </Button>
+        {dirty && (
+          <button onClick={() => setDraft(priority)} className="text-[11px] text-slate-500 hover:text-slate-800">
+            Descartar
+          </button>
+        )}
+      </div>
+      {message && <div className="mt-2 text-xs text-slate-500">{message}</div>}
+      <div className="mt-3 text-[11px] text-slate-400">*Un peso en 0 no cuenta. El desglose por factor se ve en el detalle de cada ticket.</div>
+    </div>
+  );
+};
+
+const NEW_ESCALATION: EscalationRule = { id: '', name: 'Nueva regla', enabled: true, status: TicketStatus.OPEN, minAgeMinutes: 60, action: 'NOTIFY' };
+
+// Escalamiento automático: cada regla activa dispara una vez por ticket; abajo, lo último que disparó
+const EscalationRulesCard: React.FC = () => {
+  const { escalations, escalationLog, tickets, setEscalationRules, permissions } = useApp();
+  const [draft, setDraft] = useState<EscalationRule[]>(escalations);
+  const [message, setMessage] = useState<string | null>(null);
+  useEffect(() => setDraft(escalations), [escalations]);
+  if (!permissions.canConfigureWorkflow) return null;
+
+  const set = (index: number, changes: Partial<EscalationRule>) => setDraft(d => d.map((r, n) => (n === index ? { ...r, ...changes } : r)));
+  const occupancyLabel = (r: EscalationRule) => (r.occupied === undefined ? undefined : r.occupied ? 'Ocupada' : 'Libre');
+  const recent = escalationLog.slice(-8).reverse();
+  const ticketLabel = (id: string) => {
+    const t = tickets.find(x => x.id === id);
+    return t ? `${folioOf(t)} (Hab. ${t.roomNumber})` : id;
+  };
+
+  return (
+    <div id="escalation-section" className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center gap-2">
+        <Zap className="w-5 h-5 text-slate-400" />
+        <h3 className="font-bold text-slate-800">Escalamiento automático</h3>
+      </div>
+      <div className="mt-3 space-y-3">
+        {draft.length === 0 && <div className="text-xs text-slate-500">Sin reglas.</div>}
+        {draft.map((r, index) => (
+          <div key={r.id || `new-${index}`} className={`border border-slate-200 rounded-lg p-2 space-y-1.5 ${r.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-1">
+              <input type="checkbox" checked={r.enabled} onChange={e => set(index, { enabled: e.target.checked })} title="Activa" />
+              <input
+                value={r.name}
+                onChange={e => set(index, { name: e.target.value })}
+                className="flex-1 min-w-0 text-xs font-medium border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+              />
+              <button onClick={() => setDraft(d => d.filter((_, n) => n !== index))} title="Quitar" className="text-slate-300 hover:text-rose-600">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              <ConditionSelect
+                value={r.status}
+                options={Object.values(TicketStatus).filter(s => s !== TicketStatus.RESOLVED && s !== TicketStatus.VERIFIED)}
+                anyLabel="Estado: cualquiera"
+                onChange={v => set(index, { status: v as TicketStatus | undefined })}
+              />
+              <ConditionSelect value={r.urgency} options={Object.values(Urgency)} anyLabel="Urgencia: cualquiera" onChange={v => set(index, { urgency: v as Urgency | undefined })} />
+              <ConditionSelect
+                value={occupancyLabel(r)}
+                options={Object.keys(OCCUPANCY)}
+                anyLabel="Ocupación: cualquiera"
+                onChange={v => set(index, { occupied: v ? OCCUPANCY[v as keyof typeof OCCUPANCY] : undefined })}
+              />
+              <ConditionSelect value={r.asset} options={ASSETS} anyLabel="Activo: cualquiera" onChange={v => set(index, { asset: v })} />
+              <ConditionSelect
+                value={r.roomNumber}
+                options={ROOMS.map(room => room.number)}
+                anyLabel="Habitación: cualquiera"
+                onChange={v => set(index, { roomNumber: v })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 text-[11px] text-slate-500">
+              <span>Reportado hace (min)</span>
+              <RateInput value={r.minAgeMinutes} placeholder="—" onCommit={v => set(index, { minAgeMinutes: v ?? undefined })} />
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="text-[11px] text-slate-500">Entonces</span>
+              <select
+                value={r.action}
+                onChange={e => set(index, { action: e.target.value as EscalationAction })}
+                className="min-w-0 flex-1 text-[11px] border border-slate-200 rounded-md px-1 py-1 text-slate-700"
+              >
+                {(Object.keys(ESCALATION_ACTION_LABELS) as EscalationAction[]).map(a => (
+                  <option key={a} value={a}>
+                    {ESCALATION_ACTION_LABELS[a]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {r.action === 'REASSIGN' && (
+              <input
+                value={r.assignTo ?? ''}
+                placeholder="Técnico"
+                onChange={e => set(index, { assignTo: e.target.value })}
+                className="w-full text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+              />
+            )}
+            {(r.action === 'NOTE' || r.action === 'NOTIFY') && (
+              <input
+                value={r.note ?? ''}
+                placeholder={r.action === 'NOTE' ? 'Nota para la bitácora' : 'Mensaje (opcional)'}
+                onChange={e => set(index, { note: e.target.value })}
+                className="w-full text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 flex items-center gap-2">
+        <Button size="sm" onClick={() => setMessage(setEscalationRules(draft).message)}>
+          Guardar
+        </Button>
+        <button onClick={() => setDraft(d => [...d, NEW_ESCALATION])} className="text-[11px] text-slate-500 hover:text-slate-800">
+          + Regla
+        </button>
+      </div>
+      {message && <div className="mt-2 text-xs text-slate-500">{message}</div>}
+
+      <div className="mt-4 pt-3 border-t border-slate-100">
+        <div className="text-[10px] font-bold text-slate-400 uppercase mb-1">Últimos escalamientos</div>
+        {recent.length === 0 && <div className="text-[11px] text-slate-400">Ninguna regla ha disparado.</div>}
+        <ul className="space-y-1">
+          {recent.map(f => (
+            <li key={`${f.ruleId}-${f.ticketId}`} className="text-[11px] text-slate-600">
+              <span className="font-semibold">{ticketLabel(f.ticketId)}</span> · {f.ruleName} — {f.detail}
+              <span className="text-slate-400"> · {new Date(f.date).toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="mt-3 text-[11px] text-slate-400">*Se revisan cada minuto y tras cada cambio; una regla dispara una sola vez por ticket.</div>
+    </div>
+  );
+};
+
+type ChecklistDraft = { asset: string; issueType: string; items: { id?: string; label: string; required: boolean }[] };
+
+const NEW_CHECKLIST = 'new';
+
+const checklistDraft = (template?: ChecklistTemplate): ChecklistDraft =>
+  template
+    ? { asset: template.asset ?? '', issueType: template.issueType ?? '', items: template.items.map(i => ({ ...i })) }
+    : { asset: ASSETS[0], issueType: '', items: [{ label: '', required: true }] };
+
+// Listas de verificación por activo (y tipo de falla): lo que debe revisarse antes de cerrar
+const ChecklistTemplatesCard: React.FC = () => {
+  const { checklists, saveChecklistTemplate, removeChecklistTemplate, permissions } = useApp();
+  const [selected, setSelected] = useState(checklists[0]?.id ?? NEW_CHECKLIST);
+  // El borrador solo se recarga al elegir otra lista o al guardar: un cambio de otra pestaña no borra lo escrito
+  const [draft, setDraft] = useState(() => checklistDraft(checklists[0]));
+  const [message, setMessage] = useState<string | null>(null);
+  const [saved, setSaved] = useState<{ id?: string; asset: string; issueType: string } | null>(null);
+  const current = checklists.find(c => c.id === selected);
+
+  // Recién guardada: se recarga como quedó (ids de los puntos; el de una lista nueva lo generó el comando y se
+  // busca por su activo / tipo de falla)
+  useEffect(() => {
+    if (!saved) return;
+    const template = checklists.find(c =>
+      saved.id ? c.id === saved.id : (c.asset ?? '') === saved.asset && (c.issueType ?? '') === saved.issueType
+    );
+    if (template) {
+      setSelected(template.id);
+      setDraft(checklistDraft(template));
+    }
+    setSaved(null);
+  }, [saved, checklists]);
+
+  if (!permissions.canConfigureWorkflow) return null;
+
+  const select = (id: string) => {
+    setSelected(id);
+    setDraft(checklistDraft(checklists.find(c => c.id === id)));
+  };
+
+  const setItem = (index: number, changes: Partial<ChecklistDraft['items'][number]>) =>
+    setDraft(d => ({ ...d, items: d.items.map((i, n) => (n === index ? { ...i, ...changes } : i)) }));
+
+  const save = () => {
+    const res = saveChecklistTemplate({ id: current?.id, asset: draft.asset, issueType: draft.issueType, items: draft.items });
+    setMessage(res.message);
+    if (res.ok) setSaved({ id: current?.id, asset: draft.asset.trim(), issueType: draft.issueType.trim() });
+  };
+
+  const remove = () => {
+    if (!current) return;
+    const res = removeChecklistTemplate(current.id);
+    setMessage(res.message);
+    if (res.ok) select(checklists.find(c => c.id !== current.id)?.id ?? NEW_CHECKLIST);
+  };
+
+  return (
+    <div id="checklists-section" className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center gap-2">
+        <ClipboardCheck className="w-5 h-5 text-slate-400" />
+        <h3 className="font-bold text-slate-800">Checklist de verificación</h3>
+      </div>
+
+      <select
+        value={current ? selected : NEW_CHECKLIST}
+        onChange={e => {
+          select(e.target.value);
+          setMessage(null);
+        }}
+        className="mt-3 w-full text-sm border border-slate-200 rounded-md px-2 py-1.5 text-slate-700"
+      >
+        {checklists.map(c => (
+          <option key={c.id} value={c.id}>
+            {checklistName(c)}
+          </option>
+        ))}
+        <option value={NEW_CHECKLIST}>Nueva lista…</option>
+      </select>
+
+      {!current && (
+        <div className="mt-2 flex gap-2">
+          <select
+            value={draft.asset}
+            onChange={e => setDraft(d => ({ ...d, asset: e.target.value }))}
+            className="flex-1 min-w-0 text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+          >
+            {ASSETS.map(a => (
+              <option key={a}>{a}</option>
+            ))}
+          </select>
+          <select
+            value={draft.issueType}
+            onChange={e => setDraft(d => ({ ...d, issueType: e.target.value }))}
+            className="flex-1 min-w-0 text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+          >
+            <option value="">Cualquier falla</option>
+            {ISSUE_TYPES.map(i => (
+              <option key={i}>{i}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="mt-3 space-y-2">
+        {draft.items.map((item, index) => (
+          <div key={item.id ?? `new-${index}`} className="flex items-center gap-2">
+            <input
+              value={item.label}
+              onChange={e => setItem(index, { label: e.target.value })}
+              className="flex-1 min-w-0 text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+              placeholder="Punto a revisar"
+            />
+            <label className="flex items-center gap-1 text-[11px] text-slate-500" title="Obligatorio para cerrar">
+              <input type="checkbox" checked={item.required} onChange={e => setItem(index, { required: e.target.checked })} />
+              Oblig.
+            </label>
+            <button
+              onClick={() => setDraft(d => ({ ...d, items: d.items.filter((_, n) => n !== index) }))}
+              title="Quitar punto"
+              className="text-slate-300 hover:text-rose-600"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft(d => ({ ...d, items: [...d.items, { label: '', required: true }] }))}
+          className="text-[11px] text-slate-500 hover:text-slate-800"
+        >
+          + Punto
+        </button>
+      </div>
+
+      <div className="mt-3 flex gap-2">
+        <Button size="sm" onClick={save}>
+          Guardar
+        </Button>
+        {current?.asset && (
+          <Button size="sm" variant="ghost" onClick={remove}>
+            Quitar lista
+          </Button>
+        )}
+      </div>
+      {message && <div className="mt-2 text-xs text-slate-500">{message}</div>}
+      <div className="mt-3 text-[11px] text-slate-400">*Cada ticket usa la lista de su activo y tipo de falla; si no hay, la general.</div>
+    </div>
+  );
+};
+
+// Cierres verificados y cuántos se reabrieron dentro de `days` días, por técnico (al cerrarse) o por activo
+const reopenStats = (tickets: Ticket[], days: number, by: 'technician' | 'asset') => {
+  const rows = new Map<string, { key: string; closures: number; reopened: number }>();
+  const add = (key: string, reopened: boolean) => {
+    const row = rows.get(key) ?? { key, closures: 0, reopened: 0 };
+    row.closures += 1;
+    if (reopened) row.reopened += 1;
+    rows.set(key, row);
+  };
+  tickets.forEach(t => {
+    const keyOf = (technician?: string) => (by === 'asset' ? t.asset : technician || 'Sin asignar');
+    (t.reopenings ?? []).forEach(r => {
+      const d = daysToReopen(r);
+      add(keyOf(r.technician), d !== null && d <= days);
+    });
+    if (t.status === TicketStatus.VERIFIED) add(keyOf(t.assignedTo), false);
+  });
+  return [...rows.values()].sort((a, b) => b.reopened / b.closures - a.reopened / a.closures || b.closures - a.closures);
+};
+
+const ReopenQualityCard: React.FC = () => {
+  const { tickets } = useApp();
+  const [days, setDays] = useState(7);
+  const [by, setBy] = useState<'technician' | 'asset'>('technician');
+  const rows = useMemo(() => reopenStats(tickets, days, by), [tickets, days, by]);
+  const total = rows.reduce((acc, r) => ({ closures: acc.closures + r.closures, reopened: acc.reopened + r.reopened }), {
+    closures: 0,
+    reopened: 0,
+  });
+  const pct = (n: number, d: number) => (d ? Math.round((n / d) * 100) : 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <RotateCcw className="w-5 h-5 text-slate-400" />
+          <h3 className="font-bold text-slate-800">Reabiertos ≤ {days} días</h3>
+        </div>
+        <select
+          value={days}
+          onChange={e => setDays(Number(e.target.value))}
+          className="text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+        >
+          {[3, 7, 30].map(d => (
+            <option key={d} value={d}>
+              {d} días
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-3 text-sm text-slate-700">
+        <span className="text-2xl font-black text-slate-900">{pct(total.reopened, total.closures)}%</span>{' '}
+        <span className="text-xs text-slate-500">
+          de {total.closures} cierre(s) se reabrió en {days} días o menos
+        </span>
+      </div>
+
+      <div className="mt-3 flex gap-1">
+        {(['technician', 'asset'] as const).map(k => (
+          <button
+            key={k}
+            onClick={() => setBy(k)}
+            className={`text-[11px] px-2 py-1 rounded-md border ${
+              by === k ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600'
+            }`}
+          >
+            {k === 'technician' ? 'Por técnico' : 'Por activo'}
+          </button>
+        ))}
+      </div>
+
+      <table className="w-full text-xs mt-3">
+        <thead>
+          <tr className="text-slate-400 text-left">
+            <th className="py-1 font-medium">{by === 'technician' ? 'Técnico' : 'Activo'}</th>
+            <th className="py-1 font-medium text-right">Cierres</th>
+            <th className="py-1 font-medium text-right">Reabiertos</th>
+            <th className="py-1 font-medium text-right">Tasa</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, 6).map(r => (
+            <tr key={r.key} className="border-t border-slate-100 text-slate-700">
+              <td className="py-1.5">{r.key}</td>
+              <td className="py-1.5 text-right">{r.closures}</td>
+              <td className="py-1.5 text-right">{r.reopened}</td>
+              <td className={`py-1.5 text-right ${r.reopened ? 'text-orange-700 font-semibold' : ''}`}>{pct(r.reopened, r.closures)}%</td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={4} className="py-2 text-slate-400">
+                Sin cierres verificados todavía.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="mt-3 text-[11px] text-slate-400">*Cada reapertura cuenta contra el técnico asignado al momento del cierre.</div>
+    </div>
+  );
+};
+
+// Tarifa que se captura al salir del campo (o con Enter); vacío = quitar la tarifa propia
+const RateInput: React.FC<{ value?: number; placeholder?: string; onCommit: (value: number | null) => void }> = ({
+  value,
+  placeholder,
+  onCommit,
+}) => {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+  useEffect(() => setText(value === undefined ? '' : String(value)), [value]);
+  const commit = () => {
+    if (text.trim() === (value === undefined ? '' : String(value))) return;
+    onCommit(text.trim() === '' ? null : Number(text));
+  };
+  return (
+    <input
+      type="number"
+      min={0}
+      value={text}
+      placeholder={placeholder}
+      onChange={e => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => e.key === 'Enter' && commit()}
+      className="w-20 text-right text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+    />
+  );
+};
+
+// Tarifas por hora para el costo de mano de obra; cada tramo del cronómetro guarda la vigente al iniciar
+const LaborRatesCard: React.FC = () => {
+  const { costs, setCostSettings, tickets, permissions } = useApp();
+  const [message, setMessage] = useState<string | null>(null);
+  if (!permissions.canManageCosts) return null;
+
+  const technicians = [
+    ...new Set([
+      ...Object.keys(costs.technicianRates),
+      ...tickets.flatMap(sessionTechnicians),
+      ...tickets.flatMap(t => (t.assignedTo ? [t.assignedTo] : [])),
+    ]),
+  ].sort();
+
+  return (
+    <div id="labor-rates-section" className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center gap-2">
+        <Wallet className="w-5 h-5 text-slate-400" />
+        <h3 className="font-bold text-slate-800">Tarifas de mano de obra</h3>
+      </div>
+      <div className="mt-3 space-y-2 text-sm text-slate-700">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium">Tarifa base ($/h)</span>
+          <RateInput
+            value={costs.laborRate}
+            onCommit={v => setMessage(v === null ? 'Indica la tarifa base.' : setCostSettings({ laborRate: v }).message)}
+          />
+        </div>
+        {technicians.map(who => (
+          <div key={who} className="flex items-center justify-between gap-2">
+            <span>{who}</span>
+            <RateInput
+              value={costs.technicianRates[who]}
+              placeholder={String(costs.laborRate)}
+              onCommit={v => setMessage(setCostSettings({ technicianRates: { [who]: v } }).message)}
+            />
+          </div>
+        ))}
+      </div>
+      {message && <div className="mt-2 text-xs text-slate-500">{message}</div>}
+      <div className="mt-3 text-[11px] text-slate-400">*Sin tarifa propia se usa la base. El cambio aplica a los tramos que inicien después.</div>
+    </div>
+  );
+};
+
+const monthLabel = (key: string) => new Date(`${key}-01T00:00:00`).toLocaleDateString('es-MX', { month: 'long', year: 'numeric' });
+
+// Cuánto se gastó por habitación, activo o mes: refacciones surtidas + mano de obra + proveedor
+const CostsCard: React.FC = () => {
+  const { tickets, parts, movements, costs } = useApp();
+  const [by, setBy] = useState<CostGrouping>('room');
+  const [period, setPeriod] = useState<'quarter' | 'year' | 'all'>('quarter');
+  const [asset, setAsset] = useState('');
+
+  const lines = useMemo(() => costLines({ tickets, parts, movements, costs }), [tickets, parts, movements, costs]);
+  const from = period === 'all' ? '' : periodStart(period);
+  const rows = costTotals(
+    lines.filter(l => l.date >= from && (!asset || l.asset === asset)),
+    by
+  );
+  const total = rows.reduce((acc, r) => acc + r.total, 0);
+
+  return (
+    <SectionCard
+      id="costs-section"
+      title="Costos de mantenimiento"
+      subtitle="Refacciones surtidas (al costo del día), mano de obra (cronómetro × tarifa) y cargos de proveedor."
+      icon={<Wallet className="w-5 h-5 text-slate-400" />}
+      right={<div className="text-lg font-black text-slate-900">{formatMoney(total)}</div>}
+    >
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {(['room', 'asset', 'month'] as const).map(k => (
+          <button
+            key={k}
+            onClick={() => setBy(k)}
+            className={`text-[11px] px-2 py-1 rounded-md border ${
+              by === k ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600'
+            }`}
+          >
+            {k === 'room' ? 'Por habitación' : k === 'asset' ? 'Por activo' : 'Por mes'}
+          </button>
+        ))}
+        <select
+          value={period}
+          onChange={e => setPeriod(e.target.value as typeof period)}
+          className="ml-auto text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+        >
+          <option value="quarter">Este trimestre</option>
+          <option value="year">Este año</option>
+          <option value="all">Todo</option>
+        </select>
+        <select value={asset} onChange={e => setAsset(e.target.value)} className="text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700">
+          <option value="">Todos los activos</option>
+          {ASSETS.map(a => (
+            <option key={a}>{a}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="py-1 font-medium">{by === 'room' ? 'Habitación' : by === 'asset' ? 'Activo' : 'Mes'}</th>
+              {(['parts', 'labor', 'vendor'] as const).map(k => (
+                <th key={k} className="py-1 font-medium text-right">
+                  {COST_KIND_LABELS[k]}
+                </th>
+              ))}
+              <th className="py-1 font-medium text-right">Total</th>
+              <th className="py-1 font-medium text-right">Tickets</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, 12).map(r => (
+              <tr key={r.key} className="border-t border-slate-100 text-slate-700">
+                <td className="py-1.5 font-medium">{by === 'room' ? `Hab ${r.key}` : by === 'month' ? monthLabel(r.key) : r.key}</td>
+                <td className="py-1.5 text-right">{formatMoney(r.parts)}</td>
+                <td className="py-1.5 text-right">{formatMoney(r.labor)}</td>
+                <td className="py-1.5 text-right">{formatMoney(r.vendor)}</td>
+                <td className="py-1.5 text-right font-semibold text-slate-900">{formatMoney(r.total)}</td>
+                <td className="py-1.5 text-right">{r.tickets}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-2 text-slate-400">
+                  Sin costos en el periodo.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 text-[11px] text-slate-400">*Cada importe cae en el mes en que se gastó; el costo unitario se captura en el inventario.</div>
+    </SectionCard>
+  );
+};
+
+// Minutos de mano de obra por técnico o por activo, y cuántos tickets los reparten
+const laborStats = (tickets: Ticket[], now: Date, by: 'technician' | 'asset') => {
+  const rows = new Map<string, { key: string; minutes: number; tickets: number }>();
+  const add = (key: string, minutes: number) => {
+    const row = rows.get(key) ?? { key, minutes: 0, tickets: 0 };
+    row.minutes += minutes;
+    row.tickets += 1;
+    rows.set(key, row);
+  };
+  tickets.forEach(t => {
+    if (!t.workSessions?.length) return;
+    if (by === 'asset') add(t.asset, laborMinutes(t, now));
+    else sessionTechnicians(t).forEach(who => add(who, laborMinutes(t, now, who)));
+  });
+  return [...rows.values()].sort((a, b) => b.minutes - a.minutes);
+};
+
+const LaborCard: React.FC = () => {
+  const { tickets } = useApp();
+  const [by, setBy] = useState<'technician' | 'asset'>('technician');
+  const now = new Date();
+  const rows = laborStats(tickets, now, by);
+  const total = rows.reduce((acc, r) => acc + r.minutes, 0);
+  const running = tickets.filter(t => runningSession(t)).length;
+  const closed = tickets.filter(t => t.workSessions?.length && t.status === TicketStatus.VERIFIED);
+  const avgClosed = closed.length ? closed.reduce((acc, t) => acc + laborMinutes(t, now), 0) / closed.length : 0;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Timer className="w-5 h-5 text-slate-400" />
+          <h3 className="font-bold text-slate-800">Mano de obra</h3>
+        </div>
+        {running > 0 && <Pill className="bg-emerald-50 text-emerald-700 border-emerald-200">{running} en curso</Pill>}
+      </div>
+
+      <div className="mt-3 text-sm text-slate-700">
+        <span className="text-2xl font-black text-slate-900">{formatMinutes(total)}</span>{' '}
+        <span className="text-xs text-slate-500">registradas</span>
+        {closed.length > 0 && <div className="text-xs text-slate-500">Promedio por ticket verificado: {formatMinutes(avgClosed)}</div>}
+      </div>
+
+      <div className="mt-3 flex gap-1">
+        {(['technician', 'asset'] as const).map(k => (
+          <button
+            key={k}
+            onClick={() => setBy(k)}
+            className={`text-[11px] px-2 py-1 rounded-md border ${
+              by === k ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600'
+            }`}
+          >
+            {k === 'technician' ? 'Por técnico' : 'Por activo'}
+          </button>
+        ))}
+      </div>
+
+      <table className="w-full text-xs mt-3">
+        <thead>
+          <tr className="text-slate-400 text-left">
+            <th className="py-1 font-medium">{by === 'technician' ? 'Técnico' : 'Activo'}</th>
+            <th className="py-1 font-medium text-right">Tiempo</th>
+            <th className="py-1 font-medium text-right">Tickets</th>
+            <th className="py-1 font-medium text-right">Promedio</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, 6).map(r => (
+            <tr key={r.key} className="border-t border-slate-100 text-slate-700">
+              <td className="py-1.5">{r.key}</td>
+              <td className="py-1.5 text-right">{formatMinutes(r.minutes)}</td>
+              <td className="py-1.5 text-right">{r.tickets}</td>
+              <td className="py-1.5 text-right">{formatMinutes(r.minutes / r.tickets)}</td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={4} className="py-2 text-slate-400">
+                Sin tiempo registrado todavía.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="mt-3 text-[11px] text-slate-400">*Los cronómetros en curso cuentan hasta ahora.</div>
+    </div>
+  );
+};
+
+// Estado reconstruido desde el registro de eventos al cierre del día elegido
+const StateAsOfCard: React.FC = () => {
+  const { events, stateAsOf } = useApp();
+  const [day, setDay] = useState(() => new Date().toISOString().slice(0, 10));
+
+  const cutoff = new Date(`${day}T23:59:59.999`).toISOString();
+  const state = useMemo(() => stateAsOf(cutoff), [events, cutoff]);
+  const recent = useMemo(
+    () =>
+      events
+        .filter(e => e.type !== 'Genesis' && e.date <= cutoff)
+        .slice(-5)
+        .reverse(),
+    [events, cutoff]
+  );
+
+  const pending = state.tickets.filter(isPendingTicket).length;
+  const waitingPart = state.tickets.filter(t => t.status === TicketStatus.WAITING_PART).length;
+  const openPOs = state.pos.filter(isOpenPO).length;
+
+  return (
+    <div id="state-as-of-section" className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-slate-400" />
+          <h3 className="font-bold text-slate-800">Estado al día</h3>
+        </div>
+        <input
+          type="date"
+          value={day}
+          onChange={e => e.target.value && setDay(e.target.value)}
+          className="text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-700"
+        />
+      </div>
+
+      <div className="mt-4 grid grid-cols-3 gap-2">
+        <div className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+          <div className="text-[10px] font-bold text-slate-400 uppercase">Pendientes</div>
+          <div className="text-2xl font-black text-slate-900">{pending}</div>
+        </div>
+        <div className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+          <div className="text-[10px] font-bold text-slate-400 uppercase">Esp. refacción</div>
+          <div className="text-2xl font-black text-slate-900">{waitingPart}</div>
+        </div>
+        <div className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+          <div className="text-[10px] font-bold text-slate-400 uppercase">OC abiertas</div>
+          <div className="text-2xl font-black text-slate-900">{openPOs}</div>
+        </div>
+      </div>
+
+      <ul className="mt-4 space-y-1 text-xs text-slate-600">
+        {recent.map(e => (
+          <li key={e.id} className="flex gap-2">
+            <span className="text-slate-400 shrink-0">{new Date(e.date).toLocaleDateString()}</span>
+            <span>{describeEvent(e, state)}</span>
+          </li>
+        ))}
+        {recent.length === 0 && <li className="text-slate-400">Sin eventos registrados hasta esa fecha.</li>}
+      </ul>
+
+      <div className="mt-3 text-[11px] text-slate-400">
+        *Reconstruido con los eventos registrados hasta el cierre del día ({events.length} en total).
+      </div>
+    </div>
+  );
+};
+
 export const ManagementView: React.FC = () => {
-  const { tickets, exportCSV, runScenario } = useApp();
+  const {
+    tickets,
+    parts,
+    pos,
+    incidents,
+    exportCSV,
+    runScenario,
+    adjustStock,
+    consumePart,
+    createPO,
+    createPOForPart,
+    sendPO,
+    receivePO,
+    cancelPO,
+    setPartUnitCost,
+    permissions
+  } = useApp();
 
   const [tab, setTab] = useState<'PRIORITY' | 'BUY' | 'VENDOR'>('PRIORITY');
 
@@ -840,11 +2001,9 @@ export const ManagementView: React.FC = () => {
   const [toast, setToast] = useState<string>('');
   const [focusTicketId, setFocusTicketId] = useState<string | null>(null);
 
-  // INVENTARIO (local)
-  const [inventory, setInventory] = useState<InventoryItem[]>(DEFAULT_INVENTORY);
-  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
-  const [poModalOpen, setPoModalOpen] = useState(false);
-  const [activePO, setActivePO] = useState<PurchaseOrder | null>(null);
+  // OC (AppContext)
+  const [activePOId, setActivePOId] = useState<string | null>(null);
+  const activePO = useMemo(() => pos.find(p => p.id === activePOId) || null, [pos, activePOId]);
 
   // TOUR
   const [tourActive, setTourActive] = useState(false);
@@ -914,44 +2073,14 @@ export const ManagementView: React.FC = () => {
     };
   }, [tourActive]);
 
-  // Load inventory + POs
-  useEffect(() => {
-    const inv = localStorage.getItem(INVENTORY_STORAGE_KEY);
-    if (inv) {
-      try {
-        const parsed: InventoryItem[] = JSON.parse(inv);
-        if (Array.isArray(parsed) && parsed.length) setInventory(parsed);
-      } catch {
-        // ignore
-      }
-    }
-
-    const pos = localStorage.getItem(PO_STORAGE_KEY);
-    if (pos) {
-      try {
-        const parsed: PurchaseOrder[] = JSON.parse(pos);
-        if (Array.isArray(parsed)) setPurchaseOrders(parsed);
-      } catch {
-        // ignore
-      }
-    }
-  }, []);
-
-  useEffect(() => {
-    localStorage.setItem(INVENTORY_STORAGE_KEY, JSON.stringify(inventory));
-  }, [inventory]);
-
-  useEffect(() => {
-    localStorage.setItem(PO_STORAGE_KEY, JSON.stringify(purchaseOrders));
-  }, [purchaseOrders]);
-
   // ---------- Recurrente / Hotspots ----------
   const recurrentKeyCount = useMemo(() => {
     const counts: Record<string, number> = {};
     tickets.forEach(t => {
       if (!withinDays(t.createdAt, 30)) return;
       const key = `${t.roomNumber}|${t.asset}`;
-      counts[key] = (counts[key] || 0) + 1;
+      // Cada reapertura es una recurrencia confirmada (no una suposición por habitación + activo)
+      counts[key] = (counts[key] || 0) + 1 + (t.reopenCount ?? 0);
     });
     return counts;
   }, [tickets]);
@@ -998,13 +2127,28 @@ export const ManagementView: React.FC = () => {
     })
     .length;
 
+  // SLA: abiertos ya vencidos / en riesgo, y cumplimiento de lo resuelto en 30 días
+  const slaNow = new Date();
+  const slaOpen = pendingTickets.filter(t => t.sla && !t.sla.resolvedAt);
+  const slaBreached = slaOpen.filter(t => slaStatus(t.sla!, slaNow).breached).length;
+  const slaRisk = slaOpen.filter(t => !slaStatus(t.sla!, slaNow).breached && slaAtRisk(t.sla!, slaNow)).length;
+  const slaResolved30 = tickets.filter(t => t.sla?.resolvedAt && withinLastDays(new Date(t.sla.resolvedAt), 30));
+  const slaMet30 = slaResolved30.filter(t => !slaStatus(t.sla!, slaNow).breached).length;
+  const slaCompliance = slaResolved30.length ? `${Math.round((slaMet30 / slaResolved30.length) * 100)}% a tiempo (30 d)` : undefined;
+
   // ---------- Decision Support ----------
+  // Los hijos de una falla general activa se siguen en su tarjeta, no compiten uno por uno
+  const grouped = useMemo(() => {
+    const live = new Set(activeIncidents(incidents).map(i => i.id));
+    return (t: Ticket) => !!t.incidentId && live.has(t.incidentId);
+  }, [incidents]);
+
   const topPriority = useMemo(() => {
     return [...tickets]
-      .filter(t => t.status !== TicketStatus.VERIFIED)
+      .filter(t => t.status !== TicketStatus.VERIFIED && !grouped(t))
       .sort((a, b) => b.priorityScore - a.priorityScore)
       .slice(0, 5);
-  }, [tickets]);
+  }, [tickets, grouped]);
 
   const partsNeeded = useMemo(() => {
     return tickets.filter(t => t.needsPart && t.status !== TicketStatus.VERIFIED);
@@ -1018,10 +2162,10 @@ export const ManagementView: React.FC = () => {
   const guestRisk = useMemo(() => {
     return tickets
       .filter(t => t.status !== TicketStatus.VERIFIED)
-      .filter(t => t.isOccupied)
+      .filter(t => t.isOccupied && !grouped(t))
       .sort((a, b) => b.priorityScore - a.priorityScore)
       .slice(0, 6);
-  }, [tickets]);
+  }, [tickets, grouped]);
 
   // Staffing estimation (DEMO)
   const actionable = tickets.filter(t => [TicketStatus.OPEN, TicketStatus.IN_PROGRESS, TicketStatus.RESOLVED].includes(t.status)).length;
@@ -1065,21 +2209,30 @@ export const ManagementView: React.FC = () => {
   };
 
   // ---------- INVENTARIO: vincular tickets ↔ refacciones ----------
-  const inventoryIndex = useMemo(() => {
-    const map: Record<string, InventoryItem> = {};
-    inventory.forEach(i => (map[normalizePart(i.name)] = i));
+  const partsByName = useMemo(() => {
+    const map: Record<string, InventoryPart> = {};
+    parts.forEach(p => (map[normalizePart(p.name)] = p));
     return map;
-  }, [inventory]);
+  }, [parts]);
+
+  // Vínculo por partId; tickets antiguos sin partId caen al nombre normalizado
+  const resolveTicketPart = useCallback(
+    (t: Ticket): InventoryPart | undefined => {
+      const pid = getPartIdFromTicket(t);
+      if (pid) return parts.find(p => p.id === pid);
+      return partsByName[normalizePart(t.partName || '')];
+    },
+    [parts, partsByName]
+  );
 
   const partToTickets = useMemo(() => {
     const map: Record<string, Ticket[]> = {};
     tickets
       .filter(t => t.needsPart && t.status !== TicketStatus.VERIFIED)
       .forEach(t => {
-        const part = normalizePart(t.partName || '');
-        if (!part) return;
-        map[part] = map[part] || [];
-        map[part].push(t);
+        const key = resolveTicketPart(t)?.id || `?${normalizePart(t.partName || '')}`;
+        map[key] = map[key] || [];
+        map[key].push(t);
       });
 
     Object.keys(map).forEach(k => {
@@ -1087,21 +2240,21 @@ export const ManagementView: React.FC = () => {
     });
 
     return map;
-  }, [tickets]);
+  }, [tickets, resolveTicketPart]);
 
   const inventoryKPIs = useMemo(() => {
-    const outOfStock = inventory.filter(i => i.onHand <= 0);
-    const low = inventory.filter(i => i.onHand > 0 && i.onHand <= i.min);
+    const outOfStock = parts.filter(isOutOfStock);
+    const low = parts.filter(isLowStock);
 
     // Items ligados a tickets (por refacción) + riesgo si stock insuficiente
     const linked = Object.keys(partToTickets).map(key => {
-      const inv = inventoryIndex[key];
+      const inv = parts.find(p => p.id === key);
       const list = partToTickets[key];
       return { key, inv, list };
     });
 
     const missingCatalog = linked.filter(x => !x.inv);
-    const blockedByStock = linked.filter(x => x.inv).filter(x => (x.inv as InventoryItem).onHand <= 0);
+    const blockedByStock = linked.filter(x => x.inv && isOutOfStock(x.inv));
 
     return {
       outOfStock,
@@ -1110,79 +2263,69 @@ export const ManagementView: React.FC = () => {
       missingCatalog,
       blockedByStock
     };
-  }, [inventory, inventoryIndex, partToTickets]);
+  }, [parts, partToTickets]);
+
+  const linkedTicketCount = Object.keys(partToTickets).reduce((a, k) => a + partToTickets[k].length, 0);
+
+  const openPOs = useMemo(() => pos.filter(isOpenPO), [pos]);
 
   const createSuggestedPO = () => {
-    // Regla DEMO: incluir todo SIN STOCK + BAJO (hasta reorderTo)
-    const candidates = [...inventory]
-      .map(it => ({ it, qty: suggestedReorder(it) }))
+    // Regla DEMO: todo lo que está en o bajo el mínimo (hasta reorderTo), descontando lo ya pedido
+    const candidates = parts
+      .filter(shouldReorder)
+      .map(p => ({ partId: p.id, qty: suggestedReorderQty(p) - getOnOrderQty(p.id, pos) }))
       .filter(x => x.qty > 0);
 
     if (candidates.length === 0) {
-      fireToast('Inventario: no hay sugerencias de compra (todo OK)');
+      fireToast('Inventario: no hay sugerencias de compra (todo OK o ya pedido)');
       return;
     }
 
-    const po: PurchaseOrder = {
-      id: nextPOId(purchaseOrders),
-      createdAt: new Date().toISOString(),
-      status: 'BORRADOR',
-      items: candidates.map(x => ({ partId: x.it.id, name: x.it.name, qty: x.qty })),
+    const res = createPO({
+      items: candidates,
+      status: POStatus.DRAFT,
       notes: 'DEMO: generado por regla stock vs mínimo.'
-    };
-
-    setPurchaseOrders(prev => [po, ...prev]);
-    setActivePO(po);
-    setPoModalOpen(true);
+    });
+    if (!res.ok || !res.poId) {
+      fireToast(res.message);
+      return;
+    }
+    setActivePOId(res.poId);
     fireToast('OC (DEMO) generada a partir de stock vs mínimo');
   };
 
   const adjustInventory = (id: string, delta: number) => {
-    setInventory(prev =>
-      prev.map(it =>
-        it.id === id
-          ? {
-              ...it,
-              onHand: Math.max(0, it.onHand + delta),
-              updatedAt: new Date().toISOString()
-            }
-          : it
-      )
-    );
+    const res = adjustStock({ partId: id, delta });
+    if (!res.ok) fireToast(res.message);
   };
 
-  const receiveToReorder = (id: string) => {
-    setInventory(prev =>
-      prev.map(it => {
-        if (it.id !== id) return it;
-        const qty = suggestedReorder(it);
-        if (qty <= 0) return it;
-        return {
-          ...it,
-          onHand: it.onHand + qty,
-          updatedAt: new Date().toISOString()
-        };
-      })
-    );
+  const orderToReorder = (part: InventoryPart) => {
+    const qty = suggestedReorderQty(part) - getOnOrderQty(part.id, pos);
+    if (!shouldReorder(part) || qty <= 0) return;
+    const res = createPOForPart({ partId: part.id, qty });
+    fireToast(res.message);
+    if (res.poId) setActivePOId(res.poId);
   };
 
-  const consumeOne = (id: string) => {
-    setInventory(prev =>
-      prev.map(it => {
-        if (it.id !== id) return it;
-        return {
-          ...it,
-          onHand: Math.max(0, it.onHand - 1),
-          updatedAt: new Date().toISOString()
-        };
-      })
-    );
+  const orderForTicket = (t: Ticket, part: InventoryPart) => {
+    const res = createPOForPart({ partId: part.id, qty: t.partQty || 1, ticketId: t.id });
+    fireToast(res.message);
+    if (res.poId) setActivePOId(res.poId);
+  };
+
+  const runPOAction = (action: (poId: string) => { ok: boolean; message: string }) => {
+    if (!activePO) return;
+    fireToast(action(activePO.id).message);
+  };
+
+  const setCost = (id: string, unitCost: number) => {
+    const res = setPartUnitCost(id, unitCost);
+    if (!res.ok) fireToast(res.message);
   };
 
-  const resetInventory = () => {
-    localStorage.removeItem(INVENTORY_STORAGE_KEY);
-    setInventory(DEFAULT_INVENTORY);
-    fireToast('Inventario DEMO reiniciado');
+  const consumeOne = (id: string) => {
+    const res = consumePart({ partId: id, qty: 1, note: 'Consumo rápido desde Gerencia (DEMO)' });
+    if (!res.ok) fireToast(res.message);
   };
 
   // ---------- TOUR 60s ----------
@@ -1360,7 +2503,7 @@ export const ManagementView: React.FC = () => {
       </div>
 
       {/* KPIs */}
-      <div id="kpi-section" className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div id="kpi-section" className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <KPICard title="Pendientes (No verificados)" value={pendingCount} icon={<Clock className="w-5 h-5" />} active={pendingCount > 10} />
         <KPICard
           title="Críticos / Urgentes"
@@ -1370,8 +2513,19 @@ export const ManagementView: React.FC = () => {
         />
         <KPICard title="Bloqueados (Refacción/Proveedor)" value={blockedCount} sub="Riesgo de retraso" icon={<ShoppingBag className="w-5 h-5" />} />
         <KPICard title="Cerrados (7 días)" value={closed7d} icon={<CheckCircle className="w-5 h-5 text-emerald-500" />} />
+        <KPICard
+          title={`SLA vencidos${slaRisk ? ` · ${slaRisk} en riesgo` : ''}`}
+          value={slaBreached}
+          sub={slaCompliance}
+          icon={<Hourglass className={`w-5 h-5 ${slaBreached > 0 ? 'text-rose-500' : ''}`} />}
+          active={slaBreached > 0}
+        />
       </div>
 
+      <EscalationNotices onOpenTicket={setSelectedTicket} />
+
+      <IncidentsSection onOpenTicket={setSelectedTicket} onToast={fireToast} />
+
       {/* Recepción: huéspedes en riesgo */}
       <SectionCard
         id="guest-risk-section"
@@ -1392,7 +2546,7 @@ export const ManagementView: React.FC = () => {
               >
                 <div className="flex items-start justify-between gap-3">
                   <div>
-                    <div className="text-xs font-mono text-slate-400">{t.id}</div>
+                    <div className="text-xs font-mono text-slate-400">{folioOf(t)}</div>
                     <div className="font-bold text-slate-900">
                       Hab {t.roomNumber} · {t.asset}
                     </div>
@@ -1416,7 +2570,7 @@ export const ManagementView: React.FC = () => {
       </SectionCard>
 
       {/* Room Map */}
-      <RoomMap tickets={tickets} onSelectRoom={r => setSelectedRoom(r)} roomHot={roomHot} roomRecurrent={roomRecurrent} />
+      <RoomMap tickets={tickets} incidents={incidents} onSelectRoom={r => setSelectedRoom(r)} roomHot={roomHot} roomRecurrent={roomRecurrent} />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Left */}
@@ -1489,7 +2643,7 @@ export const ManagementView: React.FC = () => {
                           {t.isOccupied && (
                             <span className="text-[10px] uppercase bg-rose-100 text-rose-700 px-1.5 py-0.5 rounded">Ocupada</span>
                           )}
-                          <div className="text-[11px] text-slate-400 mt-1">{t.id}</div>
+                          <div className="text-[11px] text-slate-400 mt-1">{folioOf(t)}</div>
                         </td>
                         <td className="px-6 py-4 text-slate-600">
                           <span className="block text-slate-900 font-medium">{t.asset}</span>
@@ -1504,6 +2658,11 @@ export const ManagementView: React.FC = () => {
                               Antigüedad: {daysBetween(t.createdAt)}d
                             </span>
                           </div>
+                          {t.sla && (
+                            <div className="mt-2">
+                              <SlaBadge ticket={t} />
+                            </div>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -1521,12 +2680,6 @@ export const ManagementView: React.FC = () => {
                       icon={<Package className="w-5 h-5 text-slate-400" />}
                       right={
                         <div className="flex items-center gap-2">
-                          <button
-                            onClick={resetInventory}
-                            className="inline-flex items-center gap-2 px-3 py-2 rounded-full bg-white border border-slate-200 text-slate-700 text-xs font-semibold hover:bg-slate-50"
-                          >
-                            Reiniciar
-                          </button>
                           <button
                             onClick={createSuggestedPO}
                             className="inline-flex items-center gap-2 px-3 py-2 rounded-full bg-slate-900 text-white text-xs font-semibold hover:bg-slate-800"
@@ -1550,7 +2703,7 @@ export const ManagementView: React.FC = () => {
                         <div className="bg-white border border-slate-200 rounded-xl p-4">
                           <div className="text-xs font-bold text-slate-400 uppercase mb-1">Tickets ligados</div>
                           <div className="text-3xl font-black text-slate-900">
-                            {Object.values(partToTickets).reduce((a, b) => a + b.length, 0)}
+                            {linkedTicketCount}
                           </div>
                           <div className="text-[11px] text-slate-400 mt-1">Refacción ↔ ticket (visible).</div>
                         </div>
@@ -1579,17 +2732,18 @@ export const ManagementView: React.FC = () => {
                             </tr>
                           </thead>
                           <tbody className="divide-y divide-slate-100 border border-slate-200">
-                            {inventory.map(it => {
-                              const key = normalizePart(it.name);
-                              const linked = partToTickets[key] || [];
+                            {parts.map(it => {
+                              const linked = partToTickets[it.id] || [];
                               return (
                                 <InventoryRow
                                   key={it.id}
                                   item={it}
                                   linkedTickets={linked}
+                                  onOrder={getOnOrderQty(it.id, pos)}
                                   onAdjust={d => adjustInventory(it.id, d)}
-                                  onReceiveToReorder={() => receiveToReorder(it.id)}
+                                  onOrderToReorder={() => orderToReorder(it)}
                                   onQuickConsume={() => consumeOne(it.id)}
+                                  onSetCost={permissions.canManageCosts ? cost => setCost(it.id, cost) : undefined}
                                 />
                               );
                             })}
@@ -1598,11 +2752,51 @@ export const ManagementView: React.FC = () => {
                       </div>
 
                       <div className="mt-4 text-[11px] text-slate-400">
-                        *DEMO: ajustes y OC son locales para mostrar el concepto. Implementación real define aprobación, proveedor, costos y responsable.
+                        *DEMO: inventario y OC compartidos con Mantenimiento; cada ajuste, consumo y recepción queda como movimiento. Implementación real define aprobación, proveedor, costos y responsable.
                       </div>
                     </SectionCard>
                   </div>
 
+                  <IntegrityCard onToast={fireToast} />
+
+                  {/* Órdenes de compra (ciclo completo: borrador → pedido → recibido) */}
+                  <SectionCard
+                    id="po-panel"
+                    title="Órdenes de compra"
+                    subtitle="Sugeridas, por refacción o ligadas a ticket: una sola lista y un solo consecutivo."
+                    icon={<FileText className="w-5 h-5 text-slate-400" />}
+                    right={<div className="text-[11px] text-slate-400">{openPOs.length} abierta(s)</div>}
+                  >
+                    {pos.length === 0 ? (
+                      <p className="text-slate-500 text-center py-4">Aún no hay órdenes de compra.</p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {pos.map(po => (
+                          <li key={po.id}>
+                            <button
+                              onClick={() => setActivePOId(po.id)}
+                              className="w-full text-left flex items-center justify-between gap-3 border p-3 rounded-xl border-slate-200 hover:bg-slate-50"
+                            >
+                              <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs font-mono text-slate-400">{folioOf(po)}</span>
+                                  <Pill className={getPOStatusColor(po.status)}>{po.status}</Pill>
+                                </div>
+                                <div className="text-sm font-medium text-slate-900 truncate">
+                                  {po.items.map(i => `${i.partName} x${i.qty}`).join(' · ')}
+                                </div>
+                                <div className="text-[11px] text-slate-400">
+                                  {po.vendor} · {new Date(po.createdAt).toLocaleDateString()}
+                                </div>
+                              </div>
+                              <ChevronRight className="w-4 h-4 text-slate-300 shrink-0" />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </SectionCard>
+
                   {/* Lista de tickets con refacción (apoyo a buy) */}
                   <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
                     <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex items-center justify-between">
@@ -1619,9 +2813,8 @@ export const ManagementView: React.FC = () => {
                       ) : (
                         <ul className="space-y-3">
                           {partsNeeded.map(t => {
-                            const partKey = normalizePart(t.partName || '');
-                            const inv = inventoryIndex[partKey];
-                            const b = inv ? stockBadge(inv.onHand, inv.min) : null;
+                            const inv = resolveTicketPart(t);
+                            const b = inv ? getStockBadge(inv) : null;
 
                             return (
                               <li
@@ -1632,13 +2825,22 @@ export const ManagementView: React.FC = () => {
                                   <div className="flex flex-wrap items-center gap-2">
                                     <div className="font-medium text-slate-900">{t.partName || 'Refacción pendiente (DEMO)'}</div>
                                     {b ? (
-                                      <Pill className={b.cls}>{b.label}</Pill>
+                                      <Pill className={b.className}>{b.label}</Pill>
                                     ) : (
                                       <Pill className="bg-amber-50 text-amber-800 border-amber-200">NO EN CATÁLOGO</Pill>
                                     )}
                                   </div>
                                   <div className="text-xs text-slate-500 mt-1">
-                                    Ticket {t.id} (Hab {t.roomNumber})
+                                    Ticket {folioOf(t)} (Hab {t.roomNumber})
+                                    {t.poId && (
+                                      <>
+                                        {' '}
+                                        · OC{' '}
+                                        <button onClick={() => setActivePOId(t.poId!)} className="font-mono underline">
+                                          {folioOf(pos.find(p => p.id === t.poId) ?? { id: t.poId! })}
+                                        </button>
+                                      </>
+                                    )}
                                   </div>
                                 </div>
 
@@ -1649,6 +2851,14 @@ export const ManagementView: React.FC = () => {
                                   >
                                     Ver ticket
                                   </button>
+                                  {inv && !t.poId && (
+                                    <button
+                                      onClick={() => orderForTicket(t, inv)}
+                                      className="inline-flex items-center gap-2 px-3 py-2 rounded-full bg-white border border-slate-200 text-slate-700 text-xs font-semibold hover:bg-slate-100"
+                                    >
+                                      Generar OC
+                                    </button>
+                                  )}
                                   <button
                                     onClick={() => {
                                       const el = document.getElementById('inventory-panel');
@@ -1719,6 +2929,8 @@ export const ManagementView: React.FC = () => {
               </ResponsiveContainer>
             </div>
           </div>
+
+          <CostsCard />
         </div>
 
         {/* Right */}
@@ -1786,14 +2998,32 @@ export const ManagementView: React.FC = () => {
                 <div className="text-2xl font-black text-slate-900">{inventoryKPIs.low.length}</div>
               </div>
               <div className="bg-slate-50 border border-slate-200 rounded-xl p-3">
-                <div className="text-[10px] font-bold text-slate-400 uppercase">OC (DEMO)</div>
-                <div className="text-2xl font-black text-slate-900">{purchaseOrders.length}</div>
+                <div className="text-[10px] font-bold text-slate-400 uppercase">OC abiertas</div>
+                <div className="text-2xl font-black text-slate-900">{openPOs.length}</div>
               </div>
             </div>
 
             <div className="mt-3 text-[11px] text-slate-400">*Visible para Marc: evidencia “qué comprar” y el porqué.</div>
           </div>
 
+          <StateAsOfCard />
+
+          <WorkflowRulesCard />
+
+          <ChecklistTemplatesCard />
+
+          <SlaPoliciesCard />
+
+          <EscalationRulesCard />
+
+          <PriorityWeightsCard />
+
+          <LaborRatesCard />
+
+          <ReopenQualityCard />
+
+          <LaborCard />
+
           <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
             <div className="bg-slate-50 px-6 py-3 border-b border-slate-200">
               <h3 className="font-bold text-sm text-slate-800">Habitaciones Críticas</h3>
@@ -1843,7 +3073,13 @@ export const ManagementView: React.FC = () => {
       />
 
       {/* PO modal */}
-      <PurchaseOrderModal open={poModalOpen} onClose={() => setPoModalOpen(false)} po={activePO} />
+      <PurchaseOrderModal
+        po={activePO}
+        onClose={() => setActivePOId(null)}
+        onSend={() => runPOAction(sendPO)}
+        onReceive={() => runPOAction(receivePO)}
+        onCancel={() => runPOAction(cancelPO)}
+      />
 
       {/* Tour overlay */}
       <TourOverlay
@@ -1,13 +1,29 @@
 import React, { useMemo, useState } from 'react';
 import { useApp } from '../AppContext';
 import { ASSETS, ISSUE_TYPES, ROOMS } from '../constants';
-import { Impact, Role, Ticket, TicketStatus, Urgency } from '../types';
+import { Impact, Incident, Ticket, TicketStatus, Urgency } from '../types';
 import { Button } from '../components/Button';
-import { getStatusColor, getUrgencyColor } from '../utils';
-import { Copy, AlertTriangle, MessageSquareText, PlusCircle, ListChecks } from 'lucide-react';
+import { DuplicateWarning } from '../components/DuplicateWarning';
+import { PendingAttachments } from '../components/AttachmentsPanel';
+import { PreparedFile, saveFiles } from '../attachments';
+import { activeIncidents, NewTicketData, occupiedIncidentRooms, visibleNotes } from '../domain';
+import { folioOf, getStatusColor, getUrgencyColor } from '../utils';
+import { slaStatus } from '../sla';
+import { Copy, AlertTriangle, MessageSquareText, PlusCircle, ListChecks, Siren } from 'lucide-react';
 
+const timeOf = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const dayTimeOf = (ms: number) =>
+  new Date(ms).toDateString() === new Date().toDateString()
+    ? `hoy ${timeOf(ms)}`
+    : new Date(ms).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Con SLA: el compromiso del ticket (respuesta, luego solución). Vencido o en pausa no se promete hora
 const estimateETA = (t: Ticket) => {
-  // Etiquetado como DEMO/estimación, sin prometer SLA real.
+  const clock = t.sla && slaStatus(t.sla).clock;
+  if (clock && clock.remainingMs > 0 && !clock.paused && t.status !== TicketStatus.RESOLVED) {
+    return clock.kind === 'response' ? `Atención a más tardar ${dayTimeOf(clock.due)}` : `Solución estimada ${dayTimeOf(clock.due)}`;
+  }
+  // Sin SLA (tickets anteriores) o fuera de plazo: estimación general, sin prometer hora
   switch (t.status) {
     case TicketStatus.OPEN:
       return 'Estimación DEMO: asignación 30–60 min';
@@ -46,6 +62,24 @@ const guestMessage = (t: Ticket) => {
   }
 };
 
+// Falla general: el mismo aviso para cada habitación ocupada afectada (una línea por habitación)
+const incidentMessage = (i: Incident, room: string) => {
+  const base = `Hab ${room} — ${i.title}.`;
+  switch (i.status) {
+    case TicketStatus.OPEN:
+      return `${base} Es una falla general del hotel, no solo de tu habitación. Ya la estamos atendiendo.`;
+    case TicketStatus.IN_PROGRESS:
+      return `${base} Nuestro equipo está trabajando en la falla general. Te avisaremos en cuanto quede resuelta.`;
+    case TicketStatus.VENDOR:
+      return `${base} Un proveedor especializado está atendiendo la falla general. Te avisaremos en cuanto quede resuelta.`;
+    case TicketStatus.RESOLVED:
+    case TicketStatus.VERIFIED:
+      return `${base} La falla general quedó resuelta. Gracias por tu paciencia.`;
+    default:
+      return `${base} Seguimos en proceso.`;
+  }
+};
+
 const copyToClipboard = async (text: string) => {
   try {
     await navigator.clipboard.writeText(text);
@@ -67,7 +101,8 @@ const copyToClipboard = async (text: string) => {
 };
 
 export const ReceptionView: React.FC = () => {
-  const { role, addTicket, updateTicket, tickets } = useApp();
+  const { role, addTicket, addReport, addTicketAttachments, updateTicket, tickets, incidents, notifyIncidentGuests, permissions } =
+    useApp();
   const [tab, setTab] = useState<'OCCUPIED' | 'REPORT'>('OCCUPIED');
   const [toast, setToast] = useState<string>('');
 
@@ -77,7 +112,11 @@ export const ReceptionView: React.FC = () => {
   const [issue, setIssue] = useState(ISSUE_TYPES[0]);
   const [urgency, setUrgency] = useState<Urgency>(Urgency.MEDIUM);
   const [impact, setImpact] = useState<Impact>(Impact.ANNOYING);
+  const [guestVip, setGuestVip] = useState(false);
   const [desc, setDesc] = useState('');
+  const [files, setFiles] = useState<PreparedFile[]>([]);
+  // Reporte detenido por probable duplicado, a la espera de que Recepción decida
+  const [pendingReport, setPendingReport] = useState<{ data: NewTicketData; duplicates: Ticket[] } | null>(null);
 
   const occupiedActive = useMemo(() => {
     return [...tickets]
@@ -85,25 +124,59 @@ export const ReceptionView: React.FC = () => {
       .sort((a, b) => b.priorityScore - a.priorityScore);
   }, [tickets]);
 
+  // Fallas generales con huéspedes afectados: se avisa a todas las habitaciones de una vez
+  const incidentNotices = useMemo(
+    () =>
+      activeIncidents(incidents)
+        .map(i => ({ incident: i, rooms: occupiedIncidentRooms(tickets, i.id) }))
+        .filter(n => n.rooms.length > 0),
+    [incidents, tickets]
+  );
+
+  const finish = (msg: string) => {
+    // Los archivos se guardan solo si el reporte quedó registrado (nuevo o sumado a uno existente)
+    if (files.length) saveFiles(files).catch(err => console.error('[attachments]', err));
+    setPendingReport(null);
+    setDesc('');
+    setGuestVip(false);
+    setFiles([]);
+    setToast(msg);
+    setTimeout(() => setToast(''), 2500);
+    setTab('OCCUPIED');
+  };
+
   const handleCreate = (e: React.FormEvent) => {
     e.preventDefault();
-    addTicket({
+    const data: NewTicketData = {
       roomNumber: room,
       isOccupied: true,
+      ...(guestVip ? { guestVip } : {}),
       asset,
       issueType: issue,
       urgency,
       impact,
       description: desc.trim(),
-      createdBy: Role.RECEPTION,
       notes: [],
+      attachments: files.map(f => f.attachment),
       needsPart: false,
       needsVendor: false
-    });
-    setDesc('');
-    setToast(`Reporte creado para Habitación ${room}`);
-    setTimeout(() => setToast(''), 2500);
-    setTab('OCCUPIED');
+    };
+    const res = addTicket(data);
+    if (res.duplicates?.length) return setPendingReport({ data, duplicates: res.duplicates });
+    finish(`Reporte creado para Habitación ${room}`);
+  };
+
+  const joinExisting = (t: Ticket) => {
+    if (!pendingReport) return;
+    const res = addReport(t.id, pendingReport.data.description);
+    if (res.ok && files.length) addTicketAttachments(t.id, files.map(f => f.attachment));
+    finish(res.message);
+  };
+
+  const createAnyway = () => {
+    if (!pendingReport) return;
+    addTicket(pendingReport.data, { allowDuplicate: true });
+    finish(`Reporte creado para Habitación ${pendingReport.data.roomNumber}`);
   };
 
   const handleEscalateCritical = (t: Ticket) => {
@@ -112,10 +185,17 @@ export const ReceptionView: React.FC = () => {
       { urgency: Urgency.HIGH, impact: Impact.BLOCKING, isOccupied: true },
       'Escalada por Recepción: marcado como crítico (DEMO)'
     );
-    setToast(`Ticket ${t.id} escalado a crítico`);
+    setToast(`Ticket ${folioOf(t)} escalado a crítico`);
     setTimeout(() => setToast(''), 2000);
   };
 
+  const handleNotifyIncident = async (i: Incident, rooms: string[]) => {
+    const ok = await copyToClipboard(rooms.map(r => incidentMessage(i, r)).join('\n'));
+    const res = ok ? notifyIncidentGuests(i.id) : null;
+    setToast(!ok ? 'No se pudo copiar' : res?.ok ? `Mensajes copiados. ${res.message}` : res?.message ?? '');
+    setTimeout(() => setToast(''), 2500);
+  };
+
   const handleCopy = async (t: Ticket) => {
     const ok = await copyToClipboard(guestMessage(t));
     setToast(ok ? 'Mensaje copiado' : 'No se pudo copiar');
@@ -162,6 +242,33 @@ export const ReceptionView: React.FC = () => {
         </div>
       )}
 
+      {tab === 'OCCUPIED' &&
+        incidentNotices.map(({ incident, rooms }) => (
+          <div key={incident.id} className="bg-violet-50 border border-violet-200 rounded-xl p-5 flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-sm font-bold text-violet-900">
+                <Siren className="w-4 h-4" />
+                <span className="font-mono font-normal text-violet-500">{folioOf(incident)}</span>
+                Falla general: {incident.title}
+                <span className={`text-[10px] font-normal px-2 py-0.5 rounded-full border ${getStatusColor(incident.status)}`}>
+                  {incident.status}
+                </span>
+              </div>
+              <div className="text-xs text-violet-700 mt-1">
+                {rooms.length} habitación(es) ocupada(s) afectada(s): {rooms.join(', ')}
+              </div>
+              <div className="mt-3 bg-white/70 border border-violet-100 rounded-lg p-3 text-sm text-slate-800">
+                {incidentMessage(incident, rooms[0])}
+              </div>
+            </div>
+            {permissions.canNotifyGuests && (
+              <Button size="sm" className="shrink-0" onClick={() => handleNotifyIncident(incident, rooms)}>
+                <Copy className="w-4 h-4 mr-2" /> Avisar a {rooms.length} habitación(es)
+              </Button>
+            )}
+          </div>
+        ))}
+
       {tab === 'OCCUPIED' && (
         <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
           <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex items-center justify-between">
@@ -186,10 +293,11 @@ export const ReceptionView: React.FC = () => {
                 <div className="flex items-start justify-between gap-4">
                   <div className="min-w-0">
                     <div className="flex items-center gap-2 mb-1">
-                      <span className="text-xs font-mono text-slate-400">{t.id}</span>
+                      <span className="text-xs font-mono text-slate-400">{folioOf(t)}</span>
                       <span className="text-[10px] uppercase bg-rose-100 text-rose-700 px-2 py-0.5 rounded font-bold">
                         OCUPADA
                       </span>
+                      {t.guestVip && <span className="text-[10px] uppercase bg-amber-100 text-amber-800 px-2 py-0.5 rounded font-bold">VIP</span>}
                       <span className={`text-[10px] px-2 py-0.5 rounded-full border ${getStatusColor(t.status)}`}>
                         {t.status}
                       </span>
@@ -201,6 +309,14 @@ export const ReceptionView: React.FC = () => {
                     </div>
 
                     <p className="text-sm text-slate-600 mt-1">{t.description}</p>
+                    {/* Lo que Mantenimiento marcó como visible para Recepción (últimas notas) */}
+                    {visibleNotes(t, role)
+                      .slice(-2)
+                      .map(n => (
+                        <p key={n.id} className="text-xs text-slate-500 mt-1">
+                          <span className="font-semibold">{n.user}</span> · {new Date(n.date).toLocaleString()}: {n.text}
+                        </p>
+                      ))}
 
                     <div className="mt-3 bg-slate-50 border border-slate-200 rounded-lg p-3">
                       <div className="text-[11px] text-slate-500 mb-1">Mensaje sugerido al huésped (DEMO)</div>
@@ -332,6 +448,11 @@ export const ReceptionView: React.FC = () => {
               </div>
             </div>
 
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" className="rounded" checked={guestVip} onChange={e => setGuestVip(e.target.checked)} />
+              Huésped VIP <span className="text-xs text-slate-400">(sube la prioridad)</span>
+            </label>
+
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">Descripción / queja del huésped</label>
               <textarea
@@ -344,8 +465,19 @@ export const ReceptionView: React.FC = () => {
               />
             </div>
 
+            <PendingAttachments files={files} onChange={setFiles} />
+
+            {pendingReport && (
+              <DuplicateWarning
+                duplicates={pendingReport.duplicates}
+                onJoin={joinExisting}
+                onCreateAnyway={createAnyway}
+                onCancel={() => setPendingReport(null)}
+              />
+            )}
+
             <div className="pt-4 border-t border-slate-100 flex justify-end">
-              <Button type="submit" size="lg" className="w-full md:w-auto">
+              <Button type="submit" size="lg" className="w-full md:w-auto" disabled={!!pendingReport}>
                 Crear ticket (Recepción)
               </Button>
             </div>
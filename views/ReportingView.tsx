@@ -1,13 +1,17 @@
 import React, { useState } from 'react';
 import { useApp } from '../AppContext';
 import { ASSETS, ISSUE_TYPES, ROOMS } from '../constants';
-import { Impact, Role, TicketStatus, Urgency } from '../types';
+import { Impact, Role, Ticket, TicketStatus, Urgency } from '../types';
 import { Button } from '../components/Button';
+import { DuplicateWarning } from '../components/DuplicateWarning';
+import { PendingAttachments } from '../components/AttachmentsPanel';
+import { PreparedFile, saveFiles } from '../attachments';
+import { NewTicketData } from '../domain';
 import { PlusCircle, List, CheckCircle } from 'lucide-react';
-import { getStatusColor } from '../utils';
+import { folioOf, getStatusColor } from '../utils';
 
 export const ReportingView: React.FC = () => {
-    const { addTicket, role, tickets } = useApp();
+    const { addTicket, addReport, addTicketAttachments, role, tickets } = useApp();
     const [mode, setMode] = useState<'FORM' | 'LIST'>('FORM');
     const [successMsg, setSuccessMsg] = useState('');
 
@@ -19,10 +23,24 @@ export const ReportingView: React.FC = () => {
     const [impact, setImpact] = useState<Impact>(Impact.NONE);
     const [desc, setDesc] = useState('');
     const [isOccupied, setIsOccupied] = useState(false);
+    const [files, setFiles] = useState<PreparedFile[]>([]);
+    // Reporte detenido por probable duplicado, a la espera de que quien reporta decida
+    const [pendingReport, setPendingReport] = useState<{ data: NewTicketData; duplicates: Ticket[] } | null>(null);
+
+    // Reset and Show feedback
+    const finish = (msg: string) => {
+        // Los archivos se guardan solo si el reporte quedó registrado (nuevo o sumado a uno existente)
+        if (files.length) saveFiles(files).catch(err => console.error('[attachments]', err));
+        setPendingReport(null);
+        setDesc('');
+        setFiles([]);
+        setSuccessMsg(msg);
+        setTimeout(() => setSuccessMsg(''), 3000);
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        addTicket({
+        const data: NewTicketData = {
             roomNumber: room,
             asset,
             issueType: issue,
@@ -30,19 +48,30 @@ export const ReportingView: React.FC = () => {
             impact,
             description: desc,
             isOccupied,
-            createdBy: role,
             notes: [],
+            attachments: files.map(f => f.attachment),
             needsPart: false,
             needsVendor: false
-        });
-        
-        // Reset and Show feedback
-        setDesc('');
-        setSuccessMsg(`Ticket creado correctamente para Habitación ${room}`);
-        setTimeout(() => setSuccessMsg(''), 3000);
+        };
+        const res = addTicket(data);
+        if (res.duplicates?.length) return setPendingReport({ data, duplicates: res.duplicates });
+        finish(`Ticket creado correctamente para Habitación ${room}`);
     };
 
-    const myTickets = tickets.filter(t => t.createdBy === role).sort((a,b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    const joinExisting = (t: Ticket) => {
+        if (!pendingReport) return;
+        const res = addReport(t.id, pendingReport.data.description);
+        if (res.ok && files.length) addTicketAttachments(t.id, files.map(f => f.attachment));
+        finish(res.message);
+    };
+
+    const createAnyway = () => {
+        if (!pendingReport) return;
+        addTicket(pendingReport.data, { allowDuplicate: true });
+        finish(`Ticket creado correctamente para Habitación ${pendingReport.data.roomNumber}`);
+    };
+
+    const myTickets = tickets.filter(t => t.createdBy === role || t.reporters?.includes(role)).sort((a,b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
     return (
         <div className="max-w-4xl mx-auto">
@@ -167,8 +196,19 @@ export const ReportingView: React.FC = () => {
                             />
                         </div>
 
+                        <PendingAttachments files={files} onChange={setFiles} />
+
+                        {pendingReport && (
+                            <DuplicateWarning
+                                duplicates={pendingReport.duplicates}
+                                onJoin={joinExisting}
+                                onCreateAnyway={createAnyway}
+                                onCancel={() => setPendingReport(null)}
+                            />
+                        )}
+
                         <div className="pt-4 border-t border-slate-100 flex justify-end">
-                            <Button type="submit" size="lg" className="w-full md:w-auto">Crear Ticket de Mantenimiento</Button>
+                            <Button type="submit" size="lg" className="w-full md:w-auto" disabled={!!pendingReport}>Crear Ticket de Mantenimiento</Button>
                         </div>
                     </form>
                 </div>
@@ -188,7 +228,7 @@ export const ReportingView: React.FC = () => {
                         <tbody className="bg-white divide-y divide-slate-200">
                             {myTickets.map(t => (
                                 <tr key={t.id} className="hover:bg-slate-50">
-                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{t.id}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{folioOf(t)}</td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{t.roomNumber}</td>
                                     <td className="px-6 py-4 text-sm text-slate-500">
                                         <div className="font-medium text-slate-700">{t.asset}</div>
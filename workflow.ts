@@ -0,0 +1,255 @@
+// src/workflow.ts
+
+import { ChecklistItem, ChecklistTemplate, EvidenceStage, Role, Ticket, TicketStatus } from './types';
+
+// =========================
+// Flujo de estados del ticket
+// =========================
+// Tabla declarada de transiciones: de qué estados se llega a cuál, quién puede hacerlo, qué debe
+// cumplirse antes y qué pasa además del cambio de estado. domain.changeStatus la hace cumplir;
+// la UI la consulta para mostrar solo las acciones posibles (y por qué una está bloqueada).
+
+export type TransitionGuard =
+  | 'partRegistered'
+  | 'vendorRegistered'
+  | 'noOpenReservation'
+  | 'afterPhoto' // solo si la regla está activa (WorkflowRules)
+  | 'checklistComplete'
+  | 'reasonGiven';
+
+export type TransitionEffect =
+  | 'releaseReservation' // la refacción apartada regresa al disponible
+  | 'pauseTimers' // los cronómetros de mano de obra que corren se pausan
+  | 'stopTimers' // …o se terminan
+  | 'stampVerification' // verifiedBy / closedAt
+  | 'recordReopening'; // guarda el cierre deshecho, suma al contador de reaperturas y vacía el checklist
+
+export interface Transition {
+  from: TicketStatus[];
+  to: TicketStatus;
+  label: string; // texto del botón
+  action: string; // bitácora si la acción no trae una propia
+  roles: Role[];
+  fields: (keyof Ticket)[]; // datos del ticket que se capturan junto con el cambio (lo demás tiene su comando)
+  guards: TransitionGuard[];
+  effects: TransitionEffect[];
+}
+
+// Reglas opcionales del hotel (las cambia Gerencia; viajan en el registro de eventos como RulesChanged)
+export interface WorkflowRules {
+  requireAfterPhoto: boolean; // foto del "después" para poder resolver
+}
+
+export const DEFAULT_WORKFLOW_RULES: WorkflowRules = {
+  requireAfterPhoto: false,
+};
+
+export const RULE_LABELS: Record<keyof WorkflowRules, string> = {
+  requireAfterPhoto: 'Foto del "después" obligatoria para resolver',
+};
+
+// Lo que acompaña al cambio: datos capturados en la UI (refacción, proveedor…), renglones del checklist
+// marcados junto con el cambio, y las reglas y listas de verificación vigentes
+export interface TransitionInput {
+  changes?: Partial<Ticket>;
+  checklist?: Record<string, boolean>;
+  reason?: string;
+  rules?: WorkflowRules;
+  checklists?: ChecklistTemplate[];
+}
+
+export const hasAfterPhoto = (t: Ticket) =>
+  (t.attachments ?? []).some(a => a.stage === EvidenceStage.AFTER && a.mimeType.startsWith('image/'));
+
+// =========================
+// Checklist de verificación
+// =========================
+// Gerencia define una lista por activo (y, si hace falta, por tipo de falla); cada ticket usa la más
+// específica que le aplique. Los renglones marcados quedan en el ticket con autor y fecha.
+
+const item = (id: string, label: string, required = true): ChecklistItem => ({ id, label, required });
+
+export const GENERAL_CHECKLIST: ChecklistTemplate = {
+  id: 'CL-general',
+  items: [item('clean', 'El área quedó limpia'), item('working', 'El activo funciona correctamente')],
+};
+
+export const DEFAULT_CHECKLISTS: ChecklistTemplate[] = [
+  GENERAL_CHECKLIST,
+  {
+    id: 'CL-ac',
+    asset: 'Aire Acondicionado',
+    items: [
+      item('thermostat', 'El termostato responde'),
+      item('filter', 'Filtro limpio'),
+      item('no-drip', 'No gotea agua'),
+      item('clean', 'El área quedó limpia'),
+      item('noise', 'Sin ruido anormal', false),
+    ],
+  },
+  {
+    id: 'CL-plumbing',
+    asset: 'Plomería',
+    items: [
+      item('no-leak', 'Sin fugas'),
+      item('pressure', 'Presión y drenaje normales'),
+      item('clean', 'El área quedó limpia'),
+    ],
+  },
+  {
+    id: 'CL-electric',
+    asset: 'Eléctrico',
+    items: [
+      item('power', 'Enciende / hay corriente'),
+      item('covers', 'Tapas y cables asegurados'),
+      item('clean', 'El área quedó limpia'),
+    ],
+  },
+];
+
+export const checklistName = (c: Pick<ChecklistTemplate, 'asset' | 'issueType'>) =>
+  c.asset ? (c.issueType ? `${c.asset} · ${c.issueType}` : c.asset) : 'General';
+
+// La más específica: activo + tipo de falla, luego solo activo, luego la general
+export const checklistFor = (templates: ChecklistTemplate[], t: Pick<Ticket, 'asset' | 'issueType'>): ChecklistTemplate =>
+  templates.find(c => c.asset === t.asset && !!c.issueType && c.issueType === t.issueType) ??
+  templates.find(c => c.asset === t.asset && !c.issueType) ??
+  templates.find(c => !c.asset) ??
+  GENERAL_CHECKLIST;
+
+// Renglones de varios tickets a la vez (falla general), sin repetir
+export const checklistItems = (templates: ChecklistTemplate[], tickets: Pick<Ticket, 'asset' | 'issueType'>[]) => {
+  const items = new Map<string, ChecklistItem>();
+  tickets.forEach(t => checklistFor(templates, t).items.forEach(i => items.set(i.id, items.get(i.id) ?? i)));
+  return [...items.values()];
+};
+
+export const checklistResponse = (t: Ticket, itemId: string) => t.checklist?.find(r => r.itemId === itemId);
+
+// Obligatorios sin marcar. `marks` = lo marcado en la UI que aún no se guarda (se guarda con el cambio de estado)
+export const pendingChecklistItems = (t: Ticket, templates: ChecklistTemplate[], marks: Record<string, boolean> = {}) =>
+  checklistFor(templates, t).items.filter(i => i.required && !(marks[i.id] ?? checklistResponse(t, i.id)?.checked));
+
+const FIELD_ROLES = [Role.MAINTENANCE, Role.MANAGEMENT];
+
+export const TRANSITIONS: Transition[] = [
+  {
+    from: [TicketStatus.OPEN, TicketStatus.WAITING_PART, TicketStatus.VENDOR, TicketStatus.RESOLVED],
+    to: TicketStatus.IN_PROGRESS,
+    label: 'En Proceso',
+    action: `Estado cambiado a ${TicketStatus.IN_PROGRESS}`,
+    roles: FIELD_ROLES,
+    fields: [],
+    guards: [],
+    effects: [],
+  },
+  {
+    from: [TicketStatus.OPEN, TicketStatus.IN_PROGRESS, TicketStatus.VENDOR],
+    to: TicketStatus.WAITING_PART,
+    label: 'Falta Pieza',
+    action: 'Marcado espera refacción',
+    roles: FIELD_ROLES,
+    fields: ['needsPart', 'partId', 'partName', 'partQty'],
+    guards: ['partRegistered'],
+    effects: ['pauseTimers'],
+  },
+  {
+    from: [TicketStatus.OPEN, TicketStatus.IN_PROGRESS, TicketStatus.WAITING_PART],
+    to: TicketStatus.VENDOR,
+    label: 'Proveedor',
+    action: 'Marcado para proveedor',
+    roles: FIELD_ROLES,
+    fields: ['needsVendor', 'vendorType'],
+    guards: ['vendorRegistered'],
+    effects: ['releaseReservation', 'pauseTimers'],
+  },
+  {
+    from: [TicketStatus.OPEN, TicketStatus.IN_PROGRESS, TicketStatus.WAITING_PART, TicketStatus.VENDOR],
+    to: TicketStatus.RESOLVED,
+    label: 'Resolver',
+    action: 'Marcado como Resuelto — Pendiente de verificación',
+    roles: FIELD_ROLES,
+    fields: [],
+    guards: ['noOpenReservation', 'afterPhoto'],
+    effects: ['stopTimers'],
+  },
+  {
+    from: [TicketStatus.RESOLVED],
+    to: TicketStatus.VERIFIED,
+    label: 'Confirmar y Cerrar',
+    action: 'Verificado y Cerrado',
+    roles: FIELD_ROLES,
+    fields: [],
+    guards: ['checklistComplete'],
+    effects: ['stampVerification'],
+  },
+  {
+    from: [TicketStatus.VERIFIED],
+    to: TicketStatus.OPEN,
+    label: 'Reabrir',
+    action: 'Reabierto',
+    roles: [...FIELD_ROLES, Role.RECEPTION],
+    fields: [],
+    guards: ['reasonGiven'],
+    effects: ['recordReopening'],
+  },
+];
+
+const GUARDS: Record<TransitionGuard, { test: (t: Ticket, input: TransitionInput) => boolean; message: string }> = {
+  partRegistered: {
+    test: t => !!t.needsPart && !!(t.partId || t.partName),
+    message: 'Indica qué refacción falta.',
+  },
+  vendorRegistered: {
+    test: t => !!t.needsVendor && !!t.vendorType,
+    message: 'Indica el tipo de proveedor.',
+  },
+  noOpenReservation: {
+    test: t => !t.reservedQty,
+    message: 'La refacción sigue reservada: súrtela o libérala antes de resolver.',
+  },
+  afterPhoto: {
+    test: (t, input) => !input.rules?.requireAfterPhoto || hasAfterPhoto(t),
+    message: 'Sube una foto del "después" antes de resolver.',
+  },
+  checklistComplete: {
+    test: (t, input) => pendingChecklistItems(t, input.checklists ?? DEFAULT_CHECKLISTS, input.checklist).length === 0,
+    message: 'Marca los puntos obligatorios del checklist de verificación.',
+  },
+  reasonGiven: {
+    test: (_t, input) => !!input.reason?.trim(),
+    message: 'Indica el motivo de la reapertura.',
+  },
+};
+
+export interface TransitionCheck {
+  ok: boolean;
+  message: string;
+  transition?: Transition;
+}
+
+/** ¿Puede `role` llevar el ticket a `to`? Las precondiciones se evalúan con los datos que acompañan al cambio. */
+export const checkTransition = (ticket: Ticket, to: TicketStatus, role: Role, input: TransitionInput = {}): TransitionCheck => {
+  const transition = TRANSITIONS.find(tr => tr.to === to && tr.from.includes(ticket.status));
+  if (!transition) return { ok: false, message: `No se puede pasar de ${ticket.status} a ${to}.` };
+  if (!transition.roles.includes(role)) return { ok: false, message: `${role} no puede marcar ${to}.`, transition };
+  // Solo los datos propios de la transición: las precondiciones no se pueden saltar mandando reservedQty, checklist…
+  const extra = Object.keys(input.changes ?? {}).find(k => !transition.fields.includes(k as keyof Ticket));
+  if (extra) return { ok: false, message: `El dato "${extra}" no se cambia al marcar ${to}.`, transition };
+
+  const next = { ...ticket, ...input.changes };
+  const failed = transition.guards.find(g => !GUARDS[g].test(next, input));
+  if (failed) return { ok: false, message: GUARDS[failed].message, transition };
+  return { ok: true, message: transition.label, transition };
+};
+
+/** Transiciones que `role` tiene desde el estado actual (las precondiciones se revisan al confirmar). */
+export const nextTransitions = (ticket: Ticket, role: Role) =>
+  TRANSITIONS.filter(tr => tr.from.includes(ticket.status) && tr.roles.includes(role));
+
+// Falla general: el mismo flujo, aplicado a todos los tickets hijos a la vez. Sin espera de refacción
+// (las reservas son por ticket) ni reapertura (se reabre el ticket que volvió a fallar)
+export const INCIDENT_STATUSES = [TicketStatus.IN_PROGRESS, TicketStatus.VENDOR, TicketStatus.RESOLVED, TicketStatus.VERIFIED];
+
+export const nextIncidentTransitions = (status: TicketStatus, role: Role) =>
+  TRANSITIONS.filter(tr => INCIDENT_STATUSES.includes(tr.to) && tr.from.includes(status) && tr.roles.includes(role));